@@ -0,0 +1,37 @@
+import { updateData } from "@/lib/server/data-store"
+import { notFound, parseBody, respond } from "@/lib/server/api-response"
+import { requireUser } from "@/lib/server/auth"
+import { EDITOR_ROLES } from "@/lib/roles"
+import { allocationUpdateSchema } from "@/lib/api-schemas"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+export function PUT(request: Request, { params }: RouteContext) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    const input = await parseBody(request, allocationUpdateSchema)
+
+    return updateData((data) => {
+      const allocation = data.allocations.find((a) => a.id === params.id)
+      if (!allocation) throw notFound("Allocation", params.id)
+
+      Object.assign(allocation, input)
+      allocation.totalHours = allocation.weeklyHours * allocation.semesterWeeks
+      return allocation
+    })
+  })
+}
+
+export function DELETE(request: Request, { params }: RouteContext) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    return updateData((data) => {
+      if (!data.allocations.some((a) => a.id === params.id)) throw notFound("Allocation", params.id)
+
+      data.allocations = data.allocations.filter((a) => a.id !== params.id)
+      return { success: true }
+    })
+  })
+}
@@ -0,0 +1,54 @@
+import { updateData } from "@/lib/server/data-store"
+import { ApiError, parseBody, respond } from "@/lib/server/api-response"
+import { requireUser } from "@/lib/server/auth"
+import { EDITOR_ROLES } from "@/lib/roles"
+import { allocationBulkSchema } from "@/lib/api-schemas"
+import type { GradeSubjectAllocation } from "@/types/timetable"
+
+/**
+ * Creates or updates several allocations at once. An allocation matches an existing one by id,
+ * or by its (gradeId, subjectId) pair; unmatched allocations are created. Nothing is saved when
+ * any allocation references an unknown grade or subject, or would move onto another allocation's pair.
+ */
+export function POST(request: Request) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    const input = await parseBody(request, allocationBulkSchema)
+
+    return updateData((data) => {
+      input.forEach((item, index) => {
+        if (!data.grades.some((g) => g.id === item.gradeId)) {
+          throw new ApiError(400, `Allocation ${index}: unknown grade "${item.gradeId}"`)
+        }
+        if (!data.subjects.some((s) => s.id === item.subjectId)) {
+          throw new ApiError(400, `Allocation ${index}: unknown subject "${item.subjectId}"`)
+        }
+      })
+
+      return input.map(({ id, gradeId, subjectId, weeklyHours, semesterWeeks }, index) => {
+        const totalHours = weeklyHours * semesterWeeks
+        const isSamePair = (a: GradeSubjectAllocation) => a.gradeId === gradeId && a.subjectId === subjectId
+        const existing = (id && data.allocations.find((a) => a.id === id)) || data.allocations.find(isSamePair)
+
+        if (existing) {
+          if (data.allocations.some((a) => a !== existing && isSamePair(a))) {
+            throw new ApiError(409, `Allocation ${index}: this subject is already allocated to the grade`)
+          }
+          Object.assign(existing, { gradeId, subjectId, weeklyHours, semesterWeeks, totalHours })
+          return existing
+        }
+
+        const allocation: GradeSubjectAllocation = {
+          id: id || crypto.randomUUID(),
+          gradeId,
+          subjectId,
+          weeklyHours,
+          semesterWeeks,
+          totalHours,
+        }
+        data.allocations.push(allocation)
+        return allocation
+      })
+    })
+  })
+}
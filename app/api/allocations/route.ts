@@ -0,0 +1,40 @@
+import { readData, updateData } from "@/lib/server/data-store"
+import { ApiError, parseBody, respond } from "@/lib/server/api-response"
+import { requireReader, requireUser } from "@/lib/server/auth"
+import { EDITOR_ROLES } from "@/lib/roles"
+import { allocationCreateSchema } from "@/lib/api-schemas"
+import type { GradeSubjectAllocation } from "@/types/timetable"
+
+export function GET(request: Request) {
+  return respond(async () => {
+    await requireReader(request)
+    const gradeId = new URL(request.url).searchParams.get("gradeId")
+    const { allocations } = await readData()
+    return gradeId ? allocations.filter((a) => a.gradeId === gradeId) : allocations
+  })
+}
+
+export function POST(request: Request) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    const input = await parseBody(request, allocationCreateSchema)
+
+    return updateData((data) => {
+      if (!data.grades.some((g) => g.id === input.gradeId)) throw new ApiError(400, `Unknown grade "${input.gradeId}"`)
+      if (!data.subjects.some((s) => s.id === input.subjectId)) {
+        throw new ApiError(400, `Unknown subject "${input.subjectId}"`)
+      }
+      if (data.allocations.some((a) => a.gradeId === input.gradeId && a.subjectId === input.subjectId)) {
+        throw new ApiError(409, "This subject is already allocated to the grade")
+      }
+
+      const allocation: GradeSubjectAllocation = {
+        id: crypto.randomUUID(),
+        ...input,
+        totalHours: input.weeklyHours * input.semesterWeeks,
+      }
+      data.allocations.push(allocation)
+      return allocation
+    })
+  }, 201)
+}
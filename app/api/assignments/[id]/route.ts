@@ -0,0 +1,56 @@
+import { updateData } from "@/lib/server/data-store"
+import { ApiError, notFound, parseBody, respond } from "@/lib/server/api-response"
+import { requireUser } from "@/lib/server/auth"
+import { EDITOR_ROLES } from "@/lib/roles"
+import { assignmentUpdateSchema } from "@/lib/api-schemas"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+export function PUT(request: Request, { params }: RouteContext) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    const input = await parseBody(request, assignmentUpdateSchema)
+
+    return updateData((data) => {
+      const assignment = data.assignments.find((a) => a.id === params.id)
+      if (!assignment) throw notFound("Assignment", params.id)
+
+      if (input.teacherId) {
+        const teacher = data.teachers.find((t) => t.id === input.teacherId)
+        if (!teacher) throw new ApiError(400, `Unknown teacher "${input.teacherId}"`)
+        if (!teacher.subjects.includes(assignment.subjectId)) {
+          throw new ApiError(400, `${teacher.name} is not qualified to teach this subject`)
+        }
+      }
+      if (
+        input.isActive &&
+        data.assignments.some(
+          (a) =>
+            a.id !== assignment.id &&
+            a.classId === assignment.classId &&
+            a.subjectId === assignment.subjectId &&
+            a.isActive,
+        )
+      ) {
+        throw new ApiError(409, "Another active assignment already covers this class and subject")
+      }
+
+      Object.assign(assignment, input, { updatedAt: new Date().toISOString() })
+      return assignment
+    })
+  })
+}
+
+export function DELETE(request: Request, { params }: RouteContext) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    return updateData((data) => {
+      if (!data.assignments.some((a) => a.id === params.id)) throw notFound("Assignment", params.id)
+
+      data.assignments = data.assignments.filter((a) => a.id !== params.id)
+      return { success: true }
+    })
+  })
+}
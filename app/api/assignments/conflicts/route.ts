@@ -0,0 +1,13 @@
+import { readData } from "@/lib/server/data-store"
+import { respond } from "@/lib/server/api-response"
+import { requireReader } from "@/lib/server/auth"
+import { validateTeacherAssignments } from "@/lib/teacher-workload"
+
+export function GET(request: Request) {
+  return respond(async () => {
+    await requireReader(request)
+    const data = await readData()
+    const { timeSlots, periodDuration } = data.periodConfig
+    return validateTeacherAssignments({ ...data, timeSlots, periodDuration })
+  })
+}
@@ -0,0 +1,52 @@
+import { readData, updateData } from "@/lib/server/data-store"
+import { ApiError, parseBody, respond } from "@/lib/server/api-response"
+import { requireReader, requireUser } from "@/lib/server/auth"
+import { EDITOR_ROLES } from "@/lib/roles"
+import { assignmentCreateSchema } from "@/lib/api-schemas"
+import type { ClassSubjectTeacher } from "@/types/teacher-assignments"
+
+export function GET(request: Request) {
+  return respond(async () => {
+    await requireReader(request)
+    const { searchParams } = new URL(request.url)
+    const classId = searchParams.get("classId")
+    const teacherId = searchParams.get("teacherId")
+    const { assignments } = await readData()
+
+    return assignments.filter((a) => (!classId || a.classId === classId) && (!teacherId || a.teacherId === teacherId))
+  })
+}
+
+export function POST(request: Request) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    const input = await parseBody(request, assignmentCreateSchema)
+
+    return updateData((data) => {
+      const classSection = data.classSections.find((c) => c.id === input.classId)
+      const teacher = data.teachers.find((t) => t.id === input.teacherId)
+      if (!classSection) throw new ApiError(400, `Unknown class "${input.classId}"`)
+      if (!teacher) throw new ApiError(400, `Unknown teacher "${input.teacherId}"`)
+      if (!data.allocations.some((a) => a.gradeId === classSection.gradeId && a.subjectId === input.subjectId)) {
+        throw new ApiError(400, `Subject "${input.subjectId}" is not allocated to ${classSection.name}'s grade`)
+      }
+      if (!teacher.subjects.includes(input.subjectId)) {
+        throw new ApiError(400, `${teacher.name} is not qualified to teach this subject`)
+      }
+      if (data.assignments.some((a) => a.classId === input.classId && a.subjectId === input.subjectId && a.isActive)) {
+        throw new ApiError(409, `${classSection.name} already has a teacher for this subject`)
+      }
+
+      const now = new Date().toISOString()
+      const assignment: ClassSubjectTeacher = {
+        id: crypto.randomUUID(),
+        ...input,
+        isActive: true,
+        createdAt: now,
+        updatedAt: now,
+      }
+      data.assignments.push(assignment)
+      return assignment
+    })
+  }, 201)
+}
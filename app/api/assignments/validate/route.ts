@@ -0,0 +1,18 @@
+import { readData } from "@/lib/server/data-store"
+import { parseBody, respond } from "@/lib/server/api-response"
+import { requireReader } from "@/lib/server/auth"
+import { assignmentValidateSchema } from "@/lib/api-schemas"
+import { validateTeacherAssignments } from "@/lib/teacher-workload"
+
+// Checks a proposed set of assignments against the stored teachers and allocations without saving it
+export function POST(request: Request) {
+  return respond(async () => {
+    await requireReader(request)
+    const assignments = await parseBody(request, assignmentValidateSchema)
+    const data = await readData()
+    const { timeSlots, periodDuration } = data.periodConfig
+    const conflicts = validateTeacherAssignments({ ...data, assignments, timeSlots, periodDuration })
+
+    return { valid: !conflicts.some((c) => c.severity === "error"), conflicts }
+  })
+}
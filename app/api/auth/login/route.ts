@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { ApiError, parseBody, respond } from "@/lib/server/api-response"
+import { loginSchema } from "@/lib/api-schemas"
+import { createSessionCookie } from "@/lib/server/auth"
+import { findUserByEmail, toPublicUser, users, verifyPassword } from "@/lib/server/users"
+
+export function POST(request: Request) {
+  return respond(async () => {
+    const { email, password } = await parseBody(request, loginSchema)
+    const user = findUserByEmail(await users.read(), email)
+    // Same answer for an unknown email and a wrong password
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      throw new ApiError(401, "Incorrect email or password")
+    }
+    return NextResponse.json(toPublicUser(user), { headers: { "Set-Cookie": await createSessionCookie(user.id) } })
+  })
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server"
+import { respond } from "@/lib/server/api-response"
+import { clearSessionCookie } from "@/lib/server/auth"
+
+export function POST() {
+  return respond(() => NextResponse.json({ success: true }, { headers: { "Set-Cookie": clearSessionCookie() } }))
+}
@@ -0,0 +1,11 @@
+import { respond } from "@/lib/server/api-response"
+import { getSessionUser } from "@/lib/server/auth"
+import { users } from "@/lib/server/users"
+
+// The signed-in user; needsSetup is true until the first admin account exists
+export function GET(request: Request) {
+  return respond(async () => ({
+    user: await getSessionUser(request),
+    needsSetup: (await users.read()).length === 0,
+  }))
+}
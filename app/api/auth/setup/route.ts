@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { ApiError, parseBody, respond } from "@/lib/server/api-response"
+import { setupSchema } from "@/lib/api-schemas"
+import { createSessionCookie } from "@/lib/server/auth"
+import { hashPassword, toPublicUser, users, type StoredUser } from "@/lib/server/users"
+
+// Creates the first admin account and signs them in; closed once any user exists
+export function POST(request: Request) {
+  return respond(async () => {
+    const input = await parseBody(request, setupSchema)
+    const passwordHash = await hashPassword(input.password)
+
+    const user = await users.update((stored) => {
+      if (stored.length > 0) throw new ApiError(409, "Setup has already been completed")
+      const admin: StoredUser = {
+        id: crypto.randomUUID(),
+        name: input.name,
+        email: input.email,
+        role: "admin",
+        createdAt: new Date().toISOString(),
+        passwordHash,
+      }
+      stored.push(admin)
+      return admin
+    })
+
+    return NextResponse.json(toPublicUser(user), {
+      status: 201,
+      headers: { "Set-Cookie": await createSessionCookie(user.id) },
+    })
+  })
+}
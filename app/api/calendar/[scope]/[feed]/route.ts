@@ -0,0 +1,45 @@
+import { readData } from "@/lib/server/data-store"
+import { ApiError, notFound, respond } from "@/lib/server/api-response"
+import { buildCalendarFeed, getFeedEntityName, isFeedScope, verifyFeedToken } from "@/lib/server/calendar-feed"
+
+interface RouteContext {
+  params: { scope: string; feed: string }
+}
+
+// Calendar apps poll subscriptions; let them reuse a copy for 15 minutes, then revalidate with the ETag
+const CACHE_CONTROL = "private, max-age=900, must-revalidate"
+
+// GET /api/calendar/{teacher|class|room}/{id}.ics?token=...
+export function GET(request: Request, { params }: RouteContext) {
+  return respond(async () => {
+    const { scope, feed } = params
+    if (!isFeedScope(scope) || !feed.endsWith(".ics")) throw new ApiError(404, "Calendar feed not found")
+
+    const id = feed.slice(0, -".ics".length)
+    const token = new URL(request.url).searchParams.get("token")
+    if (!(await verifyFeedToken(scope, id, token))) throw new ApiError(403, "Invalid calendar feed token")
+
+    // Always the latest published version, so a draft under review does not take subscriptions down
+    const data = await readData()
+    const version = data.publishedVersions[data.publishedVersions.length - 1]
+    if (!version) throw new ApiError(404, "The timetable has not been published")
+
+    // The published name, or the current one for a teacher, class or room without lessons in the version
+    const name = (version.lookup && getFeedEntityName(version.lookup, scope, id)) || getFeedEntityName(data, scope, id)
+    if (!name) throw notFound(scope.charAt(0).toUpperCase() + scope.slice(1), id)
+
+    const { body, etag } = buildCalendarFeed(data, version, scope, id, name)
+    const headers = { ETag: etag, "Cache-Control": CACHE_CONTROL }
+    if (request.headers.get("if-none-match") === etag) {
+      return new Response(null, { status: 304, headers })
+    }
+
+    return new Response(body, {
+      headers: {
+        ...headers,
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `inline; filename="${scope}-${id}.ics"`,
+      },
+    })
+  })
+}
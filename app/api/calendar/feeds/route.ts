@@ -0,0 +1,47 @@
+import { readData } from "@/lib/server/data-store"
+import { ApiError, respond } from "@/lib/server/api-response"
+import { requireUser } from "@/lib/server/auth"
+import { EDITOR_ROLES } from "@/lib/roles"
+import { FEED_SCOPES, getFeedEntityName, getFeedToken, isFeedScope, type FeedScope } from "@/lib/server/calendar-feed"
+
+/**
+ * Subscription URLs for the calendar feeds, optionally narrowed with ?scope= and ?id=. The id does
+ * not have to exist yet, so a link can be handed out before the timetable is synced. Teachers and
+ * classes also get a link to their read-only timetable page, signed with the same token.
+ */
+export function GET(request: Request) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    const { origin, searchParams } = new URL(request.url)
+    const scope = searchParams.get("scope")
+    const id = searchParams.get("id")
+    if (scope && !isFeedScope(scope)) throw new ApiError(400, `Scope must be one of ${FEED_SCOPES.join(", ")}`)
+    if (id && !scope) throw new ApiError(400, "An id requires a scope")
+
+    const data = await readData()
+    const entityIds: Record<FeedScope, string[]> = {
+      teacher: data.teachers.map((t) => t.id),
+      class: data.classSections.map((c) => c.id),
+      room: data.classrooms.map((r) => r.id),
+    }
+    const targets = id
+      ? [{ scope: scope as FeedScope, id }]
+      : FEED_SCOPES.filter((s) => !scope || s === scope).flatMap((s) =>
+          entityIds[s].map((entityId) => ({ scope: s, id: entityId })),
+        )
+
+    return Promise.all(
+      targets.map(async (target) => {
+        const token = await getFeedToken(target.scope, target.id)
+        const url = `${origin}/api/calendar/${target.scope}/${target.id}.ics?token=${token}`
+        return {
+          ...target,
+          name: getFeedEntityName(data, target.scope, target.id) ?? null,
+          url,
+          webcalUrl: url.replace(/^https?:/, "webcal:"),
+          pageUrl: target.scope === "room" ? null : `${origin}/timetable/${target.scope}/${target.id}?token=${token}`,
+        }
+      }),
+    )
+  })
+}
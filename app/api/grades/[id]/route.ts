@@ -0,0 +1,17 @@
+import { readData } from "@/lib/server/data-store"
+import { notFound, respond } from "@/lib/server/api-response"
+import { requireReader } from "@/lib/server/auth"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+export function GET(request: Request, { params }: RouteContext) {
+  return respond(async () => {
+    await requireReader(request)
+    const data = await readData()
+    const grade = data.grades.find((g) => g.id === params.id)
+    if (!grade) throw notFound("Grade", params.id)
+    return { ...grade, sections: data.classSections.filter((c) => c.gradeId === grade.id) }
+  })
+}
@@ -0,0 +1,28 @@
+import { updateData } from "@/lib/server/data-store"
+import { ApiError, notFound, parseBody, respond } from "@/lib/server/api-response"
+import { requireUser } from "@/lib/server/auth"
+import { EDITOR_ROLES } from "@/lib/roles"
+import { sectionCreateSchema } from "@/lib/api-schemas"
+import type { ClassSection } from "@/types/timetable"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+export function POST(request: Request, { params }: RouteContext) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    const input = await parseBody(request, sectionCreateSchema)
+
+    return updateData((data) => {
+      if (!data.grades.some((g) => g.id === params.id)) throw notFound("Grade", params.id)
+      if (data.classSections.some((c) => c.gradeId === params.id && c.name === input.name)) {
+        throw new ApiError(409, `Section "${input.name}" already exists in this grade`)
+      }
+
+      const section: ClassSection = { id: crypto.randomUUID(), gradeId: params.id, ...input }
+      data.classSections.push(section)
+      return section
+    })
+  }, 201)
+}
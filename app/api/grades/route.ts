@@ -0,0 +1,34 @@
+import { readData, updateData } from "@/lib/server/data-store"
+import { ApiError, parseBody, respond } from "@/lib/server/api-response"
+import { requireReader, requireUser } from "@/lib/server/auth"
+import { EDITOR_ROLES } from "@/lib/roles"
+import { gradeCreateSchema } from "@/lib/api-schemas"
+import type { Grade } from "@/types/timetable"
+
+export function GET(request: Request) {
+  return respond(async () => {
+    await requireReader(request)
+    const data = await readData()
+    return data.grades.map((grade) => ({
+      ...grade,
+      sections: data.classSections.filter((c) => c.gradeId === grade.id),
+    }))
+  })
+}
+
+export function POST(request: Request) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    const input = await parseBody(request, gradeCreateSchema)
+
+    return updateData((data) => {
+      if (data.grades.some((g) => g.level === input.level)) {
+        throw new ApiError(409, `A grade with level ${input.level} already exists`)
+      }
+
+      const grade: Grade = { id: crypto.randomUUID(), ...input }
+      data.grades.push(grade)
+      return grade
+    })
+  }, 201)
+}
@@ -0,0 +1,16 @@
+import { parseBody, respond } from "@/lib/server/api-response"
+import { requireUser } from "@/lib/server/auth"
+import { EDITOR_ROLES } from "@/lib/roles"
+import { notificationRetrySchema } from "@/lib/api-schemas"
+import { deliverInBackground, requeueFailedNotifications } from "@/lib/server/notification-outbox"
+
+// Queues failed messages again, all of them or the given ids, even past the automatic attempt limit
+export function POST(request: Request) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    const { ids } = await parseBody(request, notificationRetrySchema)
+    const requeued = await requeueFailedNotifications(ids)
+    deliverInBackground()
+    return { requeued }
+  })
+}
@@ -0,0 +1,25 @@
+import { readData } from "@/lib/server/data-store"
+import { respond } from "@/lib/server/api-response"
+import { requireUser } from "@/lib/server/auth"
+import { EDITOR_ROLES } from "@/lib/roles"
+import { getScheduleSnapshot } from "@/lib/teacher-schedule-email"
+import { listNotifications, sendScheduleNotifications } from "@/lib/server/notification-outbox"
+
+// The outbox, newest first, without message bodies
+export function GET(request: Request) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    return listNotifications()
+  })
+}
+
+/**
+ * Queues one schedule email per teacher for the latest published version, built from the server's data
+ * like the emails sent on publish. Delivery runs in the background.
+ */
+export function POST(request: Request) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    return sendScheduleNotifications(getScheduleSnapshot(await readData()))
+  }, 201)
+}
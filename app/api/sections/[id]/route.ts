@@ -0,0 +1,45 @@
+import { updateData } from "@/lib/server/data-store"
+import { ApiError, notFound, parseBody, respond } from "@/lib/server/api-response"
+import { requireUser } from "@/lib/server/auth"
+import { EDITOR_ROLES } from "@/lib/roles"
+import { sectionUpdateSchema } from "@/lib/api-schemas"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+export function PUT(request: Request, { params }: RouteContext) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    const input = await parseBody(request, sectionUpdateSchema)
+
+    return updateData((data) => {
+      const section = data.classSections.find((c) => c.id === params.id)
+      if (!section) throw notFound("Section", params.id)
+      if (
+        input.name &&
+        data.classSections.some((c) => c.id !== section.id && c.gradeId === section.gradeId && c.name === input.name)
+      ) {
+        throw new ApiError(409, `Section "${input.name}" already exists in this grade`)
+      }
+
+      Object.assign(section, input)
+      return section
+    })
+  })
+}
+
+// Removing a section also removes its teacher assignments and timetable entries
+export function DELETE(request: Request, { params }: RouteContext) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    return updateData((data) => {
+      if (!data.classSections.some((c) => c.id === params.id)) throw notFound("Section", params.id)
+
+      data.classSections = data.classSections.filter((c) => c.id !== params.id)
+      data.assignments = data.assignments.filter((a) => a.classId !== params.id)
+      data.timetableEntries = data.timetableEntries.filter((e) => e.classId !== params.id)
+      return { success: true }
+    })
+  })
+}
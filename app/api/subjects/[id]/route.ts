@@ -0,0 +1,56 @@
+import { readData, updateData } from "@/lib/server/data-store"
+import { ApiError, notFound, parseBody, respond } from "@/lib/server/api-response"
+import { requireReader, requireUser } from "@/lib/server/auth"
+import { EDITOR_ROLES } from "@/lib/roles"
+import { subjectUpdateSchema } from "@/lib/api-schemas"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+export function GET(request: Request, { params }: RouteContext) {
+  return respond(async () => {
+    await requireReader(request)
+    const subject = (await readData()).subjects.find((s) => s.id === params.id)
+    if (!subject) throw notFound("Subject", params.id)
+    return subject
+  })
+}
+
+export function PUT(request: Request, { params }: RouteContext) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    const input = await parseBody(request, subjectUpdateSchema)
+
+    return updateData((data) => {
+      const subject = data.subjects.find((s) => s.id === params.id)
+      if (!subject) throw notFound("Subject", params.id)
+      if (input.code && data.subjects.some((s) => s.id !== subject.id && s.code === input.code)) {
+        throw new ApiError(409, `Subject code "${input.code}" is already in use`)
+      }
+
+      Object.assign(subject, input)
+      return subject
+    })
+  })
+}
+
+// Removing a subject also removes its allocations, assignments, room preferences and room requirements
+export function DELETE(request: Request, { params }: RouteContext) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    return updateData((data) => {
+      if (!data.subjects.some((s) => s.id === params.id)) throw notFound("Subject", params.id)
+
+      data.subjects = data.subjects.filter((s) => s.id !== params.id)
+      data.allocations = data.allocations.filter((a) => a.subjectId !== params.id)
+      data.assignments = data.assignments.filter((a) => a.subjectId !== params.id)
+      data.subjectRoomTypes = data.subjectRoomTypes.filter((s) => s.subjectId !== params.id)
+      data.subjectRoomRequirements = data.subjectRoomRequirements.filter((s) => s.subjectId !== params.id)
+      data.teachers.forEach((teacher) => {
+        teacher.subjects = teacher.subjects.filter((subjectId) => subjectId !== params.id)
+      })
+      return { success: true }
+    })
+  })
+}
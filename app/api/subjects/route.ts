@@ -0,0 +1,30 @@
+import { readData, updateData } from "@/lib/server/data-store"
+import { ApiError, parseBody, respond } from "@/lib/server/api-response"
+import { requireReader, requireUser } from "@/lib/server/auth"
+import { EDITOR_ROLES } from "@/lib/roles"
+import { subjectCreateSchema } from "@/lib/api-schemas"
+import type { Subject } from "@/types/timetable"
+
+export function GET(request: Request) {
+  return respond(async () => {
+    await requireReader(request)
+    return (await readData()).subjects
+  })
+}
+
+export function POST(request: Request) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    const input = await parseBody(request, subjectCreateSchema)
+
+    return updateData((data) => {
+      if (data.subjects.some((s) => s.code === input.code)) {
+        throw new ApiError(409, `Subject code "${input.code}" is already in use`)
+      }
+
+      const subject: Subject = { id: crypto.randomUUID(), ...input }
+      data.subjects.push(subject)
+      return subject
+    })
+  }, 201)
+}
@@ -0,0 +1,61 @@
+import { readData, updateData } from "@/lib/server/data-store"
+import { ApiError, notFound, parseBody, respond } from "@/lib/server/api-response"
+import { requireReader, requireUser } from "@/lib/server/auth"
+import { EDITOR_ROLES } from "@/lib/roles"
+import { teacherUpdateSchema } from "@/lib/api-schemas"
+import { calculateTeacherWorkloads } from "@/lib/teacher-workload"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+export function GET(request: Request, { params }: RouteContext) {
+  return respond(async () => {
+    await requireReader(request)
+    const data = await readData()
+    const teacher = data.teachers.find((t) => t.id === params.id)
+    if (!teacher) throw notFound("Teacher", params.id)
+
+    const [workload] = calculateTeacherWorkloads({ ...data, teachers: [teacher] })
+    return { ...teacher, currentWeeklyHours: workload.totalWeeklyHours }
+  })
+}
+
+export function PUT(request: Request, { params }: RouteContext) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    const input = await parseBody(request, teacherUpdateSchema)
+
+    return updateData((data) => {
+      const teacher = data.teachers.find((t) => t.id === params.id)
+      if (!teacher) throw notFound("Teacher", params.id)
+      if (
+        input.email &&
+        data.teachers.some((t) => t.id !== teacher.id && t.email.toLowerCase() === input.email?.toLowerCase())
+      ) {
+        throw new ApiError(409, `Email "${input.email}" is already in use`)
+      }
+      const unknownSubject = input.subjects?.find((subjectId) => !data.subjects.some((s) => s.id === subjectId))
+      if (unknownSubject) throw new ApiError(400, `Unknown subject "${unknownSubject}"`)
+
+      Object.assign(teacher, input)
+      return teacher
+    })
+  })
+}
+
+export function DELETE(request: Request, { params }: RouteContext) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    return updateData((data) => {
+      if (!data.teachers.some((t) => t.id === params.id)) throw notFound("Teacher", params.id)
+      if (data.assignments.some((a) => a.teacherId === params.id && a.isActive)) {
+        throw new ApiError(409, "Teacher still has active assignments; reassign or deactivate them first")
+      }
+
+      data.teachers = data.teachers.filter((t) => t.id !== params.id)
+      data.assignments = data.assignments.filter((a) => a.teacherId !== params.id)
+      return { success: true }
+    })
+  })
+}
@@ -0,0 +1,19 @@
+import { readData } from "@/lib/server/data-store"
+import { notFound, respond } from "@/lib/server/api-response"
+import { requireReader } from "@/lib/server/auth"
+import { calculateTeacherWorkloads } from "@/lib/teacher-workload"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+export function GET(request: Request, { params }: RouteContext) {
+  return respond(async () => {
+    await requireReader(request)
+    const data = await readData()
+    const teacher = data.teachers.find((t) => t.id === params.id)
+    if (!teacher) throw notFound("Teacher", params.id)
+
+    return calculateTeacherWorkloads({ ...data, teachers: [teacher] })[0]
+  })
+}
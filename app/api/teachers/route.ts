@@ -0,0 +1,39 @@
+import { readData, updateData } from "@/lib/server/data-store"
+import { ApiError, parseBody, respond } from "@/lib/server/api-response"
+import { requireReader, requireUser } from "@/lib/server/auth"
+import { EDITOR_ROLES } from "@/lib/roles"
+import { teacherCreateSchema } from "@/lib/api-schemas"
+import { calculateTeacherWorkloads } from "@/lib/teacher-workload"
+import type { Teacher } from "@/types/timetable"
+
+// currentWeeklyHours is derived from the active assignments rather than trusted from storage
+export function GET(request: Request) {
+  return respond(async () => {
+    await requireReader(request)
+    const data = await readData()
+    const workloads = calculateTeacherWorkloads(data)
+    return data.teachers.map((teacher, index) => ({
+      ...teacher,
+      currentWeeklyHours: workloads[index].totalWeeklyHours,
+    }))
+  })
+}
+
+export function POST(request: Request) {
+  return respond(async () => {
+    await requireUser(request, EDITOR_ROLES)
+    const input = await parseBody(request, teacherCreateSchema)
+
+    return updateData((data) => {
+      if (data.teachers.some((t) => t.email.toLowerCase() === input.email.toLowerCase())) {
+        throw new ApiError(409, `Email "${input.email}" is already in use`)
+      }
+      const unknownSubject = input.subjects.find((subjectId) => !data.subjects.some((s) => s.id === subjectId))
+      if (unknownSubject) throw new ApiError(400, `Unknown subject "${unknownSubject}"`)
+
+      const teacher: Teacher = { id: crypto.randomUUID(), ...input, currentWeeklyHours: 0 }
+      data.teachers.push(teacher)
+      return teacher
+    })
+  }, 201)
+}
@@ -0,0 +1,11 @@
+import { readData } from "@/lib/server/data-store"
+import { respond } from "@/lib/server/api-response"
+import { requireReader } from "@/lib/server/auth"
+import { calculateTeacherWorkloads } from "@/lib/teacher-workload"
+
+export function GET(request: Request) {
+  return respond(async () => {
+    await requireReader(request)
+    return calculateTeacherWorkloads(await readData())
+  })
+}
@@ -0,0 +1,47 @@
+import { readData } from "@/lib/server/data-store"
+import { ApiError, notFound, respond } from "@/lib/server/api-response"
+import { getSessionUser } from "@/lib/server/auth"
+import { getFeedEntityName, verifyFeedToken } from "@/lib/server/calendar-feed"
+import { getVersionLookup, pickVersionLookup } from "@/lib/timetable-versions"
+import type { PublishedTimetable } from "@/types/version"
+
+interface RouteContext {
+  params: { scope: string; id: string }
+}
+
+/**
+ * GET /api/timetable/{teacher|class}/{id}?token=... — the published week of one teacher or class.
+ * Signed-in users can open any of them; everyone else needs the link's token, the same one the
+ * calendar feed uses.
+ */
+export function GET(request: Request, { params }: RouteContext) {
+  return respond(async (): Promise<PublishedTimetable> => {
+    const { scope, id } = params
+    if (scope !== "teacher" && scope !== "class") throw new ApiError(404, "Timetable not found")
+
+    const token = new URL(request.url).searchParams.get("token")
+    if (!(await getSessionUser(request)) && !(await verifyFeedToken(scope, id, token))) {
+      throw new ApiError(403, "This link is not valid")
+    }
+
+    const data = await readData()
+    const version = data.publishedVersions[data.publishedVersions.length - 1]
+    if (!version) throw new ApiError(404, "The timetable has not been published")
+
+    // Names as they were published; versions from before they were kept fall back to the current records
+    const entries = version.entries.filter((entry) => (scope === "teacher" ? entry.teacherId : entry.classId) === id)
+    const lookup = pickVersionLookup(entries, version.lookup || getVersionLookup(data))
+    const name = getFeedEntityName(lookup, scope, id) || getFeedEntityName(data, scope, id)
+    if (!name) throw notFound(scope === "teacher" ? "Teacher" : "Class", id)
+
+    return {
+      scope,
+      entityId: id,
+      name,
+      versionNumber: version.number,
+      publishedAt: version.publishedAt,
+      entries,
+      ...lookup,
+    }
+  })
+}
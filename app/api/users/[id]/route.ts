@@ -0,0 +1,52 @@
+import { ApiError, notFound, parseBody, respond } from "@/lib/server/api-response"
+import { mergedUserSchema, userUpdateSchema } from "@/lib/api-schemas"
+import { requireUser } from "@/lib/server/auth"
+import { findUserByEmail, hashPassword, toPublicUser, users, type StoredUser } from "@/lib/server/users"
+
+interface RouteContext {
+  params: { id: string }
+}
+
+// An admin always remains, so nobody can lock everyone out
+const hasOtherAdmin = (stored: StoredUser[], id: string) => stored.some((u) => u.role === "admin" && u.id !== id)
+
+export function PUT(request: Request, { params }: RouteContext) {
+  return respond(async () => {
+    await requireUser(request, ["admin"])
+    const { password, ...input } = await parseBody(request, userUpdateSchema)
+    const passwordHash = password ? await hashPassword(password) : undefined
+
+    const user = await users.update((stored) => {
+      const existing = stored.find((u) => u.id === params.id)
+      if (!existing) throw notFound("User", params.id)
+      if (input.email && (findUserByEmail(stored, input.email)?.id ?? existing.id) !== existing.id) {
+        throw new ApiError(409, `Email "${input.email}" is already in use`)
+      }
+      if (input.role && input.role !== "admin" && existing.role === "admin" && !hasOtherAdmin(stored, existing.id)) {
+        throw new ApiError(409, "The last admin cannot change role")
+      }
+
+      mergedUserSchema.parse({ ...existing, ...input })
+      Object.assign(existing, input, passwordHash ? { passwordHash } : {})
+      return existing
+    })
+    return toPublicUser(user)
+  })
+}
+
+export function DELETE(request: Request, { params }: RouteContext) {
+  return respond(async () => {
+    const currentUser = await requireUser(request, ["admin"])
+    if (currentUser.id === params.id) throw new ApiError(409, "You cannot delete your own account")
+
+    return users.update((stored) => {
+      const index = stored.findIndex((u) => u.id === params.id)
+      if (index === -1) throw notFound("User", params.id)
+      if (stored[index].role === "admin" && !hasOtherAdmin(stored, params.id)) {
+        throw new ApiError(409, "The last admin cannot be deleted")
+      }
+      stored.splice(index, 1)
+      return { success: true }
+    })
+  })
+}
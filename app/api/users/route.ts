@@ -0,0 +1,32 @@
+import { ApiError, parseBody, respond } from "@/lib/server/api-response"
+import { userCreateSchema } from "@/lib/api-schemas"
+import { requireUser } from "@/lib/server/auth"
+import { findUserByEmail, hashPassword, toPublicUser, users, type StoredUser } from "@/lib/server/users"
+
+export function GET(request: Request) {
+  return respond(async () => {
+    await requireUser(request, ["admin"])
+    return (await users.read()).map(toPublicUser)
+  })
+}
+
+export function POST(request: Request) {
+  return respond(async () => {
+    await requireUser(request, ["admin"])
+    const { password, ...input } = await parseBody(request, userCreateSchema)
+    const passwordHash = await hashPassword(password)
+
+    const user = await users.update((stored) => {
+      if (findUserByEmail(stored, input.email)) throw new ApiError(409, `Email "${input.email}" is already in use`)
+      const created: StoredUser = {
+        id: crypto.randomUUID(),
+        ...input,
+        createdAt: new Date().toISOString(),
+        passwordHash,
+      }
+      stored.push(created)
+      return created
+    })
+    return toPublicUser(user)
+  }, 201)
+}
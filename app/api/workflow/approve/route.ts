@@ -0,0 +1,25 @@
+import { updateData } from "@/lib/server/data-store"
+import { ApiError, parseBody, respond } from "@/lib/server/api-response"
+import { requireUser } from "@/lib/server/auth"
+import { canReview } from "@/lib/roles"
+import { workflowApproveSchema } from "@/lib/api-schemas"
+import { approveDepartment, getApproveError } from "@/lib/publication-workflow"
+
+// A head of department signs off their department's lessons
+export function POST(request: Request) {
+  return respond(async () => {
+    const user = await requireUser(request, ["admin", "head_of_department"])
+    const { department } = await parseBody(request, workflowApproveSchema)
+    if (!canReview(user, department)) throw new ApiError(403, `Only the head of ${department} can approve it`)
+
+    return updateData((data) => {
+      const error = getApproveError(data.workflow)
+      if (error) throw new ApiError(409, error)
+      if (!data.workflow.requiredDepartments.includes(department)) {
+        throw new ApiError(400, `${department} has no lessons to review`)
+      }
+      data.workflow = approveDepartment(data.workflow, department, user)
+      return data.workflow
+    })
+  })
+}
@@ -0,0 +1,36 @@
+import { updateData } from "@/lib/server/data-store"
+import { ApiError, respond } from "@/lib/server/api-response"
+import { requireUser } from "@/lib/server/auth"
+import { EDITOR_ROLES } from "@/lib/roles"
+import { getPublishError } from "@/lib/publication-workflow"
+import { createPublishedVersion, getVersionLookup } from "@/lib/timetable-versions"
+import { getScheduleSnapshot } from "@/lib/teacher-schedule-email"
+import { sendScheduleNotifications } from "@/lib/server/notification-outbox"
+
+/**
+ * Publishes the lessons that were approved as a new version, then emails the teachers whose
+ * lessons changed since the previous version (everyone on the first publish).
+ */
+export function POST(request: Request) {
+  return respond(async () => {
+    const user = await requireUser(request, EDITOR_ROLES)
+
+    const { published, previousVersion } = await updateData((data) => {
+      const { workflow } = data
+      const error = getPublishError(workflow)
+      if (error) throw new ApiError(409, error)
+      // getPublishError has checked that the submitted entries are there
+      const entries = workflow.submittedEntries || []
+
+      const previousVersion = data.publishedVersions[data.publishedVersions.length - 1]
+      const version = createPublishedVersion(data.publishedVersions, entries, user.name, getVersionLookup(data))
+      data.timetableEntries = entries
+      data.publishedVersions = [...data.publishedVersions, version]
+      data.workflow = { ...workflow, status: "published" }
+      return { published: data, previousVersion }
+    })
+
+    const notifications = await sendScheduleNotifications(getScheduleSnapshot(published, previousVersion))
+    return { workflow: published.workflow, publishedVersions: published.publishedVersions, notifications }
+  })
+}
@@ -0,0 +1,22 @@
+import { updateData } from "@/lib/server/data-store"
+import { ApiError, parseBody, respond } from "@/lib/server/api-response"
+import { requireUser } from "@/lib/server/auth"
+import { canReview } from "@/lib/roles"
+import { workflowChangesSchema } from "@/lib/api-schemas"
+import { getChangeRequestError, requestChanges } from "@/lib/publication-workflow"
+
+// Sends the timetable back to draft with a comment for the timetablers
+export function POST(request: Request) {
+  return respond(async () => {
+    const user = await requireUser(request, ["admin", "head_of_department"])
+    const { department, comment } = await parseBody(request, workflowChangesSchema)
+    if (!canReview(user, department)) throw new ApiError(403, `Only the head of ${department} can request changes`)
+
+    return updateData((data) => {
+      const error = getChangeRequestError(data.workflow)
+      if (error) throw new ApiError(409, error)
+      data.workflow = requestChanges(data.workflow, department, comment, user)
+      return data.workflow
+    })
+  })
+}
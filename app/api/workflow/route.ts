@@ -0,0 +1,20 @@
+import { readData } from "@/lib/server/data-store"
+import { respond } from "@/lib/server/api-response"
+import { requireUser } from "@/lib/server/auth"
+
+// The workflow with the submitted lessons, and the names needed to show them to reviewers
+export function GET(request: Request) {
+  return respond(async () => {
+    await requireUser(request)
+    const data = await readData()
+    return {
+      workflow: data.workflow,
+      publishedVersions: data.publishedVersions,
+      subjects: data.subjects,
+      teachers: data.teachers,
+      classSections: data.classSections,
+      classrooms: data.classrooms,
+      timeSlots: data.periodConfig.timeSlots,
+    }
+  })
+}
@@ -0,0 +1,42 @@
+import { updateData } from "@/lib/server/data-store"
+import { parseBody, respond } from "@/lib/server/api-response"
+import { requireUser } from "@/lib/server/auth"
+import { EDITOR_ROLES } from "@/lib/roles"
+import { projectSubmitSchema } from "@/lib/api-schemas"
+import { submitForReview } from "@/lib/publication-workflow"
+
+// Uploaded records replace the stored ones with the same id; stored records the workspace does not have are kept
+const mergeById = <T extends { id: string }>(stored: T[], uploaded: T[]) => [
+  ...stored.map((record) => uploaded.find((u) => u.id === record.id) || record),
+  ...uploaded.filter((record) => !stored.some((s) => s.id === record.id)),
+]
+
+/**
+ * Uploads the workspace and starts a review of its lessons; resubmitting discards earlier approvals.
+ * Records are merged so those created through the REST API survive, while the lessons, periods and
+ * calendar are the workspace's own.
+ */
+export function POST(request: Request) {
+  return respond(async () => {
+    const user = await requireUser(request, EDITOR_ROLES)
+    const project = await parseBody(request, projectSubmitSchema)
+
+    return updateData((data) => {
+      data.subjects = mergeById(data.subjects, project.subjects)
+      data.grades = mergeById(data.grades, project.grades)
+      data.classSections = mergeById(data.classSections, project.classSections)
+      data.teachers = mergeById(data.teachers, project.teachers)
+      data.allocations = mergeById(data.allocations, project.allocations)
+      data.assignments = mergeById(data.assignments, project.assignments)
+      data.classrooms = mergeById(data.classrooms, project.classrooms)
+      data.roomTypes = mergeById(data.roomTypes, project.roomTypes)
+      data.subjectRoomTypes = mergeById(data.subjectRoomTypes, project.subjectRoomTypes)
+      data.subjectRoomRequirements = mergeById(data.subjectRoomRequirements, project.subjectRoomRequirements)
+      data.periodConfig = project.periodConfig
+      data.timetableEntries = project.timetableEntries
+      data.calendarSettings = project.calendarSettings
+      data.workflow = submitForReview(project.timetableEntries, data.subjects, user)
+      return data.workflow
+    })
+  })
+}
@@ -0,0 +1,23 @@
+"use client"
+
+import { ClassManagement } from "@/components/class-management"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
+
+export default function ClassesPage() {
+  const { isLoaded } = useTimetableStore()
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="container mx-auto py-8 bg-white">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold">Grades & Classes</h1>
+          <p className="text-muted-foreground mt-2">
+            Manage grades and their class sections, including student counts used for room capacity checks
+          </p>
+        </div>
+
+        {isLoaded && <ClassManagement />}
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,11 @@
 "use client"
 
 import { ClassroomManagement } from "@/components/classroom-management"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
 
 export default function ClassroomsPage() {
+  const { isLoaded } = useTimetableStore()
+
   return (
     <div className="min-h-screen bg-white">
       <div className="container mx-auto py-8 bg-white">
@@ -13,7 +16,7 @@ export default function ClassroomsPage() {
           </p>
         </div>
 
-        <ClassroomManagement />
+        {isLoaded && <ClassroomManagement />}
       </div>
     </div>
   )
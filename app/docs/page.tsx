@@ -904,11 +904,15 @@ const modules: ModuleDoc[] = [
           { name: "roomId", type: "UUID", required: true, description: "Reference to room" },
           { name: "roomName", type: "string", required: true, description: "Room name (denormalized)" },
           { name: "roomType", type: "string", required: true, description: "Room type name" },
-          { name: "totalSlots", type: "integer", required: true, description: "Total available slots" },
-          { name: "occupiedSlots", type: "integer", required: true, description: "Slots in use" },
+          { name: "capacity", type: "integer", required: true, description: "Seats in the room" },
+          { name: "totalSlots", type: "integer", required: true, description: "Configured periods of the week" },
+          { name: "occupiedSlots", type: "integer", required: true, description: "Periods in use" },
           { name: "utilizationPercentage", type: "float", required: true, description: "Occupancy rate" },
-          { name: "peakHours", type: "string[]", required: true, description: "Busiest time slots" },
-          { name: "conflicts", type: "integer", required: true, description: "Number of conflicts" },
+          { name: "seatFillPercentage", type: "float", required: true, description: "Average class size vs capacity" },
+          { name: "overCapacityLessons", type: "integer", required: true, description: "Lessons over capacity" },
+          { name: "conflicts", type: "integer", required: true, description: "Double-booked periods" },
+          { name: "status", type: "enum", required: true, description: "under_used | balanced | over_subscribed" },
+          { name: "occupancy", type: "JSON", required: true, description: "Lessons per day and period" },
         ],
         relationships: [{ entity: "Classroom", type: "One-to-One", description: "For a room" }],
       },
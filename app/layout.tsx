@@ -6,7 +6,7 @@ import { ThemeProvider } from "@/components/theme-provider"
 import { Toaster } from "@/components/ui/toaster"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
-import { BookOpen, Calendar, Clock, Building, FileText } from "lucide-react"
+import { BookOpen, Calendar, Clock, Building, FileText, GraduationCap } from "lucide-react"
 
 const inter = Inter({ subsets: ["latin"] })
 
@@ -25,7 +25,7 @@ export default function RootLayout({
     <html lang="en" suppressHydrationWarning>
       <body className={`${inter.className} bg-white`}>
         <ThemeProvider attribute="class" defaultTheme="light" enableSystem={false} disableTransitionOnChange>
-          <nav className="border-b bg-white backdrop-blur">
+          <nav className="border-b bg-white backdrop-blur print:hidden">
             <div className="container mx-auto px-4 py-3">
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-6">
@@ -39,6 +39,12 @@ export default function RootLayout({
                         Subjects
                       </Link>
                     </Button>
+                    <Button variant="ghost" size="sm" asChild>
+                      <Link href="/classes" className="flex items-center gap-2">
+                        <GraduationCap className="h-4 w-4" />
+                        Classes
+                      </Link>
+                    </Button>
                     <Button variant="ghost" size="sm" asChild>
                       <Link href="/periods" className="flex items-center gap-2">
                         <Clock className="h-4 w-4" />
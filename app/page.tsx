@@ -1,47 +1,68 @@
 "use client"
 
 import { useState } from "react"
+import Link from "next/link"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Settings, Calendar, Download, CheckCircle, Users, UserCheck } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Settings, Calendar, Download, Users, UserCheck, LogOut, Building } from "lucide-react"
 import { SubjectSetup } from "@/components/subject-setup"
 import { TimetableGrid } from "@/components/timetable-grid"
+import { RoomAssignmentEngine } from "@/components/room-assignment-engine"
 //import { ExportOptions } from "@/components/export-options"
 import { EnhancedExportOptions } from "@/components/enhanced-export-options"
+import { SpreadsheetImport } from "@/components/spreadsheet-import"
+import { NotificationOutbox } from "@/components/notification-outbox"
+import { PublishedVersions } from "@/components/published-versions"
+import { PublicationWorkflowPanel } from "@/components/publication-workflow-panel"
+import { SignIn } from "@/components/sign-in"
+import { UserManagement } from "@/components/user-management"
 
 import { TeacherAssignmentManager } from "@/components/teacher-assignment-manager"
 import { TeacherSubjectManager } from "@/components/teacher-subject-manager"
-import type { GradeSubjectAllocation, TimetableEntry, ClassSubjectTeacher, Teacher } from "@/types/timetable"
-import {
-  defaultGradeSubjectAllocations,
-  defaultClassSubjectTeachers,
-  teachers as initialTeachers,
-} from "@/lib/timetable-data"
+import { ProjectManager } from "@/components/project-manager"
+import { getStoreData, useTimetableStore } from "@/hooks/use-timetable-store"
+import { useAuth } from "@/hooks/use-auth"
+import { submitForReview } from "@/hooks/use-publication-workflow"
+import { canEdit, ROLE_LABELS } from "@/lib/roles"
+import { WORKFLOW_STATUS_LABELS } from "@/lib/publication-workflow"
+import type { TimetableEntry } from "@/types/timetable"
 
 export default function TimetableBuilder() {
-  const [allocations, setAllocations] = useState<GradeSubjectAllocation[]>(defaultGradeSubjectAllocations)
-  const [timetableEntries, setTimetableEntries] = useState<TimetableEntry[]>([])
-  const [isPublished, setIsPublished] = useState(false)
-  const [assignments, setAssignments] = useState<ClassSubjectTeacher[]>(defaultClassSubjectTeachers)
-  const [teachers, setTeachers] = useState<Teacher[]>(initialTeachers)
-
-  const handleSaveAllocations = (newAllocations: GradeSubjectAllocation[]) => {
-    setAllocations(newAllocations)
-  }
+  const { allocations, assignments, teachers, timetableEntries, publishedVersions, workflow, isLoaded, setData } =
+    useTimetableStore()
+  const { user, isLoaded: isAuthLoaded, signOut } = useAuth()
+  // Bumped when a saved project is opened so drafts (e.g. allocations) are re-read from the store
+  const [workspaceRevision, setWorkspaceRevision] = useState(0)
+  // The class or teacher open in the grid, so exports and share links default to it
+  const [gridViewMode, setGridViewMode] = useState<"class" | "teacher" | "room">("class")
+  const [gridEntity, setGridEntity] = useState("")
+  const [isVerticalLayout, setIsVerticalLayout] = useState(true)
 
-  const handlePublishTimetable = (entries: TimetableEntry[]) => {
-    setTimetableEntries(entries)
-    setIsPublished(true)
+  // Heads of department review what is submitted; publishing happens once every department has approved
+  const handleSubmitForReview = async (entries: TimetableEntry[]) => {
+    setData("timetableEntries", entries)
+    try {
+      await submitForReview(getStoreData())
+      alert("Timetable submitted for review. Publish it from Export & Publish once every department has approved.")
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Could not submit the timetable. Please try again.")
+    }
   }
 
-  const handleAssignmentsChange = (newAssignments: ClassSubjectTeacher[]) => {
-    setAssignments(newAssignments)
+  const handleSignOut = async () => {
+    try {
+      await signOut()
+    } catch (error) {
+      console.error("Error signing out:", error)
+    }
   }
 
-  const handleTeachersChange = (newTeachers: Teacher[]) => {
-    setTeachers(newTeachers)
-  }
+  if (!isAuthLoaded) return null
+  if (!user) return <SignIn />
+
+  const isEditor = canEdit(user)
 
   return (
     <div className="min-h-screen bg-white">
@@ -53,95 +74,149 @@ export default function TimetableBuilder() {
               <p className="text-muted-foreground mt-2">Create and manage weekly schedules for classes and teachers</p>
             </div>
             <div className="flex items-center gap-2">
-              {isPublished && (
-                <Badge variant="default" className="flex items-center gap-1">
-                  <CheckCircle className="h-3 w-3" />
-                  Published
-                </Badge>
+              {isEditor && (
+                <>
+                  <ProjectManager onProjectOpened={() => setWorkspaceRevision((revision) => revision + 1)} />
+                  <Badge variant={workflow.status === "published" ? "default" : "outline"}>
+                    {WORKFLOW_STATUS_LABELS[workflow.status]}
+                  </Badge>
+                  <Badge variant="outline">{timetableEntries.length} Schedule Entries</Badge>
+                </>
               )}
-              <Badge variant="outline">{timetableEntries.length} Schedule Entries</Badge>
+              {user.role === "admin" && <UserManagement />}
+              <span className="text-sm ml-2">{user.name}</span>
+              <Badge variant="secondary">{ROLE_LABELS[user.role]}</Badge>
+              <Button variant="ghost" size="sm" onClick={handleSignOut} title="Sign out">
+                <LogOut className="h-4 w-4" />
+              </Button>
             </div>
           </div>
         </div>
 
-        <Tabs defaultValue="setup" className="space-y-1 shadow-xs py-0 my-0 mx-0 px-0 border-0">
-          <TabsList className="grid w-full grid-cols-5">
-            <TabsTrigger value="setup" className="flex items-center gap-2">
-              <Settings className="h-4 w-4" />
-              Subject Setup
-            </TabsTrigger>
-            <TabsTrigger value="teachers" className="flex items-center gap-2">
-              <UserCheck className="h-4 w-4" />
-              Teacher Subjects
-            </TabsTrigger>
-            <TabsTrigger value="assignments" className="flex items-center gap-2">
-              <Users className="h-4 w-4" />
-              Class Assignments
-            </TabsTrigger>
-            <TabsTrigger value="timetable" className="flex items-center gap-2">
-              <Calendar className="h-4 w-4" />
-              Timetable Builder
-            </TabsTrigger>
-            <TabsTrigger value="export" className="flex items-center gap-2">
-              <Download className="h-4 w-4" />
-              Export & Publish
-            </TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="setup">
-            <SubjectSetup onSave={handleSaveAllocations} />
-          </TabsContent>
-
-          <TabsContent value="teachers">
-            <TeacherSubjectManager onTeachersChange={handleTeachersChange} />
-          </TabsContent>
-
-          <TabsContent value="assignments">
-            <TeacherAssignmentManager allocations={allocations} onAssignmentsChange={handleAssignmentsChange} />
-          </TabsContent>
-
-          <TabsContent value="timetable">
-            <TimetableGrid allocations={allocations} assignments={assignments} onPublish={handlePublishTimetable} />
-          </TabsContent>
-
-          <TabsContent value="export">
-            <EnhancedExportOptions timetableEntries={timetableEntries} isPublished={isPublished} />
-          </TabsContent>
-        </Tabs>
+        {!isEditor && (
+          <div className="space-y-6">
+            {user.teacherId && (
+              <Button variant="outline" asChild>
+                <Link href={`/timetable/teacher/${user.teacherId}`}>
+                  <Calendar className="h-4 w-4 mr-2" />
+                  My Timetable
+                </Link>
+              </Button>
+            )}
+            <PublicationWorkflowPanel />
+            <PublishedVersions />
+          </div>
+        )}
+
+        {isEditor && isLoaded && (
+          <Tabs
+            key={workspaceRevision}
+            defaultValue="setup"
+            className="space-y-1 shadow-xs py-0 my-0 mx-0 px-0 border-0"
+          >
+            <TabsList className="grid w-full grid-cols-6">
+              <TabsTrigger value="setup" className="flex items-center gap-2">
+                <Settings className="h-4 w-4" />
+                Subject Setup
+              </TabsTrigger>
+              <TabsTrigger value="teachers" className="flex items-center gap-2">
+                <UserCheck className="h-4 w-4" />
+                Teacher Subjects
+              </TabsTrigger>
+              <TabsTrigger value="assignments" className="flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                Class Assignments
+              </TabsTrigger>
+              <TabsTrigger value="timetable" className="flex items-center gap-2">
+                <Calendar className="h-4 w-4" />
+                Timetable Builder
+              </TabsTrigger>
+              <TabsTrigger value="rooms" className="flex items-center gap-2">
+                <Building className="h-4 w-4" />
+                Rooms
+              </TabsTrigger>
+              <TabsTrigger value="export" className="flex items-center gap-2">
+                <Download className="h-4 w-4" />
+                Export & Publish
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="setup">
+              <SubjectSetup />
+            </TabsContent>
+
+            <TabsContent value="teachers">
+              <TeacherSubjectManager />
+            </TabsContent>
+
+            <TabsContent value="assignments">
+              <TeacherAssignmentManager />
+            </TabsContent>
+
+            <TabsContent value="timetable">
+              <TimetableGrid
+                onSubmitForReview={handleSubmitForReview}
+                onViewModeChange={setGridViewMode}
+                onEntityChange={setGridEntity}
+                onLayoutChange={setIsVerticalLayout}
+              />
+            </TabsContent>
+
+            <TabsContent value="rooms">
+              <RoomAssignmentEngine />
+            </TabsContent>
+
+            <TabsContent value="export" className="space-y-6">
+              <PublicationWorkflowPanel />
+              <EnhancedExportOptions
+                timetableEntries={publishedVersions[publishedVersions.length - 1]?.entries || []}
+                isPublished={workflow.status === "published"}
+                selectedEntity={gridEntity || undefined}
+                viewMode={gridViewMode}
+                isVerticalLayout={isVerticalLayout}
+              />
+              <PublishedVersions />
+              <NotificationOutbox />
+              <SpreadsheetImport />
+            </TabsContent>
+          </Tabs>
+        )}
 
         {/* Quick Stats */}
-        <div className="mt-8 grid grid-cols-1 md:grid-cols-5 gap-4">
-          <Card>
-            <CardContent className="pt-6">
-              <div className="text-2xl font-bold">{teachers.length}</div>
-              <p className="text-xs text-muted-foreground">Teachers</p>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardContent className="pt-6">
-              <div className="text-2xl font-bold">{allocations.length}</div>
-              <p className="text-xs text-muted-foreground">Subject Allocations</p>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardContent className="pt-6">
-              <div className="text-2xl font-bold">{assignments.filter((a) => a.isActive).length}</div>
-              <p className="text-xs text-muted-foreground">Class Assignments</p>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardContent className="pt-6">
-              <div className="text-2xl font-bold">{timetableEntries.length}</div>
-              <p className="text-xs text-muted-foreground">Schedule Entries</p>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardContent className="pt-6">
-              <div className="text-2xl font-bold">{isPublished ? "Active" : "Draft"}</div>
-              <p className="text-xs text-muted-foreground">Timetable Status</p>
-            </CardContent>
-          </Card>
-        </div>
+        {isEditor && (
+          <div className="mt-8 grid grid-cols-1 md:grid-cols-5 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-2xl font-bold">{teachers.length}</div>
+                <p className="text-xs text-muted-foreground">Teachers</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-2xl font-bold">{allocations.length}</div>
+                <p className="text-xs text-muted-foreground">Subject Allocations</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-2xl font-bold">{assignments.filter((a) => a.isActive).length}</div>
+                <p className="text-xs text-muted-foreground">Class Assignments</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-2xl font-bold">{timetableEntries.length}</div>
+                <p className="text-xs text-muted-foreground">Schedule Entries</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-2xl font-bold">{WORKFLOW_STATUS_LABELS[workflow.status]}</div>
+                <p className="text-xs text-muted-foreground">Timetable Status</p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
       </div>
     </div>
   )
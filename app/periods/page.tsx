@@ -1,8 +1,11 @@
 "use client"
 
 import { PeriodConfiguration } from "@/components/period-configuration"
+import { usePeriodConfig } from "@/hooks/use-period-config"
 
 export default function PeriodsPage() {
+  const { config, isLoaded, updateConfig } = usePeriodConfig()
+
   return (
     <div className="min-h-screen bg-white">
       <div className="container mx-auto py-8 bg-white">
@@ -13,7 +16,7 @@ export default function PeriodsPage() {
           </p>
         </div>
 
-        <PeriodConfiguration />
+        {isLoaded && <PeriodConfiguration initialConfig={config} onConfigurationChange={updateConfig} />}
       </div>
     </div>
   )
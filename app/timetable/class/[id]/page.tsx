@@ -0,0 +1,17 @@
+"use client"
+
+import { PublishedTimetableView } from "@/components/published-timetable-view"
+
+interface ClassTimetablePageProps {
+  params: { id: string }
+}
+
+export default function ClassTimetablePage({ params }: ClassTimetablePageProps) {
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="container mx-auto py-8 bg-white print:py-0">
+        <PublishedTimetableView scope="class" id={params.id} />
+      </div>
+    </div>
+  )
+}
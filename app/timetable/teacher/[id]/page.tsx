@@ -0,0 +1,17 @@
+"use client"
+
+import { PublishedTimetableView } from "@/components/published-timetable-view"
+
+interface TeacherTimetablePageProps {
+  params: { id: string }
+}
+
+export default function TeacherTimetablePage({ params }: TeacherTimetablePageProps) {
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="container mx-auto py-8 bg-white print:py-0">
+        <PublishedTimetableView scope="teacher" id={params.id} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,153 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Plus, Trash2 } from "lucide-react"
+import type { CalendarSettings, Holiday } from "@/types/calendar"
+import { isValidTimeZone } from "@/lib/ics-calendar"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
+
+// Semester dates, time zone and holidays used when exporting calendars
+export function CalendarSettingsForm() {
+  const { calendarSettings, setData } = useTimetableStore()
+  const [newHoliday, setNewHoliday] = useState({ name: "", startDate: "", endDate: "" })
+
+  const timeZones = useMemo(() => {
+    try {
+      return Intl.supportedValuesOf("timeZone")
+    } catch {
+      return []
+    }
+  }, [])
+
+  const updateSettings = (updates: Partial<CalendarSettings>) => {
+    setData("calendarSettings", { ...calendarSettings, ...updates })
+  }
+
+  const addHoliday = () => {
+    if (!newHoliday.name || !newHoliday.startDate) {
+      alert("Please enter a holiday name and start date")
+      return
+    }
+    const endDate = newHoliday.endDate || newHoliday.startDate
+    if (endDate < newHoliday.startDate) {
+      alert("The holiday cannot end before it starts")
+      return
+    }
+
+    const holiday: Holiday = {
+      id: crypto.randomUUID(),
+      name: newHoliday.name,
+      startDate: newHoliday.startDate,
+      endDate,
+    }
+    updateSettings({
+      holidays: [...calendarSettings.holidays, holiday].sort((a, b) => a.startDate.localeCompare(b.startDate)),
+    })
+    setNewHoliday({ name: "", startDate: "", endDate: "" })
+  }
+
+  const removeHoliday = (id: string) => {
+    updateSettings({ holidays: calendarSettings.holidays.filter((holiday) => holiday.id !== id) })
+  }
+
+  const hasInvalidRange = calendarSettings.semesterEnd < calendarSettings.semesterStart
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label htmlFor="semester-start" className="text-sm font-medium">
+            Semester Start
+          </Label>
+          <Input
+            id="semester-start"
+            type="date"
+            value={calendarSettings.semesterStart}
+            onChange={(e) => e.target.value && updateSettings({ semesterStart: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="semester-end" className="text-sm font-medium">
+            Semester End
+          </Label>
+          <Input
+            id="semester-end"
+            type="date"
+            value={calendarSettings.semesterEnd}
+            onChange={(e) => e.target.value && updateSettings({ semesterEnd: e.target.value })}
+          />
+        </div>
+      </div>
+      {hasInvalidRange && <p className="text-xs text-red-600">The semester end must be after its start.</p>}
+
+      <div>
+        <Label htmlFor="time-zone" className="text-sm font-medium">
+          Time Zone
+        </Label>
+        <Input
+          id="time-zone"
+          list="time-zone-options"
+          value={calendarSettings.timeZone}
+          onChange={(e) => updateSettings({ timeZone: e.target.value })}
+          placeholder="e.g. Europe/Paris"
+        />
+        <datalist id="time-zone-options">
+          {timeZones.map((timeZone) => (
+            <option key={timeZone} value={timeZone} />
+          ))}
+        </datalist>
+        {!isValidTimeZone(calendarSettings.timeZone) && (
+          <p className="text-xs text-red-600 mt-1">Unknown time zone; UTC will be used.</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Holidays</Label>
+        {calendarSettings.holidays.length === 0 && (
+          <p className="text-xs text-muted-foreground">No holidays; lessons repeat every week of the semester.</p>
+        )}
+        {calendarSettings.holidays.map((holiday) => (
+          <div key={holiday.id} className="flex items-center justify-between gap-2 text-sm">
+            <span className="truncate">{holiday.name}</span>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">
+                {holiday.startDate === holiday.endDate
+                  ? holiday.startDate
+                  : `${holiday.startDate} – ${holiday.endDate}`}
+              </Badge>
+              <Button variant="ghost" size="sm" onClick={() => removeHoliday(holiday.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        <div className="grid grid-cols-[1fr_auto_auto_auto] gap-2">
+          <Input
+            placeholder="Holiday name"
+            value={newHoliday.name}
+            onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+          />
+          <Input
+            type="date"
+            aria-label="Holiday start"
+            value={newHoliday.startDate}
+            onChange={(e) => setNewHoliday({ ...newHoliday, startDate: e.target.value })}
+          />
+          <Input
+            type="date"
+            aria-label="Holiday end"
+            value={newHoliday.endDate}
+            onChange={(e) => setNewHoliday({ ...newHoliday, endDate: e.target.value })}
+          />
+          <Button variant="outline" size="sm" onClick={addHoliday}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,899 @@
+"use client"
+
+import type React from "react"
+
+import { useMemo, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { GraduationCap, Users, Plus, Edit2, Trash2, Save, AlertTriangle, Split, Layers } from "lucide-react"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
+import type { ClassSection, Grade } from "@/types/timetable"
+
+interface ValidationError {
+  field: string
+  message: string
+}
+
+const SECTION_LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ".split("")
+
+// "Grade 10" + A..C -> Grade 10A, Grade 10B, Grade 10C
+const buildSectionNames = (prefix: string, from: string, to: string) => {
+  const start = SECTION_LETTERS.indexOf(from)
+  const end = SECTION_LETTERS.indexOf(to)
+  if (start === -1 || end < start) return []
+  return SECTION_LETTERS.slice(start, end + 1).map((letter) => `${prefix.trim()}${letter}`)
+}
+
+export function ClassManagement() {
+  const { grades, classSections, assignments, allocations, timetableEntries, classrooms, setData } = useTimetableStore()
+  const setGrades = (updatedGrades: Grade[]) => setData("grades", updatedGrades)
+  const setClassSections = (updatedSections: ClassSection[]) => setData("classSections", updatedSections)
+  const [validationErrors, setValidationErrors] = useState<ValidationError[]>([])
+
+  const [newGrade, setNewGrade] = useState({ name: "", level: "" })
+  const [editingGrade, setEditingGrade] = useState<Grade | null>(null)
+  const [gradeForm, setGradeForm] = useState({ name: "", level: "" })
+  const [gradeToDelete, setGradeToDelete] = useState<Grade | null>(null)
+
+  const [newSection, setNewSection] = useState({ gradeId: "", name: "", studentCount: "30" })
+  const [bulkForm, setBulkForm] = useState({ gradeId: "", prefix: "", from: "A", to: "F", studentCount: "30" })
+  const [editingSection, setEditingSection] = useState<ClassSection | null>(null)
+  const [sectionForm, setSectionForm] = useState({ gradeId: "", name: "", studentCount: "" })
+  const [splittingSection, setSplittingSection] = useState<ClassSection | null>(null)
+  const [splitForm, setSplitForm] = useState({ name: "", studentCount: "" })
+  const [sectionToDelete, setSectionToDelete] = useState<ClassSection | null>(null)
+
+  const sortedGrades = useMemo(() => [...grades].sort((a, b) => a.level - b.level), [grades])
+
+  // Sections ordered by grade level, then name; sections of unknown grades come last
+  const sortedSections = useMemo(() => {
+    const levelOf = (section: ClassSection) =>
+      grades.find((g) => g.id === section.gradeId)?.level ?? Number.MAX_SAFE_INTEGER
+    return [...classSections].sort((a, b) => levelOf(a) - levelOf(b) || a.name.localeCompare(b.name))
+  }, [classSections, grades])
+
+  const orphanSections = classSections.filter((section) => !grades.some((g) => g.id === section.gradeId))
+
+  // Student counts are checked against the largest active room when rooms are assigned
+  const largestRoomCapacity = Math.max(0, ...classrooms.filter((room) => room.isActive).map((room) => room.capacity))
+
+  const getGradeName = (gradeId: string) => grades.find((g) => g.id === gradeId)?.name || "Unknown Grade"
+
+  const getFieldError = (field: string) => validationErrors.find((error) => error.field === field)?.message
+
+  const validateGrade = (name: string, level: string, excludeId?: string): ValidationError[] => {
+    const errors: ValidationError[] = []
+    const parsedLevel = Number(level)
+    const existingGrades = grades.filter((g) => g.id !== excludeId)
+
+    if (!name.trim()) {
+      errors.push({ field: "grade-name", message: "Grade name is required" })
+    } else if (existingGrades.some((g) => g.name.toLowerCase() === name.trim().toLowerCase())) {
+      errors.push({ field: "grade-name", message: "A grade with this name already exists" })
+    }
+
+    if (level.trim() === "" || !Number.isInteger(parsedLevel) || parsedLevel < 0) {
+      errors.push({ field: "grade-level", message: "Level must be a whole number (0 or higher)" })
+    } else if (existingGrades.some((g) => g.level === parsedLevel)) {
+      errors.push({ field: "grade-level", message: `Level ${parsedLevel} is already used by another grade` })
+    }
+
+    return errors
+  }
+
+  // Section names must be unique across all grades: timetables and exports identify classes by name alone
+  const validateSection = (
+    name: string,
+    gradeId: string,
+    studentCount: string,
+    excludeId?: string,
+    pendingNames: string[] = [],
+  ): ValidationError[] => {
+    const errors: ValidationError[] = []
+    const parsedCount = Number(studentCount)
+    const takenNames = [
+      ...classSections.filter((c) => c.id !== excludeId).map((c) => c.name.toLowerCase()),
+      ...pendingNames.map((n) => n.toLowerCase()),
+    ]
+
+    if (!name.trim()) {
+      errors.push({ field: "section-name", message: "Section name is required" })
+    } else if (takenNames.includes(name.trim().toLowerCase())) {
+      errors.push({ field: "section-name", message: `A section named "${name.trim()}" already exists` })
+    }
+
+    if (!gradeId) {
+      errors.push({ field: "section-grade", message: "Select a grade for the section" })
+    } else if (!grades.some((g) => g.id === gradeId)) {
+      errors.push({ field: "section-grade", message: "The selected grade no longer exists" })
+    }
+
+    if (!Number.isInteger(parsedCount) || parsedCount < 1) {
+      errors.push({ field: "section-count", message: "Student count must be a whole number of at least 1" })
+    }
+
+    return errors
+  }
+
+  // Removes sections together with their teacher assignments and timetable entries
+  const removeSections = (sectionIds: string[]) => {
+    setClassSections(classSections.filter((c) => !sectionIds.includes(c.id)))
+    setData(
+      "assignments",
+      assignments.filter((a) => !sectionIds.includes(a.classId)),
+    )
+    setData(
+      "timetableEntries",
+      timetableEntries.filter((e) => !sectionIds.includes(e.classId)),
+    )
+  }
+
+  const addGrade = () => {
+    const errors = validateGrade(newGrade.name, newGrade.level)
+    setValidationErrors(errors)
+    if (errors.length > 0) return
+
+    setGrades([...grades, { id: Date.now().toString(), name: newGrade.name.trim(), level: Number(newGrade.level) }])
+    setNewGrade({ name: "", level: "" })
+  }
+
+  const openEditGradeDialog = (grade: Grade) => {
+    setEditingGrade(grade)
+    setGradeForm({ name: grade.name, level: grade.level.toString() })
+    setValidationErrors([])
+  }
+
+  const saveEditedGrade = () => {
+    if (!editingGrade) return
+
+    const errors = validateGrade(gradeForm.name, gradeForm.level, editingGrade.id)
+    setValidationErrors(errors)
+    if (errors.length > 0) return
+
+    setGrades(
+      grades.map((g) =>
+        g.id === editingGrade.id ? { ...g, name: gradeForm.name.trim(), level: Number(gradeForm.level) } : g,
+      ),
+    )
+    setEditingGrade(null)
+  }
+
+  // Deleting a grade removes its sections and subject allocations as well
+  const deleteGrade = () => {
+    if (!gradeToDelete) return
+
+    removeSections(classSections.filter((c) => c.gradeId === gradeToDelete.id).map((c) => c.id))
+    setData(
+      "allocations",
+      allocations.filter((a) => a.gradeId !== gradeToDelete.id),
+    )
+    setGrades(grades.filter((g) => g.id !== gradeToDelete.id))
+    setGradeToDelete(null)
+  }
+
+  const addSection = () => {
+    const errors = validateSection(newSection.name, newSection.gradeId, newSection.studentCount)
+    setValidationErrors(errors)
+    if (errors.length > 0) return
+
+    setClassSections([
+      ...classSections,
+      {
+        id: Date.now().toString(),
+        name: newSection.name.trim(),
+        gradeId: newSection.gradeId,
+        studentCount: Number(newSection.studentCount),
+      },
+    ])
+    setNewSection((prev) => ({ ...prev, name: "" }))
+  }
+
+  const bulkSectionNames = buildSectionNames(bulkForm.prefix, bulkForm.from, bulkForm.to)
+
+  const addBulkSections = () => {
+    if (bulkSectionNames.length === 0) {
+      setValidationErrors([{ field: "bulk", message: "Choose a prefix and a valid letter range" }])
+      return
+    }
+
+    const errors = bulkSectionNames.flatMap((name, index) =>
+      validateSection(name, bulkForm.gradeId, bulkForm.studentCount, undefined, bulkSectionNames.slice(0, index)),
+    )
+    // The same grade/count error would otherwise repeat once per section
+    const uniqueErrors = errors.filter((error, index) => errors.findIndex((e) => e.message === error.message) === index)
+    setValidationErrors(uniqueErrors)
+    if (uniqueErrors.length > 0) return
+
+    const now = Date.now()
+    setClassSections([
+      ...classSections,
+      ...bulkSectionNames.map((name, index) => ({
+        id: `${now}-${index}`,
+        name,
+        gradeId: bulkForm.gradeId,
+        studentCount: Number(bulkForm.studentCount),
+      })),
+    ])
+  }
+
+  const openEditSectionDialog = (section: ClassSection) => {
+    setEditingSection(section)
+    setSectionForm({ gradeId: section.gradeId, name: section.name, studentCount: section.studentCount.toString() })
+    setValidationErrors([])
+  }
+
+  const saveEditedSection = () => {
+    if (!editingSection) return
+
+    const errors = validateSection(sectionForm.name, sectionForm.gradeId, sectionForm.studentCount, editingSection.id)
+    setValidationErrors(errors)
+    if (errors.length > 0) return
+
+    setClassSections(
+      classSections.map((c) =>
+        c.id === editingSection.id
+          ? {
+              ...c,
+              name: sectionForm.name.trim(),
+              gradeId: sectionForm.gradeId,
+              studentCount: Number(sectionForm.studentCount),
+            }
+          : c,
+      ),
+    )
+    setEditingSection(null)
+  }
+
+  const updateStudentCount = (section: ClassSection, value: string) => {
+    const errors = validateSection(section.name, section.gradeId, value, section.id)
+    setValidationErrors(errors)
+    if (errors.length > 0 || Number(value) === section.studentCount) return
+
+    setClassSections(classSections.map((c) => (c.id === section.id ? { ...c, studentCount: Number(value) } : c)))
+  }
+
+  const openSplitDialog = (section: ClassSection) => {
+    setSplittingSection(section)
+    setSplitForm({ name: `${section.name}2`, studentCount: Math.floor(section.studentCount / 2).toString() })
+    setValidationErrors([])
+  }
+
+  /**
+   * Moves some students into a new section of the same grade. The new section starts with the
+   * same subject teachers as the original, so it can be scheduled straight away.
+   */
+  const splitSection = () => {
+    if (!splittingSection) return
+
+    const movedStudents = Number(splitForm.studentCount)
+    const errors = validateSection(splitForm.name, splittingSection.gradeId, splitForm.studentCount)
+    if (Number.isInteger(movedStudents) && movedStudents >= splittingSection.studentCount) {
+      errors.push({
+        field: "section-count",
+        message: `Move fewer than ${splittingSection.studentCount} students so both sections keep at least one`,
+      })
+    }
+    setValidationErrors(errors)
+    if (errors.length > 0) return
+
+    const newSectionId = Date.now().toString()
+    const now = new Date().toISOString()
+
+    setClassSections([
+      ...classSections.map((c) =>
+        c.id === splittingSection.id ? { ...c, studentCount: c.studentCount - movedStudents } : c,
+      ),
+      {
+        id: newSectionId,
+        name: splitForm.name.trim(),
+        gradeId: splittingSection.gradeId,
+        studentCount: movedStudents,
+      },
+    ])
+    setData("assignments", [
+      ...assignments,
+      ...assignments
+        .filter((a) => a.classId === splittingSection.id && a.isActive)
+        .map((a, index) => ({
+          ...a,
+          id: `${newSectionId}-${index}`,
+          classId: newSectionId,
+          createdAt: now,
+          updatedAt: now,
+        })),
+    ])
+    setSplittingSection(null)
+  }
+
+  const deleteSection = () => {
+    if (!sectionToDelete) return
+
+    removeSections([sectionToDelete.id])
+    setSectionToDelete(null)
+  }
+
+  const handleGradeKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      addGrade()
+    }
+  }
+
+  const handleSectionKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      addSection()
+    }
+  }
+
+  const renderGradeSelect = (value: string, onChange: (gradeId: string) => void, id: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className={getFieldError("section-grade") ? "border-destructive" : ""}>
+        <SelectValue placeholder="Select grade" />
+      </SelectTrigger>
+      <SelectContent>
+        {sortedGrades.map((grade) => (
+          <SelectItem key={grade.id} value={grade.id}>
+            {grade.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  const gradeSectionsToDelete = gradeToDelete ? classSections.filter((c) => c.gradeId === gradeToDelete.id) : []
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <Card className="tracking-tighter leading-7">
+        <CardHeader className="pb-0 my-0 mx-0 border-0">
+          <CardTitle className="flex gap-2 my-0 px-3.5 py-0 items-center flex-row">
+            <GraduationCap className="h-5 w-5" />
+            Grades & Class Sections
+            <Badge variant="outline">{grades.length} Grades</Badge>
+            <Badge variant="outline">{classSections.length} Sections</Badge>
+            <Badge variant="outline">
+              {classSections.reduce((sum, section) => sum + section.studentCount, 0)} Students
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+      </Card>
+
+      {/* Validation Errors Alert */}
+      {validationErrors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <div className="space-y-1">
+              {validationErrors.map((error, index) => (
+                <div key={index} className="text-sm">
+                  • {error.message}
+                </div>
+              ))}
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {orphanSections.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {orphanSections.length} section{orphanSections.length !== 1 ? "s" : ""} point
+            {orphanSections.length === 1 ? "s" : ""} at a grade that no longer exists:{" "}
+            {orphanSections.map((section) => section.name).join(", ")}. Edit them to choose a grade or delete them.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {/* Grades */}
+        <Card className="leading-7">
+          <CardHeader className="leading-3 pb-0">
+            <CardTitle className="text-lg">Grades</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 items-end">
+              <div className="col-span-2">
+                <Label htmlFor="grade-name">Name</Label>
+                <Input
+                  id="grade-name"
+                  placeholder="e.g., Grade 10"
+                  value={newGrade.name}
+                  onChange={(e) => setNewGrade((prev) => ({ ...prev, name: e.target.value }))}
+                  onKeyPress={handleGradeKeyPress}
+                  className={getFieldError("grade-name") ? "border-destructive" : ""}
+                />
+              </div>
+              <div>
+                <Label htmlFor="grade-level">Level</Label>
+                <Input
+                  id="grade-level"
+                  type="number"
+                  min="0"
+                  placeholder="10"
+                  value={newGrade.level}
+                  onChange={(e) => setNewGrade((prev) => ({ ...prev, level: e.target.value }))}
+                  onKeyPress={handleGradeKeyPress}
+                  className={getFieldError("grade-level") ? "border-destructive" : ""}
+                />
+              </div>
+            </div>
+            <Button onClick={addGrade} className="w-full" disabled={!newGrade.name || !newGrade.level}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Grade
+            </Button>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Grade</TableHead>
+                  <TableHead>Sections</TableHead>
+                  <TableHead className="w-[90px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedGrades.map((grade) => (
+                  <TableRow key={grade.id}>
+                    <TableCell>
+                      <div className="font-medium">{grade.name}</div>
+                      <div className="text-xs text-muted-foreground">Level {grade.level}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{classSections.filter((c) => c.gradeId === grade.id).length}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openEditGradeDialog(grade)}>
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setGradeToDelete(grade)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {grades.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center py-8 text-muted-foreground">
+                      No grades yet. Add your first grade above.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2 space-y-4">
+          {/* Add Section */}
+          <Card className="leading-7">
+            <CardHeader className="leading-3 pb-0">
+              <CardTitle className="text-lg">Add Section</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div>
+                  <Label htmlFor="section-grade">Grade</Label>
+                  {renderGradeSelect(
+                    newSection.gradeId,
+                    (gradeId) => setNewSection((prev) => ({ ...prev, gradeId })),
+                    "section-grade",
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="section-name">Section Name</Label>
+                  <Input
+                    id="section-name"
+                    placeholder="e.g., Grade 10A"
+                    value={newSection.name}
+                    onChange={(e) => setNewSection((prev) => ({ ...prev, name: e.target.value }))}
+                    onKeyPress={handleSectionKeyPress}
+                    className={getFieldError("section-name") ? "border-destructive" : ""}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="section-count">Students</Label>
+                  <Input
+                    id="section-count"
+                    type="number"
+                    min="1"
+                    value={newSection.studentCount}
+                    onChange={(e) => setNewSection((prev) => ({ ...prev, studentCount: e.target.value }))}
+                    onKeyPress={handleSectionKeyPress}
+                    className={getFieldError("section-count") ? "border-destructive" : ""}
+                  />
+                </div>
+                <Button onClick={addSection} disabled={!newSection.gradeId || !newSection.name}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Section
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Bulk Sections */}
+          <Card className="leading-7">
+            <CardHeader className="leading-3 pb-0">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Layers className="h-4 w-4" />
+                Bulk Create Sections
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-4 items-end">
+                <div className="col-span-2">
+                  <Label htmlFor="bulk-grade">Grade</Label>
+                  {renderGradeSelect(
+                    bulkForm.gradeId,
+                    (gradeId) => setBulkForm((prev) => ({ ...prev, gradeId, prefix: getGradeName(gradeId) })),
+                    "bulk-grade",
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="bulk-prefix">Name Prefix</Label>
+                  <Input
+                    id="bulk-prefix"
+                    placeholder="e.g., Grade 10"
+                    value={bulkForm.prefix}
+                    onChange={(e) => setBulkForm((prev) => ({ ...prev, prefix: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <Label>Letters</Label>
+                  <div className="flex items-center gap-1">
+                    <Select value={bulkForm.from} onValueChange={(from) => setBulkForm((prev) => ({ ...prev, from }))}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SECTION_LETTERS.map((letter) => (
+                          <SelectItem key={letter} value={letter}>
+                            {letter}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <span className="text-muted-foreground">–</span>
+                    <Select value={bulkForm.to} onValueChange={(to) => setBulkForm((prev) => ({ ...prev, to }))}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SECTION_LETTERS.map((letter) => (
+                          <SelectItem key={letter} value={letter}>
+                            {letter}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="bulk-count">Students Each</Label>
+                  <Input
+                    id="bulk-count"
+                    type="number"
+                    min="1"
+                    value={bulkForm.studentCount}
+                    onChange={(e) => setBulkForm((prev) => ({ ...prev, studentCount: e.target.value }))}
+                  />
+                </div>
+                <Button onClick={addBulkSections} disabled={!bulkForm.gradeId || bulkSectionNames.length === 0}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create {bulkSectionNames.length}
+                </Button>
+              </div>
+              {bulkSectionNames.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {bulkSectionNames.map((name) => (
+                    <Badge key={name} variant="outline">
+                      {name}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Sections Table */}
+          <Card className="leading-7">
+            <CardHeader className="pb-0">
+              <CardTitle className="text-lg">Class Sections</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Section</TableHead>
+                    <TableHead>Grade</TableHead>
+                    <TableHead>Students</TableHead>
+                    <TableHead>Teachers</TableHead>
+                    <TableHead className="w-[130px]">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sortedSections.map((section) => {
+                    const isOrphan = !grades.some((g) => g.id === section.gradeId)
+                    const exceedsRooms = largestRoomCapacity > 0 && section.studentCount > largestRoomCapacity
+
+                    return (
+                      <TableRow key={section.id}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Users className="h-4 w-4 text-muted-foreground" />
+                            <span className="font-medium">{section.name}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {isOrphan ? (
+                            <Badge variant="destructive">Unknown grade</Badge>
+                          ) : (
+                            <Badge variant="secondary">{getGradeName(section.gradeId)}</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Input
+                              key={`${section.id}-${section.studentCount}`}
+                              type="number"
+                              min="1"
+                              defaultValue={section.studentCount}
+                              onBlur={(e) => updateStudentCount(section, e.target.value)}
+                              className="w-20 h-8"
+                            />
+                            {exceedsRooms && (
+                              <Badge variant="destructive" className="text-xs">
+                                Exceeds largest room ({largestRoomCapacity})
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {assignments.filter((a) => a.classId === section.id && a.isActive).length} subjects
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            <Button variant="ghost" size="sm" onClick={() => openEditSectionDialog(section)}>
+                              <Edit2 className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openSplitDialog(section)}
+                              disabled={section.studentCount < 2 || isOrphan}
+                              title="Split section"
+                            >
+                              <Split className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setSectionToDelete(section)}
+                              className="text-destructive hover:text-destructive"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                  {classSections.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                        No sections yet. Add one above or bulk-create a range of sections.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Edit Grade Dialog */}
+      <Dialog open={!!editingGrade} onOpenChange={(open) => !open && setEditingGrade(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Grade</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="edit-grade-name">Name</Label>
+              <Input
+                id="edit-grade-name"
+                value={gradeForm.name}
+                onChange={(e) => setGradeForm((prev) => ({ ...prev, name: e.target.value }))}
+                className={getFieldError("grade-name") ? "border-destructive" : ""}
+              />
+            </div>
+            <div>
+              <Label htmlFor="edit-grade-level">Level</Label>
+              <Input
+                id="edit-grade-level"
+                type="number"
+                min="0"
+                value={gradeForm.level}
+                onChange={(e) => setGradeForm((prev) => ({ ...prev, level: e.target.value }))}
+                className={getFieldError("grade-level") ? "border-destructive" : ""}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingGrade(null)}>
+              Cancel
+            </Button>
+            <Button onClick={saveEditedGrade} disabled={!gradeForm.name || !gradeForm.level}>
+              <Save className="h-4 w-4 mr-2" />
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Grade Dialog */}
+      <Dialog open={!!gradeToDelete} onOpenChange={(open) => !open && setGradeToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Grade</DialogTitle>
+          </DialogHeader>
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Deleting &quot;{gradeToDelete?.name}&quot; also deletes its {gradeSectionsToDelete.length} section
+              {gradeSectionsToDelete.length !== 1 ? "s" : ""}, their teacher assignments and timetable entries, and the
+              grade&apos;s subject allocations. This action cannot be undone.
+            </AlertDescription>
+          </Alert>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setGradeToDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={deleteGrade}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete Grade
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Section Dialog */}
+      <Dialog open={!!editingSection} onOpenChange={(open) => !open && setEditingSection(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Section</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="edit-section-grade">Grade</Label>
+              {renderGradeSelect(
+                sectionForm.gradeId,
+                (gradeId) => setSectionForm((prev) => ({ ...prev, gradeId })),
+                "edit-section-grade",
+              )}
+            </div>
+            <div>
+              <Label htmlFor="edit-section-name">Section Name</Label>
+              <Input
+                id="edit-section-name"
+                value={sectionForm.name}
+                onChange={(e) => setSectionForm((prev) => ({ ...prev, name: e.target.value }))}
+                className={getFieldError("section-name") ? "border-destructive" : ""}
+              />
+            </div>
+            <div>
+              <Label htmlFor="edit-section-count">Students</Label>
+              <Input
+                id="edit-section-count"
+                type="number"
+                min="1"
+                value={sectionForm.studentCount}
+                onChange={(e) => setSectionForm((prev) => ({ ...prev, studentCount: e.target.value }))}
+                className={getFieldError("section-count") ? "border-destructive" : ""}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingSection(null)}>
+              Cancel
+            </Button>
+            <Button onClick={saveEditedSection} disabled={!sectionForm.name}>
+              <Save className="h-4 w-4 mr-2" />
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Split Section Dialog */}
+      <Dialog open={!!splittingSection} onOpenChange={(open) => !open && setSplittingSection(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Split {splittingSection?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Moves students into a new section of {splittingSection && getGradeName(splittingSection.gradeId)}. The new
+              section keeps the same subject teachers.
+            </p>
+            <div>
+              <Label htmlFor="split-name">New Section Name</Label>
+              <Input
+                id="split-name"
+                value={splitForm.name}
+                onChange={(e) => setSplitForm((prev) => ({ ...prev, name: e.target.value }))}
+                className={getFieldError("section-name") ? "border-destructive" : ""}
+              />
+            </div>
+            <div>
+              <Label htmlFor="split-count">Students to Move</Label>
+              <Input
+                id="split-count"
+                type="number"
+                min="1"
+                max={(splittingSection?.studentCount ?? 2) - 1}
+                value={splitForm.studentCount}
+                onChange={(e) => setSplitForm((prev) => ({ ...prev, studentCount: e.target.value }))}
+                className={getFieldError("section-count") ? "border-destructive" : ""}
+              />
+              {splittingSection && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {splittingSection.name} keeps {splittingSection.studentCount - (Number(splitForm.studentCount) || 0)}{" "}
+                  students
+                </p>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSplittingSection(null)}>
+              Cancel
+            </Button>
+            <Button onClick={splitSection} disabled={!splitForm.name}>
+              <Split className="h-4 w-4 mr-2" />
+              Split Section
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Section Dialog */}
+      <Dialog open={!!sectionToDelete} onOpenChange={(open) => !open && setSectionToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Section</DialogTitle>
+          </DialogHeader>
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Are you sure you want to delete &quot;{sectionToDelete?.name}&quot;? Its teacher assignments and timetable
+              entries are removed as well. This action cannot be undone.
+            </AlertDescription>
+          </Alert>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSectionToDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={deleteSection}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete Section
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -31,13 +31,16 @@ import {
   Dumbbell,
   BookOpen,
 } from "lucide-react"
-import { defaultRoomTypes, defaultClassrooms } from "@/lib/classroom-data"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
 import type { RoomType, Classroom, ClassroomConflict } from "@/types/classroom"
+import type { SubjectRoomType } from "@/types/room-assignment"
 import { SubjectRoomAssignment } from "@/components/subject-room-assignment"
+import { COMMON_EQUIPMENT, COMMON_FEATURES } from "@/lib/classroom-data"
 
 interface ClassroomManagementProps {
   onRoomTypesChange?: (roomTypes: RoomType[]) => void
   onClassroomsChange?: (classrooms: Classroom[]) => void
+  onSubjectRoomTypesChange?: (subjectRoomTypes: SubjectRoomType[]) => void
 }
 
 const ROOM_TYPE_ICONS = {
@@ -50,51 +53,14 @@ const ROOM_TYPE_ICONS = {
   Gymnasium: Dumbbell,
 }
 
-const COMMON_FEATURES = [
-  "Whiteboard",
-  "Projector",
-  "Air Conditioning",
-  "Natural Light",
-  "Soundproofing",
-  "Lab Benches",
-  "Fume Hood",
-  "Safety Equipment",
-  "Gas Supply",
-  "Water Supply",
-  "Computers",
-  "Network Access",
-  "Audio System",
-  "Microphones",
-  "Stage",
-  "Tiered Seating",
-  "Storage",
-  "Piano",
-  "Art Supplies Storage",
-  "Sports Equipment",
-]
-
-const COMMON_EQUIPMENT = [
-  "Chairs",
-  "Desks",
-  "Teacher's Desk",
-  "Whiteboard",
-  "Projector Screen",
-  "Lab Equipment",
-  "Safety Gear",
-  "Microscopes",
-  "Computers",
-  "Server",
-  "Printer",
-  "Sound System",
-  "Lighting",
-  "Podium",
-  "Piano",
-  "Easels",
-]
-
-export function ClassroomManagement({ onRoomTypesChange, onClassroomsChange }: ClassroomManagementProps) {
-  const [roomTypes, setRoomTypes] = useState<RoomType[]>(defaultRoomTypes)
-  const [classrooms, setClassrooms] = useState<Classroom[]>(defaultClassrooms)
+export function ClassroomManagement({
+  onRoomTypesChange,
+  onClassroomsChange,
+  onSubjectRoomTypesChange,
+}: ClassroomManagementProps) {
+  const { roomTypes, classrooms, setData } = useTimetableStore()
+  const setRoomTypes = (updatedRoomTypes: RoomType[]) => setData("roomTypes", updatedRoomTypes)
+  const setClassrooms = (updatedClassrooms: Classroom[]) => setData("classrooms", updatedClassrooms)
   const [conflicts, setConflicts] = useState<ClassroomConflict[]>([])
   const [searchTerm, setSearchTerm] = useState("")
 
@@ -649,7 +615,7 @@ export function ClassroomManagement({ onRoomTypesChange, onClassroomsChange }: C
         </TabsContent>
 
         <TabsContent value="subject-room-types" className="space-y-4">
-          <SubjectRoomAssignment />
+          <SubjectRoomAssignment onAssignmentsChange={onSubjectRoomTypesChange} />
         </TabsContent>
       </Tabs>
 
@@ -5,19 +5,33 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
-import { Download, FileText, Calendar, Mail } from "lucide-react"
+import { Download, FileText, Calendar, Mail, Link, Sheet, Share2 } from "lucide-react"
 import { Label } from "@/components/ui/label"
 import { Switch } from "@/components/ui/switch"
-import jsPDF from "jspdf"
-import html2canvas from "html2canvas"
 import type { TimetableEntry } from "@/types/timetable"
-import { classSections, teachers, subjects } from "@/lib/timetable-data"
+import { generateICSCalendar } from "@/lib/ics-calendar"
+import { createTimetablePDF, type TimetablePdfPage } from "@/lib/timetable-pdf"
+import { createTimetableWorkbook, toCSV, toSpreadsheetRows } from "@/lib/timetable-spreadsheet"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
+import { describeNotifyResult, notifyTeachers } from "@/hooks/use-notification-outbox"
+import { CalendarSettingsForm } from "@/components/calendar-settings-form"
+
+type ExportType = "pdf" | "ics" | "csv" | "xlsx"
+type ExportScope = "current" | "all" | "class" | "teacher" | "room"
+
+const SCOPE_TITLES: Record<ExportScope, string> = {
+  current: "Weekly Schedule",
+  all: "All Timetables",
+  class: "All Classes",
+  teacher: "All Teachers",
+  room: "All Rooms",
+}
 
 interface EnhancedExportOptionsProps {
   timetableEntries: TimetableEntry[]
   isPublished: boolean
   selectedEntity?: string
-  viewMode?: "class" | "teacher"
+  viewMode?: "class" | "teacher" | "room"
   isVerticalLayout?: boolean
 }
 
@@ -28,160 +42,81 @@ export function EnhancedExportOptions({
   viewMode = "class",
   isVerticalLayout = true,
 }: EnhancedExportOptionsProps) {
-  const [exportType, setExportType] = useState<"pdf" | "ics">("pdf")
-  const [exportScope, setExportScope] = useState<"current" | "all" | "class" | "teacher">("current")
+  const { grades, classSections, teachers, subjects, classrooms, periodConfig, calendarSettings } = useTimetableStore()
+  const { timeSlots } = periodConfig
+  const [exportType, setExportType] = useState<ExportType>("pdf")
+  const [exportScope, setExportScope] = useState<ExportScope>("current")
   const [includeRooms, setIncludeRooms] = useState(true)
-  const [includeHeader, setIncludeHeader] = useState(true)
+  const [includeCover, setIncludeCover] = useState(true)
+  const [isNotifying, setIsNotifying] = useState(false)
   const [pdfOrientation, setPdfOrientation] = useState<"portrait" | "landscape">(
     isVerticalLayout ? "portrait" : "landscape",
   )
 
-  const getEntityName = (entityId: string, type: "class" | "teacher") => {
+  const getEntityName = (entityId: string, type: "class" | "teacher" | "room") => {
     if (type === "class") {
       return classSections.find((c) => c.id === entityId)?.name || "Unknown Class"
-    } else {
+    } else if (type === "teacher") {
       return teachers.find((t) => t.id === entityId)?.name || "Unknown Teacher"
+    } else {
+      return classrooms.find((r) => r.id === entityId)?.name || "Unknown Room"
     }
   }
 
-  const exportCurrentTimetableToPDF = async () => {
-    if (!selectedEntity) {
-      alert("Please select a class or teacher first")
-      return
+  const isCurrentView = exportScope === "current" && !!selectedEntity
+
+  // Lessons covered by the export scope, for the list-shaped formats (ICS, CSV, XLSX)
+  const getScopedEntries = () =>
+    timetableEntries.filter((entry) => {
+      if (isCurrentView) {
+        if (viewMode === "class") return entry.classId === selectedEntity
+        if (viewMode === "teacher") return entry.teacherId === selectedEntity
+        if (viewMode === "room") return entry.roomId === selectedEntity
+      }
+      if (exportScope === "room") return !!entry.roomId
+      return true
+    })
+
+  const downloadFile = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = fileName
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  // One page per class, teacher or room covered by the export scope
+  const getPdfPages = (): TimetablePdfPage[] => {
+    if (exportScope === "current") {
+      return selectedEntity ? [{ scope: viewMode, entityId: selectedEntity }] : []
     }
+    const classPages = classSections.map((c) => ({ scope: "class" as const, entityId: c.id }))
+    const teacherPages = teachers.map((t) => ({ scope: "teacher" as const, entityId: t.id }))
+    const roomPages = classrooms.filter((r) => r.isActive).map((r) => ({ scope: "room" as const, entityId: r.id }))
+    if (exportScope === "class") return classPages
+    if (exportScope === "teacher") return teacherPages
+    if (exportScope === "room") return roomPages
+    return [...classPages, ...teacherPages, ...roomPages]
+  }
 
-    const element = document.getElementById("timetable-grid")
-    if (!element) {
-      alert("Timetable grid not found")
+  const exportPDF = () => {
+    const pages = getPdfPages()
+    if (pages.length === 0) {
+      alert(exportScope === "current" ? "Please select a class or teacher first" : "There is nothing to export")
       return
     }
 
     try {
-      // Show loading state
-      const originalText = element.textContent
-
-      // Create a styled clone for PDF
-      const clone = element.cloneNode(true) as HTMLElement
-      clone.style.backgroundColor = "white"
-      clone.style.padding = "20px"
-      clone.style.fontFamily = "Arial, sans-serif"
-      clone.style.fontSize = "12px"
-      clone.style.color = "#000000"
-
-      // Style tables in clone
-      const tables = clone.querySelectorAll("table")
-      tables.forEach((table) => {
-        table.style.borderCollapse = "collapse"
-        table.style.width = "100%"
-        table.style.marginBottom = "20px"
-      })
-
-      // Style cells in clone
-      const cells = clone.querySelectorAll("td, th")
-      cells.forEach((cell) => {
-        const htmlCell = cell as HTMLElement
-        htmlCell.style.border = "1px solid #000000"
-        htmlCell.style.padding = "8px"
-        htmlCell.style.textAlign = "center"
-        htmlCell.style.verticalAlign = "middle"
-        htmlCell.style.fontSize = "11px"
-        htmlCell.style.lineHeight = "1.2"
-      })
-
-      // Style headers
-      const headers = clone.querySelectorAll("th")
-      headers.forEach((header) => {
-        const htmlHeader = header as HTMLElement
-        htmlHeader.style.backgroundColor = "#f5f5f5"
-        htmlHeader.style.fontWeight = "bold"
-        htmlHeader.style.fontSize = "12px"
-      })
-
-      // Style subject blocks
-      const subjectBlocks = clone.querySelectorAll('[style*="background-color"]')
-      subjectBlocks.forEach((block) => {
-        const htmlBlock = block as HTMLElement
-        htmlBlock.style.color = "#ffffff"
-        htmlBlock.style.fontWeight = "bold"
-        htmlBlock.style.borderRadius = "4px"
-        htmlBlock.style.padding = "6px"
-        htmlBlock.style.fontSize = "10px"
-        htmlBlock.style.lineHeight = "1.1"
-      })
-
-      // Temporarily add clone to document
-      clone.style.position = "absolute"
-      clone.style.left = "-9999px"
-      clone.style.top = "0"
-      document.body.appendChild(clone)
-
-      const canvas = await html2canvas(clone, {
-        scale: 2,
-        backgroundColor: "#ffffff",
-        useCORS: true,
-        allowTaint: true,
-        logging: false,
-        width: clone.scrollWidth,
-        height: clone.scrollHeight,
-        onclone: (clonedDoc) => {
-          const clonedElement = clonedDoc.getElementById("timetable-grid")
-          if (clonedElement) {
-            clonedElement.style.transform = "scale(1)"
-            clonedElement.style.transformOrigin = "top left"
-          }
-        },
-      })
-
-      // Remove clone
-      document.body.removeChild(clone)
-
-      const imgData = canvas.toDataURL("image/png", 1.0)
-      const pdf = new jsPDF({
-        orientation: pdfOrientation,
-        unit: "mm",
-        format: "a4",
-      })
-
-      const pdfWidth = pdf.internal.pageSize.getWidth()
-      const pdfHeight = pdf.internal.pageSize.getHeight()
-      const imgWidth = canvas.width
-      const imgHeight = canvas.height
-
-      // Calculate scaling to fit page with margins
-      const margin = 15
-      const availableWidth = pdfWidth - margin * 2
-      const availableHeight = pdfHeight - margin * 3 // Extra margin for header
-
-      const ratio = Math.min(availableWidth / imgWidth, availableHeight / imgHeight)
-      const scaledWidth = imgWidth * ratio
-      const scaledHeight = imgHeight * ratio
-
-      const imgX = (pdfWidth - scaledWidth) / 2
-      const imgY = margin + 15 // Space for header
-
-      if (includeHeader) {
-        // Add header
-        pdf.setFontSize(18)
-        pdf.setFont("helvetica", "bold")
-        const title = `${getEntityName(selectedEntity, viewMode)} - Weekly Schedule`
-        pdf.text(title, pdfWidth / 2, margin + 5, { align: "center" })
-
-        // Add generation date
-        pdf.setFontSize(10)
-        pdf.setFont("helvetica", "normal")
-        const date = new Date().toLocaleDateString()
-        pdf.text(`Generated on: ${date}`, pdfWidth / 2, margin + 12, { align: "center" })
-      }
-
-      pdf.addImage(imgData, "PNG", imgX, imgY, scaledWidth, scaledHeight)
-
-      // Add footer
-      pdf.setFontSize(8)
-      pdf.setFont("helvetica", "normal")
-      pdf.text("Generated by Timetable Builder", pdfWidth / 2, pdfHeight - 5, { align: "center" })
-
-      const fileName = `${getEntityName(selectedEntity, viewMode).replace(/\s+/g, "_")}_timetable.pdf`
-      pdf.save(fileName)
+      const title =
+        exportScope === "current" ? `${getEntityName(selectedEntity!, viewMode)} Schedule` : SCOPE_TITLES[exportScope]
+      const pdf = createTimetablePDF(
+        { entries: timetableEntries, timeSlots, subjects, teachers, classSections, classrooms },
+        { title, pages, orientation: pdfOrientation, isVerticalLayout, includeRooms, includeCover },
+      )
+      pdf.save(`${title.replace(/\s+/g, "_")}_timetable.pdf`)
     } catch (error) {
       console.error("Error generating PDF:", error)
       alert("Error generating PDF. Please try again.")
@@ -189,50 +124,91 @@ export function EnhancedExportOptions({
   }
 
   const generateICS = () => {
-    // Existing ICS generation logic
+    if (calendarSettings.semesterEnd < calendarSettings.semesterStart) {
+      alert("The semester end date must be after its start date")
+      return
+    }
+
     const icsContent = generateICSContent()
-    const blob = new Blob([icsContent], { type: "text/calendar" })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement("a")
-    a.href = url
-    a.download = `timetable-${exportScope}-${selectedEntity || "all"}.ics`
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
+    downloadFile(
+      new Blob([icsContent], { type: "text/calendar;charset=utf-8" }),
+      `timetable-${exportScope}-${selectedEntity || "all"}.ics`,
+    )
   }
 
   const generateICSContent = () => {
-    let ics = "BEGIN:VCALENDAR\nVERSION:2.0\nPRODID:-//School Timetable//EN\n"
+    return generateICSCalendar({
+      name: isCurrentView ? `${getEntityName(selectedEntity!, viewMode)} Timetable` : SCOPE_TITLES[exportScope],
+      entries: getScopedEntries(),
+      settings: calendarSettings,
+      timeSlots,
+      subjects,
+      teachers,
+      classSections,
+      classrooms,
+    })
+  }
 
-    const filteredEntries = timetableEntries.filter((entry) => {
-      if (exportScope === "current" && selectedEntity) {
-        if (viewMode === "class") return entry.classId === selectedEntity
-        if (viewMode === "teacher") return entry.teacherId === selectedEntity
+  // Flat lesson list; the workbook adds a grid sheet per class and the names the importer accepts
+  const exportSpreadsheet = async (format: "csv" | "xlsx") => {
+    const entries = getScopedEntries()
+    const data = { timeSlots, subjects, teachers, grades, classSections, classrooms }
+    const fileName = `timetable-${exportScope}-${selectedEntity || "all"}.${format}`
+
+    try {
+      if (format === "csv") {
+        // The byte order mark makes Excel read the file as UTF-8
+        downloadFile(
+          new Blob(["\uFEFF", toCSV(toSpreadsheetRows(entries, data))], { type: "text/csv;charset=utf-8" }),
+          fileName,
+        )
+        return
       }
-      return true
-    })
+      const classIds = classSections.filter((c) => entries.some((e) => e.classId === c.id)).map((c) => c.id)
+      downloadFile(await createTimetableWorkbook(entries, classIds, data), fileName)
+    } catch (error) {
+      console.error("Error generating spreadsheet:", error)
+      alert("Error generating spreadsheet. Please try again.")
+    }
+  }
 
-    filteredEntries.forEach((entry) => {
-      const subject = subjects.find((s) => s.id === entry.subjectId)
-      const teacher = teachers.find((t) => t.id === entry.teacherId)
-      const classSection = classSections.find((c) => c.id === entry.classId)
+  const handleExport = () => {
+    if (exportType === "pdf") exportPDF()
+    else if (exportType === "ics") generateICS()
+    else exportSpreadsheet(exportType)
+  }
 
-      ics += "BEGIN:VEVENT\n"
-      ics += `UID:${entry.id}@school.edu\n`
-      ics += `SUMMARY:${subject?.name} - ${classSection?.name}\n`
-      ics += `DESCRIPTION:Teacher: ${teacher?.name}\n`
-      ics += `DTSTART:20240101T080000Z\n`
-      ics += `DTEND:20240101T084500Z\n`
-      ics += "END:VEVENT\n"
-    })
+  // Calendar subscriptions and the read-only timetable pages share one signed link per teacher or class;
+  // rooms only have the subscription
+  const copyLink = async (kind: "webcalUrl" | "pageUrl") => {
+    if (!selectedEntity) {
+      alert("Please select a class, teacher or room first")
+      return
+    }
 
-    ics += "END:VCALENDAR"
-    return ics
+    const label = kind === "webcalUrl" ? "Subscription link" : "Timetable page link"
+    try {
+      const response = await fetch(`/api/calendar/feeds?scope=${viewMode}&id=${encodeURIComponent(selectedEntity)}`)
+      if (!response.ok) throw new Error((await response.json()).error)
+      const [feed] = await response.json()
+      await navigator.clipboard.writeText(feed[kind])
+      alert(`${label} for ${getEntityName(selectedEntity, viewMode)} copied to the clipboard`)
+    } catch (error) {
+      console.error("Error creating link:", error)
+      alert(`Could not create a ${label.toLowerCase()}. Please try again.`)
+    }
   }
 
-  const sendNotifications = () => {
-    alert("Notifications sent to all teachers!")
+  const sendNotifications = async () => {
+    setIsNotifying(true)
+    try {
+      alert(describeNotifyResult(await notifyTeachers()))
+    } catch (error) {
+      console.error("Error notifying teachers:", error)
+      alert("The schedule emails could not be queued. Please try again.")
+    } finally {
+      setIsNotifying(false)
+    }
   }
 
   return (
@@ -249,7 +225,7 @@ export function EnhancedExportOptions({
           <div className="space-y-4">
             <div>
               <Label className="text-sm font-medium">Export Format</Label>
-              <Select value={exportType} onValueChange={(value: "pdf" | "ics") => setExportType(value)}>
+              <Select value={exportType} onValueChange={(value: ExportType) => setExportType(value)}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
@@ -266,16 +242,25 @@ export function EnhancedExportOptions({
                       ICS Calendar
                     </div>
                   </SelectItem>
+                  <SelectItem value="csv">
+                    <div className="flex items-center gap-2">
+                      <Sheet className="h-4 w-4" />
+                      CSV Spreadsheet
+                    </div>
+                  </SelectItem>
+                  <SelectItem value="xlsx">
+                    <div className="flex items-center gap-2">
+                      <Sheet className="h-4 w-4" />
+                      Excel Workbook (XLSX)
+                    </div>
+                  </SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
             <div>
               <Label className="text-sm font-medium">Export Scope</Label>
-              <Select
-                value={exportScope}
-                onValueChange={(value: "current" | "all" | "class" | "teacher") => setExportScope(value)}
-              >
+              <Select value={exportScope} onValueChange={(value: ExportScope) => setExportScope(value)}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
@@ -284,6 +269,7 @@ export function EnhancedExportOptions({
                   <SelectItem value="all">All Schedules</SelectItem>
                   <SelectItem value="class">All Classes</SelectItem>
                   <SelectItem value="teacher">All Teachers</SelectItem>
+                  <SelectItem value="room">All Rooms</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -309,8 +295,8 @@ export function EnhancedExportOptions({
 
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
-                  <Label className="text-sm font-medium">Include Header</Label>
-                  <Switch checked={includeHeader} onCheckedChange={setIncludeHeader} />
+                  <Label className="text-sm font-medium">Include Cover Page</Label>
+                  <Switch checked={includeCover} onCheckedChange={setIncludeCover} />
                 </div>
                 <div className="flex items-center justify-between">
                   <Label className="text-sm font-medium">Include Room Info</Label>
@@ -319,11 +305,13 @@ export function EnhancedExportOptions({
               </div>
             </div>
           )}
+
+          {exportType === "ics" && <CalendarSettingsForm />}
         </div>
 
         <div className="flex gap-2 pt-4 border-t">
           <Button
-            onClick={exportType === "pdf" ? exportCurrentTimetableToPDF : generateICS}
+            onClick={handleExport}
             disabled={!isPublished || (exportScope === "current" && !selectedEntity)}
             className="flex-1"
           >
@@ -331,9 +319,25 @@ export function EnhancedExportOptions({
             Export {exportType.toUpperCase()}
           </Button>
 
-          <Button variant="outline" onClick={sendNotifications} disabled={!isPublished}>
+          {exportType === "ics" && (
+            <Button variant="outline" onClick={() => copyLink("webcalUrl")} disabled={!isPublished || !selectedEntity}>
+              <Link className="h-4 w-4 mr-2" />
+              Copy Subscription Link
+            </Button>
+          )}
+
+          <Button
+            variant="outline"
+            onClick={() => copyLink("pageUrl")}
+            disabled={!isPublished || !selectedEntity || viewMode === "room"}
+          >
+            <Share2 className="h-4 w-4 mr-2" />
+            Copy Page Link
+          </Button>
+
+          <Button variant="outline" onClick={sendNotifications} disabled={!isPublished || isNotifying}>
             <Mail className="h-4 w-4 mr-2" />
-            Notify Teachers
+            {isNotifying ? "Sending..." : "Notify Teachers"}
           </Button>
         </div>
 
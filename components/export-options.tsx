@@ -7,7 +7,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge"
 import { Download, FileText, Calendar, Mail } from "lucide-react"
 import type { TimetableEntry } from "@/types/timetable"
-import { classSections, teachers, subjects } from "@/lib/timetable-data"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
+import { describeNotifyResult, notifyTeachers } from "@/hooks/use-notification-outbox"
 
 interface ExportOptionsProps {
   timetableEntries: TimetableEntry[]
@@ -15,6 +16,7 @@ interface ExportOptionsProps {
 }
 
 export function ExportOptions({ timetableEntries, isPublished }: ExportOptionsProps) {
+  const { classSections, teachers, subjects } = useTimetableStore()
   const [exportType, setExportType] = useState<"pdf" | "ics">("pdf")
   const [exportScope, setExportScope] = useState<"all" | "class" | "teacher">("all")
   const [selectedEntity, setSelectedEntity] = useState<string>("")
@@ -110,9 +112,13 @@ export function ExportOptions({ timetableEntries, isPublished }: ExportOptionsPr
     return ics
   }
 
-  const sendNotifications = () => {
-    // In a real implementation, this would send email notifications
-    alert("Notifications sent to all teachers!")
+  const sendNotifications = async () => {
+    try {
+      alert(describeNotifyResult(await notifyTeachers()))
+    } catch (error) {
+      console.error("Error notifying teachers:", error)
+      alert("The schedule emails could not be queued. Please try again.")
+    }
   }
 
   const getEntityOptions = () => {
@@ -0,0 +1,107 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Mail, RefreshCw, RotateCcw } from "lucide-react"
+import type { NotificationStatus } from "@/types/notification"
+import { useNotificationOutbox } from "@/hooks/use-notification-outbox"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
+
+const STATUS_VARIANTS: Record<NotificationStatus, "default" | "secondary" | "destructive"> = {
+  sent: "default",
+  pending: "secondary",
+  failed: "destructive",
+}
+
+// Schedule emails queued on publish, with their delivery status and a retry for failures
+export function NotificationOutbox() {
+  const { teachers } = useTimetableStore()
+  const { notifications, isLoading, refresh, retryFailed } = useNotificationOutbox()
+  const [isRetrying, setIsRetrying] = useState(false)
+
+  const failedCount = notifications.filter((message) => message.status === "failed").length
+
+  const handleRefresh = async () => {
+    try {
+      await refresh()
+    } catch (error) {
+      console.error("Error loading notifications:", error)
+      alert("Could not load the notification outbox. Please try again.")
+    }
+  }
+
+  const retry = async (ids?: string[]) => {
+    setIsRetrying(true)
+    try {
+      const result = await retryFailed(ids)
+      alert(`${result.requeued} email${result.requeued === 1 ? "" : "s"} queued again. Refresh to follow the delivery.`)
+    } catch (error) {
+      console.error("Error retrying notifications:", error)
+      alert("Could not retry the failed emails. Please try again.")
+    } finally {
+      setIsRetrying(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            Notification Outbox
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isLoading}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <Button size="sm" onClick={() => retry()} disabled={failedCount === 0 || isRetrying}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Retry Failed ({failedCount})
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {notifications.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No emails yet. Publishing the timetable emails every teacher their weekly schedule.
+          </p>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {notifications.map((message) => (
+              <div key={message.id} className="flex items-center justify-between gap-4 border rounded-md p-3 text-sm">
+                <div className="min-w-0">
+                  <div className="font-medium">
+                    {teachers.find((t) => t.id === message.teacherId)?.name || message.to}
+                    <span className="text-muted-foreground font-normal"> · {message.to}</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Queued {new Date(message.createdAt).toLocaleString()}
+                    {message.sentAt && ` · Sent ${new Date(message.sentAt).toLocaleString()}`}
+                    {message.attempts > 1 && ` · ${message.attempts} attempts`}
+                    {message.nextAttemptAt && ` · Next attempt ${new Date(message.nextAttemptAt).toLocaleString()}`}
+                  </div>
+                  {message.status === "failed" && message.lastError && (
+                    <div className="text-xs text-destructive truncate">{message.lastError}</div>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant={STATUS_VARIANTS[message.status]}>{message.status}</Badge>
+                  {message.status === "failed" && (
+                    <Button variant="ghost" size="sm" onClick={() => retry([message.id])} disabled={isRetrying}>
+                      Retry
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -10,93 +10,34 @@ import { Badge } from "@/components/ui/badge"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Clock, Plus, Minus, Save, RotateCcw, Calendar, AlertTriangle, CheckCircle, Trash2 } from 'lucide-react'
-import type { TimeSlot } from "@/types/timetable"
+import type { TimeSlot, PeriodConfig, DayPeriodConfig, PeriodBreak } from "@/types/timetable"
+import {
+  DEFAULT_DURATION,
+  DEFAULT_PERIODS,
+  buildTimeSlots,
+  createDefaultBreaks,
+  createDefaultDays,
+  createPeriodConfig,
+} from "@/lib/period-config"
 
 interface PeriodConfigurationProps {
+  initialConfig?: PeriodConfig
   onConfigurationChange?: (config: PeriodConfig) => void
 }
 
-interface PeriodConfig {
-  periodDuration: number
-  periodsPerDay: Record<string, number>
-  dayStartTimes: Record<string, string>
-  timeSlots: TimeSlot[]
-}
-
-interface DayConfig {
-  day: string
-  periods: number
-  startTime: string
-  enabled: boolean
-}
-
-const DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"]
-const DEFAULT_START_TIME = "08:00"
-const DEFAULT_PERIODS = 8
-const DEFAULT_DURATION = 45
+export function PeriodConfiguration({ initialConfig, onConfigurationChange }: PeriodConfigurationProps) {
+  const [periodDuration, setPeriodDuration] = useState(initialConfig?.periodDuration ?? DEFAULT_DURATION)
+  const [customBreaks, setCustomBreaks] = useState<Record<string, PeriodBreak[]>>(
+    initialConfig?.breaks ?? createDefaultBreaks(),
+  )
 
-export function PeriodConfiguration({ onConfigurationChange }: PeriodConfigurationProps) {
-  const [periodDuration, setPeriodDuration] = useState(DEFAULT_DURATION)
-  const [customBreaks, setCustomBreaks] = useState<Record<string, { afterPeriod: number; duration: number; type: 'break' | 'lunch' }[]>>({
-    Monday: [{ afterPeriod: 4, duration: 60, type: 'lunch' }],
-    Tuesday: [{ afterPeriod: 4, duration: 60, type: 'lunch' }],
-    Wednesday: [{ afterPeriod: 4, duration: 60, type: 'lunch' }],
-    Thursday: [{ afterPeriod: 4, duration: 60, type: 'lunch' }],
-    Friday: [{ afterPeriod: 4, duration: 60, type: 'lunch' }],
-    Saturday: [],
-    Sunday: [],
-  })
-  
-  const [dayConfigs, setDayConfigs] = useState<DayConfig[]>([
-    { day: "Monday", periods: DEFAULT_PERIODS, startTime: DEFAULT_START_TIME, enabled: true },
-    { day: "Tuesday", periods: DEFAULT_PERIODS, startTime: DEFAULT_START_TIME, enabled: true },
-    { day: "Wednesday", periods: DEFAULT_PERIODS, startTime: DEFAULT_START_TIME, enabled: true },
-    { day: "Thursday", periods: DEFAULT_PERIODS, startTime: DEFAULT_START_TIME, enabled: true },
-    { day: "Friday", periods: DEFAULT_PERIODS, startTime: DEFAULT_START_TIME, enabled: true },
-    { day: "Saturday", periods: 0, startTime: DEFAULT_START_TIME, enabled: false },
-    { day: "Sunday", periods: 0, startTime: DEFAULT_START_TIME, enabled: false },
-  ])
+  const [dayConfigs, setDayConfigs] = useState<DayPeriodConfig[]>(initialConfig?.days ?? createDefaultDays())
 
   const [previewTimeSlots, setPreviewTimeSlots] = useState<TimeSlot[]>([])
 
   // Generate time slots based on configuration
   const generateTimeSlots = useCallback(() => {
-    const slots: TimeSlot[] = []
-    let slotId = 1
-
-    dayConfigs.forEach((dayConfig) => {
-      if (!dayConfig.enabled || dayConfig.periods === 0) return
-
-      const [startHour, startMinute] = dayConfig.startTime.split(':').map(Number)
-      let currentMinutes = startHour * 60 + startMinute
-      const dayBreaks = customBreaks[dayConfig.day] || []
-
-      for (let period = 1; period <= dayConfig.periods; period++) {
-        const startTime = `${Math.floor(currentMinutes / 60).toString().padStart(2, '0')}:${(currentMinutes % 60).toString().padStart(2, '0')}`
-        const endMinutes = currentMinutes + periodDuration
-        const endTime = `${Math.floor(endMinutes / 60).toString().padStart(2, '0')}:${(endMinutes % 60).toString().padStart(2, '0')}`
-
-        slots.push({
-          id: slotId.toString(),
-          day: dayConfig.day,
-          period,
-          startTime,
-          endTime,
-        })
-
-        currentMinutes = endMinutes
-
-        // Add custom breaks after this period
-        const breaksAfterThisPeriod = dayBreaks.filter(b => b.afterPeriod === period)
-        breaksAfterThisPeriod.forEach(breakItem => {
-          currentMinutes += breakItem.duration
-        })
-
-        slotId++
-      }
-    })
-
-    return slots
+    return buildTimeSlots(dayConfigs, periodDuration, customBreaks)
   }, [dayConfigs, periodDuration, customBreaks])
 
   // Update preview when configuration changes
@@ -106,10 +47,15 @@ export function PeriodConfiguration({ onConfigurationChange }: PeriodConfigurati
   }, [generateTimeSlots])
 
   // Update day configuration
-  const updateDayConfig = (day: string, field: keyof DayConfig, value: any) => {
-    setDayConfigs(prev => prev.map(config => 
-      config.day === day ? { ...config, [field]: value } : config
-    ))
+  const updateDayConfig = (day: string, field: keyof DayPeriodConfig, value: any) => {
+    setDayConfigs(prev => prev.map(config => {
+      if (config.day !== day) return config
+      // Enabling a day such as Saturday starts it with the default number of periods
+      if (field === 'enabled' && value && config.periods === 0) {
+        return { ...config, enabled: true, periods: DEFAULT_PERIODS }
+      }
+      return { ...config, [field]: value }
+    }))
   }
 
   // Adjust period duration
@@ -147,47 +93,20 @@ export function PeriodConfiguration({ onConfigurationChange }: PeriodConfigurati
   // Reset to defaults
   const resetToDefaults = () => {
     setPeriodDuration(DEFAULT_DURATION)
-    setCustomBreaks({
-      Monday: [{ afterPeriod: 4, duration: 60, type: 'lunch' }],
-      Tuesday: [{ afterPeriod: 4, duration: 60, type: 'lunch' }],
-      Wednesday: [{ afterPeriod: 4, duration: 60, type: 'lunch' }],
-      Thursday: [{ afterPeriod: 4, duration: 60, type: 'lunch' }],
-      Friday: [{ afterPeriod: 4, duration: 60, type: 'lunch' }],
-      Saturday: [],
-      Sunday: [],
-    })
-    setDayConfigs([
-      { day: "Monday", periods: DEFAULT_PERIODS, startTime: DEFAULT_START_TIME, enabled: true },
-      { day: "Tuesday", periods: DEFAULT_PERIODS, startTime: DEFAULT_START_TIME, enabled: true },
-      { day: "Wednesday", periods: DEFAULT_PERIODS, startTime: DEFAULT_START_TIME, enabled: true },
-      { day: "Thursday", periods: DEFAULT_PERIODS, startTime: DEFAULT_START_TIME, enabled: true },
-      { day: "Friday", periods: DEFAULT_PERIODS, startTime: DEFAULT_START_TIME, enabled: true },
-      { day: "Saturday", periods: 0, startTime: DEFAULT_START_TIME, enabled: false },
-      { day: "Sunday", periods: 0, startTime: DEFAULT_START_TIME, enabled: false },
-    ])
+    setCustomBreaks(createDefaultBreaks())
+    setDayConfigs(createDefaultDays())
   }
 
   // Save configuration
   const saveConfiguration = () => {
-    const config: PeriodConfig = {
-      periodDuration,
-      periodsPerDay: dayConfigs.reduce((acc, day) => {
-        acc[day.day] = day.periods
-        return acc
-      }, {} as Record<string, number>),
-      dayStartTimes: dayConfigs.reduce((acc, day) => {
-        acc[day.day] = day.startTime
-        return acc
-      }, {} as Record<string, string>),
-      timeSlots: generateTimeSlots(),
-    }
+    const config: PeriodConfig = createPeriodConfig(dayConfigs, periodDuration, customBreaks)
 
     onConfigurationChange?.(config)
     alert("Period configuration saved successfully!")
   }
 
   // Calculate total school hours per day
-  const getTotalHoursPerDay = (dayConfig: DayConfig) => {
+  const getTotalHoursPerDay = (dayConfig: DayPeriodConfig) => {
     if (!dayConfig.enabled || dayConfig.periods === 0) return "0:00"
     
     const totalPeriodMinutes = dayConfig.periods * periodDuration
@@ -201,7 +120,7 @@ export function PeriodConfiguration({ onConfigurationChange }: PeriodConfigurati
   }
 
   // Get end time for a day
-  const getEndTimeForDay = (dayConfig: DayConfig) => {
+  const getEndTimeForDay = (dayConfig: DayPeriodConfig) => {
     if (!dayConfig.enabled || dayConfig.periods === 0) return "--:--"
     
     const [startHour, startMinute] = dayConfig.startTime.split(':').map(Number)
@@ -519,7 +438,7 @@ export function PeriodConfiguration({ onConfigurationChange }: PeriodConfigurati
             </div>
           ) : (
             <div className="text-center py-8 text-muted-foreground">
-              Click "Update Preview" to see the generated schedule
+              Click &quot;Update Preview&quot; to see the generated schedule
             </div>
           )}
         </CardContent>
@@ -0,0 +1,284 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { FolderOpen, Save, Trash2, FilePlus, Cloud, Upload, Download } from "lucide-react"
+import type { ProjectSummary } from "@/types/project"
+import {
+  deleteProject,
+  getActiveProjectId,
+  listProjects,
+  openProject,
+  resetWorkspace,
+  saveProject,
+  subscribeToWorkspaceSaves,
+} from "@/lib/project-storage"
+import { exportFet, parseFet, type FetImportData } from "@/lib/fet-format"
+import { createDraftWorkflow } from "@/lib/publication-workflow"
+import { getStoreData, setData } from "@/hooks/use-timetable-store"
+import { useTimetableHistory } from "@/hooks/use-timetable-history"
+
+interface ProjectManagerProps {
+  // Called after a saved project (or a fresh one) replaced the current workspace
+  onProjectOpened?: () => void
+}
+
+export function ProjectManager({ onProjectOpened }: ProjectManagerProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [projects, setProjects] = useState<ProjectSummary[]>([])
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null)
+  const [projectName, setProjectName] = useState("")
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null)
+
+  const fetInputRef = useRef<HTMLInputElement>(null)
+  const { clearHistory } = useTimetableHistory()
+
+  const activeProject = projects.find((p) => p.id === activeProjectId)
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      const [savedProjects, activeId] = await Promise.all([listProjects(), getActiveProjectId()])
+      setProjects(savedProjects)
+      setActiveProjectId(activeId)
+    } catch (error) {
+      console.error("Error loading projects:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    refreshProjects()
+    return subscribeToWorkspaceSaves(() => setLastSavedAt(new Date()))
+  }, [refreshProjects])
+
+  const handleSave = async (asNew: boolean) => {
+    const name = projectName.trim() || activeProject?.name
+    if (!name) {
+      alert("Please enter a project name")
+      return
+    }
+
+    try {
+      const saved = await saveProject(name, asNew ? undefined : activeProjectId ?? undefined)
+      setProjectName("")
+      setActiveProjectId(saved.id)
+      await refreshProjects()
+    } catch (error) {
+      console.error("Error saving project:", error)
+      alert("Error saving project. Please try again.")
+    }
+  }
+
+  const handleOpen = async (project: ProjectSummary) => {
+    try {
+      const isOpened = await openProject(project.id)
+      if (!isOpened) {
+        alert(`Project "${project.name}" no longer exists`)
+        await refreshProjects()
+        return
+      }
+      setActiveProjectId(project.id)
+      setIsDialogOpen(false)
+      onProjectOpened?.()
+    } catch (error) {
+      console.error("Error opening project:", error)
+      alert("Error opening project. Please try again.")
+    }
+  }
+
+  const handleDelete = async (project: ProjectSummary) => {
+    try {
+      await deleteProject(project.id)
+      await refreshProjects()
+    } catch (error) {
+      console.error("Error deleting project:", error)
+      alert("Error deleting project. Please try again.")
+    }
+  }
+
+  const handleNewProject = async () => {
+    try {
+      await resetWorkspace()
+      setActiveProjectId(null)
+      setIsDialogOpen(false)
+      onProjectOpened?.()
+    } catch (error) {
+      console.error("Error creating project:", error)
+      alert("Error creating project. Please try again.")
+    }
+  }
+
+  const handleFetImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    try {
+      const { periodConfig, roomTypes } = getStoreData()
+      const { data, warnings } = parseFet(await file.text(), {
+        timeSlots: periodConfig.timeSlots,
+        periodDuration: periodConfig.periodDuration,
+        roomTypes,
+      })
+      const summary = [
+        `${data.subjects.length} subjects, ${data.teachers.length} teachers, ${data.classSections.length} classes`,
+        `${data.classrooms.length} rooms, ${data.timetableEntries.length} scheduled lessons`,
+        ...warnings,
+      ].join("\n")
+      if (!confirm(`Replace the current workspace with "${file.name}"?\n\n${summary}`)) return
+
+      ;(Object.keys(data) as (keyof FetImportData)[]).forEach((key) => setData(key, data[key]))
+      setData("workflow", createDraftWorkflow())
+      clearHistory()
+      setIsDialogOpen(false)
+      onProjectOpened?.()
+    } catch (error) {
+      console.error("Error importing FET file:", error)
+      alert(error instanceof Error ? error.message : "Error importing FET file. Please try again.")
+    }
+  }
+
+  const handleFetExport = () => {
+    const name = activeProject?.name || "Semester Timetable"
+    const blob = new Blob([exportFet(getStoreData(), name)], { type: "application/xml" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `${name.replace(/\s+/g, "_")}.fet`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground flex items-center gap-1">
+          <Cloud className="h-3 w-3" />
+          {lastSavedAt ? `Autosaved ${lastSavedAt.toLocaleTimeString()}` : "Autosave on"}
+        </span>
+        <Button variant="outline" size="sm" onClick={() => setIsDialogOpen(true)}>
+          <FolderOpen className="h-4 w-4 mr-2" />
+          {activeProject ? activeProject.name : "Projects"}
+        </Button>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Saved Projects</DialogTitle>
+            <DialogDescription>
+              Your work is saved in this browser automatically. Save named projects to keep several drafts.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="project-name">Project name</Label>
+                <Input
+                  id="project-name"
+                  placeholder={activeProject?.name || "e.g. Fall semester draft"}
+                  value={projectName}
+                  onChange={(e) => setProjectName(e.target.value)}
+                />
+              </div>
+              {activeProject && (
+                <Button variant="outline" onClick={() => handleSave(false)}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save
+                </Button>
+              )}
+              <Button onClick={() => handleSave(true)}>
+                <Save className="h-4 w-4 mr-2" />
+                Save as New
+              </Button>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Last Saved</TableHead>
+                  <TableHead className="w-[160px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {projects.map((project) => (
+                  <TableRow key={project.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{project.name}</span>
+                        {project.id === activeProjectId && <Badge variant="secondary">Current</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {new Date(project.updatedAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => handleOpen(project)}>
+                          <FolderOpen className="h-4 w-4 mr-1" />
+                          Open
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(project)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {projects.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center py-8 text-muted-foreground">
+                      No saved projects yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+
+            <div className="flex justify-between items-center pt-2 border-t">
+              <span className="text-xs text-muted-foreground">
+                Opening a project replaces the current workspace. Save it first to keep your changes.
+              </span>
+              <Button variant="ghost" size="sm" onClick={handleNewProject}>
+                <FilePlus className="h-4 w-4 mr-2" />
+                New from Sample Data
+              </Button>
+            </div>
+
+            <div className="flex justify-between items-center pt-2 border-t">
+              <span className="text-xs text-muted-foreground">
+                Exchange data with FET. Importing replaces subjects, teachers, classes, rooms and lessons.
+              </span>
+              <div className="flex items-center gap-1">
+                <input ref={fetInputRef} type="file" accept=".fet,.xml" className="hidden" onChange={handleFetImport} />
+                <Button variant="ghost" size="sm" onClick={() => fetInputRef.current?.click()}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import FET
+                </Button>
+                <Button variant="ghost" size="sm" onClick={handleFetExport}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export FET
+                </Button>
+              </div>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
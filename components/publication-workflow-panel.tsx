@@ -0,0 +1,223 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle, CheckCircle, Clock, Eye, EyeOff, Send, Share, Undo2 } from "lucide-react"
+import type { WorkflowStatus } from "@/types/workflow"
+import { useAuth } from "@/hooks/use-auth"
+import { getStoreData, useTimetableStore } from "@/hooks/use-timetable-store"
+import { usePublicationWorkflow } from "@/hooks/use-publication-workflow"
+import { describeNotifyResult } from "@/hooks/use-notification-outbox"
+import { canEdit, canReview } from "@/lib/roles"
+import { WORKFLOW_STATUS_LABELS, getDepartmentEntries, getMissingApprovals } from "@/lib/publication-workflow"
+import { diffVersions, formatPlacement } from "@/lib/timetable-versions"
+
+const STATUS_VARIANTS: Record<WorkflowStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  draft: "outline",
+  review: "secondary",
+  approved: "default",
+  published: "default",
+}
+
+// Where the timetable is between draft and published, with the actions the signed-in user may take
+export function PublicationWorkflowPanel() {
+  const { user } = useAuth()
+  const { timetableEntries } = useTimetableStore()
+  const { review, isLoading, submitForReview, approveDepartment, requestChanges, publishTimetable } =
+    usePublicationWorkflow()
+  const [expandedDepartment, setExpandedDepartment] = useState<string | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  if (!review) {
+    return (
+      <Card>
+        <CardContent className="py-6 text-sm text-muted-foreground">
+          {isLoading ? "Loading the publication status..." : "The publication status could not be loaded."}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const { workflow } = review
+  const isEditor = canEdit(user)
+  const submittedEntries = workflow.submittedEntries || []
+  const missingApprovals = getMissingApprovals(workflow)
+  // The workspace has moved on since the submission; what is under review is the submitted copy
+  const hasLocalChanges =
+    isEditor && workflow.status !== "draft" && diffVersions(submittedEntries, timetableEntries).length > 0
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setIsBusy(true)
+    try {
+      await action()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : failure)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleSubmit = () =>
+    run(async () => {
+      if (timetableEntries.length === 0) {
+        alert("Generate a timetable before submitting it for review.")
+        return
+      }
+      if (workflow.approvals.length > 0 && workflow.status !== "published") {
+        if (!confirm("Submit again? Approvals given so far will be discarded.")) return
+      }
+      await submitForReview(getStoreData())
+    }, "Could not submit the timetable. Please try again.")
+
+  const handleRequestChanges = (department: string) => {
+    const comment = window.prompt(`What should change in the ${department} lessons?`)
+    if (!comment?.trim()) return
+    run(() => requestChanges(department, comment.trim()), "Could not request changes. Please try again.")
+  }
+
+  const handlePublish = () =>
+    run(async () => {
+      const result = await publishTimetable()
+      alert(`Timetable published. ${describeNotifyResult(result)}`)
+    }, "Could not publish the timetable. Please try again.")
+
+  const describeEntry = (entry: (typeof submittedEntries)[number]) =>
+    [
+      review.subjects.find((s) => s.id === entry.subjectId)?.name || "Lesson",
+      review.classSections.find((c) => c.id === entry.classId)?.name,
+      review.teachers.find((t) => t.id === entry.teacherId)?.name,
+    ]
+      .filter(Boolean)
+      .join(" · ") + `, ${formatPlacement(entry, review)}`
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Send className="h-5 w-5" />
+            Publication
+          </span>
+          <Badge variant={STATUS_VARIANTS[workflow.status]}>{WORKFLOW_STATUS_LABELS[workflow.status]}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {workflow.submittedAt && workflow.status !== "draft" && (
+          <p className="text-sm text-muted-foreground">
+            {submittedEntries.length} lessons submitted by {workflow.submittedBy} on{" "}
+            {new Date(workflow.submittedAt).toLocaleString()}
+          </p>
+        )}
+
+        {workflow.status === "draft" && workflow.changeRequest && (
+          <Alert variant="destructive">
+            <Undo2 className="h-4 w-4" />
+            <AlertDescription>
+              {workflow.changeRequest.userName} requested changes to {workflow.changeRequest.department} on{" "}
+              {new Date(workflow.changeRequest.requestedAt).toLocaleString()}: {workflow.changeRequest.comment}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {hasLocalChanges && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              The timetable has been edited since it was submitted. Submit it again for the edits to be reviewed.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {workflow.status !== "draft" && workflow.requiredDepartments.length > 0 && (
+          <div className="space-y-2">
+            {workflow.requiredDepartments.map((department) => {
+              const approval = workflow.approvals.find((a) => a.department === department)
+              const entries = getDepartmentEntries(submittedEntries, review.subjects, department)
+              const isExpanded = expandedDepartment === department
+              return (
+                <div key={department} className="border rounded-md p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 text-sm">
+                      {approval ? (
+                        <CheckCircle className="h-4 w-4 text-green-600" />
+                      ) : (
+                        <Clock className="h-4 w-4 text-muted-foreground" />
+                      )}
+                      <span className="font-medium">{department}</span>
+                      <span className="text-muted-foreground">
+                        {entries.length} lessons
+                        {approval && ` · approved by ${approval.userName}`}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setExpandedDepartment(isExpanded ? null : department)}
+                        title={isExpanded ? "Hide lessons" : "Show lessons"}
+                      >
+                        {isExpanded ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                      </Button>
+                      {workflow.status === "review" && canReview(user, department) && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={isBusy || !!approval}
+                            onClick={() =>
+                              run(
+                                () => approveDepartment(department),
+                                "Could not approve the department. Please try again.",
+                              )
+                            }
+                          >
+                            Approve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={isBusy}
+                            onClick={() => handleRequestChanges(department)}
+                          >
+                            Request Changes
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  {isExpanded && (
+                    <ul className="mt-2 space-y-1 text-sm text-muted-foreground max-h-48 overflow-y-auto">
+                      {entries.map((entry) => (
+                        <li key={entry.id}>{describeEntry(entry)}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {workflow.status === "review" && missingApprovals.length > 0 && (
+          <p className="text-sm text-muted-foreground">Waiting for approval from {missingApprovals.join(", ")}.</p>
+        )}
+
+        {isEditor && (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={handleSubmit} disabled={isBusy}>
+              <Send className="h-4 w-4 mr-2" />
+              {workflow.status === "review" || workflow.status === "approved" ? "Submit Again" : "Submit for Review"}
+            </Button>
+            <Button onClick={handlePublish} disabled={isBusy || workflow.status !== "approved"}>
+              <Share className="h-4 w-4 mr-2" />
+              Publish
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
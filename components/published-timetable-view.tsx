@@ -0,0 +1,96 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useSearchParams } from "next/navigation"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle, LayoutGrid, LayoutList, Printer } from "lucide-react"
+import { TimetableWeekTable } from "@/components/timetable-week-table"
+import type { PublishedTimetable } from "@/types/version"
+
+interface PublishedTimetableViewProps {
+  scope: "teacher" | "class"
+  id: string
+}
+
+// The published week of one teacher or class, for the personal pages and their shareable links
+export function PublishedTimetableView({ scope, id }: PublishedTimetableViewProps) {
+  const token = useSearchParams().get("token")
+  const [timetable, setTimetable] = useState<PublishedTimetable | null>(null)
+  const [error, setError] = useState("")
+  const [isVerticalLayout, setIsVerticalLayout] = useState(true)
+
+  useEffect(() => {
+    const loadTimetable = async () => {
+      try {
+        const query = token ? `?token=${encodeURIComponent(token)}` : ""
+        const response = await fetch(`/api/timetable/${scope}/${encodeURIComponent(id)}${query}`)
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error || `Request failed with status ${response.status}`)
+        setTimetable(result)
+      } catch (loadError) {
+        setError(loadError instanceof Error ? loadError.message : "The timetable could not be loaded.")
+      }
+    }
+    loadTimetable()
+  }, [scope, id, token])
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    )
+  }
+
+  if (!timetable) {
+    return <p className="text-sm text-muted-foreground">Loading the timetable...</p>
+  }
+
+  return (
+    <Card className="print:border-0 print:shadow-none">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-4">
+          <span className="flex items-center gap-2">
+            {timetable.name} Timetable
+            <Badge variant="outline">
+              Version {timetable.versionNumber} · {new Date(timetable.publishedAt).toLocaleDateString()}
+            </Badge>
+          </span>
+          <span className="flex items-center gap-4 print:hidden">
+            <span className="flex items-center gap-2 text-sm font-normal">
+              {isVerticalLayout ? <LayoutList className="h-4 w-4" /> : <LayoutGrid className="h-4 w-4" />}
+              {isVerticalLayout ? "Vertical" : "Horizontal"}
+              <Switch checked={isVerticalLayout} onCheckedChange={setIsVerticalLayout} />
+            </span>
+            <Button variant="outline" size="sm" onClick={() => window.print()}>
+              <Printer className="h-4 w-4 mr-2" />
+              Print
+            </Button>
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto bg-white print:overflow-visible">
+          <TimetableWeekTable
+            entries={timetable.entries}
+            viewMode={scope}
+            isVerticalLayout={isVerticalLayout}
+            timeSlots={timetable.timeSlots}
+            subjects={timetable.subjects}
+            teachers={timetable.teachers}
+            classSections={timetable.classSections}
+            classrooms={timetable.classrooms}
+          />
+        </div>
+        {timetable.entries.length === 0 && (
+          <p className="text-sm text-muted-foreground mt-4">No lessons are scheduled in the published timetable.</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,161 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { History } from "lucide-react"
+import type { LessonChangeType, PublishedVersion } from "@/types/version"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
+import { CHANGE_LABELS, describeChangedLesson, diffVersions, groupChanges } from "@/lib/timetable-versions"
+
+const CHANGE_VARIANTS: Record<LessonChangeType, "default" | "secondary" | "destructive" | "outline"> = {
+  added: "default",
+  moved: "secondary",
+  room: "outline",
+  removed: "destructive",
+}
+
+// Every published version, and the lessons that differ between any two of them per class or teacher
+export function PublishedVersions() {
+  const { publishedVersions, subjects, teachers, classSections, classrooms, periodConfig } = useTimetableStore()
+  const [fromId, setFromId] = useState("")
+  const [toId, setToId] = useState("")
+  const [groupBy, setGroupBy] = useState<"class" | "teacher">("class")
+
+  const versions = [...publishedVersions].sort((a, b) => b.number - a.number)
+  // Defaults to the latest version against the one before it
+  const toVersion = versions.find((v) => v.id === toId) || versions[0]
+  const fromVersion = versions.find((v) => v.id === fromId) || versions.find((v) => v.number < (toVersion?.number ?? 0))
+
+  const lookup = { subjects, teachers, classSections, classrooms, timeSlots: periodConfig.timeSlots }
+
+  const groups = useMemo(() => {
+    if (!fromVersion || !toVersion) return []
+    const changes = groupChanges(diffVersions(fromVersion.entries, toVersion.entries), groupBy)
+    const names = groupBy === "class" ? classSections : teachers
+    return Object.entries(changes)
+      .map(([id, entityChanges]) => ({
+        id,
+        name: names.find((entity) => entity.id === id)?.name || "Unknown",
+        changes: entityChanges,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }, [fromVersion, toVersion, groupBy, classSections, teachers])
+
+  const formatVersion = (version: PublishedVersion) =>
+    `Version ${version.number} · ${new Date(version.publishedAt).toLocaleString()} · ${version.publishedBy}`
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Published Versions
+          <Badge variant="outline">{versions.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nothing has been published yet. Every publish is kept here as a numbered version.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-1 text-sm max-h-40 overflow-y-auto">
+              {versions.map((version) => (
+                <div key={version.id} className="flex items-center justify-between border rounded-md px-3 py-2">
+                  <span className="font-medium">Version {version.number}</span>
+                  <span className="text-muted-foreground">
+                    {new Date(version.publishedAt).toLocaleString()} by {version.publishedBy} · {version.entries.length}{" "}
+                    lessons
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {versions.length > 1 && (
+              <div className="space-y-4 pt-4 border-t">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <Label className="text-sm font-medium">Compare</Label>
+                    <Select value={fromVersion?.id || ""} onValueChange={setFromId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Older version" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions.map((version) => (
+                          <SelectItem key={version.id} value={version.id}>
+                            {formatVersion(version)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label className="text-sm font-medium">With</Label>
+                    <Select value={toVersion?.id || ""} onValueChange={setToId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Newer version" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions.map((version) => (
+                          <SelectItem key={version.id} value={version.id}>
+                            {formatVersion(version)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label className="text-sm font-medium">Group By</Label>
+                    <Select value={groupBy} onValueChange={(value: "class" | "teacher") => setGroupBy(value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="class">Class</SelectItem>
+                        <SelectItem value="teacher">Teacher</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {groups.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No lessons differ between these versions.</p>
+                ) : (
+                  <div className="space-y-3 max-h-96 overflow-y-auto">
+                    {groups.map((group) => (
+                      <div key={group.id} className="border rounded-md p-3">
+                        <div className="flex items-center justify-between mb-2">
+                          <span className="font-medium">{group.name}</span>
+                          <Badge variant="outline">{group.changes.length} changes</Badge>
+                        </div>
+                        <ul className="space-y-1 text-sm">
+                          {group.changes.map((change, index) => (
+                            <li key={index} className="flex items-start gap-2">
+                              <Badge variant={CHANGE_VARIANTS[change.type]} className="shrink-0 text-xs">
+                                {CHANGE_LABELS[change.type]}
+                              </Badge>
+                              <span>
+                                {describeChangedLesson(change, lookup, {
+                                  className: groupBy === "teacher",
+                                  teacherName: groupBy === "class",
+                                })}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -9,49 +9,89 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Progress } from "@/components/ui/progress"
 import {
   AlertTriangle,
   CheckCircle,
   MapPin,
-  Users,
   Clock,
   Building,
   RefreshCw,
   Eye,
   Settings,
   BarChart3,
+  Shuffle,
 } from "lucide-react"
-import { classSections, subjects } from "@/lib/timetable-data"
-import { defaultClassrooms } from "@/lib/classroom-data"
-import { defaultSubjectRoomTypes } from "@/lib/room-assignment-data"
+import { RoomUtilizationDashboard } from "@/components/room-utilization-dashboard"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
+import { useTimetableHistory } from "@/hooks/use-timetable-history"
 import type { TimetableEntry } from "@/types/timetable"
-import type { Classroom } from "@/types/classroom"
-import type {
-  SubjectRoomType,
-  RoomAssignment,
-  RoomConflict,
-  RoomUtilization,
-  RoomSuggestion,
-} from "@/types/room-assignment"
-
-interface RoomAssignmentEngineProps {
-  timetableEntries: TimetableEntry[]
-  onRoomAssignmentsChange?: (assignments: RoomAssignment[]) => void
-}
-
-export function RoomAssignmentEngine({ timetableEntries, onRoomAssignmentsChange }: RoomAssignmentEngineProps) {
-  const [classrooms] = useState<Classroom[]>(defaultClassrooms)
-  const [subjectRoomTypes] = useState<SubjectRoomType[]>(defaultSubjectRoomTypes)
-  const [roomAssignments, setRoomAssignments] = useState<RoomAssignment[]>([])
-  const [conflicts, setConflicts] = useState<RoomConflict[]>([])
+import type { RoomConflict, RoomConflictResolution, RoomSuggestion } from "@/types/room-assignment"
+import type { EntryChange } from "@/lib/timetable-history"
+import { assignRooms, detectRoomConflicts, getRoomRules, scoreRoom, type UnassignedLesson } from "@/lib/room-assignment"
+
+const IMPACT_VARIANTS = { low: "secondary", medium: "default", high: "destructive" } as const
+
+/**
+ * Rooms for the timetable under construction. Auto-assignment and the manual dialog write the chosen
+ * room onto the lessons as one undoable step, so the grid, its room-clash check and the exports follow.
+ */
+export function RoomAssignmentEngine() {
+  const {
+    timetableEntries,
+    classrooms,
+    subjectRoomTypes,
+    subjectRoomRequirements,
+    subjects,
+    classSections,
+    teachers,
+    periodConfig,
+  } = useTimetableStore()
+  const { timeSlots, periodDuration } = periodConfig
+  const { record } = useTimetableHistory()
+  // Lessons whose room came from the last auto-assignments rather than the dialog
+  const [autoAssignedIds, setAutoAssignedIds] = useState<string[]>([])
+  const [unassignedLessons, setUnassignedLessons] = useState<UnassignedLesson[]>([])
   const [isConflictDialogOpen, setIsConflictDialogOpen] = useState(false)
   const [selectedConflict, setSelectedConflict] = useState<RoomConflict | null>(null)
+  const [selectedResolution, setSelectedResolution] = useState<RoomConflictResolution | null>(null)
   const [isAssignmentDialogOpen, setIsAssignmentDialogOpen] = useState(false)
   const [selectedEntry, setSelectedEntry] = useState<TimetableEntry | null>(null)
   const [manualRoomSelection, setManualRoomSelection] = useState("")
 
-  // Generate room suggestions for a timetable entry
+  const assignedEntries = useMemo(() => timetableEntries.filter((entry) => entry.roomId), [timetableEntries])
+
+  const conflicts = useMemo(
+    () =>
+      detectRoomConflicts(
+        assignedEntries.map((entry) => ({ timetableEntryId: entry.id, roomId: entry.roomId! })),
+        timetableEntries,
+        classrooms,
+        {
+          subjects,
+          classSections,
+          subjectRoomTypes,
+          subjectRoomRequirements,
+          timeSlots,
+          teachers,
+          classrooms,
+          periodDuration,
+        },
+      ),
+    [
+      assignedEntries,
+      timetableEntries,
+      classrooms,
+      subjects,
+      classSections,
+      subjectRoomTypes,
+      subjectRoomRequirements,
+      timeSlots,
+      teachers,
+      periodDuration,
+    ],
+  )
+
+  // Generate room suggestions for a timetable entry, among the rooms still free in its period
   const generateRoomSuggestions = useCallback(
     (entry: TimetableEntry): RoomSuggestion[] => {
       const subject = subjects.find((s) => s.id === entry.subjectId)
@@ -59,222 +99,75 @@ export function RoomAssignmentEngine({ timetableEntries, onRoomAssignmentsChange
 
       if (!subject || !classSection) return []
 
-      // Get preferred room types for this subject
-      const subjectRoomPreferences = subjectRoomTypes
-        .filter((srt) => srt.subjectId === entry.subjectId)
-        .sort((a, b) => a.priority - b.priority)
+      // Get preferred room types and features for this subject
+      const rules = getRoomRules(entry.subjectId, classSection.gradeId, subjectRoomTypes, subjectRoomRequirements)
 
       // Get all available classrooms for the time slot
-      const occupiedRooms = roomAssignments
-        .filter((ra) => {
-          const assignedEntry = timetableEntries.find((te) => te.id === ra.timetableEntryId)
-          return assignedEntry && assignedEntry.day === entry.day && assignedEntry.period === entry.period
-        })
-        .map((ra) => ra.roomId)
+      const occupiedRooms = timetableEntries
+        .filter((te) => te.id !== entry.id && te.roomId && te.day === entry.day && te.period === entry.period)
+        .map((te) => te.roomId)
 
       const availableRooms = classrooms.filter((room) => room.isActive && !occupiedRooms.includes(room.id))
 
-      // Score rooms based on suitability
-      const suggestions: RoomSuggestion[] = availableRooms.map((room) => {
-        let score = 0
-        const reasons: string[] = []
-        const warnings: string[] = []
-
-        // Check room type preference
-        const roomTypePreference = subjectRoomPreferences.find((srt) => srt.roomTypeId === room.roomTypeId)
-        if (roomTypePreference) {
-          const priorityScore = 4 - roomTypePreference.priority // Higher score for higher priority
-          score += priorityScore * 30
-          reasons.push(`${roomTypePreference.priority === 1 ? "Preferred" : "Suitable"} room type`)
-
-          if (roomTypePreference.isRequired) {
-            score += 20
-            reasons.push("Required room type")
-          }
-        } else if (subjectRoomPreferences.length > 0) {
-          score -= 20
-          warnings.push("Not a preferred room type for this subject")
-        }
-
-        // Check capacity
-        if (room.capacity >= classSection.studentCount) {
-          const capacityRatio = classSection.studentCount / room.capacity
-          if (capacityRatio > 0.8) {
-            score += 15
-            reasons.push("Good capacity utilization")
-          } else if (capacityRatio > 0.5) {
-            score += 10
-            reasons.push("Adequate capacity")
-          } else {
-            score += 5
-            warnings.push("Room may be too large")
-          }
-        } else {
-          score -= 50
-          warnings.push(`Insufficient capacity (${room.capacity} < ${classSection.studentCount})`)
-        }
-
-        // Check features match
-        const requiredFeatures = ["Projector", "Whiteboard"] // Basic requirements
-        const hasRequiredFeatures = requiredFeatures.every((feature) => room.features.includes(feature))
-        if (hasRequiredFeatures) {
-          score += 10
-          reasons.push("Has required features")
-        } else {
-          warnings.push("Missing some required features")
-        }
-
-        return {
-          roomId: room.id,
-          roomName: room.name,
-          suitabilityScore: Math.max(0, score),
-          reasons,
-          warnings,
-        }
-      })
-
-      return suggestions.sort((a, b) => b.suitabilityScore - a.suitabilityScore)
+      return availableRooms
+        .map((room) => scoreRoom(room, classSection, rules))
+        .sort((a, b) => b.suitabilityScore - a.suitabilityScore)
     },
-    [classrooms, subjectRoomTypes, roomAssignments, timetableEntries],
+    [classrooms, subjectRoomTypes, subjectRoomRequirements, subjects, classSections, timetableEntries],
   )
 
-  // Auto-assign rooms to all timetable entries
-  const autoAssignRooms = useCallback(() => {
-    const newAssignments: RoomAssignment[] = []
-    const newConflicts: RoomConflict[] = []
-
-    timetableEntries.forEach((entry) => {
-      // Skip if already assigned
-      if (roomAssignments.some((ra) => ra.timetableEntryId === entry.id)) return
-
-      const suggestions = generateRoomSuggestions(entry)
-      const bestSuggestion = suggestions[0]
-
-      if (bestSuggestion && bestSuggestion.suitabilityScore > 0) {
-        newAssignments.push({
-          id: `auto-${entry.id}`,
-          timetableEntryId: entry.id,
-          roomId: bestSuggestion.roomId,
-          isAutoAssigned: true,
-          assignedAt: new Date().toISOString(),
-          assignedBy: "system",
-          conflictStatus: bestSuggestion.warnings.length > 0 ? "warning" : "none",
-        })
-      }
-    })
-
-    const updatedAssignments = [...roomAssignments, ...newAssignments]
-    setRoomAssignments(updatedAssignments)
-    onRoomAssignmentsChange?.(updatedAssignments)
-
-    // Check for conflicts
-    detectConflicts(updatedAssignments)
-  }, [timetableEntries, roomAssignments, generateRoomSuggestions, onRoomAssignmentsChange])
-
-  // Detect room conflicts
-  const detectConflicts = useCallback(
-    (assignments: RoomAssignment[]) => {
-      const conflictMap = new Map<string, string[]>()
-
-      assignments.forEach((assignment) => {
-        const entry = timetableEntries.find((te) => te.id === assignment.timetableEntryId)
-        if (!entry) return
-
-        const key = `${assignment.roomId}-${entry.day}-${entry.period}`
-        if (!conflictMap.has(key)) {
-          conflictMap.set(key, [])
-        }
-        conflictMap.get(key)!.push(assignment.timetableEntryId)
+  // Match rooms to lessons period by period, as a single history step; `reassign` also moves lessons that have a room
+  const autoAssignRooms = useCallback(
+    (reassign: boolean) => {
+      const { placements, unassigned } = assignRooms({
+        entries: timetableEntries,
+        classrooms,
+        classSections,
+        subjectRoomTypes,
+        subjectRoomRequirements,
+        reassign,
       })
 
-      const newConflicts: RoomConflict[] = []
-      conflictMap.forEach((entryIds, key) => {
-        if (entryIds.length > 1) {
-          const [roomId, day, period] = key.split("-")
-          const room = classrooms.find((r) => r.id === roomId)
-
-          newConflicts.push({
-            id: `conflict-${key}`,
-            roomId,
-            timeSlotId: `${day}-${period}`,
-            conflictingEntries: entryIds,
-            severity: "error",
-            message: `${room?.name || "Room"} is double-booked on ${day} period ${period}`,
-            suggestedResolutions: [
-              {
-                type: "move_to_room",
-                description: "Move one class to an alternative room",
-                impact: "low",
-              },
-              {
-                type: "change_time",
-                description: "Reschedule one of the classes",
-                impact: "medium",
-              },
-            ],
-          })
-        }
+      const changes: EntryChange[] = placements.flatMap(({ timetableEntryId, roomId }) => {
+        const entry = timetableEntries.find((te) => te.id === timetableEntryId)
+        return entry && entry.roomId !== roomId ? [{ before: entry, after: { ...entry, roomId } }] : []
       })
+      if (reassign) {
+        // Lessons that lost their room to a better matching are left without one
+        unassigned.forEach(({ entryId }) => {
+          const entry = timetableEntries.find((te) => te.id === entryId)
+          if (entry?.roomId) changes.push({ before: entry, after: { ...entry, roomId: undefined } })
+        })
+      }
 
-      setConflicts(newConflicts)
+      record(`${reassign ? "Reassigned" : "Auto-assigned"} rooms for ${changes.length} lessons`, changes)
+      setAutoAssignedIds((ids) => [
+        ...ids.filter((id) => !placements.some((placement) => placement.timetableEntryId === id)),
+        ...placements.map((placement) => placement.timetableEntryId),
+      ])
+      setUnassignedLessons(unassigned)
     },
-    [timetableEntries, classrooms],
+    [timetableEntries, classrooms, classSections, subjectRoomTypes, subjectRoomRequirements, record],
   )
 
-  // Calculate room utilization
-  const roomUtilization = useMemo((): RoomUtilization[] => {
-    return classrooms.map((room) => {
-      const roomAssignmentsForRoom = roomAssignments.filter((ra) => ra.roomId === room.id)
-      const totalSlots = 5 * 8 // 5 days * 8 periods
-      const occupiedSlots = roomAssignmentsForRoom.length
-      const utilizationPercentage = Math.round((occupiedSlots / totalSlots) * 100)
-
-      // Get assignments details
-      const assignments = roomAssignmentsForRoom.map((ra) => {
-        const entry = timetableEntries.find((te) => te.id === ra.timetableEntryId)
-        const subject = subjects.find((s) => s.id === entry?.subjectId)
-        const classSection = classSections.find((c) => c.id === entry?.classId)
-
-        return {
-          day: entry?.day || "",
-          period: entry?.period || 0,
-          subject: subject?.name || "",
-          class: classSection?.name || "",
-          teacher: "", // Would need teacher data
-        }
-      })
-
-      // Calculate peak hours
-      const hourCounts = new Map<string, number>()
-      assignments.forEach((assignment) => {
-        const key = `${assignment.day}-${assignment.period}`
-        hourCounts.set(key, (hourCounts.get(key) || 0) + 1)
-      })
+  // Carry out a resolution as one history step; the conflicts are detected again from the updated lessons
+  const applyResolution = (resolution: RoomConflictResolution) => {
+    record(resolution.description, resolution.changes)
+    const changedIds = resolution.changes.map((change) => change.after.id)
+    setAutoAssignedIds((ids) => ids.filter((id) => !changedIds.includes(id)))
+    setIsConflictDialogOpen(false)
+  }
 
-      const peakHours = Array.from(hourCounts.entries())
-        .filter(([, count]) => count > 0)
-        .sort(([, a], [, b]) => b - a)
-        .slice(0, 3)
-        .map(([time]) => time)
-
-      return {
-        roomId: room.id,
-        roomName: room.name,
-        roomType: room.roomTypeId, // Would need to resolve to name
-        totalSlots,
-        occupiedSlots,
-        utilizationPercentage,
-        peakHours,
-        conflicts: conflicts.filter((c) => c.roomId === room.id).length,
-        assignments,
-      }
-    })
-  }, [classrooms, roomAssignments, timetableEntries, conflicts])
+  const openConflictDetails = (conflict: RoomConflict, resolution?: RoomConflictResolution) => {
+    setSelectedConflict(conflict)
+    setSelectedResolution(resolution || conflict.suggestedResolutions[0] || null)
+    setIsConflictDialogOpen(true)
+  }
 
   // Open manual assignment dialog
   const openManualAssignment = (entry: TimetableEntry) => {
     setSelectedEntry(entry)
-    setManualRoomSelection("")
+    setManualRoomSelection(entry.roomId || "")
     setIsAssignmentDialogOpen(true)
   }
 
@@ -283,38 +176,27 @@ export function RoomAssignmentEngine({ timetableEntries, onRoomAssignmentsChange
     if (!selectedEntry || !manualRoomSelection) return
 
     // Check for conflicts
-    const conflictingAssignment = roomAssignments.find((ra) => {
-      const entry = timetableEntries.find((te) => te.id === ra.timetableEntryId)
-      return (
-        entry &&
-        ra.roomId === manualRoomSelection &&
+    const conflictingEntry = timetableEntries.find(
+      (entry) =>
+        entry.id !== selectedEntry.id &&
+        entry.roomId === manualRoomSelection &&
         entry.day === selectedEntry.day &&
-        entry.period === selectedEntry.period
-      )
-    })
+        entry.period === selectedEntry.period,
+    )
 
-    if (conflictingAssignment) {
+    if (conflictingEntry) {
       alert("This room is already occupied at this time!")
       return
     }
 
-    // Remove existing assignment if any
-    const updatedAssignments = roomAssignments.filter((ra) => ra.timetableEntryId !== selectedEntry.id)
-
-    // Add new assignment
-    updatedAssignments.push({
-      id: `manual-${selectedEntry.id}`,
-      timetableEntryId: selectedEntry.id,
-      roomId: manualRoomSelection,
-      isAutoAssigned: false,
-      assignedAt: new Date().toISOString(),
-      assignedBy: "user",
-      conflictStatus: "none",
-    })
-
-    setRoomAssignments(updatedAssignments)
-    onRoomAssignmentsChange?.(updatedAssignments)
-    detectConflicts(updatedAssignments)
+    const entry = timetableEntries.find((te) => te.id === selectedEntry.id)
+    if (entry && entry.roomId !== manualRoomSelection) {
+      const lesson = `${getSubjectName(entry.subjectId)} (${getClassName(entry.classId)}) on ${entry.day} P${entry.period}`
+      record(`Assigned ${getRoomName(manualRoomSelection)} to ${lesson}`, [
+        { before: entry, after: { ...entry, roomId: manualRoomSelection } },
+      ])
+      setAutoAssignedIds((ids) => ids.filter((id) => id !== entry.id))
+    }
     setIsAssignmentDialogOpen(false)
   }
 
@@ -342,19 +224,53 @@ export function RoomAssignmentEngine({ timetableEntries, onRoomAssignmentsChange
             <div className="flex items-center gap-2">
               <Building className="h-5 w-5" />
               Room Assignment Engine
-              <Badge variant="outline">{roomAssignments.length} Assignments</Badge>
+              <Badge variant="outline">{assignedEntries.length} Assignments</Badge>
               {conflicts.length > 0 && <Badge variant="destructive">{conflicts.length} Conflicts</Badge>}
             </div>
             <div className="flex gap-2">
-              <Button onClick={autoAssignRooms} variant="outline">
+              <Button onClick={() => autoAssignRooms(false)} variant="outline">
                 <RefreshCw className="h-4 w-4 mr-2" />
                 Auto-Assign Rooms
               </Button>
+              <Button
+                onClick={() => {
+                  if (confirm("Reassign the rooms of all lessons, including the ones assigned by hand?")) {
+                    autoAssignRooms(true)
+                  }
+                }}
+                variant="outline"
+                disabled={assignedEntries.length === 0}
+              >
+                <Shuffle className="h-4 w-4 mr-2" />
+                Reassign All
+              </Button>
             </div>
           </CardTitle>
         </CardHeader>
       </Card>
 
+      {unassignedLessons.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <div className="space-y-1">
+              <div className="font-medium">{unassignedLessons.length} lessons could not be given a room</div>
+              {unassignedLessons.map(({ entryId, reason }) => {
+                const entry = timetableEntries.find((te) => te.id === entryId)
+                return (
+                  entry && (
+                    <div key={entryId} className="text-sm">
+                      • {getClassName(entry.classId)} - {getSubjectName(entry.subjectId)} on {entry.day} P{entry.period}{" "}
+                      ({reason})
+                    </div>
+                  )
+                )
+              })}
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Conflicts Alert */}
       {conflicts.length > 0 && (
         <Alert variant="destructive">
@@ -397,7 +313,7 @@ export function RoomAssignmentEngine({ timetableEntries, onRoomAssignmentsChange
                 </TableHeader>
                 <TableBody>
                   {timetableEntries.map((entry) => {
-                    const assignment = roomAssignments.find((ra) => ra.timetableEntryId === entry.id)
+                    const isAutoAssigned = autoAssignedIds.includes(entry.id)
                     const hasConflict = conflicts.some((c) => c.conflictingEntries.includes(entry.id))
 
                     return (
@@ -413,26 +329,26 @@ export function RoomAssignmentEngine({ timetableEntries, onRoomAssignmentsChange
                           </div>
                         </TableCell>
                         <TableCell>
-                          {assignment ? (
+                          {entry.roomId ? (
                             <div className="flex items-center gap-2">
                               <MapPin className="h-4 w-4 text-muted-foreground" />
-                              <span>{getRoomName(assignment.roomId)}</span>
+                              <span>{getRoomName(entry.roomId)}</span>
                             </div>
                           ) : (
                             <span className="text-muted-foreground">Not assigned</span>
                           )}
                         </TableCell>
                         <TableCell>
-                          {assignment && (
-                            <Badge variant={assignment.isAutoAssigned ? "secondary" : "default"}>
-                              {assignment.isAutoAssigned ? "Auto" : "Manual"}
+                          {entry.roomId && (
+                            <Badge variant={isAutoAssigned ? "secondary" : "default"}>
+                              {isAutoAssigned ? "Auto" : "Manual"}
                             </Badge>
                           )}
                         </TableCell>
                         <TableCell>
                           {hasConflict ? (
                             <Badge variant="destructive">Conflict</Badge>
-                          ) : assignment ? (
+                          ) : entry.roomId ? (
                             <Badge variant="default">
                               <CheckCircle className="h-3 w-3 mr-1" />
                               Assigned
@@ -480,21 +396,30 @@ export function RoomAssignmentEngine({ timetableEntries, onRoomAssignmentsChange
                         </div>
                         <div className="space-y-1">
                           <div className="text-sm font-medium">Suggested resolutions:</div>
+                          {conflict.suggestedResolutions.length === 0 && (
+                            <div className="text-sm text-muted-foreground">
+                              No free room or period can take one of these lessons.
+                            </div>
+                          )}
                           {conflict.suggestedResolutions.map((resolution, index) => (
-                            <div key={index} className="text-sm text-muted-foreground">
-                              • {resolution.description} (Impact: {resolution.impact})
+                            <div key={index} className="flex items-center gap-2 text-sm text-muted-foreground">
+                              <span>• {resolution.description}</span>
+                              <Badge variant={IMPACT_VARIANTS[resolution.impact]}>{resolution.impact} impact</Badge>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => openConflictDetails(conflict, resolution)}
+                              >
+                                Preview
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => applyResolution(resolution)}>
+                                Apply
+                              </Button>
                             </div>
                           ))}
                         </div>
                       </div>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => {
-                          setSelectedConflict(conflict)
-                          setIsConflictDialogOpen(true)
-                        }}
-                      >
+                      <Button variant="outline" size="sm" onClick={() => openConflictDetails(conflict)}>
                         <Eye className="h-4 w-4 mr-2" />
                         View Details
                       </Button>
@@ -507,88 +432,87 @@ export function RoomAssignmentEngine({ timetableEntries, onRoomAssignmentsChange
         </TabsContent>
 
         <TabsContent value="utilization" className="space-y-4">
-          <div className="grid gap-4">
-            {roomUtilization.map((util) => (
-              <Card key={util.roomId}>
-                <CardHeader className="pb-4">
-                  <CardTitle className="flex items-center justify-between">
-                    <div className="flex items-center gap-2">
-                      <Building className="h-5 w-5" />
-                      <span>{util.roomName}</span>
-                      <Badge
-                        variant={
-                          util.utilizationPercentage > 80
-                            ? "destructive"
-                            : util.utilizationPercentage > 60
-                              ? "default"
-                              : "secondary"
-                        }
-                      >
-                        {util.utilizationPercentage}% Utilized
-                      </Badge>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <Users className="h-4 w-4 text-muted-foreground" />
-                      <span className="text-sm">
-                        {util.occupiedSlots}/{util.totalSlots} slots
-                      </span>
-                    </div>
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div>
-                    <div className="flex justify-between text-sm mb-2">
-                      <span>Utilization</span>
-                      <span>{util.utilizationPercentage}%</span>
+          <RoomUtilizationDashboard />
+        </TabsContent>
+      </Tabs>
+
+      {/* Conflict Details Dialog */}
+      <Dialog open={isConflictDialogOpen} onOpenChange={setIsConflictDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Resolve Room Conflict</DialogTitle>
+          </DialogHeader>
+          {selectedConflict && (
+            <div className="space-y-4">
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{selectedConflict.message}</AlertDescription>
+              </Alert>
+
+              <div className="space-y-1 text-sm">
+                <div className="font-medium">Lessons in this room:</div>
+                {timetableEntries
+                  .filter((entry) => selectedConflict.conflictingEntries.includes(entry.id))
+                  .map((entry) => (
+                    <div key={entry.id} className="text-muted-foreground">
+                      • {getSubjectName(entry.subjectId)} - {getClassName(entry.classId)}
                     </div>
-                    <Progress value={util.utilizationPercentage} className="h-2" />
-                  </div>
+                  ))}
+              </div>
 
-                  {util.conflicts > 0 && (
-                    <Alert variant="destructive">
-                      <AlertTriangle className="h-4 w-4" />
-                      <AlertDescription>
-                        {util.conflicts} scheduling conflict{util.conflicts > 1 ? "s" : ""} detected
-                      </AlertDescription>
-                    </Alert>
-                  )}
-
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-                    <div>
-                      <div className="font-medium mb-2">Peak Usage Times:</div>
-                      {util.peakHours.length > 0 ? (
-                        <div className="space-y-1">
-                          {util.peakHours.map((time) => (
-                            <div key={time} className="text-muted-foreground">
-                              {time.replace("-", " Period ")}
-                            </div>
-                          ))}
-                        </div>
-                      ) : (
-                        <div className="text-muted-foreground">No usage data</div>
-                      )}
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Resolutions:</div>
+                {selectedConflict.suggestedResolutions.map((resolution, index) => (
+                  <button
+                    key={index}
+                    type="button"
+                    className={`w-full rounded-lg border p-3 text-left text-sm ${
+                      resolution === selectedResolution ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+                    }`}
+                    onClick={() => setSelectedResolution(resolution)}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span>{resolution.description}</span>
+                      <Badge variant={IMPACT_VARIANTS[resolution.impact]}>{resolution.impact} impact</Badge>
                     </div>
+                  </button>
+                ))}
+              </div>
 
-                    <div>
-                      <div className="font-medium mb-2">Recent Assignments:</div>
-                      <div className="space-y-1 max-h-20 overflow-y-auto">
-                        {util.assignments.slice(0, 3).map((assignment, index) => (
-                          <div key={index} className="text-muted-foreground">
-                            {assignment.subject} - {assignment.class}
-                          </div>
-                        ))}
-                        {util.assignments.length > 3 && (
-                          <div className="text-muted-foreground">+{util.assignments.length - 3} more...</div>
-                        )}
+              {selectedResolution && (
+                <div className="p-3 border rounded-lg">
+                  <div className="font-medium mb-2">Preview</div>
+                  <div className="space-y-1 text-sm">
+                    {selectedResolution.changes.map(({ before, after }) => (
+                      <div key={after.id}>
+                        {getSubjectName(after.subjectId)} - {getClassName(after.classId)}:{" "}
+                        <span className="text-muted-foreground">
+                          {before.day} P{before.period} · {before.roomId ? getRoomName(before.roomId) : "No room"}
+                        </span>{" "}
+                        →{" "}
+                        <span className="font-medium">
+                          {after.day} P{after.period} · {after.roomId ? getRoomName(after.roomId) : "No room"}
+                        </span>
                       </div>
-                    </div>
+                    ))}
                   </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        </TabsContent>
-      </Tabs>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsConflictDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => selectedResolution && applyResolution(selectedResolution)}
+              disabled={!selectedResolution}
+            >
+              Apply Resolution
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
 
       {/* Manual Assignment Dialog */}
       <Dialog open={isAssignmentDialogOpen} onOpenChange={setIsAssignmentDialogOpen}>
@@ -0,0 +1,398 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { AlertTriangle, BarChart3, Building, Download, TrendingDown, Users } from "lucide-react"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
+import type { RoomUtilization } from "@/types/room-assignment"
+import { findTimeSlot, getScheduleDays, getSchedulePeriods } from "@/lib/period-config"
+import { toCSV } from "@/lib/timetable-spreadsheet"
+import {
+  buildRoomUtilization,
+  getUtilizationStatusLabel,
+  OVER_SUBSCRIBED_PERCENTAGE,
+  toRoomUtilizationRows,
+  UNDER_USED_PERCENTAGE,
+} from "@/lib/room-utilization"
+
+const chartConfig = {
+  utilization: { label: "Utilization %", color: "var(--chart-1)" },
+  seatFill: { label: "Seat Fill %", color: "var(--chart-2)" },
+} satisfies ChartConfig
+
+const STATUS_VARIANTS: Record<RoomUtilization["status"], "default" | "secondary" | "destructive"> = {
+  under_used: "secondary",
+  balanced: "default",
+  over_subscribed: "destructive",
+}
+
+// The heatmap for all rooms shades each period by the share of rooms in use
+const ALL_ROOMS = "all"
+
+/**
+ * How the rooms are used across the configured week: occupancy and seat fill per room and room type,
+ * a day-by-period heatmap, and the rooms standing empty or stretched.
+ */
+export function RoomUtilizationDashboard() {
+  const { timetableEntries, classrooms, roomTypes, subjects, classSections, teachers, periodConfig } =
+    useTimetableStore()
+  const { timeSlots } = periodConfig
+  const [heatmapRoomId, setHeatmapRoomId] = useState(ALL_ROOMS)
+
+  const report = useMemo(
+    () =>
+      buildRoomUtilization({
+        entries: timetableEntries,
+        classrooms,
+        roomTypes,
+        subjects,
+        classSections,
+        teachers,
+        timeSlots,
+      }),
+    [timetableEntries, classrooms, roomTypes, subjects, classSections, teachers, timeSlots],
+  )
+  const days = useMemo(() => getScheduleDays(timeSlots), [timeSlots])
+  const periods = useMemo(() => getSchedulePeriods(timeSlots), [timeSlots])
+
+  const { rooms } = report
+  const usedRooms = rooms.filter((room) => room.assignments.length > 0)
+  const averageUtilization =
+    rooms.length > 0 ? Math.round(rooms.reduce((sum, room) => sum + room.utilizationPercentage, 0) / rooms.length) : 0
+  const averageSeatFill =
+    usedRooms.length > 0
+      ? Math.round(usedRooms.reduce((sum, room) => sum + room.seatFillPercentage, 0) / usedRooms.length)
+      : 0
+  const underUsedRooms = rooms.filter((room) => room.status === "under_used")
+  const overSubscribedRooms = rooms.filter((room) => room.status === "over_subscribed")
+  const heatmapRoom = rooms.find((room) => room.roomId === heatmapRoomId)
+
+  const roomChartData = rooms.map((room) => ({
+    name: room.roomName,
+    utilization: room.utilizationPercentage,
+    seatFill: room.seatFillPercentage,
+  }))
+  const roomTypeChartData = report.roomTypes.map((roomType) => ({
+    name: roomType.roomTypeName,
+    utilization: roomType.utilizationPercentage,
+    seatFill: roomType.seatFillPercentage,
+  }))
+
+  const exportCSV = () => {
+    const url = URL.createObjectURL(
+      new Blob(["\uFEFF", toCSV(toRoomUtilizationRows(report))], { type: "text/csv;charset=utf-8" }),
+    )
+    const a = document.createElement("a")
+    a.href = url
+    a.download = "room-utilization.csv"
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  const renderHeatmapCell = (day: string, period: number) => {
+    const key = `${day}-${period}`
+    if (!findTimeSlot(timeSlots, day, period)) {
+      return <td key={key} className="border p-1 h-12 bg-muted/30" />
+    }
+
+    if (!heatmapRoom) {
+      const busyRooms = rooms.filter((room) => room.occupancy[key])
+      const share = rooms.length > 0 ? busyRooms.length / rooms.length : 0
+      return (
+        <td
+          key={key}
+          className="border p-1 h-12 text-center text-xs"
+          style={{ backgroundColor: `rgba(37, 99, 235, ${share * 0.8})`, color: share > 0.5 ? "white" : undefined }}
+          title={busyRooms.map((room) => room.roomName).join(", ") || "No rooms in use"}
+        >
+          {busyRooms.length}/{rooms.length}
+        </td>
+      )
+    }
+
+    const lessons = heatmapRoom.assignments.filter((a) => a.day === day && a.period === period)
+    return (
+      <td
+        key={key}
+        className={`border p-1 h-12 text-center text-xs ${
+          lessons.length > 1 ? "bg-red-200 text-red-900" : lessons.length === 1 ? "bg-blue-200 text-blue-900" : ""
+        }`}
+        title={lessons.map((a) => `${a.subject} · ${a.class} · ${a.teacher}`).join("\n") || "Free"}
+      >
+        {lessons.length > 1
+          ? `${lessons.length} lessons`
+          : lessons.length === 1
+            ? `${lessons[0].subject} · ${lessons[0].class}`
+            : ""}
+      </td>
+    )
+  }
+
+  if (rooms.length === 0) {
+    return (
+      <Card>
+        <CardContent className="text-center py-8 text-muted-foreground">
+          <Building className="h-8 w-8 mx-auto mb-2" />
+          No active rooms to report on. Add rooms on the Classrooms page first.
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Based on {timeSlots.length} configured periods a week. Rooms below {UNDER_USED_PERCENTAGE}% are under-used;
+          from {OVER_SUBSCRIBED_PERCENTAGE}% or with a double booking they are over-subscribed.
+        </p>
+        <Button variant="outline" onClick={exportCSV}>
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-2xl font-bold">{averageUtilization}%</div>
+            <div className="text-sm text-muted-foreground">Average Utilization</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-2xl font-bold">{averageSeatFill}%</div>
+            <div className="text-sm text-muted-foreground">Average Seat Fill</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-2xl font-bold">{underUsedRooms.length}</div>
+            <div className="text-sm text-muted-foreground">Under-used Rooms</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-2xl font-bold text-red-600">{overSubscribedRooms.length}</div>
+            <div className="text-sm text-muted-foreground">Over-subscribed Rooms</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5" />
+              By Room
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="aspect-auto h-[280px] w-full">
+              <BarChart data={roomChartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} unit="%" />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="utilization" fill="var(--color-utilization)" radius={4} />
+                <Bar dataKey="seatFill" fill="var(--color-seatFill)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Building className="h-5 w-5" />
+              By Room Type
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="aspect-auto h-[280px] w-full">
+              <BarChart data={roomTypeChartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} unit="%" />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="utilization" fill="var(--color-utilization)" radius={4} />
+                <Bar dataKey="seatFill" fill="var(--color-seatFill)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between gap-4">
+            <span>Weekly Heatmap</span>
+            <Select value={heatmapRoomId} onValueChange={setHeatmapRoomId}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ROOMS}>All Rooms</SelectItem>
+                {rooms.map((room) => (
+                  <SelectItem key={room.roomId} value={room.roomId}>
+                    {room.roomName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardTitle>
+          <CardDescription>
+            {heatmapRoom
+              ? `${heatmapRoom.roomType} · ${heatmapRoom.capacity} seats · double bookings in red`
+              : "Rooms in use out of all rooms, darker when more of them are taken"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr>
+                  <th className="border p-2 bg-muted font-medium">Period</th>
+                  {days.map((day) => (
+                    <th key={day} className="border p-2 bg-muted font-medium min-w-[120px]">
+                      {day}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {periods.map((period) => (
+                  <tr key={period}>
+                    <td className="border p-2 bg-muted font-medium text-center">Period {period}</td>
+                    {days.map((day) => renderHeatmapCell(day, period))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingDown className="h-5 w-5" />
+              Under-used Rooms
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {underUsedRooms.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Every room is in use for most of the week.</p>
+            ) : (
+              underUsedRooms.map((room) => (
+                <div key={room.roomId} className="flex items-center justify-between text-sm">
+                  <span>
+                    {room.roomName} <span className="text-muted-foreground">({room.roomType})</span>
+                  </span>
+                  <span className="text-muted-foreground">
+                    {room.occupiedSlots}/{room.totalSlots} periods
+                  </span>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5" />
+              Over-subscribed Rooms
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {overSubscribedRooms.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No room is booked close to its limit.</p>
+            ) : (
+              overSubscribedRooms.map((room) => (
+                <div key={room.roomId} className="flex items-center justify-between text-sm">
+                  <span>
+                    {room.roomName} <span className="text-muted-foreground">({room.roomType})</span>
+                  </span>
+                  <span className="text-muted-foreground">
+                    {room.utilizationPercentage}%{room.conflicts > 0 && ` · ${room.conflicts} double-booked`}
+                  </span>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            All Rooms
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Room</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Capacity</TableHead>
+                <TableHead>Periods</TableHead>
+                <TableHead>Utilization</TableHead>
+                <TableHead>Seat Fill</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rooms.map((room) => (
+                <TableRow key={room.roomId}>
+                  <TableCell className="font-medium">{room.roomName}</TableCell>
+                  <TableCell>{room.roomType}</TableCell>
+                  <TableCell>{room.capacity}</TableCell>
+                  <TableCell>
+                    {room.occupiedSlots}/{room.totalSlots}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Progress value={room.utilizationPercentage} className="h-2 w-24" />
+                      <span className="text-sm">{room.utilizationPercentage}%</span>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {room.seatFillPercentage}%
+                    {room.overCapacityLessons > 0 && (
+                      <div className="text-xs text-red-600">{room.overCapacityLessons} over capacity</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[room.status]}>{getUtilizationStatusLabel(room.status)}</Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
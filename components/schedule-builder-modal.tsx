@@ -8,43 +8,53 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { X, AlertTriangle } from 'lucide-react'
-import type { TimetableEntry, GradeSubjectAllocation, ClassSubjectTeacher, TimeSlot } from "@/types/timetable"
-import { subjects, teachers, classSections, timeSlots as initialTimeSlots, rooms } from "@/lib/timetable-data"
+import type { TimetableEntry } from "@/types/timetable"
+import { findTimeSlot, getScheduleDays, getSchedulePeriods } from "@/lib/period-config"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
+import { useLessonDrag } from "@/hooks/use-lesson-drag"
+import { evaluateSlots } from "@/lib/slot-availability"
 
 interface ScheduleBuilderModalProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  allocations: GradeSubjectAllocation[]
-  assignments: ClassSubjectTeacher[]
   timetableEntries: TimetableEntry[]
   selectedEntity: string
   viewMode: "class" | "teacher"
   onAddEntry: (entry: TimetableEntry) => void
   onRemoveEntry: (entryId: string) => void
-  roomAssignments: any[]
 }
 
-const PERIODS = [1, 2, 3, 4, 5]
-const DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"]
-const PERIOD_DURATION = 45 // minutes
-
 export function ScheduleBuilderModal({
   open,
   onOpenChange,
-  allocations,
-  assignments,
   timetableEntries,
   selectedEntity,
   viewMode,
   onAddEntry,
   onRemoveEntry,
-  roomAssignments,
 }: ScheduleBuilderModalProps) {
   const [selectedSubject, setSelectedSubject] = useState<string | null>(null)
   const [leftPanelWidth, setLeftPanelWidth] = useState(30) // percentage
   const [isDraggingDivider, setIsDraggingDivider] = useState(false)
-
-  const timeSlots = initialTimeSlots
+  const {
+    allocations,
+    assignments,
+    teachers,
+    subjects,
+    classSections,
+    classrooms,
+    roomTypes,
+    subjectRoomTypes,
+    periodConfig,
+  } = useTimetableStore()
+  const { timeSlots, periodDuration } = periodConfig
+  const { draggedEntryId, getDropTarget, getDropClassName, getDragProps, getDropProps } = useLessonDrag({
+    viewMode,
+    selectedEntity,
+  })
+
+  const days = useMemo(() => getScheduleDays(timeSlots), [timeSlots])
+  const periods = useMemo(() => getSchedulePeriods(timeSlots), [timeSlots])
 
   // Calculate subject progress
   const subjectProgress = useMemo(() => {
@@ -93,7 +103,7 @@ export function ScheduleBuilderModal({
         }
       })
 
-      const scheduledHours = scheduledEntries.length * (PERIOD_DURATION / 60)
+      const scheduledHours = scheduledEntries.length * (periodDuration / 60)
 
       progress[subject.id] = {
         scheduled: scheduledHours,
@@ -103,7 +113,17 @@ export function ScheduleBuilderModal({
     })
 
     return progress
-  }, [selectedEntity, viewMode, allocations, assignments, timetableEntries])
+  }, [
+    selectedEntity,
+    viewMode,
+    allocations,
+    assignments,
+    teachers,
+    subjects,
+    classSections,
+    timetableEntries,
+    periodDuration,
+  ])
 
   const availableSubjects = selectedEntity
     ? viewMode === "class"
@@ -119,35 +139,49 @@ export function ScheduleBuilderModal({
         })
     : []
 
-  // Get valid slots for selected subject
-  const validSlots = useMemo(() => {
+  // Every slot checked for the selected subject: class, teacher, room and hour limit at once
+  const slotAvailability = useMemo(() => {
     if (!selectedSubject) return []
 
-    const valid: Array<{ day: string; period: number }> = []
     const progress = subjectProgress[selectedSubject]
-
     if (!progress || progress.percentage >= 100) return []
 
-    // Check all slots
-    DAYS.forEach((day) => {
-      PERIODS.forEach((period) => {
-        // Check if slot is already occupied
-        const isOccupied = timetableEntries.some((entry) => {
-          if (viewMode === "class") {
-            return entry.classId === selectedEntity && entry.day === day && entry.period === period
-          } else {
-            return entry.teacherId === selectedEntity && entry.day === day && entry.period === period
-          }
-        })
-
-        if (!isOccupied) {
-          valid.push({ day, period })
-        }
-      })
+    const teacherId =
+      viewMode === "class"
+        ? assignments.find((a) => a.classId === selectedEntity && a.subjectId === selectedSubject && a.isActive)
+            ?.teacherId
+        : selectedEntity
+
+    return evaluateSlots({
+      entries: timetableEntries,
+      subjectId: selectedSubject,
+      teacherId,
+      classId: viewMode === "class" ? selectedEntity : undefined,
+      timeSlots,
+      periodDuration,
+      teachers,
+      subjects,
+      classSections,
+      classrooms,
+      roomTypes,
+      subjectRoomTypes,
     })
-
-    return valid
-  }, [selectedSubject, viewMode, selectedEntity, timetableEntries, subjectProgress])
+  }, [
+    selectedSubject,
+    viewMode,
+    selectedEntity,
+    timetableEntries,
+    subjectProgress,
+    assignments,
+    teachers,
+    subjects,
+    classSections,
+    classrooms,
+    roomTypes,
+    subjectRoomTypes,
+    timeSlots,
+    periodDuration,
+  ])
 
   const handleSlotClick = useCallback(
     (day: string, period: number) => {
@@ -174,7 +208,7 @@ export function ScheduleBuilderModal({
         classId: viewMode === "class" ? selectedEntity : "",
         teacherId: teacherId,
         subjectId: selectedSubject,
-        timeSlotId: timeSlots.find((ts) => ts.day === day && ts.period === period)?.id || "",
+        timeSlotId: findTimeSlot(timeSlots, day, period)?.id || "",
         day,
         period,
       }
@@ -197,9 +231,13 @@ export function ScheduleBuilderModal({
   }
 
   const isSlotValid = (day: string, period: number) => {
-    return validSlots.some((slot) => slot.day === day && slot.period === period)
+    return slotAvailability.some((slot) => slot.day === day && slot.period === period && slot.isValid)
   }
 
+  // Why the selected subject cannot be placed in a slot
+  const getBlockedReason = (day: string, period: number) =>
+    slotAvailability.find((slot) => slot.day === day && slot.period === period)?.reasons.join("; ")
+
   const handleMouseMove = useCallback(
     (e: React.MouseEvent) => {
       if (!isDraggingDivider) return
@@ -323,7 +361,7 @@ export function ScheduleBuilderModal({
                   <thead>
                     <tr>
                       <th className="border p-2 bg-muted font-medium text-left">Time</th>
-                      {PERIODS.map((period) => (
+                      {periods.map((period) => (
                         <th key={period} className="border p-2 bg-muted font-medium min-w-[100px]">
                           Period {period}
                         </th>
@@ -331,13 +369,18 @@ export function ScheduleBuilderModal({
                     </tr>
                   </thead>
                   <tbody>
-                    {DAYS.map((day) => (
+                    {days.map((day) => (
                       <tr key={day}>
                         <td className="border p-2 bg-muted font-medium text-center min-w-[80px]">{day}</td>
-                        {PERIODS.map((period) => {
+                        {periods.map((period) => {
+                          const timeSlot = findTimeSlot(timeSlots, day, period)
+                          if (!timeSlot) {
+                            return <td key={`${day}-${period}`} className="border p-1 h-16 bg-muted/30" />
+                          }
                           const entry = getEntryForSlot(day, period)
                           const isValid = selectedSubject && isSlotValid(day, period)
-                          const timeSlot = timeSlots.find((ts) => ts.day === day && ts.period === period)
+                          const dropTarget = getDropTarget(day, period)
+                          const blockedReason = selectedSubject && !isValid ? getBlockedReason(day, period) : undefined
 
                           return (
                             <td
@@ -346,22 +389,27 @@ export function ScheduleBuilderModal({
                                 isValid
                                   ? "bg-green-50 hover:bg-green-100 border-green-200"
                                   : "hover:bg-muted/50"
-                              } ${selectedSubject && !isValid ? "opacity-50" : ""}`}
+                              } ${selectedSubject && !isValid ? "opacity-50" : ""} ${getDropClassName(day, period)}`}
                               onClick={() => {
                                 if (isValid) {
                                   handleSlotClick(day, period)
                                 }
                               }}
+                              title={dropTarget?.error || blockedReason}
+                              {...getDropProps(day, period)}
                             >
                               {entry ? (
                                 <div
-                                  className="p-2 rounded text-white text-xs h-full flex flex-col justify-between cursor-pointer hover:opacity-80"
+                                  className={`p-2 rounded text-white text-xs h-full flex flex-col justify-between cursor-pointer hover:opacity-80 ${
+                                    entry.id === draggedEntryId ? "opacity-40" : ""
+                                  }`}
                                   style={{ backgroundColor: getSubjectColor(entry.subjectId) }}
                                   onClick={(e) => {
                                     e.stopPropagation()
                                     onRemoveEntry(entry.id)
                                   }}
-                                  title="Click to remove"
+                                  title="Drag to move or swap, click to remove"
+                                  {...getDragProps(entry)}
                                 >
                                   <div>
                                     <div className="font-medium">{getSubjectName(entry.subjectId)}</div>
@@ -372,12 +420,20 @@ export function ScheduleBuilderModal({
                                     </div>
                                   </div>
                                   <div className="text-xs opacity-75">
-                                    {timeSlot?.startTime} - {timeSlot?.endTime}
+                                    {timeSlot.startTime} - {timeSlot.endTime}
                                   </div>
                                 </div>
                               ) : (
                                 <div className="text-xs text-muted-foreground h-full flex items-center justify-center">
-                                  {timeSlot?.startTime}
+                                  {dropTarget && !dropTarget.error ? (
+                                    "Drop to move"
+                                  ) : blockedReason ? (
+                                    <span className="px-1 text-center text-[10px] leading-tight line-clamp-2">
+                                      {blockedReason}
+                                    </span>
+                                  ) : (
+                                    timeSlot.startTime
+                                  )}
                                 </div>
                               )}
                             </td>
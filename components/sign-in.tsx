@@ -0,0 +1,101 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle, LogIn, ShieldCheck } from "lucide-react"
+import { useAuth } from "@/hooks/use-auth"
+
+// Sign-in form; on a fresh install it creates the first admin account instead
+export function SignIn() {
+  const { needsSetup, signIn, createAdminAccount } = useAuth()
+  const [name, setName] = useState("")
+  const [email, setEmail] = useState("")
+  const [password, setPassword] = useState("")
+  const [error, setError] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError("")
+    try {
+      if (needsSetup) {
+        await createAdminAccount(name.trim(), email.trim(), password)
+      } else {
+        await signIn(email.trim(), password)
+      }
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : "Could not sign in. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-white">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {needsSetup ? <ShieldCheck className="h-5 w-5" /> : <LogIn className="h-5 w-5" />}
+            {needsSetup ? "Create Admin Account" : "Sign In"}
+          </CardTitle>
+          <CardDescription>
+            {needsSetup
+              ? "No accounts exist yet. This first account can add timetablers, heads of department and teachers."
+              : "Semester Timetable Builder"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {needsSetup && (
+              <div>
+                <Label htmlFor="sign-in-name">Name</Label>
+                <Input id="sign-in-name" value={name} onChange={(e) => setName(e.target.value)} required />
+              </div>
+            )}
+            <div>
+              <Label htmlFor="sign-in-email">Email</Label>
+              <Input
+                id="sign-in-email"
+                type="email"
+                autoComplete="username"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="sign-in-password">Password</Label>
+              <Input
+                id="sign-in-password"
+                type="password"
+                autoComplete={needsSetup ? "new-password" : "current-password"}
+                minLength={needsSetup ? 8 : undefined}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {needsSetup ? "Create Account" : "Sign In"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
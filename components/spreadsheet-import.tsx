@@ -0,0 +1,144 @@
+"use client"
+
+import type React from "react"
+
+import { useRef, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Upload, AlertTriangle, CheckCircle } from "lucide-react"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
+import { useTimetableHistory } from "@/hooks/use-timetable-history"
+import {
+  parseCSV,
+  parseTimetableRows,
+  readWorkbookRows,
+  type SpreadsheetImportResult,
+} from "@/lib/timetable-spreadsheet"
+
+const MAX_LISTED_ERRORS = 50
+
+// Reads a CSV or XLSX lesson list (as exported) and replaces the lessons of the classes it contains
+export function SpreadsheetImport() {
+  const { timetableEntries, grades, classSections, teachers, subjects, classrooms, periodConfig } = useTimetableStore()
+  const { recordEntries } = useTimetableHistory()
+  const [fileName, setFileName] = useState("")
+  const [result, setResult] = useState<SpreadsheetImportResult | null>(null)
+  const [isReading, setIsReading] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    setIsReading(true)
+    setFileName(file.name)
+    try {
+      const rows = file.name.toLowerCase().endsWith(".xlsx")
+        ? await readWorkbookRows(await file.arrayBuffer())
+        : parseCSV(await file.text())
+      const data = { timeSlots: periodConfig.timeSlots, subjects, teachers, grades, classSections, classrooms }
+      setResult(parseTimetableRows(rows, data, timetableEntries))
+    } catch (error) {
+      console.error("Error reading spreadsheet:", error)
+      alert("The file could not be read. Please upload a CSV or XLSX file exported from this app.")
+      setResult(null)
+    } finally {
+      setIsReading(false)
+    }
+  }
+
+  const applyImport = () => {
+    if (!result || result.entries.length === 0) return
+
+    const keptEntries = timetableEntries.filter((entry) => !result.classIds.includes(entry.classId))
+    recordEntries(`Imported ${result.entries.length} lessons from ${fileName}`, [...keptEntries, ...result.entries])
+    setResult(null)
+    setFileName("")
+  }
+
+  const importedClassNames = result
+    ? result.classIds.map((id) => classSections.find((c) => c.id === id)?.name || id).join(", ")
+    : ""
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Upload className="h-5 w-5" />
+          Import From Spreadsheet
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Upload a CSV or XLSX file with the columns Day, Period, Class, Subject, Teacher and optionally Room. The
+          lessons of every class in the file replace that class&apos;s current lessons.
+        </p>
+
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isReading}>
+            <Upload className="h-4 w-4 mr-2" />
+            {isReading ? "Reading..." : "Choose File"}
+          </Button>
+          {fileName && <span className="text-sm text-muted-foreground">{fileName}</span>}
+        </div>
+
+        {result && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">{result.rowCount} rows</Badge>
+              <Badge variant="default">{result.entries.length} valid lessons</Badge>
+              {result.errors.length > 0 && <Badge variant="destructive">{result.errors.length} errors</Badge>}
+            </div>
+
+            {result.errors.length > 0 ? (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  <ul className="space-y-1 text-sm max-h-48 overflow-y-auto">
+                    {result.errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+                      <li key={index}>
+                        Row {error.row}: {error.message}
+                      </li>
+                    ))}
+                    {result.errors.length > MAX_LISTED_ERRORS && (
+                      <li>…and {result.errors.length - MAX_LISTED_ERRORS} more</li>
+                    )}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <Alert>
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription>Every row is valid.</AlertDescription>
+              </Alert>
+            )}
+
+            {result.entries.length > 0 && (
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm text-muted-foreground">Replaces the lessons of {importedClassNames}</span>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setResult(null)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={applyImport}>
+                    Import {result.entries.length} {result.errors.length > 0 ? "Valid " : ""}Lessons
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -12,7 +12,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
 import { BookOpen, Plus, Edit2, Trash2, Save, AlertTriangle, CheckCircle } from "lucide-react"
-import { subjects as initialSubjects } from "@/lib/timetable-data"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
+import { getDepartments } from "@/lib/publication-workflow"
 import type { Subject } from "@/types/timetable"
 
 interface SubjectManagementProps {
@@ -25,7 +26,8 @@ interface ValidationError {
 }
 
 export function SubjectManagement({ onSubjectsChange }: SubjectManagementProps) {
-  const [subjects, setSubjects] = useState<Subject[]>(initialSubjects)
+  const { subjects, setData } = useTimetableStore()
+  const setSubjects = (updatedSubjects: Subject[]) => setData("subjects", updatedSubjects)
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
   const [editingSubject, setEditingSubject] = useState<Subject | null>(null)
@@ -36,6 +38,7 @@ export function SubjectManagement({ onSubjectsChange }: SubjectManagementProps)
   const [newSubject, setNewSubject] = useState({
     name: "",
     code: "",
+    department: "",
     color: "#3b82f6",
   })
 
@@ -43,9 +46,12 @@ export function SubjectManagement({ onSubjectsChange }: SubjectManagementProps)
   const [editForm, setEditForm] = useState({
     name: "",
     code: "",
+    department: "",
     color: "#3b82f6",
   })
 
+  const departments = getDepartments(subjects)
+
   // Validate subject data
   const validateSubject = (name: string, code: string, excludeId?: string): ValidationError[] => {
     const errors: ValidationError[] = []
@@ -88,6 +94,7 @@ export function SubjectManagement({ onSubjectsChange }: SubjectManagementProps)
         id: Date.now().toString(),
         name: newSubject.name.trim(),
         code: newSubject.code.trim().toUpperCase(),
+        department: newSubject.department.trim() || undefined,
         color: newSubject.color,
       }
 
@@ -96,7 +103,7 @@ export function SubjectManagement({ onSubjectsChange }: SubjectManagementProps)
       onSubjectsChange?.(updatedSubjects)
 
       // Reset form
-      setNewSubject({ name: "", code: "", color: "#3b82f6" })
+      setNewSubject({ name: "", code: "", department: "", color: "#3b82f6" })
       setValidationErrors([])
     }
   }
@@ -107,6 +114,7 @@ export function SubjectManagement({ onSubjectsChange }: SubjectManagementProps)
     setEditForm({
       name: subject.name,
       code: subject.code,
+      department: subject.department || "",
       color: subject.color,
     })
     setValidationErrors([])
@@ -127,6 +135,7 @@ export function SubjectManagement({ onSubjectsChange }: SubjectManagementProps)
               ...subject,
               name: editForm.name.trim(),
               code: editForm.code.trim().toUpperCase(),
+              department: editForm.department.trim() || undefined,
               color: editForm.color,
             }
           : subject,
@@ -198,13 +207,19 @@ export function SubjectManagement({ onSubjectsChange }: SubjectManagementProps)
         </Alert>
       )}
 
+      <datalist id="subject-departments">
+        {departments.map((department) => (
+          <option key={department} value={department} />
+        ))}
+      </datalist>
+
       {/* Add New Subject Form */}
       <Card className="leading-7">
         <CardHeader className="leading-3 pb-0">
           <CardTitle className="text-lg">Add New Subject</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
             <div>
               <Label htmlFor="subject-name">Subject Name</Label>
               <Input
@@ -228,6 +243,17 @@ export function SubjectManagement({ onSubjectsChange }: SubjectManagementProps)
                 className={getFieldError("code") ? "border-destructive" : ""}
               />
             </div>
+            <div>
+              <Label htmlFor="subject-department">Department</Label>
+              <Input
+                id="subject-department"
+                placeholder="e.g., Sciences"
+                list="subject-departments"
+                value={newSubject.department}
+                onChange={(e) => setNewSubject((prev) => ({ ...prev, department: e.target.value }))}
+                onKeyPress={handleKeyPress}
+              />
+            </div>
             <div>
               <Label htmlFor="subject-color">Color</Label>
               <div className="flex items-center gap-2">
@@ -276,6 +302,7 @@ export function SubjectManagement({ onSubjectsChange }: SubjectManagementProps)
               <TableRow>
                 <TableHead>Subject</TableHead>
                 <TableHead>Code</TableHead>
+                <TableHead>Department</TableHead>
                 <TableHead>Color</TableHead>
                 <TableHead>Preview</TableHead>
                 <TableHead className="w-[120px]">Actions</TableHead>
@@ -295,6 +322,7 @@ export function SubjectManagement({ onSubjectsChange }: SubjectManagementProps)
                       {subject.code}
                     </Badge>
                   </TableCell>
+                  <TableCell className="text-sm">{subject.department || "—"}</TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2">
                       <div className="w-6 h-6 rounded-md border" style={{ backgroundColor: subject.color }} />
@@ -328,7 +356,7 @@ export function SubjectManagement({ onSubjectsChange }: SubjectManagementProps)
               ))}
               {subjects.length === 0 && (
                 <TableRow>
-                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
                     No subjects found. Add your first subject using the form above.
                   </TableCell>
                 </TableRow>
@@ -364,6 +392,15 @@ export function SubjectManagement({ onSubjectsChange }: SubjectManagementProps)
                 className={getFieldError("code") ? "border-destructive" : ""}
               />
             </div>
+            <div>
+              <Label htmlFor="edit-department">Department</Label>
+              <Input
+                id="edit-department"
+                list="subject-departments"
+                value={editForm.department}
+                onChange={(e) => setEditForm((prev) => ({ ...prev, department: e.target.value }))}
+              />
+            </div>
             <div>
               <Label htmlFor="edit-color">Color</Label>
               <div className="flex items-center gap-2">
@@ -411,7 +448,7 @@ export function SubjectManagement({ onSubjectsChange }: SubjectManagementProps)
             <Alert variant="destructive">
               <AlertTriangle className="h-4 w-4" />
               <AlertDescription>
-                Are you sure you want to delete the subject "{subjectToDelete?.name}" ({subjectToDelete?.code})? This
+                Are you sure you want to delete the subject &quot;{subjectToDelete?.name}&quot; ({subjectToDelete?.code})? This
                 action cannot be undone and may affect existing timetables.
               </AlertDescription>
             </Alert>
@@ -9,17 +9,35 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
 import { Label } from "@/components/ui/label"
 import { Switch } from "@/components/ui/switch"
-import { Plus, Edit2, Trash2, Save, AlertTriangle, MapPin, Star } from "lucide-react"
-import { subjects } from "@/lib/timetable-data"
-import { defaultRoomTypes } from "@/lib/classroom-data"
-import { defaultSubjectRoomTypes } from "@/lib/room-assignment-data"
-import type { SubjectRoomType } from "@/types/room-assignment"
-import type { RoomType } from "@/types/classroom"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Plus, Edit2, Trash2, Save, AlertTriangle, MapPin, Star, Wrench } from "lucide-react"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
+import { COMMON_EQUIPMENT, COMMON_FEATURES } from "@/lib/classroom-data"
+import type { SubjectRoomRequirement, SubjectRoomType } from "@/types/room-assignment"
 
 interface SubjectRoomAssignmentProps {
   onAssignmentsChange?: (assignments: SubjectRoomType[]) => void
 }
 
+type RequirementList = "requiredFeatures" | "preferredFeatures" | "requiredEquipment" | "preferredEquipment"
+
+// An item is either required or preferred, never both
+const OPPOSITE_LIST: Record<RequirementList, RequirementList> = {
+  requiredFeatures: "preferredFeatures",
+  preferredFeatures: "requiredFeatures",
+  requiredEquipment: "preferredEquipment",
+  preferredEquipment: "requiredEquipment",
+}
+
+const emptyRequirementForm = {
+  subjectId: "",
+  gradeId: "",
+  requiredFeatures: [] as string[],
+  preferredFeatures: [] as string[],
+  requiredEquipment: [] as string[],
+  preferredEquipment: [] as string[],
+}
+
 const PRIORITY_LABELS = {
   1: { label: "Preferred", color: "bg-green-500", description: "Best choice for this subject" },
   2: { label: "Acceptable", color: "bg-yellow-500", description: "Can be used if preferred not available" },
@@ -27,8 +45,21 @@ const PRIORITY_LABELS = {
 }
 
 export function SubjectRoomAssignment({ onAssignmentsChange }: SubjectRoomAssignmentProps) {
-  const [assignments, setAssignments] = useState<SubjectRoomType[]>(defaultSubjectRoomTypes)
-  const [roomTypes] = useState<RoomType[]>(defaultRoomTypes)
+  const {
+    subjects,
+    grades,
+    roomTypes,
+    classrooms,
+    subjectRoomTypes: assignments,
+    subjectRoomRequirements: requirements,
+    setData,
+  } = useTimetableStore()
+  const setAssignments = (updatedAssignments: SubjectRoomType[]) => setData("subjectRoomTypes", updatedAssignments)
+  const setRequirements = (updatedRequirements: SubjectRoomRequirement[]) =>
+    setData("subjectRoomRequirements", updatedRequirements)
+  const [isRequirementDialogOpen, setIsRequirementDialogOpen] = useState(false)
+  const [editingRequirement, setEditingRequirement] = useState<SubjectRoomRequirement | null>(null)
+  const [requirementForm, setRequirementForm] = useState(emptyRequirementForm)
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [editingAssignment, setEditingAssignment] = useState<SubjectRoomType | null>(null)
   const [selectedSubject, setSelectedSubject] = useState("")
@@ -131,6 +162,89 @@ export function SubjectRoomAssignment({ onAssignmentsChange }: SubjectRoomAssign
     onAssignmentsChange?.(updatedAssignments)
   }
 
+  // Features and equipment to choose from, including the ones only some rooms list
+  const featureOptions = useMemo(
+    () => Array.from(new Set([...COMMON_FEATURES, ...classrooms.flatMap((room) => room.features)])),
+    [classrooms],
+  )
+  const equipmentOptions = useMemo(
+    () => Array.from(new Set([...COMMON_EQUIPMENT, ...classrooms.flatMap((room) => room.equipment)])),
+    [classrooms],
+  )
+
+  // Open feature requirement dialog
+  const openRequirementDialog = (subjectId: string, requirement?: SubjectRoomRequirement) => {
+    setEditingRequirement(requirement || null)
+    setRequirementForm(
+      requirement
+        ? {
+            subjectId: requirement.subjectId,
+            gradeId: requirement.gradeId || "",
+            requiredFeatures: [...requirement.requiredFeatures],
+            preferredFeatures: [...requirement.preferredFeatures],
+            requiredEquipment: [...requirement.requiredEquipment],
+            preferredEquipment: [...requirement.preferredEquipment],
+          }
+        : { ...emptyRequirementForm, subjectId },
+    )
+    setIsRequirementDialogOpen(true)
+  }
+
+  const toggleRequirementItem = (list: RequirementList, item: string) => {
+    setRequirementForm((prev) => ({
+      ...prev,
+      [list]: prev[list].includes(item) ? prev[list].filter((i) => i !== item) : [...prev[list], item],
+      [OPPOSITE_LIST[list]]: prev[OPPOSITE_LIST[list]].filter((i) => i !== item),
+    }))
+  }
+
+  // Save feature requirement
+  const saveRequirement = () => {
+    const { subjectId, gradeId, ...lists } = requirementForm
+    if (Object.values(lists).every((list) => list.length === 0)) {
+      alert("Please pick at least one feature or piece of equipment")
+      return
+    }
+
+    const exists = requirements.some(
+      (r) => r.id !== editingRequirement?.id && r.subjectId === subjectId && (r.gradeId || "") === gradeId,
+    )
+    if (exists) {
+      alert(`This subject already has room features for ${gradeId ? getGradeName(gradeId) : "all grades"}!`)
+      return
+    }
+
+    const now = new Date().toISOString()
+    const updatedRequirements = editingRequirement
+      ? requirements.map((r) =>
+          r.id === editingRequirement.id ? { ...r, ...lists, gradeId: gradeId || undefined, updatedAt: now } : r,
+        )
+      : [
+          ...requirements,
+          {
+            id: Date.now().toString(),
+            subjectId,
+            gradeId: gradeId || undefined,
+            ...lists,
+            createdAt: now,
+            updatedAt: now,
+          },
+        ]
+
+    setRequirements(updatedRequirements)
+    setIsRequirementDialogOpen(false)
+  }
+
+  // Delete feature requirement
+  const deleteRequirement = (requirementId: string) => {
+    setRequirements(requirements.filter((r) => r.id !== requirementId))
+  }
+
+  // Get grade name
+  const getGradeName = (gradeId: string) => {
+    return grades.find((g) => g.id === gradeId)?.name || "Unknown"
+  }
+
   // Get room type name
   const getRoomTypeName = (roomTypeId: string) => {
     return roomTypes.find((rt) => rt.id === roomTypeId)?.name || "Unknown"
@@ -158,7 +272,7 @@ export function SubjectRoomAssignment({ onAssignmentsChange }: SubjectRoomAssign
     })
 
     return grouped
-  }, [getSubjectAssignments])
+  }, [subjects, getSubjectAssignments])
 
   return (
     <div className="space-y-6">
@@ -205,6 +319,7 @@ export function SubjectRoomAssignment({ onAssignmentsChange }: SubjectRoomAssign
       <div className="space-y-4">
         {subjects.map((subject) => {
           const subjectAssignments = assignmentsBySubject.get(subject.id) || []
+          const subjectRequirements = requirements.filter((r) => r.subjectId === subject.id)
           const hasRequired = hasRequiredRoomType(subject.id)
 
           return (
@@ -225,20 +340,26 @@ export function SubjectRoomAssignment({ onAssignmentsChange }: SubjectRoomAssign
                       </Badge>
                     )}
                   </div>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => {
-                      setSelectedSubject(subject.id)
-                      openAssignmentDialog()
-                    }}
-                  >
-                    <Plus className="h-4 w-4 mr-2" />
-                    Add Room Type
-                  </Button>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => openRequirementDialog(subject.id)}>
+                      <Wrench className="h-4 w-4 mr-2" />
+                      Add Features
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setSelectedSubject(subject.id)
+                        openAssignmentDialog()
+                      }}
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Room Type
+                    </Button>
+                  </div>
                 </CardTitle>
               </CardHeader>
-              {subjectAssignments.length > 0 && (
+              {(subjectAssignments.length > 0 || subjectRequirements.length > 0) && (
                 <CardContent>
                   <div className="space-y-2">
                     {subjectAssignments.map((assignment) => {
@@ -282,6 +403,46 @@ export function SubjectRoomAssignment({ onAssignmentsChange }: SubjectRoomAssign
                         </div>
                       )
                     })}
+                    {subjectRequirements.map((requirement) => (
+                      <div key={requirement.id} className="flex items-center justify-between p-3 border rounded-lg">
+                        <div className="space-y-1">
+                          <div className="flex items-center gap-2 text-sm font-medium">
+                            <Wrench className="h-4 w-4 text-muted-foreground" />
+                            Room features for {requirement.gradeId ? getGradeName(requirement.gradeId) : "all grades"}
+                          </div>
+                          <div className="flex flex-wrap gap-1">
+                            {[...requirement.requiredFeatures, ...requirement.requiredEquipment].map((item) => (
+                              <Badge key={item} variant="destructive" className="text-xs">
+                                {item}
+                              </Badge>
+                            ))}
+                            {[...requirement.preferredFeatures, ...requirement.preferredEquipment].map((item) => (
+                              <Badge key={item} variant="outline" className="text-xs">
+                                {item}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openRequirementDialog(subject.id, requirement)}
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteRequirement(requirement.id)}
+                            className="text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 </CardContent>
               )}
@@ -295,7 +456,7 @@ export function SubjectRoomAssignment({ onAssignmentsChange }: SubjectRoomAssign
         <Alert>
           <AlertTriangle className="h-4 w-4" />
           <AlertDescription>
-            {subjects.length - assignmentsBySubject.size} subject(s) don't have room type assignments. These subjects
+            {subjects.length - assignmentsBySubject.size} subject(s) don&apos;t have room type assignments. These subjects
             will use any available classroom during timetable creation.
           </AlertDescription>
         </Alert>
@@ -391,6 +552,82 @@ export function SubjectRoomAssignment({ onAssignmentsChange }: SubjectRoomAssign
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Feature Requirement Dialog */}
+      <Dialog open={isRequirementDialogOpen} onOpenChange={setIsRequirementDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              {editingRequirement ? "Edit" : "Add"} Room Features for {getSubjectName(requirementForm.subjectId)}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="requirement-grade">Grade</Label>
+              <Select
+                value={requirementForm.gradeId || "all"}
+                onValueChange={(value) =>
+                  setRequirementForm((prev) => ({ ...prev, gradeId: value === "all" ? "" : value }))
+                }
+              >
+                <SelectTrigger id="requirement-grade">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All grades</SelectItem>
+                  {grades.map((grade) => (
+                    <SelectItem key={grade.id} value={grade.id}>
+                      {grade.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Features for one grade replace the ones for all grades in that grade
+              </p>
+            </div>
+
+            {(
+              [
+                ["requiredFeatures", "Required Features", featureOptions],
+                ["preferredFeatures", "Preferred Features", featureOptions],
+                ["requiredEquipment", "Required Equipment", equipmentOptions],
+                ["preferredEquipment", "Preferred Equipment", equipmentOptions],
+              ] as const
+            ).map(([list, label, options]) => (
+              <div key={list}>
+                <Label>{label}</Label>
+                <div className="grid grid-cols-3 gap-2 mt-2 max-h-32 overflow-y-auto">
+                  {options.map((item) => (
+                    <div key={item} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`${list}-${item}`}
+                        checked={requirementForm[list].includes(item)}
+                        onCheckedChange={() => toggleRequirementItem(list, item)}
+                      />
+                      <label htmlFor={`${list}-${item}`} className="text-sm">
+                        {item}
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Lessons are only given rooms with every required item; preferred items make a room score higher.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRequirementDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveRequirement}>
+              <Save className="h-4 w-4 mr-2" />
+              {editingRequirement ? "Update" : "Create"} Features
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -9,15 +9,17 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Plus, Save, Edit2 } from "lucide-react"
-import { subjects, grades, defaultGradeSubjectAllocations } from "@/lib/timetable-data"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
 import type { GradeSubjectAllocation } from "@/types/timetable"
 
 interface SubjectSetupProps {
-  onSave: (allocations: GradeSubjectAllocation[]) => void
+  onSave?: (allocations: GradeSubjectAllocation[]) => void
 }
 
 export function SubjectSetup({ onSave }: SubjectSetupProps) {
-  const [allocations, setAllocations] = useState<GradeSubjectAllocation[]>(defaultGradeSubjectAllocations)
+  const { subjects, grades, allocations: savedAllocations, setData } = useTimetableStore()
+  // Edited as a draft and written to the store on save
+  const [allocations, setAllocations] = useState<GradeSubjectAllocation[]>(savedAllocations)
   const [selectedGrade, setSelectedGrade] = useState<string>("all")
   const [editingAllocation, setEditingAllocation] = useState<string | null>(null)
   const [selectedSubjectForAdd, setSelectedSubjectForAdd] = useState<string>("")
@@ -67,6 +69,11 @@ export function SubjectSetup({ onSave }: SubjectSetupProps) {
   const filteredAllocations =
     selectedGrade !== "all" ? allocations.filter((a) => a.gradeId === selectedGrade) : allocations
 
+  const handleSave = () => {
+    setData("allocations", allocations)
+    onSave?.(allocations)
+  }
+
   const getSubjectName = (subjectId: string) => {
     return subjects.find((s) => s.id === subjectId)?.name || "Unknown Subject"
   }
@@ -132,7 +139,7 @@ export function SubjectSetup({ onSave }: SubjectSetupProps) {
               <Plus className="h-4 w-4 mr-2" />
               Add Subject
             </Button>
-            <Button onClick={() => onSave(allocations)} variant="default">
+            <Button onClick={handleSave} variant="default">
               <Save className="h-4 w-4 mr-2" />
               Save All
             </Button>
@@ -177,7 +184,7 @@ export function SubjectSetup({ onSave }: SubjectSetupProps) {
                         max="10"
                         value={allocation.weeklyHours}
                         onChange={(e) =>
-                          handleAllocationChange(allocation.id, "weeklyHours", Number.parseInt(e.target.value))
+                          handleAllocationChange(allocation.id, "weeklyHours", Number.parseInt(e.target.value) || 0)
                         }
                         disabled={!isEditing}
                         className="w-full"
@@ -190,7 +197,7 @@ export function SubjectSetup({ onSave }: SubjectSetupProps) {
                         max="20"
                         value={allocation.semesterWeeks}
                         onChange={(e) =>
-                          handleAllocationChange(allocation.id, "semesterWeeks", Number.parseInt(e.target.value))
+                          handleAllocationChange(allocation.id, "semesterWeeks", Number.parseInt(e.target.value) || 0)
                         }
                         disabled={!isEditing}
                         className="w-full"
@@ -10,107 +10,44 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Users, User, AlertTriangle, CheckCircle, Plus, Trash2, Search, BarChart3, Clock } from "lucide-react"
-import { classSections, teachers, subjects } from "@/lib/timetable-data"
-import { defaultClassSubjectTeachers } from "@/lib/teacher-assignment-data"
+import { calculateTeacherWorkloads, validateTeacherAssignments } from "@/lib/teacher-workload"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
 import type { ClassSubjectTeacher, TeacherAssignmentConflict, TeacherWorkload } from "@/types/teacher-assignments"
-import type { GradeSubjectAllocation } from "@/types/timetable"
 
 // Import Toast
 import { Toaster, toast } from "react-hot-toast"
 
 interface TeacherAssignmentManagerProps {
-  allocations: GradeSubjectAllocation[]
-  onAssignmentsChange: (assignments: ClassSubjectTeacher[]) => void
+  onAssignmentsChange?: (assignments: ClassSubjectTeacher[]) => void
 }
 
-export function TeacherAssignmentManager({ allocations, onAssignmentsChange }: TeacherAssignmentManagerProps) {
-  const [assignments, setAssignments] = useState<ClassSubjectTeacher[]>(defaultClassSubjectTeachers)
+export function TeacherAssignmentManager({ onAssignmentsChange }: TeacherAssignmentManagerProps) {
+  const { allocations, assignments, teachers, subjects, classSections, periodConfig, setData } = useTimetableStore()
+  const { timeSlots, periodDuration } = periodConfig
+  const setAssignments = (updatedAssignments: ClassSubjectTeacher[]) => setData("assignments", updatedAssignments)
   const [conflicts, setConflicts] = useState<TeacherAssignmentConflict[]>([])
   const [selectedClass, setSelectedClass] = useState<string>("")
   const [selectedSubject, setSelectedSubject] = useState<string>("")
   const [selectedTeacher, setSelectedTeacher] = useState<string>("")
   const [searchTerm, setSearchTerm] = useState("")
 
-  const teacherWorkloads = useMemo((): TeacherWorkload[] => {
-    return teachers.map((teacher) => {
-      const teacherAssignments = assignments.filter((a) => a.teacherId === teacher.id && a.isActive)
-      const subjectWorkloads = new Map<string, { count: number; hours: number }>()
-      let totalWeeklyHours = 0
-
-      teacherAssignments.forEach((assignment) => {
-        const classSection = classSections.find((c) => c.id === assignment.classId)
-        if (classSection) {
-          const allocation = allocations.find(
-            (a) => a.gradeId === classSection.gradeId && a.subjectId === assignment.subjectId,
-          )
-          if (allocation) {
-            const current = subjectWorkloads.get(assignment.subjectId) || { count: 0, hours: 0 }
-            subjectWorkloads.set(assignment.subjectId, {
-              count: current.count + 1,
-              hours: current.hours + allocation.weeklyHours,
-            })
-            totalWeeklyHours += allocation.weeklyHours
-          }
-        }
-      })
-
-      return {
-        teacherId: teacher.id,
-        teacherName: teacher.name,
-        totalClasses: teacherAssignments.length,
-        totalWeeklyHours,
-        weeklyHourLimit: teacher.weeklyHourLimit,
-        utilizationPercentage: Math.round((totalWeeklyHours / teacher.weeklyHourLimit) * 100),
-        subjects: Array.from(subjectWorkloads.entries()).map(([subjectId, data]) => ({
-          subjectId,
-          subjectName: subjects.find((s) => s.id === subjectId)?.name || "Unknown",
-          classCount: data.count,
-          estimatedWeeklyHours: data.hours,
-        })),
-      }
-    })
-  }, [assignments, allocations])
+  const teacherWorkloads = useMemo(
+    (): TeacherWorkload[] => calculateTeacherWorkloads({ teachers, assignments, allocations, classSections, subjects }),
+    [assignments, allocations, teachers, subjects, classSections],
+  )
 
   const validateAssignments = useCallback(
-    (currentAssignments: ClassSubjectTeacher[]): TeacherAssignmentConflict[] => {
-      const newConflicts: TeacherAssignmentConflict[] = []
-
-      currentAssignments.forEach((assignment) => {
-        const teacher = teachers.find((t) => t.id === assignment.teacherId)
-        if (teacher && !teacher.subjects.includes(assignment.subjectId)) {
-          const subject = subjects.find((s) => s.id === assignment.subjectId)
-          newConflicts.push({
-            type: "teacher_subject_mismatch",
-            message: `${teacher.name} is not qualified to teach ${subject?.name}`,
-            severity: "error",
-            affectedAssignments: [assignment.id],
-            suggestions: [
-              `Assign a qualified teacher for ${subject?.name}`,
-              `Add ${subject?.name} to ${teacher.name}'s qualifications`,
-            ],
-          })
-        }
-      })
-
-      teacherWorkloads.forEach((workload) => {
-        if (workload.utilizationPercentage > 100) {
-          newConflicts.push({
-            type: "teacher_overcommitted",
-            message: `${workload.teacherName} is overcommitted: ${workload.totalWeeklyHours}/${workload.weeklyHourLimit} hours (${workload.utilizationPercentage}%)`,
-            severity: "warning",
-            affectedAssignments: currentAssignments.filter((a) => a.teacherId === workload.teacherId).map((a) => a.id),
-            suggestions: [
-              "Redistribute some classes to other teachers",
-              "Increase teacher's weekly hour limit",
-              "Hire additional qualified teachers",
-            ],
-          })
-        }
-      })
-
-      return newConflicts
-    },
-    [teacherWorkloads],
+    (currentAssignments: ClassSubjectTeacher[]): TeacherAssignmentConflict[] =>
+      validateTeacherAssignments({
+        teachers,
+        assignments: currentAssignments,
+        allocations,
+        classSections,
+        subjects,
+        timeSlots,
+        periodDuration,
+      }),
+    [teachers, allocations, classSections, subjects, timeSlots, periodDuration],
   )
 
   const addAssignment = () => {
@@ -129,7 +66,7 @@ export function TeacherAssignmentManager({ allocations, onAssignmentsChange }: T
       )
       setAssignments(updatedAssignments)
       setConflicts(validateAssignments(updatedAssignments))
-      onAssignmentsChange(updatedAssignments)
+      onAssignmentsChange?.(updatedAssignments)
       toast.success("Assignment updated successfully")
     } else {
       const newAssignment: ClassSubjectTeacher = {
@@ -145,7 +82,7 @@ export function TeacherAssignmentManager({ allocations, onAssignmentsChange }: T
       const updatedAssignments = [...assignments, newAssignment]
       setAssignments(updatedAssignments)
       setConflicts(validateAssignments(updatedAssignments))
-      onAssignmentsChange(updatedAssignments)
+      onAssignmentsChange?.(updatedAssignments)
       toast.success("Assignment added successfully")
     }
 
@@ -160,7 +97,7 @@ export function TeacherAssignmentManager({ allocations, onAssignmentsChange }: T
     )
     setAssignments(updatedAssignments)
     setConflicts(validateAssignments(updatedAssignments))
-    onAssignmentsChange(updatedAssignments)
+    onAssignmentsChange?.(updatedAssignments)
     toast.success("Assignment removed successfully")
   }
 
@@ -11,8 +11,10 @@ import { Checkbox } from "@/components/ui/checkbox"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { User, Edit2, Save, AlertTriangle, CheckCircle, Plus, Search, Mail, Clock } from "lucide-react"
-import { teachers as initialTeachers, subjects } from "@/lib/timetable-data"
-import type { Teacher } from "@/types/timetable"
+import { toggleUnavailableSlot } from "@/lib/teacher-availability"
+import { getScheduleDays, getSchedulePeriods } from "@/lib/period-config"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
+import type { Teacher, TeacherUnavailability } from "@/types/timetable"
 
 interface TeacherSubjectConflict {
   type: "subject_overload" | "no_subjects" | "invalid_subject" | "workload_imbalance"
@@ -23,11 +25,13 @@ interface TeacherSubjectConflict {
 }
 
 interface TeacherSubjectManagerProps {
-  onTeachersChange: (teachers: Teacher[]) => void
+  onTeachersChange?: (teachers: Teacher[]) => void
 }
 
 export function TeacherSubjectManager({ onTeachersChange }: TeacherSubjectManagerProps) {
-  const [teachers, setTeachers] = useState<Teacher[]>(initialTeachers)
+  const { teachers, subjects, periodConfig, setData } = useTimetableStore()
+  const { timeSlots } = periodConfig
+  const setTeachers = (updatedTeachers: Teacher[]) => setData("teachers", updatedTeachers)
   const [conflicts, setConflicts] = useState<TeacherSubjectConflict[]>([])
   const [searchTerm, setSearchTerm] = useState("")
   const [editingTeacher, setEditingTeacher] = useState<Teacher | null>(null)
@@ -39,6 +43,7 @@ export function TeacherSubjectManager({ onTeachersChange }: TeacherSubjectManage
     email: "",
     subjects: [] as string[],
     weeklyHourLimit: 25,
+    unavailableSlots: [] as TeacherUnavailability[],
   })
 
   // Validate teacher assignments and detect conflicts
@@ -110,7 +115,7 @@ export function TeacherSubjectManager({ onTeachersChange }: TeacherSubjectManage
     }
 
     return newConflicts
-  }, [])
+  }, [subjects])
 
   // Update conflicts when teachers change
   useMemo(() => {
@@ -139,6 +144,7 @@ export function TeacherSubjectManager({ onTeachersChange }: TeacherSubjectManage
       email: teacher.email,
       subjects: [...teacher.subjects],
       weeklyHourLimit: teacher.weeklyHourLimit,
+      unavailableSlots: [...(teacher.unavailableSlots || [])],
     })
     setIsDialogOpen(true)
   }
@@ -151,6 +157,7 @@ export function TeacherSubjectManager({ onTeachersChange }: TeacherSubjectManage
       email: "",
       subjects: [],
       weeklyHourLimit: 25,
+      unavailableSlots: [],
     })
     setIsDialogOpen(true)
   }
@@ -168,6 +175,7 @@ export function TeacherSubjectManager({ onTeachersChange }: TeacherSubjectManage
                 email: formData.email,
                 subjects: formData.subjects,
                 weeklyHourLimit: formData.weeklyHourLimit,
+                unavailableSlots: formData.unavailableSlots,
               }
             : teacher,
         )
@@ -180,11 +188,12 @@ export function TeacherSubjectManager({ onTeachersChange }: TeacherSubjectManage
             subjects: formData.subjects,
             weeklyHourLimit: formData.weeklyHourLimit,
             currentWeeklyHours: 0,
+            unavailableSlots: formData.unavailableSlots,
           },
         ]
 
     setTeachers(updatedTeachers)
-    onTeachersChange(updatedTeachers)
+    onTeachersChange?.(updatedTeachers)
     setIsDialogOpen(false)
   }
 
@@ -196,11 +205,37 @@ export function TeacherSubjectManager({ onTeachersChange }: TeacherSubjectManage
     }))
   }
 
+  const availabilityDays = getScheduleDays(timeSlots)
+  const availabilityPeriods = getSchedulePeriods(timeSlots)
+
+  // Toggle a single period in the availability grid
+  const toggleAvailability = (day: string, period: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      unavailableSlots: toggleUnavailableSlot(prev.unavailableSlots, day, period),
+    }))
+  }
+
+  // Block or free a whole day at once
+  const toggleDayAvailability = (day: string) => {
+    setFormData((prev) => {
+      const dayPeriods = timeSlots.filter((slot) => slot.day === day).map((slot) => slot.period)
+      const isDayBlocked = dayPeriods.every((period) =>
+        prev.unavailableSlots.some((slot) => slot.day === day && slot.period === period),
+      )
+      const otherDays = prev.unavailableSlots.filter((slot) => slot.day !== day)
+      return {
+        ...prev,
+        unavailableSlots: isDayBlocked ? otherDays : [...otherDays, ...dayPeriods.map((period) => ({ day, period }))],
+      }
+    })
+  }
+
   // Delete teacher
   const deleteTeacher = (teacherId: string) => {
     const updatedTeachers = teachers.filter((t) => t.id !== teacherId)
     setTeachers(updatedTeachers)
-    onTeachersChange(updatedTeachers)
+    onTeachersChange?.(updatedTeachers)
   }
 
   // Get subject names for display
@@ -283,6 +318,7 @@ export function TeacherSubjectManager({ onTeachersChange }: TeacherSubjectManage
                 <TableHead>Email</TableHead>
                 <TableHead>Subjects</TableHead>
                 <TableHead>Weekly Limit</TableHead>
+                <TableHead>Availability</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead className="w-[100px]">Actions</TableHead>
               </TableRow>
@@ -335,6 +371,15 @@ export function TeacherSubjectManager({ onTeachersChange }: TeacherSubjectManage
                         <span className="text-sm">{teacher.weeklyHourLimit}h/week</span>
                       </div>
                     </TableCell>
+                    <TableCell>
+                      {teacher.unavailableSlots && teacher.unavailableSlots.length > 0 ? (
+                        <Badge variant="outline" className="text-xs">
+                          {teacher.unavailableSlots.length} periods blocked
+                        </Badge>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">Full week</span>
+                      )}
+                    </TableCell>
                     <TableCell>
                       <div className="flex flex-col gap-1">
                         {hasErrors && (
@@ -380,7 +425,7 @@ export function TeacherSubjectManager({ onTeachersChange }: TeacherSubjectManage
 
       {/* Edit/Add Teacher Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-        <DialogContent className="max-w-2xl">
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{editingTeacher ? "Edit Teacher" : "Add New Teacher"}</DialogTitle>
           </DialogHeader>
@@ -415,7 +460,9 @@ export function TeacherSubjectManager({ onTeachersChange }: TeacherSubjectManage
                 min="1"
                 max="40"
                 value={formData.weeklyHourLimit}
-                onChange={(e) => setFormData((prev) => ({ ...prev, weeklyHourLimit: Number.parseInt(e.target.value) }))}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, weeklyHourLimit: Number.parseInt(e.target.value) || 0 }))
+                }
               />
             </div>
 
@@ -441,6 +488,61 @@ export function TeacherSubjectManager({ onTeachersChange }: TeacherSubjectManage
               </div>
             </div>
 
+            <div>
+              <Label>Weekly Availability</Label>
+              <p className="text-xs text-muted-foreground mt-1">
+                Click a period to mark it as unavailable, or a day to toggle the whole day.
+              </p>
+              <div className="overflow-x-auto mt-2">
+                <table className="w-full border-collapse text-xs">
+                  <thead>
+                    <tr>
+                      <th className="border p-1 bg-muted font-medium text-left">Day</th>
+                      {availabilityPeriods.map((period) => (
+                        <th key={period} className="border p-1 bg-muted font-medium">
+                          P{period}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {availabilityDays.map((day) => (
+                      <tr key={day}>
+                        <td
+                          className="border p-1 bg-muted font-medium cursor-pointer hover:bg-muted/70"
+                          onClick={() => toggleDayAvailability(day)}
+                        >
+                          {day}
+                        </td>
+                        {availabilityPeriods.map((period) => {
+                          const hasSlot = timeSlots.some((slot) => slot.day === day && slot.period === period)
+                          const isBlocked = formData.unavailableSlots.some(
+                            (slot) => slot.day === day && slot.period === period,
+                          )
+
+                          return hasSlot ? (
+                            <td
+                              key={period}
+                              className={`border p-1 text-center cursor-pointer transition-colors ${
+                                isBlocked
+                                  ? "bg-red-100 text-red-700 hover:bg-red-200"
+                                  : "bg-green-50 text-green-700 hover:bg-green-100"
+                              }`}
+                              onClick={() => toggleAvailability(day, period)}
+                            >
+                              {isBlocked ? "✕" : "✓"}
+                            </td>
+                          ) : (
+                            <td key={period} className="border p-1" />
+                          )
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
             <div className="flex justify-end gap-2">
               <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
                 Cancel
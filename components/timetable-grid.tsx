@@ -1,7 +1,8 @@
 "use client"
 
-import { useState, useCallback, useMemo } from "react"
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useState, useCallback, useMemo, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Alert, AlertDescription } from "@/components/ui/alert"
@@ -13,57 +14,91 @@ import {
   Users,
   User,
   AlertTriangle,
-  CheckCircle,
+  Send,
   LayoutGrid,
   LayoutList,
-  MapPin,
   Download,
   X,
+  Wand2,
+  Undo2,
+  Redo2,
+  History,
+  Building,
 } from "lucide-react"
-import { classSections, teachers, subjects, rooms, timeSlots as initialTimeSlots } from "@/lib/timetable-data"
-import type { TimetableEntry, Conflict, GradeSubjectAllocation, ClassSubjectTeacher, TimeSlot } from "@/types/timetable"
-import { RoomAssignmentEngine } from "@/components/room-assignment-engine"
-import type { RoomAssignment } from "@/types/room-assignment"
-import jsPDF from "jspdf"
+import type { TimetableEntry, Conflict } from "@/types/timetable"
 import { ScheduleBuilderModal } from "./schedule-builder-modal"
-
-// Declare PERIODS and DAYS variables
-const PERIODS = [1, 2, 3, 4, 5]
-const DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"]
+import { generateTimetable, type UnplacedLesson } from "@/lib/timetable-generator"
+import { isTeacherAvailable } from "@/lib/teacher-availability"
+import { findTimeSlot } from "@/lib/period-config"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
+import { useTimetableHistory } from "@/hooks/use-timetable-history"
+import { useLessonDrag } from "@/hooks/use-lesson-drag"
+import { validateTimetableEntries } from "@/lib/timetable-validation"
+import { evaluateSlots } from "@/lib/slot-availability"
+import { createTimetablePDF, getPdfEntityName } from "@/lib/timetable-pdf"
+import { TimetableHistoryPanel } from "@/components/timetable-history-panel"
+import { TimetableWeekTable } from "@/components/timetable-week-table"
+import { detectRoomConflicts } from "@/lib/room-assignment"
 
 interface TimetableGridProps {
-  allocations: GradeSubjectAllocation[]
-  assignments: ClassSubjectTeacher[]
-  onPublish: (entries: TimetableEntry[]) => void
-  onViewModeChange?: (mode: "class" | "teacher") => void
+  onSubmitForReview: (entries: TimetableEntry[]) => void
+  onViewModeChange?: (mode: "class" | "teacher" | "room") => void
   onEntityChange?: (entityId: string) => void
   onLayoutChange?: (isVertical: boolean) => void
 }
 
 export function TimetableGrid({
-  allocations,
-  assignments,
-  onPublish,
+  onSubmitForReview,
   onViewModeChange,
   onEntityChange,
   onLayoutChange,
 }: TimetableGridProps) {
-  const [viewMode, setViewMode] = useState<"class" | "teacher">("class")
+  const [viewMode, setViewMode] = useState<"class" | "teacher" | "room">("class")
   const [selectedEntity, setSelectedEntity] = useState<string>("")
-  const [timetableEntries, setTimetableEntries] = useState<TimetableEntry[]>([])
+  const {
+    allocations,
+    assignments,
+    teachers,
+    subjects,
+    classSections,
+    classrooms,
+    roomTypes,
+    subjectRoomTypes,
+    periodConfig,
+    timetableEntries,
+  } = useTimetableStore()
+  const { timeSlots, periodDuration } = periodConfig
   const [conflicts, setConflicts] = useState<Conflict[]>([])
   const [selectedSubject, setSelectedSubject] = useState<string | null>(null)
   const [isVerticalLayout, setIsVerticalLayout] = useState(true)
-  const [timeSlots, setTimeSlots] = useState<TimeSlot[]>(initialTimeSlots)
-  const [roomAssignments, setRoomAssignments] = useState<RoomAssignment[]>([])
   const [showScheduleBuilder, setShowScheduleBuilder] = useState(false)
-
-  // Default period duration for calculations (can be updated from period config)
-  const [periodDuration, setPeriodDuration] = useState(45)
+  const [unplacedLessons, setUnplacedLessons] = useState<UnplacedLesson[]>([])
+  const [showHistory, setShowHistory] = useState(false)
+  const { record, recordEntries, undo, redo, canUndo, canRedo } = useTimetableHistory()
+  const { draggedEntryId, getDropTarget, getDropClassName, getDragProps, getDropProps } = useLessonDrag({
+    viewMode,
+    selectedEntity,
+  })
+  const [roomSlot, setRoomSlot] = useState<{ day: string; period: number } | null>(null)
+
+  const roomConflicts = useMemo(() => {
+    const placements = timetableEntries.flatMap((entry) =>
+      entry.roomId ? [{ timetableEntryId: entry.id, roomId: entry.roomId }] : [],
+    )
+    return detectRoomConflicts(placements, timetableEntries, classrooms)
+  }, [timetableEntries, classrooms])
+
+  // Classes, teachers or active rooms, whichever the view mode shows
+  const getViewEntities = useCallback(
+    (mode: "class" | "teacher" | "room") =>
+      mode === "class" ? classSections : mode === "teacher" ? teachers : classrooms.filter((room) => room.isActive),
+    [classSections, teachers, classrooms],
+  )
 
   // Calculate subject scheduling progress
   const subjectProgress = useMemo(() => {
-    if (!selectedEntity) return {}
+    // Rooms have no subjects to schedule; lessons are placed into them from the grid
+    if (!selectedEntity || viewMode === "room") return {}
 
     const progress: Record<string, { scheduled: number; total: number; percentage: number }> = {}
 
@@ -124,105 +159,108 @@ export function TimetableGrid({
     })
 
     return progress
-  }, [selectedEntity, viewMode, allocations, assignments, timetableEntries, periodDuration])
+  }, [
+    selectedEntity,
+    viewMode,
+    allocations,
+    assignments,
+    teachers,
+    subjects,
+    classSections,
+    timetableEntries,
+    periodDuration,
+  ])
+
+  // Teacher who would teach the selected subject in the current view
+  const getTeacherIdForSubject = useCallback(
+    (subjectId: string) => {
+      if (viewMode === "teacher") return selectedEntity
+      const assignment = assignments.find(
+        (a) => a.classId === selectedEntity && a.subjectId === subjectId && a.isActive,
+      )
+      return assignment?.teacherId || ""
+    },
+    [viewMode, selectedEntity, assignments],
+  )
 
-  const validSlots = useMemo(() => {
+  // Every slot checked for the selected subject: class, teacher, room and hour limit at once
+  const slotAvailability = useMemo(() => {
     if (!selectedSubject) return []
 
-    const valid: Array<{ day: string; period: number }> = []
     const progress = subjectProgress[selectedSubject]
-
     if (!progress || progress.percentage >= 100) return []
 
-    // Check all slots
-    DAYS.forEach((day) => {
-      PERIODS.forEach((period) => {
-        // Check if slot is already occupied
-        const isOccupied = timetableEntries.some((entry) => {
-          if (viewMode === "class") {
-            return entry.classId === selectedEntity && entry.day === day && entry.period === period
-          } else {
-            return entry.teacherId === selectedEntity && entry.day === day && entry.period === period
-          }
-        })
-
-        if (!isOccupied) {
-          valid.push({ day, period })
-        }
-      })
+    return evaluateSlots({
+      entries: timetableEntries,
+      subjectId: selectedSubject,
+      teacherId: getTeacherIdForSubject(selectedSubject),
+      classId: viewMode === "class" ? selectedEntity : undefined,
+      timeSlots,
+      periodDuration,
+      teachers,
+      subjects,
+      classSections,
+      classrooms,
+      roomTypes,
+      subjectRoomTypes,
     })
-
-    return valid
-  }, [selectedSubject, viewMode, selectedEntity, timetableEntries, subjectProgress])
+  }, [
+    selectedSubject,
+    viewMode,
+    selectedEntity,
+    timetableEntries,
+    subjectProgress,
+    teachers,
+    subjects,
+    classSections,
+    classrooms,
+    roomTypes,
+    subjectRoomTypes,
+    timeSlots,
+    periodDuration,
+    getTeacherIdForSubject,
+  ])
 
   const validateConstraints = useCallback(
-    (entries: TimetableEntry[]): Conflict[] => {
-      const newConflicts: Conflict[] = []
-
-      // Check teacher double booking
-      const teacherSlots = new Map<string, Set<string>>()
-      entries.forEach((entry) => {
-        const key = `${entry.teacherId}-${entry.day}-${entry.period}`
-        if (!teacherSlots.has(entry.teacherId)) {
-          teacherSlots.set(entry.teacherId, new Set())
-        }
-        const slots = teacherSlots.get(entry.teacherId)!
-        const slotKey = `${entry.day}-${entry.period}`
-        if (slots.has(slotKey)) {
-          newConflicts.push({
-            type: "teacher_double_booking",
-            message: `Teacher ${teachers.find((t) => t.id === entry.teacherId)?.name} is double-booked on ${entry.day} period ${entry.period}`,
-            severity: "error",
-            affectedEntries: [entry.id],
-          })
-        }
-        slots.add(slotKey)
-      })
-
-      // Check teacher weekly hour limits
-      const teacherHours = new Map<string, number>()
-      entries.forEach((entry) => {
-        const hours = periodDuration / 60 // Convert minutes to hours
-        teacherHours.set(entry.teacherId, (teacherHours.get(entry.teacherId) || 0) + hours)
-      })
+    (entries: TimetableEntry[]): Conflict[] =>
+      validateTimetableEntries(entries, { teachers, classrooms, periodDuration }),
+    [periodDuration, teachers, classrooms],
+  )
 
-      teacherHours.forEach((hours, teacherId) => {
-        const teacher = teachers.find((t) => t.id === teacherId)
-        if (teacher && hours > teacher.weeklyHourLimit) {
-          newConflicts.push({
-            type: "teacher_overload",
-            message: `${teacher.name} exceeds weekly limit: ${hours.toFixed(1)}/${teacher.weeklyHourLimit} hours`,
-            severity: "warning",
-            affectedEntries: entries.filter((e) => e.teacherId === teacherId).map((e) => e.id),
-          })
-        }
-      })
+  // Re-check entries restored from the store or changed on another page
+  useEffect(() => {
+    setConflicts(validateConstraints(timetableEntries))
+  }, [timetableEntries, validateConstraints])
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y), except while typing in a form field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return
+      const target = e.target as HTMLElement | null
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return
+
+      const key = e.key.toLowerCase()
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault()
+        redo()
+      }
+    }
 
-      // Check room conflicts
-      const roomSlots = new Map<string, Set<string>>()
-      entries.forEach((entry) => {
-        if (entry.roomId) {
-          const key = `${entry.roomId}-${entry.day}-${entry.period}`
-          if (!roomSlots.has(entry.roomId)) {
-            roomSlots.set(entry.roomId, new Set())
-          }
-          const slots = roomSlots.get(entry.roomId)!
-          const slotKey = `${entry.day}-${entry.period}`
-          if (slots.has(slotKey)) {
-            newConflicts.push({
-              type: "room_clash",
-              message: `Room ${rooms.find((r) => r.id === entry.roomId)?.name} is double-booked on ${entry.day} period ${entry.period}`,
-              severity: "error",
-              affectedEntries: [entry.id],
-            })
-          }
-          slots.add(slotKey)
-        }
-      })
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [undo, redo])
 
-      return newConflicts
+  // Short description of a lesson for the history panel
+  const describeEntry = useCallback(
+    (entry: TimetableEntry) => {
+      const subjectName = subjects.find((s) => s.id === entry.subjectId)?.name || "Lesson"
+      const className = classSections.find((c) => c.id === entry.classId)?.name
+      return `${subjectName}${className ? ` (${className})` : ""} on ${entry.day} P${entry.period}`
     },
-    [periodDuration],
+    [subjects, classSections],
   )
 
   const handleSlotClick = useCallback(
@@ -237,33 +275,30 @@ export function TimetableGrid({
       }
 
       // Find the assigned teacher for this class-subject combination
-      let teacherId = ""
-      if (viewMode === "class") {
-        const assignment = assignments.find(
-          (a) => a.classId === selectedEntity && a.subjectId === selectedSubject && a.isActive,
-        )
-        teacherId = assignment?.teacherId || ""
-      } else {
-        teacherId = selectedEntity
-      }
+      const teacherId = getTeacherIdForSubject(selectedSubject)
 
       if (!teacherId) {
         alert("No teacher assigned for this subject in this class. Please assign a teacher first.")
         return
       }
 
+      const teacher = teachers.find((t) => t.id === teacherId)
+      if (!isTeacherAvailable(teacher, day, period)) {
+        alert(`${teacher?.name} is not available on ${day} period ${period}.`)
+        return
+      }
+
       const newEntry: TimetableEntry = {
         id: Date.now().toString(),
         classId: viewMode === "class" ? selectedEntity : "",
         teacherId: teacherId,
         subjectId: selectedSubject,
-        timeSlotId: timeSlots.find((ts) => ts.day === day && ts.period === period)?.id || "",
+        timeSlotId: findTimeSlot(timeSlots, day, period)?.id || "",
         day,
         period,
       }
 
-      const updatedEntries = [...timetableEntries, newEntry]
-      setTimetableEntries(updatedEntries)
+      const updatedEntries = record(`Added ${describeEntry(newEntry)}`, [{ before: null, after: newEntry }])
       setConflicts(validateConstraints(updatedEntries))
       setSelectedSubject(null)
     },
@@ -271,31 +306,23 @@ export function TimetableGrid({
       selectedSubject,
       selectedEntity,
       viewMode,
-      timetableEntries,
+      record,
+      describeEntry,
       validateConstraints,
-      assignments,
+      getTeacherIdForSubject,
+      teachers,
       timeSlots,
       subjectProgress,
     ],
   )
 
-  const getEntryForSlot = (day: string, period: number) => {
-    return timetableEntries.find((entry) => {
-      if (viewMode === "class") {
-        return entry.classId === selectedEntity && entry.day === day && entry.period === period
-      } else {
-        return entry.teacherId === selectedEntity && entry.day === day && entry.period === period
-      }
-    })
-  }
-
   const isSlotValid = (day: string, period: number) => {
-    return validSlots.some((slot) => slot.day === day && slot.period === period)
+    return slotAvailability.some((slot) => slot.day === day && slot.period === period && slot.isValid)
   }
 
-  const getSubjectColor = (subjectId: string) => {
-    return subjects.find((s) => s.id === subjectId)?.color || "#gray"
-  }
+  // Why the selected subject cannot be placed in a slot
+  const getBlockedReason = (day: string, period: number) =>
+    slotAvailability.find((slot) => slot.day === day && slot.period === period)?.reasons.join("; ")
 
   const getSubjectName = (subjectId: string) => {
     return subjects.find((s) => s.id === subjectId)?.name || "Unknown"
@@ -305,13 +332,35 @@ export function TimetableGrid({
     return teachers.find((t) => t.id === teacherId)?.name || "Unknown"
   }
 
+  const getRoomName = (roomId: string) => classrooms.find((room) => room.id === roomId)?.name || "Unknown"
+
+  const getRoomConflict = (day: string, period: number) =>
+    roomConflicts.find((conflict) => conflict.roomId === selectedEntity && conflict.timeSlotId === `${day}-${period}`)
+
+  // Lessons of the clicked period that could move into the room shown
+  const roomSlotLessons = roomSlot
+    ? timetableEntries.filter(
+        (entry) => entry.day === roomSlot.day && entry.period === roomSlot.period && entry.roomId !== selectedEntity,
+      )
+    : []
+
+  const placeInRoom = (entry: TimetableEntry) => {
+    const updatedEntries = record(`Moved ${describeEntry(entry)} to ${getRoomName(selectedEntity)}`, [
+      { before: entry, after: { ...entry, roomId: selectedEntity } },
+    ])
+    setConflicts(validateConstraints(updatedEntries))
+    setRoomSlot(null)
+  }
+
   const getClassName = (classId: string) => {
     return classSections.find((c) => c.id === classId)?.name || "Unknown"
   }
 
   const removeEntry = (entryId: string) => {
-    const updatedEntries = timetableEntries.filter((e) => e.id !== entryId)
-    setTimetableEntries(updatedEntries)
+    const entry = timetableEntries.find((e) => e.id === entryId)
+    if (!entry) return
+
+    const updatedEntries = record(`Removed ${describeEntry(entry)}`, [{ before: entry, after: null }])
     setConflicts(validateConstraints(updatedEntries))
   }
 
@@ -324,222 +373,65 @@ export function TimetableGrid({
     return `${wholeHours}:${minutes.toString().padStart(2, "0")}`
   }
 
-  const exportToPDF = async () => {
+  const exportToPDF = () => {
     if (!selectedEntity) {
-      alert("Please select a class or teacher first")
+      alert("Please select a class, teacher or room first")
       return
     }
 
     try {
-      const pdf = new jsPDF({
+      const page = { scope: viewMode, entityId: selectedEntity }
+      const data = { entries: timetableEntries, timeSlots, subjects, teachers, classSections, classrooms }
+      const pdf = createTimetablePDF(data, {
+        title: "Weekly Schedule",
+        pages: [page],
         orientation: isVerticalLayout ? "portrait" : "landscape",
-        unit: "mm",
-        format: "a4",
-      })
-
-      const pageWidth = pdf.internal.pageSize.getWidth()
-      const pageHeight = pdf.internal.pageSize.getHeight()
-      const margin = 10
-      const contentWidth = pageWidth - 2 * margin
-
-      // Add title
-      pdf.setFontSize(18)
-      pdf.setFont("helvetica", "bold")
-      pdf.setTextColor(0, 0, 0)
-      const title = `${viewMode === "class" ? getClassName(selectedEntity) : getTeacherName(selectedEntity)} Schedule`
-      pdf.text(title, pageWidth / 2, margin + 8, { align: "center" })
-
-      // Add date
-      pdf.setFontSize(10)
-      pdf.setFont("helvetica", "normal")
-      pdf.setTextColor(80, 80, 80)
-      const now = new Date()
-      pdf.text(`Generated on ${now.toLocaleDateString()}`, pageWidth / 2, margin + 14, { align: "center" })
-
-      let yPosition = margin + 20
-
-      // Table settings
-      const rowHeight = 14 // Increased row height to accommodate time info
-      const cellPadding = 2
-      const headerBgColor = [220, 220, 220]
-      const borderColor = [180, 180, 180]
-      const textColor = [0, 0, 0]
-
-      // Create table data
-      const tableData: string[][] = []
-      const columnWidths: number[] = []
-
-      if (isVerticalLayout) {
-        // Vertical layout table
-        const dayColWidth = 22
-        const periodColWidth = (contentWidth - dayColWidth) / PERIODS.length
-        columnWidths.push(dayColWidth, ...Array(PERIODS.length).fill(periodColWidth))
-
-        const headerRow = [
-          "Day",
-          ...PERIODS.map((p) => {
-            const timeSlot = timeSlots.find((ts) => ts.period === p)
-            return `P${p}\n${timeSlot?.startTime || ""}-${timeSlot?.endTime || ""}`
-          }),
-        ]
-        tableData.push(headerRow)
-
-        // Data rows
-        DAYS.forEach((day) => {
-          const row = [day]
-          PERIODS.forEach((period) => {
-            const entry = getEntryForSlot(day, period)
-
-            if (entry) {
-              const subject = subjects.find((s) => s.id === entry.subjectId)
-              const teacher = teachers.find((t) => t.id === entry.teacherId)
-              const roomAssignment = roomAssignments.find((ra) => ra.timetableEntryId === entry.id)
-              const room = roomAssignment ? rooms.find((r) => r.id === roomAssignment.roomId) : null
-
-              row.push(`${subject?.name || "Unknown"}\n${teacher?.name || "Unknown"}${room ? `\n${room.name}` : ""}`)
-            } else {
-              row.push("")
-            }
-          })
-          tableData.push(row)
-        })
-      } else {
-        // Horizontal layout table
-        const periodColWidth = 25 // Increased width to fit time info
-        const dayColWidth = (contentWidth - periodColWidth) / DAYS.length
-        columnWidths.push(periodColWidth, ...Array(DAYS.length).fill(dayColWidth))
-
-        // Header row
-        const headerRow = ["Period", ...DAYS]
-        tableData.push(headerRow)
-
-        // Data rows - already includes time info
-        PERIODS.forEach((period) => {
-          const timeSlot = timeSlots.find((ts) => ts.period === period)
-          const row = [`P${period}\n${timeSlot?.startTime || ""}-${timeSlot?.endTime || ""}`]
-
-          DAYS.forEach((day) => {
-            const entry = getEntryForSlot(day, period)
-
-            if (entry) {
-              const subject = subjects.find((s) => s.id === entry.subjectId)
-              const teacher = teachers.find((t) => t.id === entry.teacherId)
-              const roomAssignment = roomAssignments.find((ra) => ra.timetableEntryId === entry.id)
-              const room = roomAssignment ? rooms.find((r) => r.id === roomAssignment.roomId) : null
-
-              row.push(`${subject?.name || "Unknown"}\n${teacher?.name || "Unknown"}${room ? `\n${room.name}` : ""}`)
-            } else {
-              row.push("")
-            }
-          })
-          tableData.push(row)
-        })
-      }
-
-      // Draw table manually for better control
-      tableData.forEach((row, rowIndex) => {
-        let xPosition = margin
-
-        // Check if we need a new page
-        if (yPosition + rowHeight > pageHeight - margin) {
-          pdf.addPage()
-          yPosition = margin
-        }
-
-        row.forEach((cell, colIndex) => {
-          const cellWidth = columnWidths[colIndex]
-          const isHeader = rowIndex === 0
-          const isFirstCol = colIndex === 0
-
-          // Draw cell background
-          if (isHeader) {
-            pdf.setFillColor(...headerBgColor)
-            pdf.rect(xPosition, yPosition, cellWidth, rowHeight, "F")
-          } else if (colIndex > 0 && tableData[rowIndex][colIndex] !== "") {
-            // Draw colored background for subject cells
-            const entry = getEntryForSlot(
-              isVerticalLayout ? tableData[rowIndex][0] : DAYS[colIndex - 1],
-              isVerticalLayout ? Number(tableData[0][colIndex].split("\n")[0].replace("P", "")) : rowIndex,
-            )
-
-            if (entry) {
-              const subjectColor = getSubjectColor(entry.subjectId)
-              const rgbColor = hexToRgb(subjectColor)
-              if (rgbColor) {
-                pdf.setFillColor(...rgbColor)
-                pdf.rect(xPosition, yPosition, cellWidth, rowHeight, "F")
-              }
-            }
-          } else if (isFirstCol) {
-            pdf.setFillColor(240, 240, 240)
-            pdf.rect(xPosition, yPosition, cellWidth, rowHeight, "F")
-          }
-
-          // Draw cell border
-          pdf.setDrawColor(...borderColor)
-          pdf.rect(xPosition, yPosition, cellWidth, rowHeight)
-
-          // Draw cell text
-          pdf.setFontSize(8) // Slightly smaller font to fit time info
-          pdf.setFont("helvetica", isHeader ? "bold" : "normal")
-          pdf.setTextColor(
-            ...(colIndex > 0 && tableData[rowIndex][colIndex] !== "" && !isHeader ? [255, 255, 255] : textColor),
-          )
-
-          const lines = cell.split("\n")
-          const lineHeight = rowHeight / Math.max(lines.length + 0.5, 1)
-          lines.forEach((line, lineIndex) => {
-            pdf.text(line, xPosition + cellPadding, yPosition + cellPadding + 2 + lineIndex * lineHeight, {
-              maxWidth: cellWidth - 2 * cellPadding,
-            })
-          })
-
-          xPosition += cellWidth
-        })
-
-        yPosition += rowHeight
+        isVerticalLayout,
+        includeRooms: true,
+        includeCover: false,
       })
-
-      const fileName = `${viewMode === "class" ? getClassName(selectedEntity) : getTeacherName(selectedEntity)}_timetable.pdf`
-      pdf.save(fileName)
+      pdf.save(`${getPdfEntityName(data, page).replace(/\s+/g, "_")}_timetable.pdf`)
     } catch (error) {
-      console.error("[v0] PDF Export Error:", error)
+      console.error("PDF export error:", error)
       alert("Error generating PDF. Please try again.")
     }
   }
 
-  const hexToRgb = (hex: string): [number, number, number] | null => {
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex)
-    return result
-      ? [Number.parseInt(result[1], 16), Number.parseInt(result[2], 16), Number.parseInt(result[3], 16)]
-      : null
-  }
-
-  const availableSubjects = selectedEntity
-    ? viewMode === "class"
+  const availableSubjects = !selectedEntity
+    ? []
+    : viewMode === "class"
       ? subjects.filter((subject) => {
           const classSection = classSections.find((c) => c.id === selectedEntity)
           return (
             classSection && allocations.some((a) => a.gradeId === classSection.gradeId && a.subjectId === subject.id)
           )
         })
-      : subjects.filter((subject) => {
-          const teacher = teachers.find((t) => t.id === selectedEntity)
-          return teacher && teacher.subjects.includes(subject.id)
-        })
-    : []
+      : viewMode === "teacher"
+        ? subjects.filter((subject) => {
+            const teacher = teachers.find((t) => t.id === selectedEntity)
+            return teacher && teacher.subjects.includes(subject.id)
+          })
+        : []
 
-  // Update the viewMode setter
-  const handleViewModeChange = (value: "class" | "teacher") => {
+  // Update the viewMode setter; the selection moves to the first class, teacher or room when it does not fit
+  const handleViewModeChange = (value: "class" | "teacher" | "room") => {
     setViewMode(value)
     onViewModeChange?.(value)
+    setSelectedSubject(null)
+    const entities = getViewEntities(value)
+    if (selectedEntity && !entities.some((entity) => entity.id === selectedEntity) && entities.length > 0) {
+      handleEntityChange(entities[0].id)
+    }
   }
 
   // Update the selectedEntity setter
-  const handleEntityChange = (value: string) => {
-    setSelectedEntity(value)
-    onEntityChange?.(value)
-  }
+  const handleEntityChange = useCallback(
+    (value: string) => {
+      setSelectedEntity(value)
+      onEntityChange?.(value)
+    },
+    [onEntityChange],
+  )
 
   // Update the layout setter
   const handleLayoutChange = (value: boolean) => {
@@ -549,20 +441,59 @@ export function TimetableGrid({
 
   const handleAddEntry = useCallback(
     (newEntry: TimetableEntry) => {
-      const updatedEntries = [...timetableEntries, newEntry]
-      setTimetableEntries(updatedEntries)
+      const updatedEntries = record(`Added ${describeEntry(newEntry)}`, [{ before: null, after: newEntry }])
       setConflicts(validateConstraints(updatedEntries))
     },
-    [timetableEntries, validateConstraints],
+    [record, describeEntry, validateConstraints],
   )
 
+  // Fill the remaining weekly hours of every class, keeping lessons already placed
+  const handleAutoGenerate = useCallback(() => {
+    const result = generateTimetable({
+      allocations,
+      assignments,
+      timeSlots,
+      teachers,
+      classSections,
+      periodDuration,
+      existingEntries: timetableEntries,
+    })
+
+    // The whole generated timetable is a single history step
+    recordEntries(`Auto-generated ${result.entries.length - timetableEntries.length} lessons`, result.entries)
+    setConflicts(validateConstraints(result.entries))
+    setUnplacedLessons(result.unplaced)
+    setSelectedSubject(null)
+
+    const entities = getViewEntities(viewMode)
+    if (!selectedEntity && entities.length > 0) {
+      handleEntityChange(entities[0].id)
+    }
+  }, [
+    allocations,
+    assignments,
+    teachers,
+    classSections,
+    timeSlots,
+    periodDuration,
+    timetableEntries,
+    recordEntries,
+    validateConstraints,
+    selectedEntity,
+    viewMode,
+    getViewEntities,
+    handleEntityChange,
+  ])
+
   const handleRemoveEntryFromModal = useCallback(
     (entryId: string) => {
-      const updatedEntries = timetableEntries.filter((e) => e.id !== entryId)
-      setTimetableEntries(updatedEntries)
+      const entry = timetableEntries.find((e) => e.id === entryId)
+      if (!entry) return
+
+      const updatedEntries = record(`Removed ${describeEntry(entry)}`, [{ before: entry, after: null }])
       setConflicts(validateConstraints(updatedEntries))
     },
-    [timetableEntries, validateConstraints],
+    [timetableEntries, record, describeEntry, validateConstraints],
   )
 
   return (
@@ -596,18 +527,26 @@ export function TimetableGrid({
                       Teacher View
                     </div>
                   </SelectItem>
+                  <SelectItem value="room">
+                    <div className="flex items-center gap-2">
+                      <Building className="h-4 w-4" />
+                      Room View
+                    </div>
+                  </SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
             <div>
-              <label className="text-sm font-medium">{viewMode === "class" ? "Select Class" : "Select Teacher"}</label>
+              <label className="text-sm font-medium">
+                {viewMode === "class" ? "Select Class" : viewMode === "teacher" ? "Select Teacher" : "Select Room"}
+              </label>
               <Select value={selectedEntity} onValueChange={handleEntityChange}>
                 <SelectTrigger>
                   <SelectValue placeholder={`Choose a ${viewMode}`} />
                 </SelectTrigger>
                 <SelectContent>
-                  {(viewMode === "class" ? classSections : teachers).map((entity) => (
+                  {getViewEntities(viewMode).map((entity) => (
                     <SelectItem key={entity.id} value={entity.id}>
                       {entity.name}
                     </SelectItem>
@@ -629,9 +568,33 @@ export function TimetableGrid({
           </div>
 
           <div className="flex justify-end gap-2">
+            <Button onClick={() => undo()} disabled={!canUndo} variant="outline" size="icon" title="Undo (Ctrl+Z)">
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={() => redo()}
+              disabled={!canRedo}
+              variant="outline"
+              size="icon"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={() => setShowHistory(!showHistory)}
+              variant={showHistory ? "secondary" : "outline"}
+              size="icon"
+              title="History"
+            >
+              <History className="h-4 w-4" />
+            </Button>
+            <Button onClick={handleAutoGenerate} variant="outline" className="min-w-[140px]">
+              <Wand2 className="h-4 w-4 mr-2" />
+              Auto-generate
+            </Button>
             <Button
               onClick={() => setShowScheduleBuilder(true)}
-              disabled={!selectedEntity}
+              disabled={!selectedEntity || viewMode === "room"}
               variant="default"
               className="min-w-[140px]"
             >
@@ -639,12 +602,12 @@ export function TimetableGrid({
               Schedule Builder
             </Button>
             <Button
-              onClick={() => onPublish(timetableEntries)}
-              disabled={conflicts.some((c) => c.severity === "error")}
+              onClick={() => onSubmitForReview(timetableEntries)}
+              disabled={timetableEntries.length === 0 || conflicts.some((c) => c.severity === "error")}
               className="min-w-[120px]"
             >
-              <CheckCircle className="h-4 w-4 mr-2" />
-              Publish
+              <Send className="h-4 w-4 mr-2" />
+              Submit for Review
             </Button>
             <Button
               onClick={exportToPDF}
@@ -659,6 +622,8 @@ export function TimetableGrid({
         </CardContent>
       </Card>
 
+      {showHistory && <TimetableHistoryPanel />}
+
       {/* Conflicts Alert */}
       {conflicts.length > 0 && (
         <Alert variant={conflicts.some((c) => c.severity === "error") ? "destructive" : "default"}>
@@ -675,7 +640,28 @@ export function TimetableGrid({
         </Alert>
       )}
 
-      {selectedEntity && (
+      {/* Lessons the generator could not place */}
+      {unplacedLessons.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <div className="space-y-1">
+              <div className="font-medium">
+                {unplacedLessons.reduce((sum, lesson) => sum + lesson.count, 0)} lessons could not be placed
+                automatically
+              </div>
+              {unplacedLessons.map((lesson, index) => (
+                <div key={index} className="text-sm">
+                  • {getClassName(lesson.classId)} - {getSubjectName(lesson.subjectId)}: {lesson.count} lesson
+                  {lesson.count > 1 ? "s" : ""} ({lesson.reason})
+                </div>
+              ))}
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {selectedEntity && viewMode !== "room" && (
         <Card>
           <CardHeader>
             <CardTitle className="text-lg">Available Subjects & Progress</CardTitle>
@@ -750,202 +736,175 @@ export function TimetableGrid({
         <Card>
           <CardHeader>
             <CardTitle>
-              {viewMode === "class" ? getClassName(selectedEntity) : getTeacherName(selectedEntity)} Schedule
+              {viewMode === "class"
+                ? getClassName(selectedEntity)
+                : viewMode === "teacher"
+                  ? getTeacherName(selectedEntity)
+                  : getRoomName(selectedEntity)}{" "}
+              Schedule
             </CardTitle>
+            {viewMode === "room" && (
+              <CardDescription>
+                Capacity {classrooms.find((room) => room.id === selectedEntity)?.capacity ?? 0} · click a period to
+                place a lesson here, or drag a lesson to another period. Double-booked periods are shown in red.
+              </CardDescription>
+            )}
           </CardHeader>
           <CardContent>
             <div id="timetable-grid" className="overflow-x-auto bg-white p-4 rounded-lg">
-              {isVerticalLayout ? (
-                // Vertical Layout
-                <table className="w-full border-collapse">
-                  <thead>
-                    <tr>
-                      <th className="border p-2 bg-muted font-medium">Time</th>
-                      {PERIODS.map((period) => (
-                        <th key={period} className="border p-2 bg-muted font-medium min-w-[120px]">
-                          Period {period}
-                        </th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {DAYS.map((day) => (
-                      <tr key={day}>
-                        <td className="border p-2 bg-muted font-medium text-center">{day}</td>
-                        {PERIODS.map((period) => {
-                          const entry = getEntryForSlot(day, period)
-                          const isValid = selectedSubject && isSlotValid(day, period)
-                          const timeSlot = timeSlots.find((ts) => ts.day === day && ts.period === period)
-
-                          return (
-                            <td
-                              key={`${day}-${period}`}
-                              className={`border p-1 h-20 cursor-pointer transition-colors ${
-                                isValid ? "bg-green-50 hover:bg-green-100 border-green-200" : "hover:bg-muted/50"
-                              } ${selectedSubject && !isValid ? "opacity-50" : ""}`}
-                              onClick={() => {
-                                if (isValid) {
-                                  handleSlotClick(day, period)
-                                }
-                              }}
-                            >
-                              <div className="text-xs text-muted-foreground mb-1">
-                                {timeSlot?.startTime} - {timeSlot?.endTime}
-                              </div>
-                              {entry ? (
-                                <div
-                                  className="p-2 rounded text-white text-xs cursor-pointer hover:opacity-80"
-                                  style={{ backgroundColor: getSubjectColor(entry.subjectId) }}
-                                  onClick={(e) => {
-                                    e.stopPropagation()
-                                    removeEntry(entry.id)
-                                  }}
-                                  title="Click to remove"
-                                >
-                                  <div className="font-medium">{getSubjectName(entry.subjectId)}</div>
-                                  <div className="opacity-90">
-                                    {viewMode === "class"
-                                      ? getTeacherName(entry.teacherId)
-                                      : getClassName(entry.classId)}
-                                  </div>
-                                  {(() => {
-                                    const roomAssignment = roomAssignments.find(
-                                      (ra) => ra.timetableEntryId === entry.id,
-                                    )
-                                    const roomName = roomAssignment
-                                      ? rooms.find((r) => r.id === roomAssignment.roomId)?.name
-                                      : null
-                                    return roomName ? (
-                                      <div className="opacity-75 text-xs mt-1 flex items-center gap-1">
-                                        <MapPin className="h-2 w-2" />
-                                        {roomName}
-                                      </div>
-                                    ) : (
-                                      <div className="opacity-60 text-xs italic mt-1">No room assigned</div>
-                                    )
-                                  })()}
-                                </div>
-                              ) : (
-                                <div className="h-full border-2 border-dashed border-muted-foreground/20 rounded flex items-center justify-center text-muted-foreground text-xs">
-                                  {isValid ? "Click to add" : ""}
-                                </div>
-                              )}
-                            </td>
-                          )
-                        })}
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              ) : (
-                // Horizontal Layout (Original)
-                <table className="w-full border-collapse">
-                  <thead>
-                    <tr>
-                      <th className="border p-2 bg-muted font-medium">Period</th>
-                      {DAYS.map((day) => (
-                        <th key={day} className="border p-2 bg-muted font-medium min-w-[150px]">
-                          {day}
-                        </th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {PERIODS.map((period) => (
-                      <tr key={period}>
-                        <td className="border p-2 bg-muted font-medium text-center">
-                          <div>Period {period}</div>
-                          <div className="text-xs text-muted-foreground">
-                            {timeSlots.find((ts) => ts.period === period)?.startTime} -{" "}
-                            {timeSlots.find((ts) => ts.period === period)?.endTime}
-                          </div>
-                        </td>
-                        {DAYS.map((day) => {
-                          const entry = getEntryForSlot(day, period)
-                          const isValid = selectedSubject && isSlotValid(day, period)
-
-                          return (
-                            <td
-                              key={`${day}-${period}`}
-                              className={`border p-1 h-20 cursor-pointer transition-colors ${
-                                isValid ? "bg-green-50 hover:bg-green-100 border-green-200" : "hover:bg-muted/50"
-                              } ${selectedSubject && !isValid ? "opacity-50" : ""}`}
-                              onClick={() => {
-                                if (isValid) {
-                                  handleSlotClick(day, period)
-                                }
-                              }}
-                            >
-                              {entry ? (
-                                <div
-                                  className="p-2 rounded text-white text-xs cursor-pointer hover:opacity-80 h-full flex flex-col justify-between"
-                                  style={{ backgroundColor: getSubjectColor(entry.subjectId) }}
-                                  onClick={(e) => {
-                                    e.stopPropagation()
-                                    removeEntry(entry.id)
-                                  }}
-                                  title="Click to remove"
-                                >
-                                  <div>
-                                    <div className="font-medium">{getSubjectName(entry.subjectId)}</div>
-                                    <div className="opacity-90">
-                                      {viewMode === "class"
-                                        ? getTeacherName(entry.teacherId)
-                                        : getClassName(entry.classId)}
-                                    </div>
-                                  </div>
-                                  {(() => {
-                                    const roomAssignment = roomAssignments.find(
-                                      (ra) => ra.timetableEntryId === entry.id,
-                                    )
-                                    const roomName = roomAssignment
-                                      ? rooms.find((r) => r.id === roomAssignment.roomId)?.name
-                                      : null
-                                    return roomName ? (
-                                      <div className="opacity-75 text-xs flex items-center gap-1 mt-1">
-                                        <MapPin className="h-2 w-2" />
-                                        {roomName}
-                                      </div>
-                                    ) : (
-                                      <div className="opacity-60 text-xs italic mt-1">No room</div>
-                                    )
-                                  })()}
-                                </div>
-                              ) : (
-                                <div className="h-full border-2 border-dashed border-muted-foreground/20 rounded flex items-center justify-center text-muted-foreground text-xs">
-                                  {isValid ? "Click to add" : ""}
-                                </div>
-                              )}
-                            </td>
-                          )
-                        })}
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              )}
+              <TimetableWeekTable
+                entries={timetableEntries.filter((entry) =>
+                  viewMode === "class"
+                    ? entry.classId === selectedEntity
+                    : viewMode === "teacher"
+                      ? entry.teacherId === selectedEntity
+                      : entry.roomId === selectedEntity,
+                )}
+                viewMode={viewMode}
+                isVerticalLayout={isVerticalLayout}
+                timeSlots={timeSlots}
+                subjects={subjects}
+                teachers={teachers}
+                classSections={classSections}
+                classrooms={classrooms}
+                getSlotProps={(day, period) => {
+                  if (viewMode === "room") {
+                    const conflict = getRoomConflict(day, period)
+                    return {
+                      className: `cursor-pointer transition-colors ${
+                        conflict ? "bg-red-50 border-red-300" : "hover:bg-muted/50"
+                      } ${getDropClassName(day, period)}`,
+                      onClick: () => setRoomSlot({ day, period }),
+                      title: getDropTarget(day, period)?.error || conflict?.message,
+                      ...getDropProps(day, period),
+                    }
+                  }
+                  const isValid = selectedSubject && isSlotValid(day, period)
+                  const blockedReason = selectedSubject && !isValid ? getBlockedReason(day, period) : undefined
+                  return {
+                    className: `cursor-pointer transition-colors ${
+                      isValid ? "bg-green-50 hover:bg-green-100 border-green-200" : "hover:bg-muted/50"
+                    } ${selectedSubject && !isValid ? "opacity-50" : ""} ${getDropClassName(day, period)}`,
+                    onClick: () => {
+                      if (isValid) {
+                        handleSlotClick(day, period)
+                      }
+                    },
+                    title: getDropTarget(day, period)?.error || blockedReason,
+                    ...getDropProps(day, period),
+                  }
+                }}
+                getEntryProps={(entry) =>
+                  viewMode === "room"
+                    ? {
+                        className: `cursor-grab hover:opacity-80 ${entry.id === draggedEntryId ? "opacity-40" : ""}`,
+                        title: "Drag to move or swap",
+                        ...getDragProps(entry),
+                      }
+                    : {
+                        className: `cursor-pointer hover:opacity-80 ${entry.id === draggedEntryId ? "opacity-40" : ""}`,
+                        onClick: (e) => {
+                          e.stopPropagation()
+                          removeEntry(entry.id)
+                        },
+                        title: "Drag to move or swap, click to remove",
+                        ...getDragProps(entry),
+                      }
+                }
+                renderEmptySlot={(day, period) => {
+                  if (viewMode === "room") {
+                    const dropTarget = getDropTarget(day, period)
+                    return (
+                      <div className="h-full border-2 border-dashed border-muted-foreground/20 rounded flex items-center justify-center text-muted-foreground text-xs">
+                        {dropTarget && !dropTarget.error ? "Drop to move" : "Click to place a lesson"}
+                      </div>
+                    )
+                  }
+                  const isValid = selectedSubject && isSlotValid(day, period)
+                  const dropTarget = getDropTarget(day, period)
+                  const blockedReason = selectedSubject && !isValid ? getBlockedReason(day, period) : undefined
+                  return (
+                    <div className="h-full border-2 border-dashed border-muted-foreground/20 rounded flex items-center justify-center text-muted-foreground text-xs">
+                      {isValid ? (
+                        "Click to add"
+                      ) : dropTarget && !dropTarget.error ? (
+                        "Drop to move"
+                      ) : blockedReason ? (
+                        <span className="px-1 text-center text-[10px] leading-tight line-clamp-3">{blockedReason}</span>
+                      ) : (
+                        ""
+                      )}
+                    </div>
+                  )
+                }}
+              />
             </div>
           </CardContent>
         </Card>
       )}
 
-      {/* Room Assignment Engine */}
-      {selectedEntity && timetableEntries.length > 0 && (
-        <RoomAssignmentEngine timetableEntries={timetableEntries} onRoomAssignmentsChange={setRoomAssignments} />
+      {viewMode !== "room" && (
+        <ScheduleBuilderModal
+          open={showScheduleBuilder}
+          onOpenChange={setShowScheduleBuilder}
+          timetableEntries={timetableEntries}
+          selectedEntity={selectedEntity}
+          viewMode={viewMode}
+          onAddEntry={handleAddEntry}
+          onRemoveEntry={handleRemoveEntryFromModal}
+        />
       )}
 
-      <ScheduleBuilderModal
-        open={showScheduleBuilder}
-        onOpenChange={setShowScheduleBuilder}
-        allocations={allocations}
-        assignments={assignments}
-        timetableEntries={timetableEntries}
-        selectedEntity={selectedEntity}
-        viewMode={viewMode}
-        onAddEntry={handleAddEntry}
-        onRemoveEntry={handleRemoveEntryFromModal}
-        roomAssignments={roomAssignments}
-      />
+      {/* Place a lesson of the clicked period into the room shown */}
+      <Dialog open={roomSlot !== null} onOpenChange={(open) => !open && setRoomSlot(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {getRoomName(selectedEntity)} · {roomSlot?.day} Period {roomSlot?.period}
+            </DialogTitle>
+            <DialogDescription>Lessons of this period that are in another room or have none yet.</DialogDescription>
+          </DialogHeader>
+          {roomSlot && getRoomConflict(roomSlot.day, roomSlot.period) && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{getRoomConflict(roomSlot.day, roomSlot.period)?.message}</AlertDescription>
+            </Alert>
+          )}
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {roomSlotLessons.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No other lessons are scheduled in this period.</p>
+            ) : (
+              roomSlotLessons.map((entry) => {
+                const { roomId } = entry
+                const studentCount = classSections.find((c) => c.id === entry.classId)?.studentCount || 0
+                const capacity = classrooms.find((room) => room.id === selectedEntity)?.capacity || 0
+                return (
+                  <div key={entry.id} className="flex items-center justify-between gap-2 rounded border p-2">
+                    <div className="text-sm">
+                      <div className="font-medium">
+                        {subjects.find((s) => s.id === entry.subjectId)?.name || "Unknown"} ·{" "}
+                        {getClassName(entry.classId)}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {getTeacherName(entry.teacherId)} · {roomId ? getRoomName(roomId) : "No room"}
+                        {studentCount > capacity && (
+                          <span className="text-orange-600">
+                            {" "}
+                            · {studentCount} students for {capacity} seats
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <Button size="sm" variant="outline" onClick={() => placeInRoom(entry)}>
+                      Place Here
+                    </Button>
+                  </div>
+                )
+              })
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
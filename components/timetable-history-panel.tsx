@@ -0,0 +1,86 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { History, Undo2, Redo2, Plus, Trash2, Move, MapPin, Layers, Circle } from "lucide-react"
+import { useTimetableHistory } from "@/hooks/use-timetable-history"
+import type { HistoryCommand, HistoryCommandKind } from "@/lib/timetable-history"
+
+const kindIcons: Record<HistoryCommandKind, typeof Plus> = {
+  add: Plus,
+  remove: Trash2,
+  move: Move,
+  room: MapPin,
+  bulk: Layers,
+}
+
+// Undo/redo controls plus the list of steps; clicking a step rewinds or replays up to it
+export function TimetableHistoryPanel() {
+  const { past, future, canUndo, canRedo, undo, redo } = useTimetableHistory()
+
+  const renderCommand = (command: HistoryCommand, isUndone: boolean, onClick: () => void) => {
+    const Icon = kindIcons[command.kind]
+    return (
+      <button
+        key={command.id}
+        onClick={onClick}
+        className={`w-full flex items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted ${
+          isUndone ? "text-muted-foreground line-through" : ""
+        }`}
+      >
+        <Icon className="h-3.5 w-3.5 shrink-0" />
+        <span className="flex-1 truncate">{command.label}</span>
+        {command.changes.length > 1 && (
+          <Badge variant="secondary" className="text-xs">
+            {command.changes.length}
+          </Badge>
+        )}
+        <span className="text-xs text-muted-foreground">{new Date(command.createdAt).toLocaleTimeString()}</span>
+      </button>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            History
+          </span>
+          <span className="flex items-center gap-1">
+            <Button variant="outline" size="sm" onClick={() => undo()} disabled={!canUndo} title="Undo (Ctrl+Z)">
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => redo()} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+              <Redo2 className="h-4 w-4" />
+            </Button>
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="h-64">
+          <div className="space-y-0.5">
+            {/* Newest first: steps that can be redone, then the applied ones */}
+            {[...future]
+              .reverse()
+              .map((command, index) => renderCommand(command, true, () => redo(future.length - index)))}
+            {[...past].reverse().map((command, index) => renderCommand(command, false, () => undo(index)))}
+            <button
+              onClick={() => undo(past.length)}
+              className="w-full flex items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm text-muted-foreground hover:bg-muted"
+            >
+              <Circle className="h-3.5 w-3.5" />
+              Start of session
+            </button>
+          </div>
+        </ScrollArea>
+        {past.length === 0 && future.length === 0 && (
+          <p className="text-xs text-muted-foreground mt-2">Changes to the timetable will appear here.</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
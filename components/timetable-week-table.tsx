@@ -0,0 +1,175 @@
+"use client"
+
+import type React from "react"
+
+import { useMemo } from "react"
+import { MapPin } from "lucide-react"
+import type { ClassSection, Subject, Teacher, TimeSlot, TimetableEntry } from "@/types/timetable"
+import type { Classroom } from "@/types/classroom"
+import { findTimeSlot, getScheduleDays, getSchedulePeriods } from "@/lib/period-config"
+
+interface TimetableWeekTableProps {
+  // The lessons of the one class, teacher or room shown
+  entries: TimetableEntry[]
+  viewMode: "class" | "teacher" | "room"
+  isVerticalLayout: boolean
+  timeSlots: TimeSlot[]
+  subjects: Subject[]
+  teachers: Pick<Teacher, "id" | "name">[]
+  classSections: ClassSection[]
+  classrooms: Classroom[]
+  // Editing hooks; without them the table is read-only
+  getSlotProps?: (day: string, period: number) => React.TdHTMLAttributes<HTMLTableCellElement>
+  getEntryProps?: (entry: TimetableEntry) => React.HTMLAttributes<HTMLDivElement>
+  renderEmptySlot?: (day: string, period: number) => React.ReactNode
+}
+
+/**
+ * The week of one class, teacher or room: days against periods with real times, lessons in their
+ * subject colors with the teacher (or class) on the other side and the room. A room shows class and
+ * teacher instead, and every lesson of a double-booked slot.
+ */
+export function TimetableWeekTable({
+  entries,
+  viewMode,
+  isVerticalLayout,
+  timeSlots,
+  subjects,
+  teachers,
+  classSections,
+  classrooms,
+  getSlotProps,
+  getEntryProps,
+  renderEmptySlot,
+}: TimetableWeekTableProps) {
+  const days = useMemo(() => getScheduleDays(timeSlots), [timeSlots])
+  const periods = useMemo(() => getSchedulePeriods(timeSlots), [timeSlots])
+
+  const getEntriesForSlot = (day: string, period: number) =>
+    entries.filter((entry) => entry.day === day && entry.period === period)
+
+  const getSubjectColor = (subjectId: string) => subjects.find((s) => s.id === subjectId)?.color || "#gray"
+  const getSubjectName = (subjectId: string) => subjects.find((s) => s.id === subjectId)?.name || "Unknown"
+  const getTeacherName = (teacherId: string) => teachers.find((t) => t.id === teacherId)?.name || "Unknown"
+  const getClassName = (classId: string) => classSections.find((c) => c.id === classId)?.name || "Unknown"
+
+  // Time range shown in a period header; empty when the period starts at different times across days
+  const getPeriodTimeRange = (period: number) => {
+    const slots = timeSlots.filter((ts) => ts.period === period)
+    if (slots.length === 0) return ""
+    const [first] = slots
+    const isUniform = slots.every((ts) => ts.startTime === first.startTime && ts.endTime === first.endTime)
+    return isUniform ? `${first.startTime}-${first.endTime}` : ""
+  }
+
+  const renderEntry = (entry: TimetableEntry) => {
+    const { className: entryClassName, style: entryStyle, ...entryProps } = getEntryProps?.(entry) || {}
+    const roomName = entry.roomId ? classrooms.find((r) => r.id === entry.roomId)?.name : null
+
+    return (
+      <div
+        key={entry.id}
+        className={`p-2 rounded text-white text-xs ${
+          isVerticalLayout ? "" : "h-full flex flex-col justify-between"
+        } ${entryClassName || ""}`}
+        // Keep the subject colors when printing
+        style={{ backgroundColor: getSubjectColor(entry.subjectId), printColorAdjust: "exact", ...entryStyle }}
+        {...entryProps}
+      >
+        <div>
+          <div className="font-medium">{getSubjectName(entry.subjectId)}</div>
+          <div className="opacity-90">
+            {viewMode === "class"
+              ? getTeacherName(entry.teacherId)
+              : viewMode === "teacher"
+                ? getClassName(entry.classId)
+                : `${getClassName(entry.classId)} · ${getTeacherName(entry.teacherId)}`}
+          </div>
+        </div>
+        {viewMode === "room" ? null : roomName ? (
+          <div className="opacity-75 text-xs flex items-center gap-1 mt-1">
+            <MapPin className="h-2 w-2" />
+            {roomName}
+          </div>
+        ) : (
+          <div className="opacity-60 text-xs italic mt-1">{isVerticalLayout ? "No room assigned" : "No room"}</div>
+        )}
+      </div>
+    )
+  }
+
+  const renderSlot = (day: string, period: number, showTime: boolean) => {
+    const timeSlot = findTimeSlot(timeSlots, day, period)
+    if (!timeSlot) {
+      return <td key={`${day}-${period}`} className="border p-1 h-20 bg-muted/30" />
+    }
+    const slotEntries = getEntriesForSlot(day, period)
+    const { className: slotClassName, ...slotProps } = getSlotProps?.(day, period) || {}
+
+    return (
+      <td key={`${day}-${period}`} className={`border p-1 h-20 ${slotClassName || ""}`} {...slotProps}>
+        {showTime && (
+          <div className="text-xs text-muted-foreground mb-1">
+            {timeSlot.startTime} - {timeSlot.endTime}
+          </div>
+        )}
+        {slotEntries.length === 0 ? (
+          renderEmptySlot?.(day, period)
+        ) : slotEntries.length === 1 ? (
+          renderEntry(slotEntries[0])
+        ) : (
+          <div className="space-y-1">{slotEntries.map(renderEntry)}</div>
+        )}
+      </td>
+    )
+  }
+
+  return isVerticalLayout ? (
+    // Vertical Layout
+    <table className="w-full border-collapse">
+      <thead>
+        <tr>
+          <th className="border p-2 bg-muted font-medium">Time</th>
+          {periods.map((period) => (
+            <th key={period} className="border p-2 bg-muted font-medium min-w-[120px]">
+              Period {period}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {days.map((day) => (
+          <tr key={day}>
+            <td className="border p-2 bg-muted font-medium text-center">{day}</td>
+            {periods.map((period) => renderSlot(day, period, true))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  ) : (
+    // Horizontal Layout (Original)
+    <table className="w-full border-collapse">
+      <thead>
+        <tr>
+          <th className="border p-2 bg-muted font-medium">Period</th>
+          {days.map((day) => (
+            <th key={day} className="border p-2 bg-muted font-medium min-w-[150px]">
+              {day}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {periods.map((period) => (
+          <tr key={period}>
+            <td className="border p-2 bg-muted font-medium text-center">
+              <div>Period {period}</div>
+              <div className="text-xs text-muted-foreground">{getPeriodTimeRange(period)}</div>
+            </td>
+            {days.map((day) => renderSlot(day, period, !getPeriodTimeRange(period)))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
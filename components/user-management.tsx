@@ -0,0 +1,248 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { KeyRound, Plus, Trash2, Users } from "lucide-react"
+import type { User, UserRole } from "@/types/auth"
+import { ROLE_LABELS, USER_ROLES } from "@/lib/roles"
+import { getDepartments } from "@/lib/publication-workflow"
+import { useAuth } from "@/hooks/use-auth"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
+
+const emptyForm = { name: "", email: "", password: "", role: "timetabler" as UserRole, department: "", teacherId: "" }
+
+async function request<T>(url: string, method = "GET", body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  const result = await response.json()
+  if (!response.ok) throw new Error(result.error || `Request failed with status ${response.status}`)
+  return result
+}
+
+// Admin-only list of accounts with their roles
+export function UserManagement() {
+  const { user: currentUser } = useAuth()
+  const { subjects, teachers } = useTimetableStore()
+  const [isOpen, setIsOpen] = useState(false)
+  const [users, setUsers] = useState<User[]>([])
+  const [form, setForm] = useState(emptyForm)
+
+  const departments = getDepartments(subjects)
+
+  const loadUsers = async () => {
+    try {
+      setUsers(await request<User[]>("/api/users"))
+    } catch (error) {
+      console.error("Error loading users:", error)
+      alert("Could not load the users. Please try again.")
+    }
+  }
+
+  useEffect(() => {
+    if (isOpen) loadUsers()
+  }, [isOpen])
+
+  const createUser = async () => {
+    try {
+      await request<User>("/api/users", "POST", {
+        name: form.name.trim(),
+        email: form.email.trim(),
+        password: form.password,
+        role: form.role,
+        department: form.role === "head_of_department" ? form.department.trim() : undefined,
+        teacherId: form.role === "teacher" && form.teacherId ? form.teacherId : undefined,
+      })
+      setForm(emptyForm)
+      await loadUsers()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Could not create the user. Please try again.")
+    }
+  }
+
+  const resetPassword = async (user: User) => {
+    const password = window.prompt(`New password for ${user.name} (at least 8 characters):`)
+    if (!password) return
+    try {
+      await request<User>(`/api/users/${user.id}`, "PUT", { password })
+      alert(`Password for ${user.name} changed.`)
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Could not change the password. Please try again.")
+    }
+  }
+
+  const deleteUser = async (user: User) => {
+    if (!confirm(`Delete the account of ${user.name}?`)) return
+    try {
+      await request(`/api/users/${user.id}`, "DELETE")
+      await loadUsers()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Could not delete the user. Please try again.")
+    }
+  }
+
+  const describeScope = (user: User) => {
+    if (user.role === "head_of_department") return user.department
+    if (user.role === "teacher") return teachers.find((t) => t.id === user.teacherId)?.name
+    return undefined
+  }
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setIsOpen(true)}>
+        <Users className="h-4 w-4 mr-2" />
+        Users
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Users</DialogTitle>
+            <DialogDescription>
+              Timetablers build and publish the timetable, heads of department approve their department&apos;s lessons
+              and teachers can only read.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3 items-end border-b pb-4">
+            <div>
+              <Label htmlFor="user-name">Name</Label>
+              <Input id="user-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="user-email">Email</Label>
+              <Input
+                id="user-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="user-password">Password</Label>
+              <Input
+                id="user-password"
+                type="password"
+                autoComplete="new-password"
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Role</Label>
+              <Select value={form.role} onValueChange={(value: UserRole) => setForm({ ...form, role: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.role === "head_of_department" && (
+              <div>
+                <Label htmlFor="user-department">Department</Label>
+                <Input
+                  id="user-department"
+                  list="user-departments"
+                  value={form.department}
+                  onChange={(e) => setForm({ ...form, department: e.target.value })}
+                />
+                <datalist id="user-departments">
+                  {departments.map((department) => (
+                    <option key={department} value={department} />
+                  ))}
+                </datalist>
+              </div>
+            )}
+            {form.role === "teacher" && (
+              <div>
+                <Label>Teacher</Label>
+                <Select value={form.teacherId} onValueChange={(value) => setForm({ ...form, teacherId: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Link to a teacher" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {teachers.map((teacher) => (
+                      <SelectItem key={teacher.id} value={teacher.id}>
+                        {teacher.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <Button
+              onClick={createUser}
+              disabled={
+                !form.name.trim() ||
+                !form.email.trim() ||
+                form.password.length < 8 ||
+                (form.role === "head_of_department" && !form.department.trim())
+              }
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add User
+            </Button>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead className="w-[100px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((user) => (
+                  <TableRow key={user.id}>
+                    <TableCell className="font-medium">{user.name}</TableCell>
+                    <TableCell>{user.email}</TableCell>
+                    <TableCell>
+                      <Badge variant={user.role === "admin" ? "default" : "secondary"}>{ROLE_LABELS[user.role]}</Badge>
+                      {describeScope(user) && (
+                        <span className="text-xs text-muted-foreground ml-2">{describeScope(user)}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => resetPassword(user)} title="Change password">
+                          <KeyRound className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteUser(user)}
+                          disabled={user.id === currentUser?.id}
+                          className="text-destructive hover:text-destructive"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,79 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { User } from "@/types/auth"
+
+interface State {
+  user: User | null
+  // No account exists yet; the first one created becomes the admin
+  needsSetup: boolean
+  isLoaded: boolean
+}
+
+const listeners: Array<(state: State) => void> = []
+
+let memoryState: State = { user: null, needsSetup: false, isLoaded: false }
+let loadPromise: Promise<void> | null = null
+
+function setState(state: Partial<State>) {
+  memoryState = { ...memoryState, ...state }
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+async function request<T>(url: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: body === undefined ? "GET" : "POST",
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  const result = await response.json()
+  if (!response.ok) throw new Error(result.error || `Request failed with status ${response.status}`)
+  return result
+}
+
+async function refreshSession() {
+  const session = await request<{ user: User | null; needsSetup: boolean }>("/api/auth/session")
+  setState({ ...session, isLoaded: true })
+}
+
+async function signIn(email: string, password: string) {
+  setState({ user: await request<User>("/api/auth/login", { email, password }), needsSetup: false })
+}
+
+async function createAdminAccount(name: string, email: string, password: string) {
+  setState({ user: await request<User>("/api/auth/setup", { name, email, password }), needsSetup: false })
+}
+
+async function signOut() {
+  await request("/api/auth/logout", {})
+  setState({ user: null })
+}
+
+/**
+ * The signed-in user, checked with the server once per page load. Sign-in state is shared by
+ * every component using the hook.
+ */
+function useAuth() {
+  const [state, setLocalState] = useState<State>(memoryState)
+
+  useEffect(() => {
+    listeners.push(setLocalState)
+    setLocalState(memoryState)
+    loadPromise ??= refreshSession().catch((error) => {
+      console.error("Error loading session:", error)
+      setState({ isLoaded: true })
+    })
+    return () => {
+      const index = listeners.indexOf(setLocalState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return { ...state, signIn, signOut, createAdminAccount }
+}
+
+export { useAuth, signIn, signOut, createAdminAccount }
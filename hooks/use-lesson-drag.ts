@@ -0,0 +1,122 @@
+"use client"
+
+import type React from "react"
+
+import { useCallback, useMemo, useState } from "react"
+import type { TimetableEntry } from "@/types/timetable"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
+import { useTimetableHistory } from "@/hooks/use-timetable-history"
+import { planLessonMove, type LessonMove } from "@/lib/timetable-validation"
+
+interface LessonDragOptions {
+  viewMode: "class" | "teacher" | "room"
+  selectedEntity: string
+}
+
+const DRAG_DATA_TYPE = "text/plain"
+
+/**
+ * Drag-and-drop for lessons in a class, teacher or room timetable. Dropping on a free cell moves the
+ * lesson, dropping on a filled cell swaps the two. While dragging, every slot knows whether the
+ * move is allowed and, if not, why. In a room, moved lessons keep their room.
+ */
+export function useLessonDrag({ viewMode, selectedEntity }: LessonDragOptions) {
+  const { timetableEntries, teachers, classrooms, subjects, classSections, periodConfig } = useTimetableStore()
+  const { timeSlots, periodDuration } = periodConfig
+  const { record } = useTimetableHistory()
+  const [draggedEntryId, setDraggedEntryId] = useState<string | null>(null)
+
+  const draggedEntry = timetableEntries.find((entry) => entry.id === draggedEntryId)
+
+  // The lesson shown in a cell of the current view
+  const getEntryAt = useCallback(
+    (day: string, period: number) =>
+      timetableEntries.find((entry) => {
+        const entityId = viewMode === "class" ? entry.classId : viewMode === "teacher" ? entry.teacherId : entry.roomId
+        return entityId === selectedEntity && entry.day === day && entry.period === period
+      }),
+    [timetableEntries, viewMode, selectedEntity],
+  )
+
+  const dropTargets = useMemo(() => {
+    const targets = new Map<string, LessonMove>()
+    if (!draggedEntry) return targets
+
+    const context = { teachers, classrooms, periodDuration }
+    timeSlots.forEach(({ day, period }) => {
+      // Dropping a lesson back where it came from is a no-op
+      if (draggedEntry.day === day && draggedEntry.period === period) return
+      targets.set(
+        `${day}-${period}`,
+        planLessonMove(timetableEntries, draggedEntry, day, period, getEntryAt(day, period), timeSlots, context),
+      )
+    })
+    return targets
+  }, [draggedEntry, timetableEntries, teachers, classrooms, periodDuration, timeSlots, getEntryAt])
+
+  const describeEntry = (entry: TimetableEntry) => {
+    const subjectName = subjects.find((s) => s.id === entry.subjectId)?.name || "Lesson"
+    const className = classSections.find((c) => c.id === entry.classId)?.name
+    return `${subjectName}${className ? ` (${className})` : ""}`
+  }
+
+  const getDropTarget = (day: string, period: number) => dropTargets.get(`${day}-${period}`)
+
+  const moveDraggedEntry = (day: string, period: number) => {
+    const move = getDropTarget(day, period)
+    if (!draggedEntry || !move) return
+
+    if (move.error) {
+      alert(`Cannot move ${describeEntry(draggedEntry)}: ${move.error}`)
+      return
+    }
+
+    const [moved, swapped] = move.changes
+    record(
+      swapped?.before
+        ? `Swapped ${describeEntry(moved.before!)} and ${describeEntry(swapped.before)}`
+        : `Moved ${describeEntry(draggedEntry)} from ${draggedEntry.day} P${draggedEntry.period} to ${day} P${period}`,
+      move.changes,
+    )
+  }
+
+  const getDragProps = (entry: TimetableEntry) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      e.dataTransfer.effectAllowed = "move"
+      e.dataTransfer.setData(DRAG_DATA_TYPE, entry.id)
+      setDraggedEntryId(entry.id)
+    },
+    onDragEnd: () => setDraggedEntryId(null),
+  })
+
+  const getDropProps = (day: string, period: number) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!draggedEntry) return
+      // Accept every drop so an invalid one can explain why it was rejected
+      e.preventDefault()
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault()
+      moveDraggedEntry(day, period)
+      setDraggedEntryId(null)
+    },
+  })
+
+  // Highlight for a cell while a lesson is dragged: blue to move, amber to swap, faded when not allowed
+  const getDropClassName = (day: string, period: number) => {
+    const move = getDropTarget(day, period)
+    if (!move) return ""
+    if (move.error) return "opacity-50"
+    return move.isSwap ? "bg-amber-50 border-amber-300" : "bg-blue-50 border-blue-300"
+  }
+
+  return {
+    isDragging: !!draggedEntry,
+    draggedEntryId,
+    getDropTarget,
+    getDropClassName,
+    getDragProps,
+    getDropProps,
+  }
+}
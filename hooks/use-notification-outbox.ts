@@ -0,0 +1,99 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { NotificationSummary } from "@/types/notification"
+import type { SkippedTeacher } from "@/lib/teacher-schedule-email"
+
+export interface NotifyResult {
+  queued: number
+  skipped: SkippedTeacher[]
+  unchanged: number
+}
+
+interface State {
+  notifications: NotificationSummary[]
+  isLoading: boolean
+}
+
+const listeners: Array<(state: State) => void> = []
+
+let memoryState: State = { notifications: [], isLoading: false }
+
+function setState(state: Partial<State>) {
+  memoryState = { ...memoryState, ...state }
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init)
+  const body = await response.json()
+  if (!response.ok) throw new Error(body.error || `Request failed with status ${response.status}`)
+  return body
+}
+
+async function refreshNotifications() {
+  setState({ isLoading: true })
+  try {
+    setState({ notifications: await request<NotificationSummary[]>("/api/notifications") })
+  } finally {
+    setState({ isLoading: false })
+  }
+}
+
+const postJson = <T>(url: string, body: unknown) =>
+  request<T>(url, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) })
+
+// Emails every teacher their schedule from the version the server last published
+async function notifyTeachers() {
+  const result = await postJson<NotifyResult>("/api/notifications", {})
+  await refreshNotifications()
+  return result
+}
+
+async function retryFailedNotifications(ids?: string[]) {
+  const result = await postJson<{ requeued: number }>("/api/notifications/retry", { ids })
+  await refreshNotifications()
+  return result
+}
+
+// One-line outcome for alerts, e.g. "12 schedule emails queued for delivery. Skipped: Ana Ruiz (No email address)"
+function describeNotifyResult(result: NotifyResult) {
+  const parts = [`${result.queued} schedule email${result.queued === 1 ? "" : "s"} queued for delivery`]
+  if (result.unchanged > 0) {
+    parts.push(`${result.unchanged} teacher${result.unchanged === 1 ? "" : "s"} without changes`)
+  }
+  const summary = parts.join(", ") + "."
+  if (result.skipped.length === 0) return summary
+  return `${summary} Skipped: ${result.skipped.map((teacher) => `${teacher.name} (${teacher.reason})`).join(", ")}`
+}
+
+/**
+ * The server-side outbox of schedule emails. Loaded on first use; actions that change it
+ * refresh every component showing it.
+ */
+function useNotificationOutbox() {
+  const [state, setLocalState] = useState<State>(memoryState)
+
+  useEffect(() => {
+    listeners.push(setLocalState)
+    setLocalState(memoryState)
+    refreshNotifications().catch((error) => console.error("Error loading notifications:", error))
+    return () => {
+      const index = listeners.indexOf(setLocalState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    ...state,
+    refresh: refreshNotifications,
+    notifyTeachers,
+    retryFailed: retryFailedNotifications,
+  }
+}
+
+export { useNotificationOutbox, notifyTeachers, retryFailedNotifications, describeNotifyResult }
@@ -0,0 +1,14 @@
+"use client"
+
+import { useCallback } from "react"
+import type { PeriodConfig } from "@/types/timetable"
+import { useTimetableStore } from "@/hooks/use-timetable-store"
+
+// Saved period configuration, shared between the /periods page and the timetable builder
+export function usePeriodConfig() {
+  const { periodConfig, isLoaded, setData } = useTimetableStore()
+
+  const updateConfig = useCallback((newConfig: PeriodConfig) => setData("periodConfig", newConfig), [setData])
+
+  return { config: periodConfig, isLoaded, updateConfig }
+}
@@ -0,0 +1,114 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { ProjectData } from "@/types/project"
+import type { ClassSection, Subject, Teacher, TimeSlot } from "@/types/timetable"
+import type { Classroom } from "@/types/classroom"
+import type { PublicationWorkflow } from "@/types/workflow"
+import type { PublishedVersion } from "@/types/version"
+import { setData } from "@/hooks/use-timetable-store"
+import type { NotifyResult } from "@/hooks/use-notification-outbox"
+
+// The submitted timetable as the server has it, so reviewers see it whatever their own workspace holds
+export interface WorkflowReview {
+  workflow: PublicationWorkflow
+  publishedVersions: PublishedVersion[]
+  subjects: Subject[]
+  teachers: Teacher[]
+  classSections: ClassSection[]
+  classrooms: Classroom[]
+  timeSlots: TimeSlot[]
+}
+
+interface State {
+  review: WorkflowReview | null
+  isLoading: boolean
+}
+
+const listeners: Array<(state: State) => void> = []
+
+let memoryState: State = { review: null, isLoading: false }
+
+function setState(state: Partial<State>) {
+  memoryState = { ...memoryState, ...state }
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+async function request<T>(url: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: body === undefined ? "GET" : "POST",
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  const result = await response.json()
+  if (!response.ok) throw new Error(result.error || `Request failed with status ${response.status}`)
+  return result
+}
+
+// The server is the record of the workflow; the workspace keeps a copy for the export screens
+async function loadWorkflow() {
+  setState({ isLoading: true })
+  try {
+    const review = await request<WorkflowReview>("/api/workflow")
+    setData("workflow", review.workflow)
+    setData("publishedVersions", review.publishedVersions)
+    setState({ review })
+  } finally {
+    setState({ isLoading: false })
+  }
+}
+
+// Uploads the whole workspace; the server ignores its copy of the workflow and versions
+async function submitForReview(data: ProjectData) {
+  await request<PublicationWorkflow>("/api/workflow/submit", data)
+  await loadWorkflow()
+}
+
+async function approveDepartment(department: string) {
+  await request<PublicationWorkflow>("/api/workflow/approve", { department })
+  await loadWorkflow()
+}
+
+async function requestChanges(department: string, comment: string) {
+  await request<PublicationWorkflow>("/api/workflow/request-changes", { department, comment })
+  await loadWorkflow()
+}
+
+async function publishTimetable() {
+  const result = await request<{ notifications: NotifyResult }>("/api/workflow/publish", {})
+  await loadWorkflow()
+  return result.notifications
+}
+
+/**
+ * The publication workflow: submit for review, department approvals and publishing. Loaded
+ * from the server on first use.
+ */
+function usePublicationWorkflow() {
+  const [state, setLocalState] = useState<State>(memoryState)
+
+  useEffect(() => {
+    listeners.push(setLocalState)
+    setLocalState(memoryState)
+    loadWorkflow().catch((error) => console.error("Error loading workflow:", error))
+    return () => {
+      const index = listeners.indexOf(setLocalState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    ...state,
+    refresh: loadWorkflow,
+    submitForReview,
+    approveDepartment,
+    requestChanges,
+    publishTimetable,
+  }
+}
+
+export { usePublicationWorkflow, submitForReview, approveDepartment, requestChanges, publishTimetable }
@@ -0,0 +1,123 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { TimetableEntry } from "@/types/timetable"
+import { getStoreData, setData, subscribeToStoreChanges } from "@/hooks/use-timetable-store"
+import {
+  applyChanges,
+  createCommand,
+  diffEntries,
+  invertChanges,
+  type EntryChange,
+  type HistoryCommand,
+} from "@/lib/timetable-history"
+
+const HISTORY_LIMIT = 100
+
+interface State {
+  // Most recent command last
+  past: HistoryCommand[]
+  // Next command to redo first
+  future: HistoryCommand[]
+}
+
+const listeners: Array<(state: State) => void> = []
+
+let memoryState: State = { past: [], future: [] }
+
+function setState(state: State) {
+  memoryState = state
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+// History refers to entries of the open workspace; opening another project starts over
+subscribeToStoreChanges((event) => {
+  if (event.key === "timetableEntries" && event.source === "storage") {
+    setState({ past: [], future: [] })
+  }
+})
+
+// Lessons of classes deleted since a step was recorded (on the /classes page) are not brought back.
+// Lessons placed from a teacher's timetable have no class yet and are always kept.
+const writeEntries = (changes: EntryChange[]) => {
+  const { timetableEntries, classSections } = getStoreData()
+  const isDeletedClass = (classId: string) => !!classId && !classSections.some((c) => c.id === classId)
+  const entries = applyChanges(
+    timetableEntries,
+    changes.map((change) =>
+      change.after && isDeletedClass(change.after.classId) ? { ...change, after: null } : change,
+    ),
+  )
+  setData("timetableEntries", entries)
+  return entries
+}
+
+// Applies the changes as one undoable step and returns the updated entries
+function record(label: string, changes: EntryChange[]): TimetableEntry[] {
+  if (changes.length === 0) return getStoreData().timetableEntries
+
+  const entries = writeEntries(changes)
+  setState({ past: [...memoryState.past, createCommand(label, changes)].slice(-HISTORY_LIMIT), future: [] })
+  return entries
+}
+
+// Records the difference between the current entries and `nextEntries` as one step
+function recordEntries(label: string, nextEntries: TimetableEntry[]): TimetableEntry[] {
+  return record(label, diffEntries(getStoreData().timetableEntries, nextEntries))
+}
+
+function undo(steps = 1) {
+  // slice(-0) would return every command
+  const undone = steps > 0 ? memoryState.past.slice(-steps).reverse() : []
+  if (undone.length === 0) return
+
+  writeEntries(undone.flatMap((command) => invertChanges(command.changes)))
+  setState({
+    past: memoryState.past.slice(0, memoryState.past.length - undone.length),
+    future: [...undone, ...memoryState.future],
+  })
+}
+
+function redo(steps = 1) {
+  const redone = memoryState.future.slice(0, steps)
+  if (redone.length === 0) return
+
+  writeEntries(redone.flatMap((command) => command.changes))
+  setState({ past: [...memoryState.past, ...redone], future: memoryState.future.slice(redone.length) })
+}
+
+const clearHistory = () => setState({ past: [], future: [] })
+
+/**
+ * Undo/redo for timetable entries. Every add, remove, move or room change made through `record`
+ * becomes one step; bulk operations pass all of their changes in a single call.
+ */
+function useTimetableHistory() {
+  const [state, setLocalState] = useState<State>(memoryState)
+
+  useEffect(() => {
+    listeners.push(setLocalState)
+    setLocalState(memoryState)
+    return () => {
+      const index = listeners.indexOf(setLocalState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    ...state,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    record,
+    recordEntries,
+    undo,
+    redo,
+    clearHistory,
+  }
+}
+
+export { useTimetableHistory, record, recordEntries, undo, redo }
@@ -0,0 +1,145 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { ProjectData, ProjectDataKey } from "@/types/project"
+import {
+  createDefaultProjectData,
+  loadWorkspace,
+  saveWorkspaceValue,
+  subscribeToWorkspace,
+} from "@/lib/project-storage"
+
+type Action =
+  | {
+      type: "LOAD_WORKSPACE"
+      data: ProjectData
+    }
+  | {
+      // Change made in the app; persisted to the workspace
+      type: "SET_DATA"
+      key: ProjectDataKey
+      value: ProjectData[ProjectDataKey]
+    }
+  | {
+      // Change that already happened in storage (e.g. a saved project was opened)
+      type: "SYNC_DATA"
+      key: ProjectDataKey
+      value: ProjectData[ProjectDataKey]
+    }
+
+interface State {
+  data: ProjectData
+  isLoaded: boolean
+}
+
+export interface StoreChangeEvent<K extends ProjectDataKey = ProjectDataKey> {
+  key: K
+  value: ProjectData[K]
+  previousValue: ProjectData[K]
+  // "storage" when the workspace was replaced underneath the app, e.g. a saved project was opened
+  source: "app" | "storage"
+}
+
+type StoreChangeListener = (event: StoreChangeEvent) => void
+
+export const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case "LOAD_WORKSPACE":
+      return { data: action.data, isLoaded: true }
+
+    case "SET_DATA":
+    case "SYNC_DATA":
+      return { ...state, data: { ...state.data, [action.key]: action.value } }
+  }
+}
+
+const listeners: Array<(state: State) => void> = []
+const changeListeners = new Set<StoreChangeListener>()
+
+let memoryState: State = { data: createDefaultProjectData(), isLoaded: false }
+let loadPromise: Promise<void> | null = null
+
+function dispatch(action: Action) {
+  const previousState = memoryState
+  memoryState = reducer(memoryState, action)
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+
+  if (action.type === "SET_DATA") {
+    saveWorkspaceValue(action.key, action.value).catch((error) => console.error(`Error saving ${action.key}:`, error))
+  }
+
+  if (action.type !== "LOAD_WORKSPACE") {
+    const event: StoreChangeEvent = {
+      key: action.key,
+      value: action.value,
+      previousValue: previousState.data[action.key],
+      source: action.type === "SYNC_DATA" ? "storage" : "app",
+    }
+    changeListeners.forEach((listener) => listener(event))
+  }
+}
+
+// Restore the workspace once per page load and follow changes made directly in storage
+function ensureLoaded() {
+  if (loadPromise) return loadPromise
+
+  subscribeToWorkspace((key, value) => {
+    if (memoryState.data[key] !== value) {
+      dispatch({ type: "SYNC_DATA", key, value })
+    }
+  })
+
+  loadPromise = loadWorkspace()
+    .then((data) => dispatch({ type: "LOAD_WORKSPACE", data }))
+    .catch((error) => {
+      console.error("Error restoring workspace:", error)
+      dispatch({ type: "LOAD_WORKSPACE", data: memoryState.data })
+    })
+
+  return loadPromise
+}
+
+function setData<K extends ProjectDataKey>(key: K, value: ProjectData[K]) {
+  dispatch({ type: "SET_DATA", key, value })
+}
+
+// Change events for every slice of data, with the value before the change
+function subscribeToStoreChanges(listener: StoreChangeListener) {
+  changeListeners.add(listener)
+  return () => {
+    changeListeners.delete(listener)
+  }
+}
+
+const getStoreData = () => memoryState.data
+
+/**
+ * The application-wide dataset: subjects, grades, classes, teachers, allocations, assignments,
+ * rooms, period configuration and timetable entries. Every page reads and writes through it.
+ */
+function useTimetableStore() {
+  const [state, setState] = useState<State>(memoryState)
+
+  useEffect(() => {
+    listeners.push(setState)
+    // Pick up anything dispatched between the first render and this effect
+    setState(memoryState)
+    ensureLoaded()
+    return () => {
+      const index = listeners.indexOf(setState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    ...state.data,
+    isLoaded: state.isLoaded,
+    setData,
+  }
+}
+
+export { useTimetableStore, setData, subscribeToStoreChanges, getStoreData }
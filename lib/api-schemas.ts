@@ -0,0 +1,288 @@
+import { z } from "zod"
+import type {
+  ClassSection,
+  ClassSubjectTeacher,
+  Grade,
+  GradeSubjectAllocation,
+  PeriodConfig,
+  Subject,
+  Teacher,
+  TimeSlot,
+  TimetableEntry,
+} from "@/types/timetable"
+import type { Classroom, RoomType } from "@/types/classroom"
+import type { SubjectRoomRequirement, SubjectRoomType } from "@/types/room-assignment"
+import type { CalendarSettings, Holiday } from "@/types/calendar"
+import { isValidTimeZone } from "@/lib/ics-calendar"
+
+// Request bodies accepted by the /api route handlers, matching the entities documented on /docs
+
+const id = z.string().trim().min(1)
+const name = z.string().trim().min(1, "Name is required")
+const positiveInt = z.number().int().positive()
+const email = z.string().trim().email("Email must be a valid address")
+
+export const subjectCreateSchema = z.object({
+  name,
+  code: z.string().trim().min(1, "Code is required").toUpperCase(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value such as #3B82F6"),
+  department: z.string().trim().optional(),
+})
+
+export const subjectUpdateSchema = subjectCreateSchema.partial()
+
+export const gradeCreateSchema = z.object({
+  name,
+  level: z.number().int().min(0),
+})
+
+export const sectionCreateSchema = z.object({
+  name,
+  studentCount: z.number().int().min(0),
+})
+
+export const sectionUpdateSchema = sectionCreateSchema.partial()
+
+export const allocationCreateSchema = z.object({
+  gradeId: id,
+  subjectId: id,
+  weeklyHours: positiveInt,
+  semesterWeeks: positiveInt,
+})
+
+export const allocationUpdateSchema = allocationCreateSchema.pick({ weeklyHours: true, semesterWeeks: true }).partial()
+
+// totalHours is always recomputed, so a client-sent value is accepted but ignored
+export const allocationBulkSchema = z.array(
+  allocationCreateSchema.extend({
+    id: id.optional(),
+    totalHours: z.number().optional(),
+  }),
+)
+
+const teacherUnavailabilitySchema = z.object({
+  day: z.string().min(1),
+  period: positiveInt,
+})
+
+export const teacherCreateSchema = z.object({
+  name,
+  email,
+  subjects: z.array(id),
+  weeklyHourLimit: positiveInt,
+  unavailableSlots: z.array(teacherUnavailabilitySchema).optional(),
+})
+
+export const teacherUpdateSchema = teacherCreateSchema.partial()
+
+export const assignmentCreateSchema = z.object({
+  classId: id,
+  subjectId: id,
+  teacherId: id,
+})
+
+export const assignmentUpdateSchema = z.object({
+  teacherId: id.optional(),
+  isActive: z.boolean().optional(),
+})
+
+const assignmentSchema: z.ZodType<ClassSubjectTeacher> = assignmentCreateSchema.extend({
+  id,
+  isActive: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+})
+
+export const assignmentValidateSchema = z.array(assignmentSchema)
+
+// Project records as the client stores them, checked field by field so a malformed one never reaches the data file
+const date = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD")
+  .refine((value) => new Date(`${value}T00:00:00Z`).toISOString().startsWith(value), "Not a valid date")
+const time = z.string().regex(/^\d{2}:\d{2}$/, "Times must be HH:MM")
+const count = z.number().int().min(0)
+const timestamps = { createdAt: z.string(), updatedAt: z.string() }
+
+const subjectSchema: z.ZodType<Subject> = z.object({
+  id,
+  name,
+  code: z.string(),
+  color: z.string(),
+  department: z.string().optional(),
+})
+
+const gradeSchema: z.ZodType<Grade> = z.object({ id, name, level: count })
+
+const classSectionSchema: z.ZodType<ClassSection> = z.object({ id, name, gradeId: id, studentCount: count })
+
+const teacherSchema: z.ZodType<Teacher> = z.object({
+  id,
+  name,
+  email: z.string(),
+  subjects: z.array(id),
+  weeklyHourLimit: count,
+  currentWeeklyHours: z.number().min(0),
+  unavailableSlots: z.array(teacherUnavailabilitySchema).optional(),
+})
+
+const allocationSchema: z.ZodType<GradeSubjectAllocation> = z.object({
+  id,
+  gradeId: id,
+  subjectId: id,
+  weeklyHours: z.number().min(0),
+  semesterWeeks: count,
+  totalHours: z.number().min(0),
+})
+
+const classroomSchema: z.ZodType<Classroom> = z.object({
+  id,
+  name,
+  code: z.string(),
+  roomTypeId: z.string(),
+  capacity: count,
+  floor: z.string(),
+  building: z.string(),
+  features: z.array(z.string()),
+  equipment: z.array(z.string()),
+  isActive: z.boolean(),
+  notes: z.string(),
+  ...timestamps,
+})
+
+const roomTypeSchema: z.ZodType<RoomType> = z.object({
+  id,
+  name,
+  description: z.string(),
+  color: z.string(),
+  defaultCapacity: count,
+  features: z.array(z.string()),
+  ...timestamps,
+})
+
+const subjectRoomTypeSchema: z.ZodType<SubjectRoomType> = z.object({
+  id,
+  subjectId: id,
+  roomTypeId: id,
+  priority: positiveInt,
+  isRequired: z.boolean(),
+  ...timestamps,
+})
+
+const subjectRoomRequirementSchema: z.ZodType<SubjectRoomRequirement> = z.object({
+  id,
+  subjectId: id,
+  gradeId: id.optional(),
+  requiredFeatures: z.array(z.string()),
+  preferredFeatures: z.array(z.string()),
+  requiredEquipment: z.array(z.string()),
+  preferredEquipment: z.array(z.string()),
+  ...timestamps,
+})
+
+const timeSlotSchema: z.ZodType<TimeSlot> = z.object({
+  id,
+  day: z.string().min(1),
+  period: positiveInt,
+  startTime: time,
+  endTime: time,
+})
+
+const periodConfigSchema: z.ZodType<PeriodConfig> = z.object({
+  periodDuration: positiveInt,
+  periodsPerDay: z.record(count),
+  dayStartTimes: z.record(time),
+  days: z.array(z.object({ day: z.string().min(1), periods: count, startTime: time, enabled: z.boolean() })),
+  breaks: z.record(z.array(z.object({ afterPeriod: count, duration: count, type: z.enum(["break", "lunch"]) }))),
+  timeSlots: z.array(timeSlotSchema),
+})
+
+const timetableEntrySchema: z.ZodType<TimetableEntry> = z.object({
+  id,
+  classId: id,
+  teacherId: id,
+  subjectId: id,
+  roomId: z.string().optional(),
+  timeSlotId: z.string(),
+  day: z.string().min(1),
+  period: positiveInt,
+})
+
+const holidaySchema: z.ZodType<Holiday> = z
+  .object({ id, name: z.string(), startDate: date, endDate: date })
+  .refine((holiday) => holiday.endDate >= holiday.startDate, {
+    message: "A holiday cannot end before it starts",
+    path: ["endDate"],
+  })
+
+const calendarSettingsSchema: z.ZodType<CalendarSettings> = z
+  .object({
+    semesterStart: date,
+    semesterEnd: date,
+    timeZone: z.string().refine(isValidTimeZone, "Unknown time zone"),
+    holidays: z.array(holidaySchema),
+  })
+  .refine((settings) => settings.semesterEnd >= settings.semesterStart, {
+    message: "The semester cannot end before it starts",
+    path: ["semesterEnd"],
+  })
+
+export const notificationRetrySchema = z.object({
+  ids: z.array(id).optional(),
+})
+
+const password = z.string().min(8, "Password must be at least 8 characters")
+
+export const loginSchema = z.object({
+  email,
+  password: z.string().min(1, "Password is required"),
+})
+
+export const setupSchema = z.object({ name, email, password })
+
+const userFields = z.object({
+  name,
+  email,
+  password,
+  role: z.enum(["admin", "timetabler", "head_of_department", "teacher"]),
+  department: z.string().trim().min(1).optional(),
+  teacherId: id.optional(),
+})
+
+const hasDepartmentIfHead = (user: { role: string; department?: string }) =>
+  user.role !== "head_of_department" || !!user.department
+const departmentRequired = { message: "A head of department needs a department", path: ["department"] }
+
+export const userCreateSchema = userFields.refine(hasDepartmentIfHead, departmentRequired)
+
+export const userUpdateSchema = userFields.partial()
+
+// A stored user with an update merged in, held to the same rule as a new user
+export const mergedUserSchema = userFields
+  .pick({ role: true, department: true })
+  .refine(hasDepartmentIfHead, departmentRequired)
+
+// The whole workspace, uploaded when it is submitted for review
+export const projectSubmitSchema = z.object({
+  subjects: z.array(subjectSchema),
+  grades: z.array(gradeSchema),
+  classSections: z.array(classSectionSchema),
+  teachers: z.array(teacherSchema),
+  allocations: z.array(allocationSchema),
+  assignments: z.array(assignmentSchema),
+  classrooms: z.array(classroomSchema),
+  roomTypes: z.array(roomTypeSchema),
+  subjectRoomTypes: z.array(subjectRoomTypeSchema),
+  subjectRoomRequirements: z.array(subjectRoomRequirementSchema),
+  periodConfig: periodConfigSchema,
+  timetableEntries: z.array(timetableEntrySchema),
+  calendarSettings: calendarSettingsSchema,
+})
+
+export const workflowApproveSchema = z.object({
+  department: z.string().trim().min(1, "Department is required"),
+})
+
+export const workflowChangesSchema = workflowApproveSchema.extend({
+  comment: z.string().trim().min(1, "Say what needs to change"),
+})
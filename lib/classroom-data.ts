@@ -150,3 +150,46 @@ export const defaultClassrooms: Classroom[] = [
     updatedAt: "2024-01-01T00:00:00Z",
   },
 ]
+
+// Features and equipment offered when describing rooms and what subjects need from them
+export const COMMON_FEATURES = [
+  "Whiteboard",
+  "Projector",
+  "Air Conditioning",
+  "Natural Light",
+  "Soundproofing",
+  "Lab Benches",
+  "Fume Hood",
+  "Safety Equipment",
+  "Gas Supply",
+  "Water Supply",
+  "Computers",
+  "Network Access",
+  "Audio System",
+  "Microphones",
+  "Stage",
+  "Tiered Seating",
+  "Storage",
+  "Piano",
+  "Art Supplies Storage",
+  "Sports Equipment",
+]
+
+export const COMMON_EQUIPMENT = [
+  "Chairs",
+  "Desks",
+  "Teacher's Desk",
+  "Whiteboard",
+  "Projector Screen",
+  "Lab Equipment",
+  "Safety Gear",
+  "Microscopes",
+  "Computers",
+  "Server",
+  "Printer",
+  "Sound System",
+  "Lighting",
+  "Podium",
+  "Piano",
+  "Easels",
+]
@@ -0,0 +1,181 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest"
+import type { ProjectData } from "@/types/project"
+import { createDefaultProjectData } from "@/lib/project-storage"
+import { createPeriodConfig } from "@/lib/period-config"
+import { exportFet, parseFet, type FetImportOptions } from "@/lib/fet-format"
+import { FIXED_TIMESTAMP, createClassroom } from "@/lib/test-fixtures"
+
+const room = (id: string, name: string, isActive = true) => createClassroom(id, { name, isActive })
+
+const timestamps = { createdAt: FIXED_TIMESTAMP, updatedAt: FIXED_TIMESTAMP }
+
+// Monday with three periods, Tuesday with two, 60 minutes each
+const periodConfig = createPeriodConfig(
+  [
+    { day: "Monday", periods: 3, startTime: "08:00", enabled: true },
+    { day: "Tuesday", periods: 2, startTime: "08:00", enabled: true },
+  ],
+  60,
+  {},
+)
+
+const project: ProjectData = {
+  ...createDefaultProjectData(),
+  subjects: [
+    { id: "math", name: "Mathematics", code: "MAT", color: "#fff" },
+    { id: "art", name: "Art & Design", code: "ART", color: "#fff" },
+  ],
+  grades: [{ id: "g7", name: "Grade 7", level: 7 }],
+  classSections: [
+    { id: "7A", name: "7A", gradeId: "g7", studentCount: 25 },
+    { id: "7B", name: "7B", gradeId: "g7", studentCount: 20 },
+  ],
+  teachers: [
+    {
+      id: "t1",
+      name: "Ms. Lee",
+      email: "lee@school.test",
+      subjects: ["math"],
+      weeklyHourLimit: 20,
+      currentWeeklyHours: 0,
+      unavailableSlots: [{ day: "Tuesday", period: 2 }],
+    },
+    { id: "t2", name: "Mr. Diaz", email: "", subjects: ["art"], weeklyHourLimit: 20, currentWeeklyHours: 0 },
+  ],
+  allocations: [
+    { id: "a1", gradeId: "g7", subjectId: "math", weeklyHours: 2, semesterWeeks: 18, totalHours: 36 },
+    { id: "a2", gradeId: "g7", subjectId: "art", weeklyHours: 1, semesterWeeks: 18, totalHours: 18 },
+  ],
+  assignments: [
+    { id: "c1", classId: "7A", subjectId: "math", teacherId: "t1", isActive: true, ...timestamps },
+    { id: "c2", classId: "7A", subjectId: "art", teacherId: "t2", isActive: true, ...timestamps },
+  ],
+  classrooms: [room("r1", "Room <1>"), room("r2", "Old hall", false)],
+  periodConfig,
+  timetableEntries: [
+    {
+      id: "e1",
+      classId: "7A",
+      teacherId: "t1",
+      subjectId: "math",
+      roomId: "r1",
+      timeSlotId: "Monday-1",
+      day: "Monday",
+      period: 1,
+    },
+  ],
+}
+
+const options: FetImportOptions = {
+  timeSlots: periodConfig.timeSlots,
+  periodDuration: 60,
+  roomTypes: createDefaultProjectData().roomTypes,
+}
+
+const byName = <T extends { id: string; name: string }>(items: T[], name: string) =>
+  items.find((item) => item.name === name)!
+
+describe("exportFet", () => {
+  it("writes one activity per lesson the allocation needs and locks the scheduled ones", () => {
+    const xml = exportFet(project, "Northside School")
+
+    expect(xml).toContain("<Institution_Name>Northside School</Institution_Name>")
+    expect(xml.match(/<Activity>/g)).toHaveLength(3)
+    expect(xml.match(/<ConstraintActivityPreferredStartingTime>/g)).toHaveLength(1)
+    expect(xml).toContain("<Preferred_Day>Monday</Preferred_Day>")
+    expect(xml).toContain("<Preferred_Hour>P1</Preferred_Hour>")
+  })
+
+  it("escapes names, leaves out inactive rooms and marks missing hours as breaks", () => {
+    const xml = exportFet(project, "A & B")
+
+    expect(xml).toContain("<Name>Art &amp; Design</Name>")
+    expect(xml).toContain("<Room>Room &lt;1&gt;</Room>")
+    expect(xml).not.toContain("Old hall")
+    expect(xml).toMatch(/<Break_Time>\s*<Day>Tuesday<\/Day>\s*<Hour>P3<\/Hour>\s*<\/Break_Time>/)
+  })
+})
+
+describe("parseFet", () => {
+  it("reads back an exported project", () => {
+    const { data, warnings } = parseFet(exportFet(project, "Northside School"), options)
+
+    expect(warnings).toEqual([])
+    expect(data.subjects.map((s) => s.name)).toEqual(["Mathematics", "Art & Design"])
+    expect(data.grades).toMatchObject([{ name: "Grade 7", level: 7 }])
+    expect(data.classSections.map((c) => [c.name, c.studentCount])).toEqual([
+      ["7A", 25],
+      ["7B", 20],
+    ])
+    expect(data.classrooms.map((r) => r.name)).toEqual(["Room <1>"])
+
+    const lee = byName(data.teachers, "Ms. Lee")
+    const math = byName(data.subjects, "Mathematics")
+    expect(lee.subjects).toEqual([math.id])
+    expect(lee.unavailableSlots).toEqual([{ day: "Tuesday", period: 2 }])
+    expect(data.allocations).toMatchObject([
+      { subjectId: math.id, weeklyHours: 2 },
+      { subjectId: byName(data.subjects, "Art & Design").id, weeklyHours: 1 },
+    ])
+    expect(data.timetableEntries).toMatchObject([
+      {
+        classId: byName(data.classSections, "7A").id,
+        teacherId: lee.id,
+        subjectId: math.id,
+        roomId: data.classrooms[0].id,
+        day: "Monday",
+        period: 1,
+        timeSlotId: "Monday-1",
+      },
+    ])
+  })
+
+  it("reports the parts of a file it cannot map", () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<fet version="6.9.0">
+  <Days_List><Day><Name>Mon</Name></Day><Day><Name>Tue</Name></Day></Days_List>
+  <Hours_List><Hour><Name>1</Name></Hour><Hour><Name>2</Name></Hour><Hour><Name>3</Name></Hour></Hours_List>
+  <Subjects_List><Subject><Name>Music</Name></Subject></Subjects_List>
+  <Teachers_List>
+    <Teacher><Name>Ann</Name><Target_Number_of_Hours>3</Target_Number_of_Hours></Teacher>
+    <Teacher><Name>Bob</Name></Teacher>
+  </Teachers_List>
+  <Students_List>
+    <Year><Name>Year 8</Name><Number_of_Students>40</Number_of_Students>
+      <Group><Name>8X</Name><Number_of_Students>20</Number_of_Students><Subgroup><Name>8X1</Name></Subgroup></Group>
+    </Year>
+  </Students_List>
+  <Activities_List>
+    <Activity><Teacher>Ann</Teacher><Teacher>Bob</Teacher><Subject>Music</Subject><Students>8X1</Students>
+      <Duration>2</Duration><Id>1</Id><Active>true</Active></Activity>
+    <Activity><Subject>Drama</Subject><Students>8X</Students><Duration>1</Duration><Id>2</Id></Activity>
+  </Activities_List>
+  <Rooms_List><Room><Name>Cloud</Name><Virtual>true</Virtual></Room></Rooms_List>
+  <Time_Constraints_List>
+    <ConstraintActivityPreferredStartingTime>
+      <Activity_Id>1</Activity_Id><Preferred_Day>Tue</Preferred_Day><Preferred_Hour>2</Preferred_Hour>
+    </ConstraintActivityPreferredStartingTime>
+    <ConstraintMinDaysBetweenActivities><Active>true</Active></ConstraintMinDaysBetweenActivities>
+  </Time_Constraints_List>
+</fet>`
+    const { data, warnings } = parseFet(xml, options)
+
+    // Days match by position, so Tue is Tuesday; the second hour of the double lesson does not exist there
+    expect(data.timetableEntries).toMatchObject([{ day: "Tuesday", period: 2 }])
+    expect(byName(data.teachers, "Ann")).toMatchObject({ weeklyHourLimit: 3, subjects: [data.subjects[0].id] })
+    expect(warnings).toEqual([
+      "1 subgroup merged into their groups",
+      "1 virtual room skipped",
+      "1 activity without a known subject or students set skipped",
+      "1 co-taught activity kept with their first teacher only",
+      "Unsupported constraints ignored: ConstraintMinDaysBetweenActivities",
+      "1 time outside the configured week ignored",
+    ])
+  })
+
+  it("rejects documents that are not FET files", () => {
+    expect(() => parseFet("<timetable />", options)).toThrow("The file is not a valid FET document")
+    expect(() => parseFet("not xml", options)).toThrow("The file is not a valid FET document")
+  })
+})
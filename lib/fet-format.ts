@@ -0,0 +1,649 @@
+import type {
+  ClassSection,
+  ClassSubjectTeacher,
+  Grade,
+  GradeSubjectAllocation,
+  Subject,
+  Teacher,
+  TeacherUnavailability,
+  TimeSlot,
+  TimetableEntry,
+} from "@/types/timetable"
+import type { Classroom, RoomType } from "@/types/classroom"
+import type { ProjectData } from "@/types/project"
+import { WEEK_DAYS, findTimeSlot, getScheduleDays, getSchedulePeriods } from "@/lib/period-config"
+import { getLessonsPerWeek } from "@/lib/timetable-generator"
+
+// FET (https://lalescu.ro/liviu/fet/) stores a whole school in one XML document: days, hours,
+// subjects, teachers, students sets, activities (lessons), rooms, and time and space constraints.
+
+const FET_VERSION = "6.9.0"
+const DEFAULT_WEEKLY_HOUR_LIMIT = 25
+const DEFAULT_SEMESTER_WEEKS = 18
+const SUBJECT_COLORS = ["#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#8b5cf6", "#06b6d4", "#ec4899", "#84cc16"]
+
+export type FetImportData = Pick<
+  ProjectData,
+  | "subjects"
+  | "grades"
+  | "classSections"
+  | "teachers"
+  | "allocations"
+  | "assignments"
+  | "classrooms"
+  | "subjectRoomTypes"
+  | "subjectRoomRequirements"
+  | "timetableEntries"
+>
+
+export interface FetImportResult {
+  data: FetImportData
+  // Parts of the file that could not be mapped onto the project
+  warnings: string[]
+}
+
+export interface FetImportOptions {
+  timeSlots: TimeSlot[]
+  periodDuration: number // minutes
+  roomTypes: RoomType[]
+}
+
+// ---------------------------------------------------------------------------------------------
+// Import
+
+const childElements = (parent: Element, tagName: string) =>
+  Array.from(parent.children).filter((child) => child.tagName === tagName)
+
+const childText = (parent: Element, tagName: string) => childElements(parent, tagName)[0]?.textContent?.trim() ?? ""
+
+const childTexts = (parent: Element, tagName: string) =>
+  childElements(parent, tagName)
+    .map((child) => child.textContent?.trim() ?? "")
+    .filter(Boolean)
+
+const childNumber = (parent: Element, tagName: string, fallback = 0) => {
+  const value = Number(childText(parent, tagName))
+  return Number.isFinite(value) && childText(parent, tagName) !== "" ? value : fallback
+}
+
+// Unique short code from a name, e.g. "Mathematics" -> "MATH", then "MATH2" if taken
+function createCode(name: string, usedCodes: Set<string>) {
+  const base =
+    name
+      .replace(/[^a-z0-9]/gi, "")
+      .slice(0, 4)
+      .toUpperCase() || "SUBJ"
+  let code = base
+  for (let suffix = 2; usedCodes.has(code); suffix++) code = `${base}${suffix}`
+  usedCodes.add(code)
+  return code
+}
+
+const countLabel = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`
+
+/**
+ * Maps a .fet document onto the project: subjects, teachers (with qualified subjects and
+ * not-available times), years and groups as grades and class sections, activities as
+ * allocations and class-subject-teacher assignments, rooms as classrooms, and locked activity
+ * times and rooms as timetable entries. FET days are matched by name (or position) and hours by
+ * position, so the period configuration should be set up first.
+ */
+export function parseFet(xml: string, { timeSlots, periodDuration, roomTypes }: FetImportOptions): FetImportResult {
+  const document = new DOMParser().parseFromString(xml, "application/xml")
+  const root = document.documentElement
+  if (document.getElementsByTagName("parsererror").length > 0 || root.tagName !== "fet") {
+    throw new Error("The file is not a valid FET document")
+  }
+
+  const warnings: string[] = []
+  const now = new Date().toISOString()
+  const list = (name: string) => childElements(root, name)[0]
+
+  // Days and hours: matched by name when the day names are English, otherwise by position
+  const dayNames = list("Days_List") ? childElements(list("Days_List"), "Day").map((d) => childText(d, "Name")) : []
+  const hourNames = list("Hours_List") ? childElements(list("Hours_List"), "Hour").map((h) => childText(h, "Name")) : []
+  const toDay = (name: string) => {
+    const index = dayNames.indexOf(name)
+    return WEEK_DAYS.find((day) => day.toLowerCase() === name.toLowerCase()) ?? WEEK_DAYS[index]
+  }
+  const toPeriod = (name: string) => {
+    const index = hourNames.indexOf(name)
+    return index === -1 ? undefined : index + 1
+  }
+  let droppedTimes = 0
+  const toSlot = (dayName: string, hourName: string, offset = 0) => {
+    const day = toDay(dayName)
+    const period = toPeriod(hourName)
+    const timeSlot = day && period ? findTimeSlot(timeSlots, day, period + offset) : undefined
+    if (!timeSlot) droppedTimes++
+    return timeSlot
+  }
+
+  // Subjects
+  const usedCodes = new Set<string>()
+  const subjects: Subject[] = (list("Subjects_List") ? childElements(list("Subjects_List"), "Subject") : []).map(
+    (element, index) => {
+      const name = childText(element, "Name")
+      return {
+        id: crypto.randomUUID(),
+        name,
+        code: createCode(name, usedCodes),
+        color: SUBJECT_COLORS[index % SUBJECT_COLORS.length],
+      }
+    },
+  )
+  const subjectByName = new Map(subjects.map((s) => [s.name, s]))
+
+  // Teachers
+  const teachers: Teacher[] = (list("Teachers_List") ? childElements(list("Teachers_List"), "Teacher") : []).map(
+    (element) => {
+      const targetHours = childNumber(element, "Target_Number_of_Hours")
+      const qualified = childElements(element, "Qualified_Subjects")[0]
+      return {
+        id: crypto.randomUUID(),
+        name: childText(element, "Name"),
+        email: "",
+        subjects: qualified
+          ? childTexts(qualified, "Qualified_Subject")
+              .map((name) => subjectByName.get(name)?.id)
+              .filter((id): id is string => !!id)
+          : [],
+        weeklyHourLimit: targetHours > 0 ? Math.ceil((targetHours * periodDuration) / 60) : DEFAULT_WEEKLY_HOUR_LIMIT,
+        currentWeeklyHours: 0,
+        unavailableSlots: [],
+      }
+    },
+  )
+  const teacherByName = new Map(teachers.map((t) => [t.name, t]))
+
+  // Students: years become grades, groups become class sections. A year without groups is a
+  // single class; subgroups belong to their group's class.
+  const grades: Grade[] = []
+  const classSections: ClassSection[] = []
+  const sectionsByStudentsSet = new Map<string, ClassSection[]>()
+  let subgroupCount = 0
+  const usedLevels = new Set<number>()
+  ;(list("Students_List") ? childElements(list("Students_List"), "Year") : []).forEach((yearElement, index) => {
+    const yearName = childText(yearElement, "Name")
+    const parsedLevel = Number(yearName.match(/\d+/)?.[0])
+    let level = Number.isFinite(parsedLevel) && !usedLevels.has(parsedLevel) ? parsedLevel : index + 1
+    while (usedLevels.has(level)) level++
+    usedLevels.add(level)
+    const grade: Grade = { id: crypto.randomUUID(), name: yearName, level }
+    grades.push(grade)
+
+    const groupElements = childElements(yearElement, "Group")
+    const yearSections = (groupElements.length > 0 ? groupElements : [yearElement]).map((groupElement) => {
+      const section: ClassSection = {
+        id: crypto.randomUUID(),
+        name: childText(groupElement, "Name"),
+        gradeId: grade.id,
+        studentCount: childNumber(groupElement, "Number_of_Students"),
+      }
+      classSections.push(section)
+      sectionsByStudentsSet.set(section.name, [section])
+      childElements(groupElement, "Subgroup").forEach((subgroupElement) => {
+        subgroupCount++
+        sectionsByStudentsSet.set(childText(subgroupElement, "Name"), [section])
+      })
+      return section
+    })
+    sectionsByStudentsSet.set(yearName, yearSections)
+  })
+  if (subgroupCount > 0) {
+    warnings.push(`${countLabel(subgroupCount, "subgroup")} merged into their groups`)
+  }
+
+  // Rooms
+  const defaultRoomTypeId = roomTypes[0]?.id ?? ""
+  const roomCodes = new Set<string>()
+  let virtualRooms = 0
+  const classrooms: Classroom[] = []
+  ;(list("Rooms_List") ? childElements(list("Rooms_List"), "Room") : []).forEach((element) => {
+    if (childText(element, "Virtual") === "true") {
+      virtualRooms++
+      return
+    }
+    const name = childText(element, "Name")
+    classrooms.push({
+      id: crypto.randomUUID(),
+      name,
+      code: createCode(name, roomCodes),
+      roomTypeId: defaultRoomTypeId,
+      capacity: childNumber(element, "Capacity"),
+      floor: "",
+      building: childText(element, "Building"),
+      features: [],
+      equipment: [],
+      isActive: true,
+      notes: childText(element, "Comments"),
+      createdAt: now,
+      updatedAt: now,
+    })
+  })
+  if (virtualRooms > 0) warnings.push(`${countLabel(virtualRooms, "virtual room")} skipped`)
+  const roomByName = new Map(classrooms.map((r) => [r.name, r]))
+
+  // Activities: periods per class and subject, and the teacher who teaches them
+  interface ParsedActivity {
+    sections: ClassSection[]
+    subject: Subject
+    teacher?: Teacher
+    duration: number
+  }
+  const activities = new Map<string, ParsedActivity>()
+  const lessonCounts = new Map<string, number>()
+  const assignments: ClassSubjectTeacher[] = []
+  let skippedActivities = 0
+  let coTaughtActivities = 0
+  ;(list("Activities_List") ? childElements(list("Activities_List"), "Activity") : []).forEach((element) => {
+    if (childText(element, "Active") === "false") return
+
+    const subject = subjectByName.get(childText(element, "Subject"))
+    const sections = childTexts(element, "Students").flatMap((name) => sectionsByStudentsSet.get(name) ?? [])
+    const [teacherName, ...otherTeachers] = childTexts(element, "Teacher")
+    const teacher = teacherName ? teacherByName.get(teacherName) : undefined
+    if (!subject || sections.length === 0) {
+      skippedActivities++
+      return
+    }
+    if (otherTeachers.length > 0) coTaughtActivities++
+
+    const duration = Math.max(1, childNumber(element, "Duration", 1))
+    activities.set(childText(element, "Id"), { sections, subject, teacher, duration })
+
+    sections.forEach((section) => {
+      const key = `${section.id}|${subject.id}`
+      lessonCounts.set(key, (lessonCounts.get(key) ?? 0) + duration)
+      if (teacher && !assignments.some((a) => a.classId === section.id && a.subjectId === subject.id)) {
+        assignments.push({
+          id: crypto.randomUUID(),
+          classId: section.id,
+          subjectId: subject.id,
+          teacherId: teacher.id,
+          isActive: true,
+          createdAt: now,
+          updatedAt: now,
+        })
+      }
+    })
+    if (teacher && !teacher.subjects.includes(subject.id)) teacher.subjects.push(subject.id)
+  })
+  if (skippedActivities > 0) {
+    warnings.push(`${countLabel(skippedActivities, "activity")} without a known subject or students set skipped`)
+  }
+  if (coTaughtActivities > 0) {
+    warnings.push(`${countLabel(coTaughtActivities, "co-taught activity")} kept with their first teacher only`)
+  }
+
+  // Allocations: the most periods any class of the grade has per subject
+  const allocations: GradeSubjectAllocation[] = []
+  let unevenAllocations = 0
+  grades.forEach((grade) => {
+    const gradeSections = classSections.filter((c) => c.gradeId === grade.id)
+    subjects.forEach((subject) => {
+      const counts = gradeSections.map((section) => lessonCounts.get(`${section.id}|${subject.id}`) ?? 0)
+      const lessons = Math.max(0, ...counts)
+      if (lessons === 0) return
+      if (counts.some((count) => count > 0 && count !== lessons)) unevenAllocations++
+
+      const weeklyHours = Math.round(((lessons * periodDuration) / 60) * 100) / 100
+      allocations.push({
+        id: crypto.randomUUID(),
+        gradeId: grade.id,
+        subjectId: subject.id,
+        weeklyHours,
+        semesterWeeks: DEFAULT_SEMESTER_WEEKS,
+        totalHours: weeklyHours * DEFAULT_SEMESTER_WEEKS,
+      })
+    })
+  })
+  if (unevenAllocations > 0) {
+    warnings.push(`${countLabel(unevenAllocations, "subject")} with different hours across a grade use the highest`)
+  }
+
+  // Time constraints
+  const skippedConstraints = new Set<string>()
+  const activityTimes = new Map<string, { day: string; hour: string }>()
+  const timeConstraints = list("Time_Constraints_List")
+  ;(timeConstraints ? Array.from(timeConstraints.children) : []).forEach((element) => {
+    if (childText(element, "Active") === "false") return
+
+    if (element.tagName === "ConstraintTeacherNotAvailableTimes") {
+      const teacher = teacherByName.get(childText(element, "Teacher"))
+      if (!teacher) return
+      childElements(element, "Not_Available_Time").forEach((time) => {
+        const timeSlot = toSlot(childText(time, "Day"), childText(time, "Hour"))
+        if (timeSlot) {
+          const slot: TeacherUnavailability = { day: timeSlot.day, period: timeSlot.period }
+          teacher.unavailableSlots!.push(slot)
+        }
+      })
+    } else if (element.tagName === "ConstraintActivityPreferredStartingTime") {
+      activityTimes.set(childText(element, "Activity_Id"), {
+        day: childText(element, "Preferred_Day"),
+        hour: childText(element, "Preferred_Hour"),
+      })
+    } else if (
+      element.tagName !== "ConstraintBasicCompulsoryTime" &&
+      // Hours missing from the period configuration are never scheduled, so breaks need no mapping
+      element.tagName !== "ConstraintBreakTimes"
+    ) {
+      skippedConstraints.add(element.tagName)
+    }
+  })
+
+  // Space constraints
+  const activityRooms = new Map<string, string>()
+  const spaceConstraints = list("Space_Constraints_List")
+  ;(spaceConstraints ? Array.from(spaceConstraints.children) : []).forEach((element) => {
+    if (childText(element, "Active") === "false") return
+
+    if (element.tagName === "ConstraintActivityPreferredRoom") {
+      const room = roomByName.get(childText(element, "Room"))
+      if (room) activityRooms.set(childText(element, "Activity_Id"), room.id)
+    } else if (element.tagName !== "ConstraintBasicCompulsorySpace") {
+      skippedConstraints.add(element.tagName)
+    }
+  })
+  if (skippedConstraints.size > 0) {
+    warnings.push(`Unsupported constraints ignored: ${Array.from(skippedConstraints).sort().join(", ")}`)
+  }
+
+  // Timetable: activities with a fixed starting time, one entry per period of their duration
+  const timetableEntries: TimetableEntry[] = []
+  let untaughtActivities = 0
+  activityTimes.forEach(({ day, hour }, activityId) => {
+    const activity = activities.get(activityId)
+    if (!activity) return
+    if (!activity.teacher) {
+      untaughtActivities++
+      return
+    }
+    for (let offset = 0; offset < activity.duration; offset++) {
+      const timeSlot = toSlot(day, hour, offset)
+      if (!timeSlot) continue
+      activity.sections.forEach((section) => {
+        timetableEntries.push({
+          id: crypto.randomUUID(),
+          classId: section.id,
+          teacherId: activity.teacher!.id,
+          subjectId: activity.subject.id,
+          roomId: activityRooms.get(activityId),
+          timeSlotId: timeSlot.id,
+          day: timeSlot.day,
+          period: timeSlot.period,
+        })
+      })
+    }
+  })
+  if (untaughtActivities > 0) {
+    warnings.push(`${countLabel(untaughtActivities, "scheduled activity")} without a teacher left out of the timetable`)
+  }
+  if (droppedTimes > 0) {
+    warnings.push(`${countLabel(droppedTimes, "time")} outside the configured week ignored`)
+  }
+
+  return {
+    data: {
+      subjects,
+      grades,
+      classSections,
+      teachers,
+      allocations,
+      assignments,
+      classrooms,
+      // Room requirements refer to the old subjects, so they start empty
+      subjectRoomTypes: [],
+      subjectRoomRequirements: [],
+      timetableEntries,
+    },
+    warnings,
+  }
+}
+
+// ---------------------------------------------------------------------------------------------
+// Export
+
+const escapeXml = (value: string | number) =>
+  String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+
+// <tag>value</tag>, or a nested element from child lines
+const tag = (name: string, value: string | number) => `<${name}>${escapeXml(value)}</${name}>`
+const block = (name: string, lines: string[]) => [`<${name}>`, ...lines.map((line) => `\t${line}`), `</${name}>`]
+
+const constraintFooter = [tag("Active", "true"), tag("Comments", "")]
+
+/**
+ * Writes the project as a .fet document. Every class-subject-teacher combination becomes a group
+ * of one-period activities (as many as the weekly allocation needs, or as many as are scheduled),
+ * and scheduled lessons are locked to their day, hour and room so FET can check or complete them.
+ */
+export function exportFet(data: ProjectData, institutionName: string): string {
+  const { subjects, teachers, grades, classSections, classrooms, allocations, assignments, timetableEntries } = data
+  const { timeSlots, periodDuration } = data.periodConfig
+  const days = getScheduleDays(timeSlots)
+  const periods = getSchedulePeriods(timeSlots)
+  const hourCount = Math.max(0, ...periods)
+  const hours = Array.from({ length: hourCount }, (_, i) => i + 1)
+  const hourName = (period: number) => `P${period}`
+
+  const getSubjectName = (id: string) => subjects.find((s) => s.id === id)?.name
+  const getTeacherName = (id: string) => teachers.find((t) => t.id === id)?.name
+  const getClassName = (id: string) => classSections.find((c) => c.id === id)?.name
+  const activeRooms = classrooms.filter((r) => r.isActive)
+
+  // Lessons per class, subject and teacher: the allocation, or the scheduled lessons if there are more
+  const lessonGroups = new Map<string, { classId: string; subjectId: string; teacherId: string; count: number }>()
+  assignments
+    .filter((a) => a.isActive)
+    .forEach((assignment) => {
+      const classSection = classSections.find((c) => c.id === assignment.classId)
+      const allocation = allocations.find(
+        (a) => a.gradeId === classSection?.gradeId && a.subjectId === assignment.subjectId,
+      )
+      if (!allocation || allocation.weeklyHours <= 0) return
+      lessonGroups.set(`${assignment.classId}|${assignment.subjectId}|${assignment.teacherId}`, {
+        classId: assignment.classId,
+        subjectId: assignment.subjectId,
+        teacherId: assignment.teacherId,
+        count: getLessonsPerWeek(allocation.weeklyHours, periodDuration),
+      })
+    })
+  const scheduledByGroup = new Map<string, TimetableEntry[]>()
+  timetableEntries.forEach((entry) => {
+    const key = `${entry.classId}|${entry.subjectId}|${entry.teacherId}`
+    scheduledByGroup.set(key, [...(scheduledByGroup.get(key) ?? []), entry])
+    const group = lessonGroups.get(key) ?? {
+      classId: entry.classId,
+      subjectId: entry.subjectId,
+      teacherId: entry.teacherId,
+      count: 0,
+    }
+    lessonGroups.set(key, { ...group, count: Math.max(group.count, scheduledByGroup.get(key)!.length) })
+  })
+
+  const activities: string[] = []
+  const startingTimes: string[] = []
+  const preferredRooms: string[] = []
+  let nextId = 1
+  lessonGroups.forEach((group, key) => {
+    const subjectName = getSubjectName(group.subjectId)
+    const className = getClassName(group.classId)
+    const teacherName = getTeacherName(group.teacherId)
+    if (!subjectName || !className || group.count === 0) return
+
+    const groupId = group.count > 1 ? nextId : 0
+    const scheduled = scheduledByGroup.get(key) ?? []
+    for (let index = 0; index < group.count; index++) {
+      const id = nextId++
+      activities.push(
+        ...block("Activity", [
+          ...(teacherName ? [tag("Teacher", teacherName)] : []),
+          tag("Subject", subjectName),
+          tag("Students", className),
+          tag("Duration", 1),
+          tag("Total_Duration", group.count),
+          tag("Id", id),
+          tag("Activity_Group_Id", groupId),
+          tag("Active", "true"),
+          tag("Comments", ""),
+        ]),
+      )
+
+      const entry = scheduled[index]
+      if (!entry) continue
+      startingTimes.push(
+        ...block("ConstraintActivityPreferredStartingTime", [
+          tag("Weight_Percentage", 100),
+          tag("Activity_Id", id),
+          tag("Preferred_Day", entry.day),
+          tag("Preferred_Hour", hourName(entry.period)),
+          tag("Permanently_Locked", "true"),
+          ...constraintFooter,
+        ]),
+      )
+      const room = activeRooms.find((r) => r.id === entry.roomId)
+      if (room) {
+        preferredRooms.push(
+          ...block("ConstraintActivityPreferredRoom", [
+            tag("Weight_Percentage", 100),
+            tag("Activity_Id", id),
+            tag("Room", room.name),
+            tag("Permanently_Locked", "true"),
+            ...constraintFooter,
+          ]),
+        )
+      }
+    }
+  })
+
+  // Hours that do not exist on a day are breaks for FET
+  const breakTimes = days.flatMap((day) =>
+    hours
+      .filter((period) => !findTimeSlot(timeSlots, day, period))
+      .map((period) => block("Break_Time", [tag("Day", day), tag("Hour", hourName(period))])),
+  )
+  const notAvailable = teachers.flatMap((teacher) => {
+    const slots = (teacher.unavailableSlots ?? []).filter((slot) => findTimeSlot(timeSlots, slot.day, slot.period))
+    if (slots.length === 0) return []
+    return block("ConstraintTeacherNotAvailableTimes", [
+      tag("Weight_Percentage", 100),
+      tag("Teacher", teacher.name),
+      tag("Number_of_Not_Available_Times", slots.length),
+      ...slots.flatMap((slot) =>
+        block("Not_Available_Time", [tag("Day", slot.day), tag("Hour", hourName(slot.period))]),
+      ),
+      ...constraintFooter,
+    ])
+  })
+
+  const buildings = Array.from(new Set(activeRooms.map((r) => r.building).filter(Boolean)))
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    "",
+    `<fet version="${FET_VERSION}">`,
+    ...[
+      tag("Mode", "Official"),
+      tag("Institution_Name", institutionName),
+      tag("Comments", "Exported from Semester Timetable Builder"),
+      ...block("Days_List", [
+        tag("Number_of_Days", days.length),
+        ...days.flatMap((day) => block("Day", [tag("Name", day)])),
+      ]),
+      ...block("Hours_List", [
+        tag("Number_of_Hours", hourCount),
+        ...hours.flatMap((period) => block("Hour", [tag("Name", hourName(period))])),
+      ]),
+      ...block(
+        "Subjects_List",
+        subjects.flatMap((s) => block("Subject", [tag("Name", s.name), tag("Comments", s.code)])),
+      ),
+      "<Activity_Tags_List>",
+      "</Activity_Tags_List>",
+      ...block(
+        "Teachers_List",
+        teachers.flatMap((teacher) =>
+          block("Teacher", [
+            tag("Name", teacher.name),
+            tag("Target_Number_of_Hours", 0),
+            ...block(
+              "Qualified_Subjects",
+              teacher.subjects
+                .map(getSubjectName)
+                .filter((name): name is string => !!name)
+                .map((name) => tag("Qualified_Subject", name)),
+            ),
+            tag("Comments", teacher.email),
+          ]),
+        ),
+      ),
+      ...block(
+        "Students_List",
+        [...grades]
+          .sort((a, b) => a.level - b.level)
+          .flatMap((grade) => {
+            const sections = classSections.filter((c) => c.gradeId === grade.id)
+            return block("Year", [
+              tag("Name", grade.name),
+              tag(
+                "Number_of_Students",
+                sections.reduce((sum, c) => sum + c.studentCount, 0),
+              ),
+              tag("Comments", ""),
+              ...sections.flatMap((section) =>
+                block("Group", [
+                  tag("Name", section.name),
+                  tag("Number_of_Students", section.studentCount),
+                  tag("Comments", ""),
+                ]),
+              ),
+            ])
+          }),
+      ),
+      ...block("Activities_List", activities),
+      ...block(
+        "Buildings_List",
+        buildings.flatMap((name) => block("Building", [tag("Name", name), tag("Comments", "")])),
+      ),
+      ...block(
+        "Rooms_List",
+        activeRooms.flatMap((room) =>
+          block("Room", [
+            tag("Name", room.name),
+            tag("Building", room.building),
+            tag("Capacity", room.capacity),
+            tag("Virtual", "false"),
+            tag("Comments", room.notes),
+          ]),
+        ),
+      ),
+      ...block("Time_Constraints_List", [
+        ...block("ConstraintBasicCompulsoryTime", [tag("Weight_Percentage", 100), ...constraintFooter]),
+        ...(breakTimes.length > 0
+          ? block("ConstraintBreakTimes", [
+              tag("Weight_Percentage", 100),
+              tag("Number_of_Break_Times", breakTimes.length),
+              ...breakTimes.flat(),
+              ...constraintFooter,
+            ])
+          : []),
+        ...notAvailable,
+        ...startingTimes,
+      ]),
+      ...block("Space_Constraints_List", [
+        ...block("ConstraintBasicCompulsorySpace", [tag("Weight_Percentage", 100), ...constraintFooter]),
+        ...preferredRooms,
+      ]),
+    ].map((line) => `\t${line}`),
+    "</fet>",
+  ]
+
+  return lines.join("\n") + "\n"
+}
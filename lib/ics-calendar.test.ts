@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest"
+import type { CalendarSettings } from "@/types/calendar"
+import type { TimetableEntry } from "@/types/timetable"
+import { buildTimeSlots } from "@/lib/period-config"
+import { generateICSCalendar, getLessonUid, type ICSCalendarInput } from "@/lib/ics-calendar"
+import { createClassroom } from "@/lib/test-fixtures"
+
+const settings: CalendarSettings = {
+  semesterStart: "2025-09-01",
+  semesterEnd: "2025-10-31",
+  timeZone: "Europe/Paris",
+  holidays: [],
+}
+
+const room = createClassroom("r1", { name: "Lab 1", code: "L1", roomTypeId: "lab", building: "North Wing" })
+
+const lesson: TimetableEntry = {
+  id: "e1",
+  classId: "7A",
+  teacherId: "t1",
+  subjectId: "chem",
+  roomId: "r1",
+  timeSlotId: "Wednesday-1",
+  day: "Wednesday",
+  period: 1,
+}
+
+const generate = (overrides: Partial<ICSCalendarInput> = {}) =>
+  generateICSCalendar({
+    name: "7A Timetable",
+    entries: [lesson],
+    settings,
+    timeSlots: buildTimeSlots(
+      ["Monday", "Wednesday"].map((day) => ({ day, periods: 2, startTime: "08:00", enabled: true })),
+      45,
+      {},
+    ),
+    subjects: [{ id: "chem", name: "Chemistry", code: "CHE", color: "#fff" }],
+    teachers: [{ id: "t1", name: "Ms. Lee" }],
+    classSections: [{ id: "7A", name: "7A", gradeId: "g7", studentCount: 25 }],
+    classrooms: [room],
+    generatedAt: new Date("2025-08-15T10:00:00Z"),
+    ...overrides,
+  })
+
+// Content lines with folding undone
+const getLines = (calendar: string) => calendar.replace(/\r\n /g, "").split("\r\n")
+
+describe("generateICSCalendar", () => {
+  it("repeats each lesson weekly from its first weekday in the semester until the semester ends", () => {
+    const lines = getLines(generate())
+
+    expect(lines).toContain("DTSTART;TZID=Europe/Paris:20250903T080000")
+    expect(lines).toContain("DTEND;TZID=Europe/Paris:20250903T084500")
+    // 23:59:59 on the last day in Paris, which is back on winter time by then
+    expect(lines).toContain("RRULE:FREQ=WEEKLY;BYDAY=WE;UNTIL=20251031T225959Z")
+    expect(lines).toContain(`UID:${getLessonUid(lesson)}`)
+    expect(lines).toContain("DTSTAMP:20250815T100000Z")
+    expect(lines.some((line) => line.startsWith("SEQUENCE"))).toBe(false)
+  })
+
+  it("writes the sequence number when one is given", () => {
+    expect(getLines(generate({ sequence: 3 }))).toContain("SEQUENCE:3")
+  })
+
+  it("describes the lesson with its class, teacher and room", () => {
+    const lines = getLines(generate())
+
+    expect(lines).toContain("SUMMARY:Chemistry - 7A")
+    expect(lines).toContain("DESCRIPTION:Teacher: Ms. Lee\\nPeriod 1")
+    expect(lines).toContain("LOCATION:Lab 1\\, North Wing")
+  })
+
+  it("skips holidays on the lesson's weekday within the semester", () => {
+    const holidays = [
+      { id: "h1", name: "Autumn break", startDate: "2025-10-20", endDate: "2025-10-24" },
+      { id: "h2", name: "Summer", startDate: "2025-08-01", endDate: "2025-08-31" },
+    ]
+
+    expect(getLines(generate({ settings: { ...settings, holidays } }))).toContain(
+      "EXDATE;TZID=Europe/Paris:20251022T080000",
+    )
+    expect(generate()).not.toContain("EXDATE")
+  })
+
+  it("describes the daylight saving changes of the time zone", () => {
+    const lines = getLines(generate())
+    const timezone = lines.slice(lines.indexOf("BEGIN:VTIMEZONE"), lines.indexOf("END:VTIMEZONE") + 1)
+
+    expect(timezone).toEqual([
+      "BEGIN:VTIMEZONE",
+      "TZID:Europe/Paris",
+      "BEGIN:DAYLIGHT",
+      "DTSTART:20250330T020000",
+      "TZOFFSETFROM:+0100",
+      "TZOFFSETTO:+0200",
+      "END:DAYLIGHT",
+      "BEGIN:STANDARD",
+      "DTSTART:20251026T030000",
+      "TZOFFSETFROM:+0200",
+      "TZOFFSETTO:+0100",
+      "END:STANDARD",
+      "END:VTIMEZONE",
+    ])
+  })
+
+  it("falls back to UTC for an unknown time zone", () => {
+    const lines = getLines(generate({ settings: { ...settings, timeZone: "Mars/Base" } }))
+
+    expect(lines).toContain("X-WR-TIMEZONE:UTC")
+    expect(lines).toContain("TZOFFSETTO:+0000")
+    expect(lines).toContain("DTSTART;TZID=UTC:20250903T080000")
+  })
+
+  it("leaves out lessons without a configured time slot", () => {
+    const calendar = generate({ entries: [{ ...lesson, day: "Friday", timeSlotId: "Friday-1" }] })
+
+    expect(calendar).not.toContain("BEGIN:VEVENT")
+  })
+
+  it("escapes text and folds lines longer than 75 octets", () => {
+    const name = "Chemistry; organic, inorganic and everything in between for the whole semester"
+    const calendar = generate({ subjects: [{ id: "chem", name, code: "CHE", color: "#fff" }] })
+
+    expect(getLines(calendar)).toContain(
+      "SUMMARY:Chemistry\\; organic\\, inorganic and everything in between for the whole semester - 7A",
+    )
+    calendar.split("\r\n").forEach((line) => {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75)
+    })
+  })
+})
@@ -0,0 +1,259 @@
+import type { CalendarSettings } from "@/types/calendar"
+import type { ClassSection, Subject, Teacher, TimeSlot, TimetableEntry } from "@/types/timetable"
+import type { Classroom } from "@/types/classroom"
+import { WEEK_DAYS, findTimeSlot } from "@/lib/period-config"
+
+const PRODUCT_ID = "-//Semester Timetable Builder//Timetable//EN"
+const UID_DOMAIN = "semester-timetable-builder"
+const ICS_DAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"]
+const DEFAULT_SEMESTER_WEEKS = 18
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+// YYYY-MM-DD <-> day numbers in UTC, so date arithmetic never depends on the local time zone
+const parseDate = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number)
+  return Date.UTC(year, month - 1, day)
+}
+const formatDate = (time: number) => new Date(time).toISOString().slice(0, 10)
+const addDays = (date: string, days: number) => formatDate(parseDate(date) + days * DAY_MS)
+// Monday = 0 ... Sunday = 6, matching WEEK_DAYS
+const getWeekdayIndex = (date: string) => (new Date(parseDate(date)).getUTCDay() + 6) % 7
+
+export function createDefaultCalendarSettings(today = new Date()): CalendarSettings {
+  const semesterStart = formatDate(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate()))
+  return {
+    semesterStart,
+    semesterEnd: addDays(semesterStart, DEFAULT_SEMESTER_WEEKS * 7 - 1),
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+    holidays: [],
+  }
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// UTC offset of a time zone at an instant, in minutes (e.g. 120 for GMT+02:00)
+function getUtcOffset(timeZone: string, time: number) {
+  const name = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "longOffset" })
+    .formatToParts(new Date(time))
+    .find((part) => part.type === "timeZoneName")?.value
+  const match = name?.match(/GMT([+-])(\d{2}):(\d{2})/)
+  if (!match) return 0
+  const minutes = Number(match[2]) * 60 + Number(match[3])
+  return match[1] === "-" ? -minutes : minutes
+}
+
+const formatOffset = (minutes: number) => {
+  const sign = minutes < 0 ? "-" : "+"
+  const absolute = Math.abs(minutes)
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, "0")}${String(absolute % 60).padStart(2, "0")}`
+}
+
+// 20250901T083000 from a UTC timestamp, optionally shifted into local time
+const formatDateTime = (time: number) => new Date(time).toISOString().replace(/[-:]/g, "").slice(0, 15)
+const formatLocalDateTime = (date: string, time: string) => `${date.replace(/-/g, "")}T${time.replace(":", "")}00`
+
+interface OffsetTransition {
+  time: number // UTC instant of the change
+  offsetFrom: number
+  offsetTo: number
+}
+
+// Offset changes (daylight saving) between two instants, found by daily sampling then bisection
+function findTransitions(timeZone: string, from: number, to: number): OffsetTransition[] {
+  const transitions: OffsetTransition[] = []
+  let previousTime = from
+  let previousOffset = getUtcOffset(timeZone, from)
+
+  for (let time = from + DAY_MS; time <= to + DAY_MS; time += DAY_MS) {
+    const offset = getUtcOffset(timeZone, time)
+    if (offset !== previousOffset) {
+      let low = previousTime
+      let high = time
+      while (high - low > MINUTE_MS) {
+        const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS
+        if (getUtcOffset(timeZone, middle) === previousOffset) low = middle
+        else high = middle
+      }
+      transitions.push({ time: high, offsetFrom: previousOffset, offsetTo: offset })
+      previousOffset = offset
+    }
+    previousTime = time
+  }
+
+  return transitions
+}
+
+/**
+ * VTIMEZONE for the semester: one STANDARD/DAYLIGHT block per offset change in the covered years,
+ * or a single STANDARD block for zones without daylight saving.
+ */
+export function buildVTimezone(timeZone: string, semesterStart: string, semesterEnd: string): string[] {
+  const from = Date.UTC(new Date(parseDate(semesterStart)).getUTCFullYear(), 0, 1)
+  const to = Date.UTC(new Date(parseDate(semesterEnd)).getUTCFullYear(), 11, 31)
+  const transitions = findTransitions(timeZone, from, to)
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`]
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(getUtcOffset(timeZone, from))
+    lines.push("BEGIN:STANDARD", "DTSTART:19700101T000000", `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`)
+    lines.push("END:STANDARD")
+  } else {
+    transitions.forEach(({ time, offsetFrom, offsetTo }) => {
+      // Daylight time is whichever side of the change has the larger offset
+      const component = offsetTo > offsetFrom ? "DAYLIGHT" : "STANDARD"
+      lines.push(
+        `BEGIN:${component}`,
+        `DTSTART:${formatDateTime(time + offsetFrom * MINUTE_MS)}`,
+        `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+        `TZOFFSETTO:${formatOffset(offsetTo)}`,
+        `END:${component}`,
+      )
+    })
+  }
+
+  lines.push("END:VTIMEZONE")
+  return lines
+}
+
+// Converts a wall-clock time in `timeZone` to a UTC timestamp
+function localToUtc(timeZone: string, date: string, time: string) {
+  const [hours, minutes] = time.split(":").map(Number)
+  const wallClock = parseDate(date) + (hours * 60 + minutes) * MINUTE_MS
+  const offset = getUtcOffset(timeZone, wallClock - getUtcOffset(timeZone, wallClock) * MINUTE_MS)
+  return wallClock - offset * MINUTE_MS
+}
+
+// Escapes TEXT values (RFC 5545 §3.3.11)
+export const escapeICSText = (text: string) =>
+  text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+
+// Folds content lines longer than 75 octets (RFC 5545 §3.1)
+function foldLine(line: string) {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= 75) return line
+
+  const parts: string[] = []
+  let current = ""
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74 // continuation lines start with a space
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current)
+      current = char
+    } else {
+      current += char
+    }
+  }
+  parts.push(current)
+  return parts.join("\r\n ")
+}
+
+/**
+ * Stable across exports: a class has at most one lesson per slot, so class + day + period
+ * identifies the event even when the entry is regenerated with a new id.
+ */
+export const getLessonUid = (entry: TimetableEntry) =>
+  `lesson-${entry.classId ? `class-${entry.classId}` : `teacher-${entry.teacherId}`}-${entry.day}-${entry.period}@${UID_DOMAIN}`.replace(
+    /\s+/g,
+    "-",
+  )
+
+// Dates of holidays that fall within the semester on the given weekday
+function getExcludedDates(settings: CalendarSettings, weekdayIndex: number) {
+  const dates = new Set<string>()
+  settings.holidays.forEach((holiday) => {
+    const end = holiday.endDate || holiday.startDate
+    for (let date = holiday.startDate; date <= end; date = addDays(date, 1)) {
+      if (date >= settings.semesterStart && date <= settings.semesterEnd && getWeekdayIndex(date) === weekdayIndex) {
+        dates.add(date)
+      }
+    }
+  })
+  return Array.from(dates).sort()
+}
+
+export interface ICSCalendarInput {
+  name: string
+  entries: TimetableEntry[]
+  settings: CalendarSettings
+  timeSlots: TimeSlot[]
+  subjects: Subject[]
+  teachers: Pick<Teacher, "id" | "name">[]
+  classSections: ClassSection[]
+  classrooms: Classroom[]
+  generatedAt?: Date
+  // Written as SEQUENCE so calendar apps take a republished lesson as an update of the same event
+  sequence?: number
+}
+
+/**
+ * iCalendar document for a set of lessons. Each lesson repeats weekly from its first weekday on or
+ * after the semester start until the semester end, skipping holidays, in the configured time zone.
+ */
+export function generateICSCalendar(input: ICSCalendarInput): string {
+  const { name, entries, settings, timeSlots, subjects, teachers, classSections, classrooms } = input
+  const timeZone = isValidTimeZone(settings.timeZone) ? settings.timeZone : "UTC"
+  const stamp = `${formatDateTime((input.generatedAt ?? new Date()).getTime())}Z`
+  const until = `${formatDateTime(localToUtc(timeZone, settings.semesterEnd, "23:59") + 59 * 1000)}Z`
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeICSText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...buildVTimezone(timeZone, settings.semesterStart, settings.semesterEnd),
+  ]
+
+  entries.forEach((entry) => {
+    const timeSlot = findTimeSlot(timeSlots, entry.day, entry.period)
+    const weekdayIndex = WEEK_DAYS.indexOf(entry.day)
+    if (!timeSlot || weekdayIndex === -1) return
+
+    const offset = (weekdayIndex - getWeekdayIndex(settings.semesterStart) + 7) % 7
+    const firstDate = addDays(settings.semesterStart, offset)
+    if (firstDate > settings.semesterEnd) return
+
+    const subject = subjects.find((s) => s.id === entry.subjectId)
+    const teacher = teachers.find((t) => t.id === entry.teacherId)
+    const classSection = classSections.find((c) => c.id === entry.classId)
+    const room = classrooms.find((r) => r.id === entry.roomId)
+    const excludedDates = getExcludedDates(settings, weekdayIndex)
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${getLessonUid(entry)}`,
+      `DTSTAMP:${stamp}`,
+      `LAST-MODIFIED:${stamp}`,
+      ...(input.sequence !== undefined ? [`SEQUENCE:${input.sequence}`] : []),
+      `DTSTART;TZID=${timeZone}:${formatLocalDateTime(firstDate, timeSlot.startTime)}`,
+      `DTEND;TZID=${timeZone}:${formatLocalDateTime(firstDate, timeSlot.endTime)}`,
+      `RRULE:FREQ=WEEKLY;BYDAY=${ICS_DAYS[weekdayIndex]};UNTIL=${until}`,
+    )
+    if (excludedDates.length > 0) {
+      lines.push(
+        `EXDATE;TZID=${timeZone}:${excludedDates.map((date) => formatLocalDateTime(date, timeSlot.startTime)).join(",")}`,
+      )
+    }
+    lines.push(
+      `SUMMARY:${escapeICSText(`${subject?.name || "Lesson"}${classSection ? ` - ${classSection.name}` : ""}`)}`,
+      `DESCRIPTION:${escapeICSText(`Teacher: ${teacher?.name || "Unassigned"}\nPeriod ${entry.period}`)}`,
+    )
+    if (room) {
+      lines.push(`LOCATION:${escapeICSText([room.name, room.building].filter(Boolean).join(", "))}`)
+    }
+    lines.push("TRANSP:OPAQUE", "END:VEVENT")
+  })
+
+  lines.push("END:VCALENDAR")
+  return lines.map(foldLine).join("\r\n") + "\r\n"
+}
@@ -0,0 +1,114 @@
+import type { DayPeriodConfig, PeriodBreak, PeriodConfig, TimeSlot } from "@/types/timetable"
+
+export const WEEK_DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"]
+export const DEFAULT_START_TIME = "08:00"
+export const DEFAULT_PERIODS = 8
+export const DEFAULT_DURATION = 45
+
+export const createDefaultDays = (): DayPeriodConfig[] =>
+  WEEK_DAYS.map((day) => {
+    const isWeekday = day !== "Saturday" && day !== "Sunday"
+    return { day, periods: isWeekday ? DEFAULT_PERIODS : 0, startTime: DEFAULT_START_TIME, enabled: isWeekday }
+  })
+
+export const createDefaultBreaks = (): Record<string, PeriodBreak[]> =>
+  WEEK_DAYS.reduce(
+    (acc, day) => {
+      acc[day] = day !== "Saturday" && day !== "Sunday" ? [{ afterPeriod: 4, duration: 60, type: "lunch" }] : []
+      return acc
+    },
+    {} as Record<string, PeriodBreak[]>,
+  )
+
+const formatMinutes = (totalMinutes: number) =>
+  `${Math.floor(totalMinutes / 60)
+    .toString()
+    .padStart(2, "0")}:${(totalMinutes % 60).toString().padStart(2, "0")}`
+
+/**
+ * Generates the weekly time slots for a period configuration.
+ * Slot ids are derived from the day and period so that timetable entries keep pointing
+ * at the same slot when durations or breaks change.
+ */
+export function buildTimeSlots(
+  days: DayPeriodConfig[],
+  periodDuration: number,
+  breaks: Record<string, PeriodBreak[]>,
+): TimeSlot[] {
+  const slots: TimeSlot[] = []
+
+  days.forEach((dayConfig) => {
+    if (!dayConfig.enabled || dayConfig.periods === 0) return
+
+    const [startHour, startMinute] = dayConfig.startTime.split(":").map(Number)
+    let currentMinutes = startHour * 60 + startMinute
+    const dayBreaks = breaks[dayConfig.day] || []
+
+    for (let period = 1; period <= dayConfig.periods; period++) {
+      const endMinutes = currentMinutes + periodDuration
+
+      slots.push({
+        id: `${dayConfig.day}-${period}`,
+        day: dayConfig.day,
+        period,
+        startTime: formatMinutes(currentMinutes),
+        endTime: formatMinutes(endMinutes),
+      })
+
+      currentMinutes = endMinutes
+
+      // Add custom breaks after this period
+      dayBreaks
+        .filter((b) => b.afterPeriod === period)
+        .forEach((breakItem) => {
+          currentMinutes += breakItem.duration
+        })
+    }
+  })
+
+  return slots
+}
+
+export function createPeriodConfig(
+  days: DayPeriodConfig[],
+  periodDuration: number,
+  breaks: Record<string, PeriodBreak[]>,
+): PeriodConfig {
+  return {
+    periodDuration,
+    periodsPerDay: days.reduce(
+      (acc, day) => {
+        acc[day.day] = day.periods
+        return acc
+      },
+      {} as Record<string, number>,
+    ),
+    dayStartTimes: days.reduce(
+      (acc, day) => {
+        acc[day.day] = day.startTime
+        return acc
+      },
+      {} as Record<string, string>,
+    ),
+    days,
+    breaks,
+    timeSlots: buildTimeSlots(days, periodDuration, breaks),
+  }
+}
+
+export const defaultPeriodConfig: PeriodConfig = createPeriodConfig(
+  createDefaultDays(),
+  DEFAULT_DURATION,
+  createDefaultBreaks(),
+)
+
+// Days that have at least one period, in week order
+export const getScheduleDays = (timeSlots: TimeSlot[]) =>
+  WEEK_DAYS.filter((day) => timeSlots.some((slot) => slot.day === day))
+
+// Every period number used on any day, so days with fewer periods leave gaps
+export const getSchedulePeriods = (timeSlots: TimeSlot[]) =>
+  Array.from(new Set(timeSlots.map((slot) => slot.period))).sort((a, b) => a - b)
+
+export const findTimeSlot = (timeSlots: TimeSlot[], day: string, period: number) =>
+  timeSlots.find((slot) => slot.day === day && slot.period === period)
@@ -0,0 +1,223 @@
+import type { ProjectData, ProjectDataKey, ProjectSummary, SavedProject } from "@/types/project"
+import {
+  subjects,
+  grades,
+  classSections,
+  teachers,
+  defaultGradeSubjectAllocations,
+  defaultClassSubjectTeachers,
+} from "@/lib/timetable-data"
+import { defaultClassrooms, defaultRoomTypes } from "@/lib/classroom-data"
+import { defaultSubjectRoomRequirements, defaultSubjectRoomTypes } from "@/lib/room-assignment-data"
+import { defaultPeriodConfig } from "@/lib/period-config"
+import { createDefaultCalendarSettings } from "@/lib/ics-calendar"
+import { createDraftWorkflow } from "@/lib/publication-workflow"
+
+const DB_NAME = "semester-timetable-builder"
+const DB_VERSION = 1
+// The data currently being edited, one record per ProjectData key
+const WORKSPACE_STORE = "workspace"
+// Named snapshots of the workspace
+const PROJECTS_STORE = "projects"
+const ACTIVE_PROJECT_KEY = "activeProjectId"
+
+type WorkspaceListener = (key: ProjectDataKey, value: ProjectData[ProjectDataKey]) => void
+
+const listeners = new Set<WorkspaceListener>()
+const saveListeners = new Set<() => void>()
+let databasePromise: Promise<IDBDatabase> | null = null
+
+export function createDefaultProjectData(): ProjectData {
+  return {
+    subjects,
+    grades,
+    classSections,
+    teachers,
+    allocations: defaultGradeSubjectAllocations,
+    assignments: defaultClassSubjectTeachers,
+    classrooms: defaultClassrooms,
+    roomTypes: defaultRoomTypes,
+    subjectRoomTypes: defaultSubjectRoomTypes,
+    subjectRoomRequirements: defaultSubjectRoomRequirements,
+    periodConfig: defaultPeriodConfig,
+    timetableEntries: [],
+    calendarSettings: createDefaultCalendarSettings(),
+    publishedVersions: [],
+    workflow: createDraftWorkflow(),
+  }
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+function openDatabase() {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available in this environment"))
+  }
+
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(WORKSPACE_STORE)) db.createObjectStore(WORKSPACE_STORE)
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE, { keyPath: "id" })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        databasePromise = null
+        reject(request.error)
+      }
+    })
+  }
+
+  return databasePromise
+}
+
+// Notify subscribers (the timetable store) that the workspace was replaced in storage
+function notifyWorkspaceChange<K extends ProjectDataKey>(key: K, value: ProjectData[K]) {
+  listeners.forEach((listener) => listener(key, value))
+}
+
+export function subscribeToWorkspace(listener: WorkspaceListener) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Autosaves only; the saved value already came from the store, so the store is not notified again
+export function subscribeToWorkspaceSaves(listener: () => void) {
+  saveListeners.add(listener)
+  return () => {
+    saveListeners.delete(listener)
+  }
+}
+
+// Saved workspace merged over the defaults, so keys added in later versions still get a value
+export async function loadWorkspace(): Promise<ProjectData> {
+  const db = await openDatabase()
+  const store = db.transaction(WORKSPACE_STORE, "readonly").objectStore(WORKSPACE_STORE)
+  const data = createDefaultProjectData()
+  const keys = Object.keys(data) as ProjectDataKey[]
+  const values = await Promise.all(keys.map((key) => requestToPromise(store.get(key))))
+
+  keys.forEach((key, index) => {
+    if (values[index] !== undefined) {
+      ;(data as Record<ProjectDataKey, unknown>)[key] = values[index]
+    }
+  })
+
+  return data
+}
+
+export async function saveWorkspaceValue<K extends ProjectDataKey>(key: K, value: ProjectData[K]) {
+  const db = await openDatabase()
+  const transaction = db.transaction(WORKSPACE_STORE, "readwrite")
+  transaction.objectStore(WORKSPACE_STORE).put(value, key)
+  await transactionDone(transaction)
+  saveListeners.forEach((listener) => listener())
+}
+
+async function replaceWorkspace(data: ProjectData) {
+  const db = await openDatabase()
+  const transaction = db.transaction(WORKSPACE_STORE, "readwrite")
+  const store = transaction.objectStore(WORKSPACE_STORE)
+  const keys = Object.keys(data) as ProjectDataKey[]
+  keys.forEach((key) => store.put(data[key], key))
+  await transactionDone(transaction)
+  keys.forEach((key) => notifyWorkspaceChange(key, data[key]))
+}
+
+export async function getActiveProjectId(): Promise<string | null> {
+  const db = await openDatabase()
+  const store = db.transaction(WORKSPACE_STORE, "readonly").objectStore(WORKSPACE_STORE)
+  return ((await requestToPromise(store.get(ACTIVE_PROJECT_KEY))) as string | undefined) ?? null
+}
+
+async function setActiveProjectId(id: string | null) {
+  const db = await openDatabase()
+  const transaction = db.transaction(WORKSPACE_STORE, "readwrite")
+  transaction.objectStore(WORKSPACE_STORE).put(id, ACTIVE_PROJECT_KEY)
+  await transactionDone(transaction)
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const db = await openDatabase()
+  const store = db.transaction(PROJECTS_STORE, "readonly").objectStore(PROJECTS_STORE)
+  const projects = (await requestToPromise(store.getAll())) as SavedProject[]
+
+  return projects
+    .map(({ data, ...summary }) => summary)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+/**
+ * Saves the current workspace as a named project. Passing an existing id overwrites that
+ * project, otherwise a new one is created. The saved project becomes the active one.
+ */
+export async function saveProject(name: string, existingId?: string): Promise<ProjectSummary> {
+  const data = await loadWorkspace()
+  const db = await openDatabase()
+  const now = new Date().toISOString()
+
+  const readStore = db.transaction(PROJECTS_STORE, "readonly").objectStore(PROJECTS_STORE)
+  const existing = existingId
+    ? ((await requestToPromise(readStore.get(existingId))) as SavedProject | undefined)
+    : undefined
+
+  const project: SavedProject = {
+    id: existing?.id ?? `project-${Date.now()}`,
+    name,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    data,
+  }
+
+  const transaction = db.transaction(PROJECTS_STORE, "readwrite")
+  transaction.objectStore(PROJECTS_STORE).put(project)
+  await transactionDone(transaction)
+  await setActiveProjectId(project.id)
+
+  const { data: _data, ...summary } = project
+  return summary
+}
+
+// Replaces the workspace with a saved project; returns false when the project no longer exists
+export async function openProject(id: string) {
+  const db = await openDatabase()
+  const store = db.transaction(PROJECTS_STORE, "readonly").objectStore(PROJECTS_STORE)
+  const project = (await requestToPromise(store.get(id))) as SavedProject | undefined
+  if (!project) return false
+
+  await replaceWorkspace({ ...createDefaultProjectData(), ...project.data })
+  await setActiveProjectId(project.id)
+  return true
+}
+
+export async function deleteProject(id: string) {
+  const db = await openDatabase()
+  const transaction = db.transaction(PROJECTS_STORE, "readwrite")
+  transaction.objectStore(PROJECTS_STORE).delete(id)
+  await transactionDone(transaction)
+
+  if ((await getActiveProjectId()) === id) {
+    await setActiveProjectId(null)
+  }
+}
+
+// Starts a fresh workspace from the built-in sample data
+export async function resetWorkspace() {
+  await replaceWorkspace(createDefaultProjectData())
+  await setActiveProjectId(null)
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest"
+import type { Subject, TimetableEntry } from "@/types/timetable"
+import type { User } from "@/types/auth"
+import {
+  approveDepartment,
+  createDraftWorkflow,
+  getApproveError,
+  getChangeRequestError,
+  getPublishError,
+  requestChanges,
+  submitForReview,
+} from "@/lib/publication-workflow"
+import { FIXED_TIMESTAMP } from "@/lib/test-fixtures"
+
+const now = new Date("2025-09-01T08:00:00Z")
+
+const user = (name: string, department?: string): User => ({
+  id: name.toLowerCase(),
+  name,
+  email: `${name.toLowerCase()}@school.test`,
+  role: department ? "head_of_department" : "timetabler",
+  department,
+  createdAt: FIXED_TIMESTAMP,
+})
+
+const subjects: Subject[] = [
+  { id: "math", name: "Mathematics", code: "MAT", color: "#fff", department: "Science" },
+  { id: "art", name: "Art", code: "ART", color: "#fff", department: " Arts " },
+  { id: "pe", name: "Sport", code: "PE", color: "#fff" },
+]
+
+const entry = (id: string, subjectId: string): TimetableEntry => ({
+  id,
+  classId: "7A",
+  teacherId: "t1",
+  subjectId,
+  timeSlotId: "Monday-1",
+  day: "Monday",
+  period: 1,
+})
+
+const entries = [entry("e1", "math"), entry("e2", "art"), entry("e3", "pe")]
+const ana = user("Ana")
+const science = user("Sam", "Science")
+const arts = user("Ari", "Arts")
+
+describe("submitForReview", () => {
+  it("asks every department with lessons for approval", () => {
+    expect(submitForReview(entries, subjects, ana, now)).toEqual({
+      status: "review",
+      submittedAt: "2025-09-01T08:00:00.000Z",
+      submittedBy: "Ana",
+      requiredDepartments: ["Arts", "Science"],
+      approvals: [],
+      submittedEntries: entries,
+    })
+  })
+
+  it("approves lessons that no department has to review right away", () => {
+    expect(submitForReview([entry("e3", "pe")], subjects, ana, now)).toMatchObject({
+      status: "approved",
+      requiredDepartments: [],
+    })
+  })
+})
+
+describe("approveDepartment", () => {
+  it("stays in review until every department has approved", () => {
+    const review = submitForReview(entries, subjects, ana, now)
+    const partly = approveDepartment(review, "Science", science, now)
+    const approved = approveDepartment(partly, "Arts", arts, now)
+
+    expect(partly.status).toBe("review")
+    expect(approved.status).toBe("approved")
+    expect(approved.approvals).toEqual([
+      { department: "Science", userId: "sam", userName: "Sam", approvedAt: "2025-09-01T08:00:00.000Z" },
+      { department: "Arts", userId: "ari", userName: "Ari", approvedAt: "2025-09-01T08:00:00.000Z" },
+    ])
+  })
+
+  it("keeps one approval per department", () => {
+    const review = submitForReview(entries, subjects, ana, now)
+    const twice = approveDepartment(approveDepartment(review, "Science", science, now), "Science", ana, now)
+
+    expect(twice.approvals).toMatchObject([{ department: "Science", userName: "Ana" }])
+  })
+
+  it("is only allowed while the timetable is in review", () => {
+    const review = submitForReview(entries, subjects, ana, now)
+
+    expect(getApproveError(review)).toBeUndefined()
+    expect(getApproveError(createDraftWorkflow())).toBe("The timetable is not in review")
+    expect(getApproveError(submitForReview([entry("e3", "pe")], subjects, ana, now))).toBe(
+      "The timetable is not in review",
+    )
+  })
+})
+
+describe("requestChanges", () => {
+  it("sends the timetable back to draft with the comment and drops the approvals", () => {
+    const partly = approveDepartment(submitForReview(entries, subjects, ana, now), "Arts", arts, now)
+
+    expect(requestChanges(partly, "Science", "Move Monday's lessons", science, now)).toMatchObject({
+      status: "draft",
+      approvals: [],
+      changeRequest: {
+        department: "Science",
+        userName: "Sam",
+        comment: "Move Monday's lessons",
+        requestedAt: "2025-09-01T08:00:00.000Z",
+      },
+    })
+  })
+
+  it("is allowed in review or once approved, but not on a draft or a published timetable", () => {
+    const review = submitForReview(entries, subjects, ana, now)
+    const approved = approveDepartment(approveDepartment(review, "Science", science, now), "Arts", arts, now)
+
+    expect(getChangeRequestError(review)).toBeUndefined()
+    expect(getChangeRequestError(approved)).toBeUndefined()
+    expect(getChangeRequestError(createDraftWorkflow())).toBe("The timetable is not in review")
+    expect(getChangeRequestError({ ...approved, status: "published" })).toBe("The timetable is not in review")
+  })
+})
+
+describe("getPublishError", () => {
+  it("allows publishing once every department has approved", () => {
+    const review = submitForReview(entries, subjects, ana, now)
+    const approved = approveDepartment(approveDepartment(review, "Science", science, now), "Arts", arts, now)
+
+    expect(getPublishError(approved)).toBeUndefined()
+  })
+
+  it("names the departments that have not approved yet", () => {
+    const partly = approveDepartment(submitForReview(entries, subjects, ana, now), "Arts", arts, now)
+
+    expect(getPublishError(partly)).toBe("Waiting for approval from Science")
+  })
+
+  it("refuses drafts, timetables sent back for changes and published ones", () => {
+    const review = submitForReview(entries, subjects, ana, now)
+    const approved = approveDepartment(approveDepartment(review, "Science", science, now), "Arts", arts, now)
+    const message = "Submit the timetable for review before publishing"
+
+    expect(getPublishError(createDraftWorkflow())).toBe(message)
+    expect(getPublishError(requestChanges(approved, "Arts", "Not yet", arts, now))).toBe(message)
+    expect(getPublishError({ ...approved, status: "published" })).toBe(message)
+  })
+})
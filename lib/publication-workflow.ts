@@ -0,0 +1,99 @@
+import type { Subject, TimetableEntry } from "@/types/timetable"
+import type { User } from "@/types/auth"
+import type { PublicationWorkflow, WorkflowStatus } from "@/types/workflow"
+
+export const WORKFLOW_STATUS_LABELS: Record<WorkflowStatus, string> = {
+  draft: "Draft",
+  review: "In Review",
+  approved: "Approved",
+  published: "Published",
+}
+
+export const createDraftWorkflow = (): PublicationWorkflow => ({
+  status: "draft",
+  requiredDepartments: [],
+  approvals: [],
+})
+
+export const getDepartments = (subjects: Subject[]) =>
+  Array.from(new Set(subjects.map((s) => s.department?.trim()).filter((d): d is string => !!d))).sort((a, b) =>
+    a.localeCompare(b),
+  )
+
+// Departments with at least one lesson; subjects without a department need no approval
+export function getRequiredDepartments(entries: TimetableEntry[], subjects: Subject[]) {
+  const departments = new Set<string>()
+  entries.forEach((entry) => {
+    const department = subjects.find((s) => s.id === entry.subjectId)?.department?.trim()
+    if (department) departments.add(department)
+  })
+  return Array.from(departments).sort((a, b) => a.localeCompare(b))
+}
+
+export const getDepartmentEntries = (entries: TimetableEntry[], subjects: Subject[], department: string) =>
+  entries.filter((entry) => subjects.find((s) => s.id === entry.subjectId)?.department?.trim() === department)
+
+export const getMissingApprovals = (workflow: PublicationWorkflow) =>
+  workflow.requiredDepartments.filter((department) => !workflow.approvals.some((a) => a.department === department))
+
+// Starts a new review of the entries; earlier approvals no longer apply
+export function submitForReview(
+  entries: TimetableEntry[],
+  subjects: Subject[],
+  submittedBy: User,
+  now = new Date(),
+): PublicationWorkflow {
+  const requiredDepartments = getRequiredDepartments(entries, subjects)
+  return {
+    status: requiredDepartments.length === 0 ? "approved" : "review",
+    submittedAt: now.toISOString(),
+    submittedBy: submittedBy.name,
+    requiredDepartments,
+    approvals: [],
+    submittedEntries: entries,
+  }
+}
+
+// Why a department cannot approve the workflow now, or undefined when it can
+export const getApproveError = (workflow: PublicationWorkflow) =>
+  workflow.status !== "review" ? "The timetable is not in review" : undefined
+
+// Records the approval and moves to approved once every required department has signed off
+export function approveDepartment(
+  workflow: PublicationWorkflow,
+  department: string,
+  user: User,
+  now = new Date(),
+): PublicationWorkflow {
+  const approvals = [
+    ...workflow.approvals.filter((approval) => approval.department !== department),
+    { department, userId: user.id, userName: user.name, approvedAt: now.toISOString() },
+  ]
+  const next = { ...workflow, approvals }
+  return { ...next, status: getMissingApprovals(next).length === 0 ? "approved" : "review" }
+}
+
+export const getChangeRequestError = (workflow: PublicationWorkflow) =>
+  workflow.status !== "review" && workflow.status !== "approved" ? "The timetable is not in review" : undefined
+
+export const requestChanges = (
+  workflow: PublicationWorkflow,
+  department: string,
+  comment: string,
+  user: User,
+  now = new Date(),
+): PublicationWorkflow => ({
+  ...workflow,
+  status: "draft",
+  approvals: [],
+  changeRequest: { department, userName: user.name, comment, requestedAt: now.toISOString() },
+})
+
+// Why the workflow cannot be published now, or undefined when every required department has approved
+export function getPublishError(workflow: PublicationWorkflow) {
+  if (workflow.status === "review") return `Waiting for approval from ${getMissingApprovals(workflow).join(", ")}`
+  if (workflow.status !== "approved" || !workflow.submittedEntries) {
+    return "Submit the timetable for review before publishing"
+  }
+  return undefined
+}
@@ -0,0 +1,19 @@
+import type { User, UserRole } from "@/types/auth"
+
+export const USER_ROLES: UserRole[] = ["admin", "timetabler", "head_of_department", "teacher"]
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Admin",
+  timetabler: "Timetabler",
+  head_of_department: "Head of Department",
+  teacher: "Teacher",
+}
+
+// Roles that build the timetable, submit it for review and publish it
+export const EDITOR_ROLES: UserRole[] = ["admin", "timetabler"]
+
+export const canEdit = (user: User | null) => !!user && EDITOR_ROLES.includes(user.role)
+
+// Admins can stand in for any head of department
+export const canReview = (user: User | null, department: string) =>
+  !!user && (user.role === "admin" || (user.role === "head_of_department" && user.department === department))
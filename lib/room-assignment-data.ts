@@ -1,4 +1,4 @@
-import type { SubjectRoomType } from "@/types/room-assignment"
+import type { SubjectRoomRequirement, SubjectRoomType } from "@/types/room-assignment"
 
 export const defaultSubjectRoomTypes: SubjectRoomType[] = [
   // Mathematics - Standard Classroom preferred
@@ -62,3 +62,50 @@ export const defaultSubjectRoomTypes: SubjectRoomType[] = [
     updatedAt: "2024-01-01T00:00:00Z",
   },
 ]
+
+export const defaultSubjectRoomRequirements: SubjectRoomRequirement[] = [
+  // Mathematics - board and projector for worked examples
+  {
+    id: "1",
+    subjectId: "1", // Mathematics
+    requiredFeatures: [],
+    preferredFeatures: ["Whiteboard", "Projector"],
+    requiredEquipment: [],
+    preferredEquipment: [],
+    createdAt: "2024-01-01T00:00:00Z",
+    updatedAt: "2024-01-01T00:00:00Z",
+  },
+  // Science - experiments need gas and water
+  {
+    id: "2",
+    subjectId: "3", // Science
+    requiredFeatures: ["Gas Supply", "Water Supply"],
+    preferredFeatures: ["Fume Hood"],
+    requiredEquipment: [],
+    preferredEquipment: ["Microscopes"],
+    createdAt: "2024-01-01T00:00:00Z",
+    updatedAt: "2024-01-01T00:00:00Z",
+  },
+  // Music - a piano where there is one
+  {
+    id: "3",
+    subjectId: "7", // Music
+    requiredFeatures: [],
+    preferredFeatures: ["Piano"],
+    requiredEquipment: [],
+    preferredEquipment: [],
+    createdAt: "2024-01-01T00:00:00Z",
+    updatedAt: "2024-01-01T00:00:00Z",
+  },
+  // Computer Science - a computer for every pupil
+  {
+    id: "4",
+    subjectId: "8", // Computer Science
+    requiredFeatures: ["Computers"],
+    preferredFeatures: ["Network Access"],
+    requiredEquipment: [],
+    preferredEquipment: [],
+    createdAt: "2024-01-01T00:00:00Z",
+    updatedAt: "2024-01-01T00:00:00Z",
+  },
+]
@@ -0,0 +1,280 @@
+import { describe, expect, it } from "vitest"
+import type { Teacher, TimetableEntry } from "@/types/timetable"
+import type { Classroom } from "@/types/classroom"
+import type { SubjectRoomRequirement, SubjectRoomType } from "@/types/room-assignment"
+import { buildTimeSlots } from "@/lib/period-config"
+import { assignRooms, detectRoomConflicts, solveAssignment, type RoomAssignmentInput } from "@/lib/room-assignment"
+import { FIXED_TIMESTAMP, createClassroom } from "@/lib/test-fixtures"
+
+const totalCost = (cost: number[][], columns: number[]) =>
+  columns.reduce((sum, column, row) => sum + cost[row][column], 0)
+
+// Every way of giving each row a distinct column
+function* permutations(columns: number[], length: number): Generator<number[]> {
+  if (length === 0) {
+    yield []
+    return
+  }
+  for (const column of columns) {
+    for (const rest of permutations(
+      columns.filter((c) => c !== column),
+      length - 1,
+    )) {
+      yield [column, ...rest]
+    }
+  }
+}
+
+describe("solveAssignment", () => {
+  it("finds the cheapest assignment where picking the cheapest cell first does not", () => {
+    const cost = [
+      [1, 2, 9],
+      [1, 9, 9],
+      [9, 9, 1],
+    ]
+
+    expect(solveAssignment(cost)).toEqual([1, 0, 2])
+  })
+
+  it("leaves columns unused when there are more columns than rows", () => {
+    expect(solveAssignment([[5, 3, 4]])).toEqual([1])
+    expect(solveAssignment([])).toEqual([])
+  })
+
+  it("matches a brute-force search on small matrices", () => {
+    // Deterministic pseudo-random costs, including negative ones as assignRooms uses
+    let seed = 7
+    const random = () => {
+      seed = (seed * 16807) % 2147483647
+      return (seed % 200) - 100
+    }
+
+    for (let round = 0; round < 50; round++) {
+      const rows = 1 + (round % 4)
+      const columns = rows + (round % 3)
+      const cost = Array.from({ length: rows }, () => Array.from({ length: columns }, random))
+      const columnIndexes = Array.from({ length: columns }, (_, i) => i)
+      const best = Math.min(...Array.from(permutations(columnIndexes, rows), (p) => totalCost(cost, p)))
+
+      const result = solveAssignment(cost)
+      expect(new Set(result).size).toBe(rows)
+      expect(totalCost(cost, result)).toBe(best)
+    }
+  })
+})
+
+const room = (id: string, roomTypeId: string, fields: Partial<Classroom> = {}) =>
+  createClassroom(id, { roomTypeId, ...fields })
+
+const preference = (subjectId: string, roomTypeId: string, priority: number, isRequired = false): SubjectRoomType => ({
+  id: `${subjectId}-${roomTypeId}`,
+  subjectId,
+  roomTypeId,
+  priority,
+  isRequired,
+  createdAt: FIXED_TIMESTAMP,
+  updatedAt: FIXED_TIMESTAMP,
+})
+
+const requirement = (subjectId: string, requiredEquipment: string[]): SubjectRoomRequirement => ({
+  id: `${subjectId}-requirement`,
+  subjectId,
+  requiredFeatures: [],
+  preferredFeatures: [],
+  requiredEquipment,
+  preferredEquipment: [],
+  createdAt: FIXED_TIMESTAMP,
+  updatedAt: FIXED_TIMESTAMP,
+})
+
+const entry = (
+  id: string,
+  subjectId: string,
+  classId: string,
+  fields: Partial<TimetableEntry> = {},
+): TimetableEntry => ({
+  id,
+  classId,
+  teacherId: "t1",
+  subjectId,
+  timeSlotId: "Monday-1",
+  day: "Monday",
+  period: 1,
+  ...fields,
+})
+
+const input = (overrides: Partial<RoomAssignmentInput>): RoomAssignmentInput => ({
+  entries: [],
+  classrooms: [room("lab", "lab"), room("room", "classroom")],
+  classSections: ["7A", "7B", "7C"].map((id) => ({ id, name: id, gradeId: "g7", studentCount: 25 })),
+  // Chemistry needs the lab; mathematics prefers it but can use a classroom
+  subjectRoomTypes: [
+    preference("chem", "lab", 1, true),
+    preference("math", "lab", 1),
+    preference("math", "classroom", 2),
+  ],
+  subjectRoomRequirements: [],
+  ...overrides,
+})
+
+describe("assignRooms", () => {
+  it("gives each lesson of a period a room even when that means a less preferred one", () => {
+    const result = assignRooms(input({ entries: [entry("e1", "math", "7A"), entry("e2", "chem", "7B")] }))
+
+    expect(result.unassigned).toEqual([])
+    expect(result.placements).toEqual([
+      { timetableEntryId: "e1", roomId: "room" },
+      { timetableEntryId: "e2", roomId: "lab" },
+    ])
+  })
+
+  it("matches each period on its own and keeps rooms of lessons that already have one", () => {
+    const result = assignRooms(
+      input({
+        entries: [
+          entry("e1", "chem", "7A", { roomId: "lab" }),
+          entry("e2", "math", "7B"),
+          entry("e3", "chem", "7A", { day: "Tuesday", timeSlotId: "Tuesday-1" }),
+        ],
+      }),
+    )
+
+    expect(result.placements).toEqual([
+      { timetableEntryId: "e2", roomId: "room" },
+      { timetableEntryId: "e3", roomId: "lab" },
+    ])
+  })
+
+  it("moves lessons that have a room as well when reassigning", () => {
+    const entries = [entry("e1", "math", "7A", { roomId: "lab" }), entry("e2", "chem", "7B", { roomId: "room" })]
+
+    expect(assignRooms(input({ entries, reassign: true })).placements).toEqual([
+      { timetableEntryId: "e1", roomId: "room" },
+      { timetableEntryId: "e2", roomId: "lab" },
+    ])
+  })
+
+  it("explains why a lesson got no room", () => {
+    const reasonFor = (overrides: Partial<RoomAssignmentInput>) => assignRooms(input(overrides)).unassigned
+
+    expect(reasonFor({ entries: [entry("e1", "chem", "7A")], classrooms: [room("room", "classroom")] })).toEqual([
+      { entryId: "e1", reason: "No free room of a required type" },
+    ])
+    expect(
+      reasonFor({
+        entries: [entry("e1", "chem", "7A")],
+        subjectRoomRequirements: [requirement("chem", ["Fume hood"])],
+      }),
+    ).toEqual([{ entryId: "e1", reason: "No free room has Fume hood" }])
+    expect(reasonFor({ entries: [entry("e1", "chem", "7A"), entry("e2", "chem", "7B")] })).toEqual([
+      { entryId: "e2", reason: "The suitable rooms are taken by other lessons of this period" },
+    ])
+    expect(
+      reasonFor({
+        entries: [entry("e1", "math", "7A"), entry("e2", "math", "7B", { roomId: "lab" })],
+        classrooms: [room("lab", "lab"), room("room", "classroom", { isActive: false })],
+      }),
+    ).toEqual([{ entryId: "e1", reason: "Every room is taken in this period" }])
+  })
+})
+
+// The resolutions offered for the clash of the lessons in `entries` that share a room
+const getResolutions = (entries: TimetableEntry[], classrooms: Classroom[], periods = 2) => {
+  const { classSections, subjectRoomTypes, subjectRoomRequirements } = input({})
+  const [conflict] = detectRoomConflicts(
+    entries.flatMap((e) => (e.roomId ? [{ timetableEntryId: e.id, roomId: e.roomId }] : [])),
+    entries,
+    classrooms,
+    {
+      teachers: ["t1", "t2", "t3"].map((id): Teacher => ({
+        id,
+        name: id,
+        email: "",
+        subjects: [],
+        weeklyHourLimit: 25,
+        currentWeeklyHours: 0,
+      })),
+      classrooms,
+      periodDuration: 60,
+      subjects: [
+        { id: "chem", name: "Chemistry", code: "CHE", color: "#fff" },
+        { id: "math", name: "Mathematics", code: "MAT", color: "#fff" },
+      ],
+      classSections,
+      subjectRoomTypes,
+      subjectRoomRequirements,
+      timeSlots: buildTimeSlots([{ day: "Monday", periods, startTime: "08:00", enabled: true }], 60, {}),
+    },
+  )
+  return conflict.suggestedResolutions
+}
+
+describe("detectRoomConflicts", () => {
+  const chem7A = entry("e1", "chem", "7A", { roomId: "lab" })
+  const chem7B = entry("e2", "chem", "7B", { roomId: "lab", teacherId: "t2" })
+  const math7A = entry("e1", "math", "7A", { roomId: "room" })
+  const math7B = entry("e2", "math", "7B", { roomId: "room", teacherId: "t2" })
+
+  it("moves a lesson to a free room that suits it", () => {
+    const resolutions = getResolutions([math7A, math7B], [room("lab", "lab"), room("room", "classroom")], 1)
+
+    expect(resolutions).toEqual([
+      {
+        type: "move_to_room",
+        description: "Move Mathematics (7A) to lab",
+        roomId: "lab",
+        impact: "low",
+        changes: [{ before: math7A, after: { ...math7A, roomId: "lab" } }],
+      },
+      {
+        type: "move_to_room",
+        description: "Move Mathematics (7B) to lab",
+        roomId: "lab",
+        impact: "low",
+        changes: [{ before: math7B, after: { ...math7B, roomId: "lab" } }],
+      },
+    ])
+  })
+
+  it("swaps rooms with another lesson of the period when no free room suits the lesson", () => {
+    const math7C = entry("e3", "math", "7C", { roomId: "lab2", teacherId: "t3" })
+    const resolutions = getResolutions(
+      [chem7A, chem7B, math7C],
+      [room("lab", "lab"), room("lab2", "lab"), room("room", "classroom")],
+      1,
+    )
+
+    expect(resolutions.map((r) => r.type)).toEqual(["swap_rooms", "swap_rooms"])
+    expect(resolutions[0]).toEqual({
+      type: "swap_rooms",
+      description: "Move Chemistry (7A) to lab2 and Mathematics (7C) to room",
+      roomId: "lab2",
+      impact: "medium",
+      changes: [
+        { before: chem7A, after: { ...chem7A, roomId: "lab2" } },
+        { before: math7C, after: { ...math7C, roomId: "room" } },
+      ],
+    })
+  })
+
+  it("moves a lesson to another period where its room, class and teacher are free", () => {
+    const resolutions = getResolutions([chem7A, chem7B], [room("lab", "lab"), room("room", "classroom")])
+
+    expect(resolutions.map((r) => r.type)).toEqual(["change_time", "change_time"])
+    expect(resolutions[0]).toEqual({
+      type: "change_time",
+      description: "Move Chemistry (7A) to Monday period 2",
+      alternativeTimeSlot: "Monday-2",
+      impact: "medium",
+      changes: [{ before: chem7A, after: { ...chem7A, day: "Monday", period: 2, timeSlotId: "Monday-2" } }],
+    })
+  })
+
+  it("offers nothing when no room or period is free", () => {
+    const busy = entry("e3", "math", "7C", { period: 2, timeSlotId: "Monday-2", roomId: "lab", teacherId: "t3" })
+
+    expect(getResolutions([chem7A, chem7B], [room("lab", "lab")], 1)).toEqual([])
+    // The second period's lab is taken, and the lab is the only room for chemistry
+    expect(getResolutions([chem7A, chem7B, busy], [room("lab", "lab"), room("room", "classroom")])).toEqual([])
+  })
+})
@@ -0,0 +1,486 @@
+import type { ClassSection, Subject, TimeSlot, TimetableEntry } from "@/types/timetable"
+import type { Classroom } from "@/types/classroom"
+import type {
+  RoomAssignment,
+  RoomConflict,
+  RoomConflictResolution,
+  RoomSuggestion,
+  SubjectRoomRequirement,
+  SubjectRoomType,
+} from "@/types/room-assignment"
+import { planLessonMove, type ValidationContext } from "@/lib/timetable-validation"
+
+export type RoomPlacement = Pick<RoomAssignment, "timetableEntryId" | "roomId">
+
+// What resolving a room clash needs to know beyond the rooms themselves
+export interface RoomResolutionContext extends ValidationContext {
+  subjects: Subject[]
+  classSections: ClassSection[]
+  subjectRoomTypes: SubjectRoomType[]
+  subjectRoomRequirements: SubjectRoomRequirement[]
+  timeSlots: TimeSlot[]
+}
+
+/**
+ * Rooms holding more than one lesson in the same day and period. With a resolution context every
+ * conflict also gets concrete resolutions that can be previewed and applied.
+ */
+export function detectRoomConflicts(
+  assignments: RoomPlacement[],
+  timetableEntries: TimetableEntry[],
+  classrooms: Classroom[],
+  context?: RoomResolutionContext,
+): RoomConflict[] {
+  const bookings = new Map<string, { roomId: string; day: string; period: number; entryIds: string[] }>()
+
+  assignments.forEach((assignment) => {
+    const entry = timetableEntries.find((te) => te.id === assignment.timetableEntryId)
+    if (!entry) return
+
+    const key = `${assignment.roomId}|${entry.day}|${entry.period}`
+    const booking = bookings.get(key) || {
+      roomId: assignment.roomId,
+      day: entry.day,
+      period: entry.period,
+      entryIds: [],
+    }
+    booking.entryIds.push(assignment.timetableEntryId)
+    bookings.set(key, booking)
+  })
+
+  const conflicts: RoomConflict[] = []
+  bookings.forEach(({ roomId, day, period, entryIds }) => {
+    if (entryIds.length < 2) return
+    const room = classrooms.find((r) => r.id === roomId)
+
+    conflicts.push({
+      id: `conflict-${roomId}-${day}-${period}`,
+      roomId,
+      timeSlotId: `${day}-${period}`,
+      conflictingEntries: entryIds,
+      severity: "error",
+      message: `${room?.name || "Room"} is double-booked on ${day} period ${period}`,
+      suggestedResolutions: context
+        ? getConflictResolutions(roomId, day, period, entryIds, timetableEntries, classrooms, context)
+        : [],
+    })
+  })
+
+  return conflicts
+}
+
+// What a subject asks of its room for one class: room type preferences, best first, and features
+export interface RoomRules {
+  preferences: SubjectRoomType[]
+  requirement?: SubjectRoomRequirement
+}
+
+export function getRoomRules(
+  subjectId: string,
+  gradeId: string | undefined,
+  subjectRoomTypes: SubjectRoomType[],
+  subjectRoomRequirements: SubjectRoomRequirement[],
+): RoomRules {
+  const preferences = subjectRoomTypes
+    .filter((srt) => srt.subjectId === subjectId)
+    .sort((a, b) => a.priority - b.priority)
+  const requirements = subjectRoomRequirements.filter((requirement) => requirement.subjectId === subjectId)
+  const requirement =
+    requirements.find((r) => r.gradeId && r.gradeId === gradeId) || requirements.find((r) => !r.gradeId)
+  return { preferences, requirement }
+}
+
+// Items of `wanted` the room does not list; names are compared without regard to case
+const getMissing = (wanted: string[], available: string[]) =>
+  wanted.filter((item) => !available.some((a) => a.trim().toLowerCase() === item.trim().toLowerCase()))
+
+// Required features and equipment the room lacks
+const getMissingRequirements = (room: Classroom, requirement?: SubjectRoomRequirement) => ({
+  features: getMissing(requirement?.requiredFeatures || [], room.features),
+  equipment: getMissing(requirement?.requiredEquipment || [], room.equipment),
+})
+
+// A subject with required room types may only be taught in a room of one of them
+const meetsRequiredRoomType = (room: Classroom, preferences: SubjectRoomType[]) => {
+  const required = preferences.filter((preference) => preference.isRequired)
+  return required.length === 0 || required.some((preference) => preference.roomTypeId === room.roomTypeId)
+}
+
+// Required room types, features and equipment are hard constraints; everything else is scored
+export const meetsRoomRules = (room: Classroom, { preferences, requirement }: RoomRules) => {
+  const missing = getMissingRequirements(room, requirement)
+  return meetsRequiredRoomType(room, preferences) && missing.features.length === 0 && missing.equipment.length === 0
+}
+
+// How well a room suits a class for a subject with the given room rules
+export function scoreRoom(room: Classroom, classSection: ClassSection, rules: RoomRules): RoomSuggestion {
+  const { preferences, requirement } = rules
+  let score = 0
+  const reasons: string[] = []
+  const warnings: string[] = []
+
+  // Check room type preference
+  const roomTypePreference = preferences.find((srt) => srt.roomTypeId === room.roomTypeId)
+  if (roomTypePreference) {
+    const priorityScore = 4 - roomTypePreference.priority // Higher score for higher priority
+    score += priorityScore * 30
+    reasons.push(`${roomTypePreference.priority === 1 ? "Preferred" : "Suitable"} room type`)
+
+    if (roomTypePreference.isRequired) {
+      score += 20
+      reasons.push("Required room type")
+    }
+  } else if (preferences.length > 0) {
+    score -= 20
+    warnings.push("Not a preferred room type for this subject")
+  }
+  if (!meetsRequiredRoomType(room, preferences)) {
+    warnings.push("The subject requires another room type")
+  }
+
+  // Check capacity
+  if (room.capacity >= classSection.studentCount) {
+    const capacityRatio = classSection.studentCount / room.capacity
+    if (capacityRatio > 0.8) {
+      score += 15
+      reasons.push("Good capacity utilization")
+    } else if (capacityRatio > 0.5) {
+      score += 10
+      reasons.push("Adequate capacity")
+    } else {
+      score += 5
+      warnings.push("Room may be too large")
+    }
+  } else {
+    score -= 50
+    warnings.push(`Insufficient capacity (${room.capacity} < ${classSection.studentCount})`)
+  }
+
+  // Check the subject's features and equipment
+  if (requirement) {
+    const missing = getMissingRequirements(room, requirement)
+    const metCount =
+      requirement.requiredFeatures.length +
+      requirement.requiredEquipment.length -
+      missing.features.length -
+      missing.equipment.length
+    if (metCount > 0 && missing.features.length + missing.equipment.length === 0) {
+      reasons.push("Has every required feature and equipment")
+    }
+    score += metCount * 10
+    missing.features.forEach((feature) => {
+      score -= 30
+      warnings.push(`Missing required feature: ${feature}`)
+    })
+    missing.equipment.forEach((equipment) => {
+      score -= 30
+      warnings.push(`Missing required equipment: ${equipment}`)
+    })
+
+    const missingPreferredFeatures = getMissing(requirement.preferredFeatures, room.features)
+    const missingPreferredEquipment = getMissing(requirement.preferredEquipment, room.equipment)
+    const preferredCount = requirement.preferredFeatures.length + requirement.preferredEquipment.length
+    const hasPreferredCount = preferredCount - missingPreferredFeatures.length - missingPreferredEquipment.length
+    if (hasPreferredCount > 0) {
+      score += hasPreferredCount * 5
+      reasons.push(`Has ${hasPreferredCount} of ${preferredCount} preferred features and equipment`)
+    }
+    missingPreferredFeatures.forEach((feature) => warnings.push(`Missing preferred feature: ${feature}`))
+    missingPreferredEquipment.forEach((equipment) => warnings.push(`Missing preferred equipment: ${equipment}`))
+  }
+
+  return {
+    roomId: room.id,
+    roomName: room.name,
+    suitabilityScore: Math.max(0, score),
+    reasons,
+    warnings,
+  }
+}
+
+/**
+ * Minimum-cost assignment (Hungarian method): picks a distinct column for every row of `cost`,
+ * which needs at least as many columns as rows. Returns the column index of each row.
+ */
+export function solveAssignment(cost: number[][]): number[] {
+  const rows = cost.length
+  const columns = rows > 0 ? cost[0].length : 0
+  // 1-based potentials and matching; column 0 is the virtual start of each augmenting path
+  const rowPotential = new Array<number>(rows + 1).fill(0)
+  const columnPotential = new Array<number>(columns + 1).fill(0)
+  const columnRow = new Array<number>(columns + 1).fill(0)
+  const previousColumn = new Array<number>(columns + 1).fill(0)
+
+  for (let row = 1; row <= rows; row++) {
+    columnRow[0] = row
+    let column = 0
+    const minSlack = new Array<number>(columns + 1).fill(Infinity)
+    const visited = new Array<boolean>(columns + 1).fill(false)
+
+    do {
+      visited[column] = true
+      const currentRow = columnRow[column]
+      let delta = Infinity
+      let nextColumn = 0
+      for (let j = 1; j <= columns; j++) {
+        if (visited[j]) continue
+        const slack = cost[currentRow - 1][j - 1] - rowPotential[currentRow] - columnPotential[j]
+        if (slack < minSlack[j]) {
+          minSlack[j] = slack
+          previousColumn[j] = column
+        }
+        if (minSlack[j] < delta) {
+          delta = minSlack[j]
+          nextColumn = j
+        }
+      }
+      for (let j = 0; j <= columns; j++) {
+        if (visited[j]) {
+          rowPotential[columnRow[j]] += delta
+          columnPotential[j] -= delta
+        } else {
+          minSlack[j] -= delta
+        }
+      }
+      column = nextColumn
+    } while (columnRow[column] !== 0)
+
+    // Flip the augmenting path
+    do {
+      const previous = previousColumn[column]
+      columnRow[column] = columnRow[previous]
+      column = previous
+    } while (column !== 0)
+  }
+
+  const rowColumn = new Array<number>(rows).fill(-1)
+  for (let j = 1; j <= columns; j++) {
+    if (columnRow[j] > 0) rowColumn[columnRow[j] - 1] = j - 1
+  }
+  return rowColumn
+}
+
+// Placing one more lesson always outweighs any difference in suitability
+const PLACEMENT_WEIGHT = 1000
+
+export interface RoomAssignmentInput {
+  entries: TimetableEntry[]
+  classrooms: Classroom[]
+  classSections: ClassSection[]
+  subjectRoomTypes: SubjectRoomType[]
+  subjectRoomRequirements: SubjectRoomRequirement[]
+  // Assign every lesson again instead of only the ones without a room
+  reassign?: boolean
+}
+
+export interface UnassignedLesson {
+  entryId: string
+  reason: string
+}
+
+export interface RoomAssignmentResult {
+  placements: RoomPlacement[]
+  unassigned: UnassignedLesson[]
+}
+
+/**
+ * Rooms for the lessons of the week, one period at a time. Within a period the lessons and the free
+ * rooms are matched so that as many lessons as possible get a room and, among those matchings, the
+ * total suitability score is highest. Required room types, features and equipment are hard
+ * constraints, as is a suitability score above zero. Lessons that keep their room block it for the others.
+ */
+export function assignRooms({
+  entries,
+  classrooms,
+  classSections,
+  subjectRoomTypes,
+  subjectRoomRequirements,
+  reassign = false,
+}: RoomAssignmentInput): RoomAssignmentResult {
+  const placements: RoomPlacement[] = []
+  const unassigned: UnassignedLesson[] = []
+  const activeRooms = classrooms.filter((room) => room.isActive)
+
+  const periods = new Map<string, TimetableEntry[]>()
+  entries.forEach((entry) => {
+    const key = `${entry.day}|${entry.period}`
+    periods.set(key, [...(periods.get(key) || []), entry])
+  })
+
+  periods.forEach((periodEntries) => {
+    const lessons = reassign ? periodEntries : periodEntries.filter((entry) => !entry.roomId)
+    if (lessons.length === 0) return
+
+    const takenRooms = reassign ? [] : periodEntries.map((entry) => entry.roomId).filter(Boolean)
+    const rooms = activeRooms.filter((room) => !takenRooms.includes(room.id))
+
+    const lessonRules = lessons.map((entry) => {
+      const classSection = classSections.find((c) => c.id === entry.classId)
+      return {
+        classSection,
+        rules: getRoomRules(entry.subjectId, classSection?.gradeId, subjectRoomTypes, subjectRoomRequirements),
+      }
+    })
+
+    // Suitability of each lesson for each free room; null where the room cannot take the lesson
+    const scores = lessonRules.map(({ classSection, rules }) =>
+      rooms.map((room) => {
+        if (!classSection || !meetsRoomRules(room, rules)) return null
+        const { suitabilityScore } = scoreRoom(room, classSection, rules)
+        return suitabilityScore > 0 ? suitabilityScore : null
+      }),
+    )
+
+    // One extra "no room" column per lesson keeps the matrix wide enough for every lesson
+    const cost = scores.map((row) => [
+      ...row.map((score) => (score === null ? 0 : -(PLACEMENT_WEIGHT + score))),
+      ...lessons.map(() => 0),
+    ])
+    const columns = solveAssignment(cost)
+
+    lessons.forEach((entry, index) => {
+      const column = columns[index]
+      if (column < rooms.length && scores[index][column] !== null) {
+        placements.push({ timetableEntryId: entry.id, roomId: rooms[column].id })
+        return
+      }
+
+      const { rules } = lessonRules[index]
+      const requiredItems = [
+        ...(rules.requirement?.requiredFeatures || []),
+        ...(rules.requirement?.requiredEquipment || []),
+      ]
+      const reason =
+        rooms.length === 0
+          ? "Every room is taken in this period"
+          : !rooms.some((room) => meetsRequiredRoomType(room, rules.preferences))
+            ? "No free room of a required type"
+            : !rooms.some((room) => meetsRoomRules(room, rules))
+              ? `No free room has ${requiredItems.join(", ")}`
+              : scores[index].every((score) => score === null)
+                ? "No free room suits the class"
+                : "The suitable rooms are taken by other lessons of this period"
+      unassigned.push({ entryId: entry.id, reason })
+    })
+  })
+
+  return { placements, unassigned }
+}
+
+// Alternatives offered per kind of resolution and lesson
+const MAX_OPTIONS = 3
+
+const IMPACT_ORDER: Record<RoomConflictResolution["impact"], number> = { low: 0, medium: 1, high: 2 }
+
+/**
+ * Ways out of one room clash, least disruptive first: move a lesson to a free suitable room; give it
+ * the room of another lesson of the period that can move to a free room instead (only when no free
+ * room suits it directly); or move it to another period where its room, class and teacher are free.
+ */
+function getConflictResolutions(
+  roomId: string,
+  day: string,
+  period: number,
+  entryIds: string[],
+  entries: TimetableEntry[],
+  classrooms: Classroom[],
+  context: RoomResolutionContext,
+): RoomConflictResolution[] {
+  const { subjects, classSections, subjectRoomTypes, subjectRoomRequirements, timeSlots } = context
+  const resolutions: RoomConflictResolution[] = []
+
+  const periodEntries = entries.filter((entry) => entry.day === day && entry.period === period)
+  const takenRooms = new Set(periodEntries.map((entry) => entry.roomId))
+  const freeRooms = classrooms.filter((room) => room.isActive && !takenRooms.has(room.id))
+  const lessons = entries.filter((entry) => entryIds.includes(entry.id))
+
+  const describe = (entry: TimetableEntry) => {
+    const subjectName = subjects.find((s) => s.id === entry.subjectId)?.name || "Lesson"
+    const className = classSections.find((c) => c.id === entry.classId)?.name
+    return `${subjectName}${className ? ` (${className})` : ""}`
+  }
+
+  // The room's suitability for the lesson, or null when it cannot take it
+  const getFit = (entry: TimetableEntry, room: Classroom) => {
+    const classSection = classSections.find((c) => c.id === entry.classId)
+    const rules = getRoomRules(entry.subjectId, classSection?.gradeId, subjectRoomTypes, subjectRoomRequirements)
+    if (!classSection || !meetsRoomRules(room, rules)) return null
+    const suggestion = scoreRoom(room, classSection, rules)
+    return suggestion.suitabilityScore > 0 ? suggestion : null
+  }
+
+  const getFreeRoomFits = (entry: TimetableEntry) =>
+    freeRooms
+      .flatMap((room) => {
+        const fit = getFit(entry, room)
+        return fit ? [{ room, fit }] : []
+      })
+      .sort((a, b) => b.fit.suitabilityScore - a.fit.suitabilityScore)
+
+  lessons.forEach((entry) => {
+    const roomFits = getFreeRoomFits(entry)
+    roomFits.slice(0, MAX_OPTIONS).forEach(({ room, fit }) => {
+      resolutions.push({
+        type: "move_to_room",
+        description: `Move ${describe(entry)} to ${room.name}`,
+        roomId: room.id,
+        impact: fit.warnings.length > 0 ? "medium" : "low",
+        changes: [{ before: entry, after: { ...entry, roomId: room.id } }],
+      })
+    })
+    if (roomFits.length > 0) return
+
+    periodEntries
+      .filter((other) => other.roomId && other.roomId !== roomId)
+      .flatMap((other) => {
+        const otherRoom = classrooms.find((room) => room.id === other.roomId)
+        const freeRoom = otherRoom && getFit(entry, otherRoom) ? getFreeRoomFits(other)[0]?.room : undefined
+        return otherRoom && freeRoom ? [{ other, otherRoom, freeRoom }] : []
+      })
+      .slice(0, MAX_OPTIONS)
+      .forEach(({ other, otherRoom, freeRoom }) => {
+        resolutions.push({
+          type: "swap_rooms",
+          description: `Move ${describe(entry)} to ${otherRoom.name} and ${describe(other)} to ${freeRoom.name}`,
+          roomId: otherRoom.id,
+          impact: "medium",
+          changes: [
+            { before: entry, after: { ...entry, roomId: otherRoom.id } },
+            { before: other, after: { ...other, roomId: freeRoom.id } },
+          ],
+        })
+      })
+  })
+
+  lessons.forEach((entry) => {
+    const isBusy = (slot: TimeSlot) =>
+      entries.some(
+        (e) =>
+          e.id !== entry.id &&
+          e.day === slot.day &&
+          e.period === slot.period &&
+          (e.roomId === roomId || e.classId === entry.classId || e.teacherId === entry.teacherId),
+      )
+
+    let options = 0
+    for (const slot of timeSlots) {
+      if (options >= MAX_OPTIONS) break
+      if ((slot.day === day && slot.period === period) || isBusy(slot)) continue
+
+      // The full check also covers teacher availability and weekly limits
+      const move = planLessonMove(entries, entry, slot.day, slot.period, undefined, timeSlots, context)
+      if (move.error) continue
+
+      options++
+      resolutions.push({
+        type: "change_time",
+        description: `Move ${describe(entry)} to ${slot.day} period ${slot.period}`,
+        alternativeTimeSlot: `${slot.day}-${slot.period}`,
+        impact: "medium",
+        changes: move.changes.flatMap(({ before, after }) => (before && after ? [{ before, after }] : [])),
+      })
+    }
+  })
+
+  return resolutions.sort((a, b) => IMPACT_ORDER[a.impact] - IMPACT_ORDER[b.impact])
+}
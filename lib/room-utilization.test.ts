@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest"
+import type { TimetableEntry } from "@/types/timetable"
+import type { Classroom, RoomType } from "@/types/classroom"
+import { buildTimeSlots } from "@/lib/period-config"
+import { buildRoomUtilization, toRoomUtilizationRows, type RoomUtilizationInput } from "@/lib/room-utilization"
+import { FIXED_TIMESTAMP, createClassroom } from "@/lib/test-fixtures"
+
+const room = (id: string, roomTypeId: string, capacity: number, isActive = true) =>
+  createClassroom(id, { name: `Room ${id}`, roomTypeId, capacity, isActive })
+
+const roomType = (id: string, name: string): RoomType => ({
+  id,
+  name,
+  description: "",
+  color: "",
+  defaultCapacity: 30,
+  features: [],
+  createdAt: FIXED_TIMESTAMP,
+  updatedAt: FIXED_TIMESTAMP,
+})
+
+let nextId = 1
+
+const entry = (roomId: string, day: string, period: number, classId = "7A"): TimetableEntry => ({
+  id: `e${nextId++}`,
+  classId,
+  teacherId: "t1",
+  subjectId: "math",
+  roomId,
+  timeSlotId: `${day}-${period}`,
+  day,
+  period,
+})
+
+// Ten periods a week
+const input = (entries: TimetableEntry[], classrooms: Classroom[]): RoomUtilizationInput => ({
+  entries,
+  classrooms,
+  roomTypes: [roomType("lab", "Lab"), roomType("classroom", "Classroom")],
+  subjects: [{ id: "math", name: "Mathematics", code: "MAT", color: "#fff" }],
+  classSections: [
+    { id: "7A", name: "7A", gradeId: "g7", studentCount: 20 },
+    { id: "7B", name: "7B", gradeId: "g7", studentCount: 40 },
+  ],
+  teachers: [{ id: "t1", name: "Ms. Lee", email: "", subjects: [], weeklyHourLimit: 25, currentWeeklyHours: 0 }],
+  timeSlots: buildTimeSlots(
+    ["Monday", "Tuesday"].map((day) => ({ day, periods: 5, startTime: "08:00", enabled: true })),
+    45,
+    {},
+  ),
+})
+
+describe("buildRoomUtilization", () => {
+  it("measures occupancy against the week's periods and seat fill against capacity", () => {
+    const { rooms } = buildRoomUtilization(
+      input(
+        [
+          entry("r1", "Monday", 1),
+          entry("r1", "Monday", 2),
+          entry("r1", "Tuesday", 1, "7B"),
+          entry("r1", "Tuesday", 2),
+        ],
+        [room("r1", "classroom", 40)],
+      ),
+    )
+
+    expect(rooms[0]).toMatchObject({
+      roomName: "Room r1",
+      roomType: "Classroom",
+      totalSlots: 10,
+      occupiedSlots: 4,
+      utilizationPercentage: 40,
+      // 20, 20, 40 and 20 students in 40 seats
+      seatFillPercentage: 63,
+      overCapacityLessons: 0,
+      conflicts: 0,
+      status: "balanced",
+      occupancy: { "Monday-1": 1, "Monday-2": 1, "Tuesday-1": 1, "Tuesday-2": 1 },
+    })
+    expect(rooms[0].assignments[2]).toEqual({
+      day: "Tuesday",
+      period: 1,
+      subject: "Mathematics",
+      class: "7B",
+      teacher: "Ms. Lee",
+      studentCount: 40,
+    })
+  })
+
+  it("rates rooms as under-used, or over-subscribed when busy or double-booked", () => {
+    const busy = ["Monday", "Tuesday"].flatMap((day) => [1, 2, 3, 4, 5].map((period) => entry("busy", day, period)))
+    const { rooms } = buildRoomUtilization(
+      input(
+        [...busy, entry("clash", "Monday", 1), entry("clash", "Monday", 1, "7B"), entry("quiet", "Monday", 1, "7B")],
+        [room("busy", "classroom", 30), room("clash", "classroom", 30), room("quiet", "classroom", 30)],
+      ),
+    )
+
+    expect(rooms.map((r) => [r.roomId, r.status])).toEqual([
+      ["busy", "over_subscribed"],
+      ["clash", "over_subscribed"],
+      ["quiet", "under_used"],
+    ])
+    expect(rooms[1]).toMatchObject({ occupiedSlots: 1, conflicts: 1 })
+    expect(rooms[2].overCapacityLessons).toBe(1)
+  })
+
+  it("leaves out inactive rooms unless they still hold lessons", () => {
+    const { rooms } = buildRoomUtilization(
+      input([entry("old", "Monday", 1)], [room("old", "lab", 30, false), room("closed", "lab", 30, false)]),
+    )
+
+    expect(rooms.map((r) => r.roomId)).toEqual(["old"])
+  })
+
+  it("leaves out lessons outside the configured periods", () => {
+    const week = ["Monday", "Tuesday"].flatMap((day) => [1, 2, 3, 4, 5].map((period) => entry("r1", day, period)))
+    const { rooms } = buildRoomUtilization(
+      input([...week, entry("r1", "Monday", 6), entry("r1", "Saturday", 1)], [room("r1", "classroom", 40)]),
+    )
+
+    expect(rooms[0]).toMatchObject({ occupiedSlots: 10, utilizationPercentage: 100 })
+    expect(rooms[0].assignments).toHaveLength(10)
+  })
+
+  it("rolls the rooms up by room type", () => {
+    const { roomTypes } = buildRoomUtilization(
+      input(
+        [entry("a", "Monday", 1), entry("a", "Monday", 2), entry("b", "Monday", 1, "7B"), entry("c", "Tuesday", 1)],
+        [room("a", "classroom", 40), room("b", "classroom", 40), room("c", "lab", 20)],
+      ),
+    )
+
+    expect(roomTypes).toEqual([
+      {
+        roomTypeId: "classroom",
+        roomTypeName: "Classroom",
+        roomCount: 2,
+        totalSlots: 20,
+        occupiedSlots: 3,
+        utilizationPercentage: 15,
+        // 20, 20 and 40 students in 40 seats
+        seatFillPercentage: 67,
+      },
+      {
+        roomTypeId: "lab",
+        roomTypeName: "Lab",
+        roomCount: 1,
+        totalSlots: 10,
+        occupiedSlots: 1,
+        utilizationPercentage: 10,
+        seatFillPercentage: 100,
+      },
+    ])
+  })
+})
+
+describe("toRoomUtilizationRows", () => {
+  it("writes a row per room, then a summary per room type", () => {
+    const rows = toRoomUtilizationRows(
+      buildRoomUtilization(input([entry("r1", "Monday", 1)], [room("r1", "classroom", 40)])),
+    )
+
+    expect(rows).toEqual([
+      expect.arrayContaining(["Room", "Status"]),
+      ["Room r1", "Classroom", "40", "1", "10", "10", "50", "0", "0", "Under-used"],
+      [],
+      ["Room Type", "Rooms", "Occupied Periods", "Total Periods", "Utilization %", "Seat Fill %"],
+      ["Classroom", "1", "1", "10", "10", "50"],
+    ])
+  })
+})
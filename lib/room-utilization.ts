@@ -0,0 +1,162 @@
+import type { ClassSection, Subject, Teacher, TimeSlot, TimetableEntry } from "@/types/timetable"
+import type { Classroom, RoomType } from "@/types/classroom"
+import type { RoomTypeUtilization, RoomUtilization } from "@/types/room-assignment"
+import { findTimeSlot } from "@/lib/period-config"
+
+// Share of the week's periods below which a room counts as under-used, and from which it is over-subscribed
+export const UNDER_USED_PERCENTAGE = 30
+export const OVER_SUBSCRIBED_PERCENTAGE = 85
+
+export interface RoomUtilizationInput {
+  entries: TimetableEntry[]
+  classrooms: Classroom[]
+  roomTypes: RoomType[]
+  subjects: Subject[]
+  classSections: ClassSection[]
+  teachers: Teacher[]
+  timeSlots: TimeSlot[]
+}
+
+export interface RoomUtilizationReport {
+  rooms: RoomUtilization[]
+  roomTypes: RoomTypeUtilization[]
+}
+
+const toPercentage = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0)
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0)
+
+/**
+ * Occupancy of every active room (and any inactive one still holding lessons) in the configured
+ * periods, with how full the room is when in use, and the same figures rolled up by room type.
+ */
+export function buildRoomUtilization({
+  entries,
+  classrooms,
+  roomTypes,
+  subjects,
+  classSections,
+  teachers,
+  timeSlots,
+}: RoomUtilizationInput): RoomUtilizationReport {
+  const totalSlots = timeSlots.length
+  // Lessons outside the configured periods (e.g. after a period was removed) do not occupy a slot
+  const scheduledEntries = entries.filter((entry) => findTimeSlot(timeSlots, entry.day, entry.period))
+  const seatFills = new Map<string, number[]>() // per room, one ratio per lesson
+
+  const rooms = classrooms
+    .filter((room) => room.isActive || scheduledEntries.some((entry) => entry.roomId === room.id))
+    .map((room): RoomUtilization => {
+      const roomEntries = scheduledEntries.filter((entry) => entry.roomId === room.id)
+      const occupancy: Record<string, number> = {}
+      roomEntries.forEach((entry) => {
+        const key = `${entry.day}-${entry.period}`
+        occupancy[key] = (occupancy[key] || 0) + 1
+      })
+
+      const assignments = roomEntries.map((entry) => ({
+        day: entry.day,
+        period: entry.period,
+        subject: subjects.find((s) => s.id === entry.subjectId)?.name || "Unknown",
+        class: classSections.find((c) => c.id === entry.classId)?.name || "Unknown",
+        teacher: teachers.find((t) => t.id === entry.teacherId)?.name || "Unknown",
+        studentCount: classSections.find((c) => c.id === entry.classId)?.studentCount || 0,
+      }))
+      const fills = room.capacity > 0 ? assignments.map((a) => a.studentCount / room.capacity) : []
+      seatFills.set(room.id, fills)
+
+      const occupiedSlots = Object.keys(occupancy).length
+      const utilizationPercentage = toPercentage(occupiedSlots, totalSlots)
+      const conflicts = Object.values(occupancy).filter((count) => count > 1).length
+
+      return {
+        roomId: room.id,
+        roomName: room.name,
+        roomType: roomTypes.find((rt) => rt.id === room.roomTypeId)?.name || "Unknown",
+        capacity: room.capacity,
+        totalSlots,
+        occupiedSlots,
+        utilizationPercentage,
+        seatFillPercentage: Math.round(average(fills) * 100),
+        overCapacityLessons: assignments.filter((a) => a.studentCount > room.capacity).length,
+        conflicts,
+        status:
+          utilizationPercentage >= OVER_SUBSCRIBED_PERCENTAGE || conflicts > 0
+            ? "over_subscribed"
+            : utilizationPercentage < UNDER_USED_PERCENTAGE
+              ? "under_used"
+              : "balanced",
+        occupancy,
+        assignments,
+      }
+    })
+
+  const roomTypeIds = Array.from(
+    new Set(classrooms.filter((room) => rooms.some((r) => r.roomId === room.id)).map((room) => room.roomTypeId)),
+  )
+  const roomTypeUtilization = roomTypeIds.map((roomTypeId): RoomTypeUtilization => {
+    const typeRoomIds = classrooms.filter((room) => room.roomTypeId === roomTypeId).map((room) => room.id)
+    const typeRooms = rooms.filter((room) => typeRoomIds.includes(room.roomId))
+    const occupiedSlots = typeRooms.reduce((sum, room) => sum + room.occupiedSlots, 0)
+
+    return {
+      roomTypeId,
+      roomTypeName: roomTypes.find((rt) => rt.id === roomTypeId)?.name || "Unknown",
+      roomCount: typeRooms.length,
+      totalSlots: totalSlots * typeRooms.length,
+      occupiedSlots,
+      utilizationPercentage: toPercentage(occupiedSlots, totalSlots * typeRooms.length),
+      seatFillPercentage: Math.round(average(typeRooms.flatMap((room) => seatFills.get(room.roomId) || [])) * 100),
+    }
+  })
+
+  return { rooms, roomTypes: roomTypeUtilization }
+}
+
+const STATUS_LABELS: Record<RoomUtilization["status"], string> = {
+  under_used: "Under-used",
+  balanced: "Balanced",
+  over_subscribed: "Over-subscribed",
+}
+
+export const getUtilizationStatusLabel = (status: RoomUtilization["status"]) => STATUS_LABELS[status]
+
+// Rows for a CSV export: one per room, then a summary per room type
+export function toRoomUtilizationRows({ rooms, roomTypes }: RoomUtilizationReport): string[][] {
+  return [
+    [
+      "Room",
+      "Room Type",
+      "Capacity",
+      "Occupied Periods",
+      "Total Periods",
+      "Utilization %",
+      "Seat Fill %",
+      "Over-Capacity Lessons",
+      "Double-Booked Periods",
+      "Status",
+    ],
+    ...rooms.map((room) => [
+      room.roomName,
+      room.roomType,
+      String(room.capacity),
+      String(room.occupiedSlots),
+      String(room.totalSlots),
+      String(room.utilizationPercentage),
+      String(room.seatFillPercentage),
+      String(room.overCapacityLessons),
+      String(room.conflicts),
+      getUtilizationStatusLabel(room.status),
+    ]),
+    [],
+    ["Room Type", "Rooms", "Occupied Periods", "Total Periods", "Utilization %", "Seat Fill %"],
+    ...roomTypes.map((roomType) => [
+      roomType.roomTypeName,
+      String(roomType.roomCount),
+      String(roomType.occupiedSlots),
+      String(roomType.totalSlots),
+      String(roomType.utilizationPercentage),
+      String(roomType.seatFillPercentage),
+    ]),
+  ]
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server"
+import { ZodError, type ZodType } from "zod"
+
+// Error with the HTTP status the route should answer with
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message)
+    this.name = "ApiError"
+  }
+}
+
+export const notFound = (entity: string, id: string) => new ApiError(404, `${entity} "${id}" not found`)
+
+export async function parseBody<T>(request: Request, schema: ZodType<T>): Promise<T> {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    throw new ApiError(400, "Request body must be valid JSON")
+  }
+  return schema.parse(body)
+}
+
+/**
+ * Runs a route handler body and turns its result into a JSON response; a Response is returned as is.
+ * ApiErrors keep their status, validation errors become 400 with the zod issues, anything else is a 500.
+ */
+export async function respond(run: () => unknown | Promise<unknown>, status = 200) {
+  try {
+    const result = await run()
+    return result instanceof Response ? result : NextResponse.json(result, { status })
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json({ error: "Validation failed", issues: error.issues }, { status: 400 })
+    }
+    console.error("Unhandled API error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,78 @@
+import { createHmac, timingSafeEqual } from "crypto"
+import type { User, UserRole } from "@/types/auth"
+import { ApiError } from "@/lib/server/api-response"
+import { getSecret } from "@/lib/server/secrets"
+import { toPublicUser, users } from "@/lib/server/users"
+
+const SESSION_COOKIE = "timetable_session"
+const SESSION_DAYS = 7
+
+const sign = async (payload: string) =>
+  createHmac("sha256", await getSecret("session", "SESSION_SECRET"))
+    .update(payload)
+    .digest("base64url")
+
+function readCookie(request: Request, name: string) {
+  const cookies = request.headers.get("cookie")?.split(";") || []
+  for (const cookie of cookies) {
+    const [key, ...value] = cookie.trim().split("=")
+    if (key === name) return decodeURIComponent(value.join("="))
+  }
+  return null
+}
+
+/**
+ * Set-Cookie value for a signed session: "<userId>.<expiry>.<signature>". Nothing else is kept
+ * server-side, so deleting the user is what ends their sessions.
+ */
+export async function createSessionCookie(userId: string) {
+  const expires = Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000
+  const payload = `${userId}.${expires}`
+  const value = `${payload}.${await sign(payload)}`
+  const secure = process.env.NODE_ENV === "production" ? "; Secure" : ""
+  return `${SESSION_COOKIE}=${encodeURIComponent(value)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${SESSION_DAYS * 24 * 60 * 60}${secure}`
+}
+
+export const clearSessionCookie = () => `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`
+
+// The signed-in user, or null when the cookie is missing, expired, tampered with or the user is gone
+export async function getSessionUser(request: Request): Promise<User | null> {
+  const value = readCookie(request, SESSION_COOKIE)
+  if (!value) return null
+
+  const [userId, expires, signature] = value.split(".")
+  if (!userId || !expires || !signature || Number(expires) < Date.now()) return null
+  const expected = Buffer.from(await sign(`${userId}.${expires}`))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  const user = (await users.read()).find((u) => u.id === userId)
+  return user ? toPublicUser(user) : null
+}
+
+// The signed-in user when they hold one of the roles (any role when none are given); 401 or 403 otherwise
+export async function requireUser(request: Request, roles?: UserRole[]) {
+  const user = await getSessionUser(request)
+  if (!user) throw new ApiError(401, "Sign in required")
+  if (roles && !roles.includes(user.role)) throw new ApiError(403, "You do not have permission to do this")
+  return user
+}
+
+// Whether the request carries the API_TOKEN environment variable as a bearer token; never when it is unset
+function hasApiToken(request: Request) {
+  const apiToken = process.env.API_TOKEN
+  const authorization = request.headers.get("authorization")
+  if (!apiToken || !authorization?.startsWith("Bearer ")) return false
+  const expected = Buffer.from(apiToken)
+  const actual = Buffer.from(authorization.slice("Bearer ".length).trim())
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+/**
+ * Read access to the REST API: any signed-in user, or a script such as the SIS sync sending
+ * `Authorization: Bearer <API_TOKEN>`. 401 otherwise.
+ */
+export async function requireReader(request: Request) {
+  if (hasApiToken(request)) return
+  await requireUser(request)
+}
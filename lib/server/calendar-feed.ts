@@ -0,0 +1,74 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto"
+import type { ProjectData } from "@/types/project"
+import type { PublishedVersion, VersionLookup } from "@/types/version"
+import { getSecret } from "@/lib/server/secrets"
+import { generateICSCalendar } from "@/lib/ics-calendar"
+import { getVersionLookup } from "@/lib/timetable-versions"
+
+export const FEED_SCOPES = ["teacher", "class", "room"] as const
+export type FeedScope = (typeof FEED_SCOPES)[number]
+
+export const isFeedScope = (scope: string): scope is FeedScope => FEED_SCOPES.includes(scope as FeedScope)
+
+// HMAC of the scope and id: unguessable without the secret, and stable so subscriptions keep working
+export async function getFeedToken(scope: FeedScope, id: string) {
+  return createHmac("sha256", await getSecret("calendar-feed", "CALENDAR_FEED_SECRET"))
+    .update(`${scope}:${id}`)
+    .digest("base64url")
+}
+
+export async function verifyFeedToken(scope: FeedScope, id: string, token: string | null) {
+  if (!token) return false
+  const expected = Buffer.from(await getFeedToken(scope, id))
+  const actual = Buffer.from(token)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+type EntityNames = Pick<VersionLookup, "teachers" | "classSections" | "classrooms">
+
+// Display name of the teacher, class or room, or undefined when it does not exist
+export function getFeedEntityName(names: EntityNames, scope: FeedScope, id: string) {
+  if (scope === "teacher") return names.teachers.find((t) => t.id === id)?.name
+  if (scope === "class") return names.classSections.find((c) => c.id === id)?.name
+  return names.classrooms.find((r) => r.id === id)?.name
+}
+
+export interface CalendarFeed {
+  body: string
+  etag: string
+}
+
+/**
+ * The lessons of one teacher, class or room in a published version as an iCalendar document, with
+ * the names and times they were published with. Versions from before those were kept use the current ones.
+ */
+export function buildCalendarFeed(
+  data: ProjectData,
+  version: PublishedVersion,
+  scope: FeedScope,
+  id: string,
+  name: string,
+): CalendarFeed {
+  const entries = version.entries.filter((entry) => {
+    if (scope === "teacher") return entry.teacherId === id
+    if (scope === "class") return entry.classId === id
+    return entry.roomId === id
+  })
+  const { timeSlots, subjects, teachers, classSections, classrooms } = version.lookup || getVersionLookup(data)
+
+  const body = generateICSCalendar({
+    name: `${name} Timetable`,
+    entries,
+    settings: data.calendarSettings,
+    timeSlots,
+    subjects,
+    teachers,
+    classSections,
+    classrooms,
+    // Stable within a version so the ETag stays valid, and newer on every publish
+    generatedAt: new Date(version.publishedAt),
+    sequence: version.number,
+  })
+
+  return { body, etag: `"${createHash("sha256").update(body).digest("base64url")}"` }
+}
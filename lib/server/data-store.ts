@@ -0,0 +1,46 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type { ProjectData } from "@/types/project"
+import { createDefaultProjectData } from "@/lib/project-storage"
+
+// JSON file backing the REST API. Seeded with the sample data on first use.
+export const DATA_FILE = process.env.TIMETABLE_DATA_FILE || path.join(process.cwd(), "data", "timetable.json")
+
+// Writes are chained so concurrent requests never interleave a read-modify-write
+let writeQueue: Promise<unknown> = Promise.resolve()
+
+export async function readData(): Promise<ProjectData> {
+  try {
+    const contents = await fs.readFile(DATA_FILE, "utf8")
+    // Merged over the defaults, so keys added in later versions still get a value
+    return { ...createDefaultProjectData(), ...JSON.parse(contents) }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return createDefaultProjectData()
+    }
+    throw error
+  }
+}
+
+async function writeData(data: ProjectData) {
+  await fs.mkdir(path.dirname(DATA_FILE), { recursive: true })
+  // Write to a temporary file first so a crash never leaves half a JSON document behind
+  const tempFile = `${DATA_FILE}.${process.pid}.tmp`
+  await fs.writeFile(tempFile, JSON.stringify(data, null, 2), "utf8")
+  await fs.rename(tempFile, DATA_FILE)
+}
+
+/**
+ * Runs `mutate` against the latest data and saves the result. The callback edits the data in
+ * place and returns whatever the route should respond with; throwing aborts without saving.
+ */
+export function updateData<T>(mutate: (data: ProjectData) => T): Promise<T> {
+  const result = writeQueue.then(async () => {
+    const data = await readData()
+    const value = mutate(data)
+    await writeData(data)
+    return value
+  })
+  writeQueue = result.catch(() => undefined)
+  return result
+}
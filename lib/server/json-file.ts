@@ -0,0 +1,41 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+export interface JsonFile<T> {
+  read: () => Promise<T>
+  update: <R>(mutate: (value: T) => R) => Promise<R>
+}
+
+/**
+ * A JSON document on disk with the same guarantees as the data store: writes are chained so
+ * concurrent requests never interleave a read-modify-write, and go through a temporary file so a
+ * crash never leaves half a document behind. `createEmpty` supplies the value when the file is missing.
+ */
+export function createJsonFile<T>(file: string, createEmpty: () => T): JsonFile<T> {
+  let writeQueue: Promise<unknown> = Promise.resolve()
+
+  const read = async (): Promise<T> => {
+    try {
+      return JSON.parse(await fs.readFile(file, "utf8"))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return createEmpty()
+      throw error
+    }
+  }
+
+  const update = <R>(mutate: (value: T) => R): Promise<R> => {
+    const result = writeQueue.then(async () => {
+      const value = await read()
+      const returned = mutate(value)
+      await fs.mkdir(path.dirname(file), { recursive: true })
+      const tempFile = `${file}.${process.pid}.tmp`
+      await fs.writeFile(tempFile, JSON.stringify(value, null, 2), "utf8")
+      await fs.rename(tempFile, file)
+      return returned
+    })
+    writeQueue = result.catch(() => undefined)
+    return result
+  }
+
+  return { read, update }
+}
@@ -0,0 +1,24 @@
+import nodemailer, { type Transporter } from "nodemailer"
+
+/**
+ * SMTP settings come from the environment. Without SMTP_HOST mail goes to localhost:1025, where
+ * local test servers such as Mailpit or MailHog listen, so development never reaches real inboxes.
+ */
+const SMTP_HOST = process.env.SMTP_HOST || "localhost"
+const SMTP_PORT = Number(process.env.SMTP_PORT) || (process.env.SMTP_HOST ? 587 : 1025)
+const SMTP_SECURE = process.env.SMTP_SECURE === "true"
+
+export const MAIL_FROM = process.env.SMTP_FROM || "Semester Timetable Builder <timetable@localhost>"
+
+let transport: Transporter | null = null
+
+export function getMailTransport() {
+  transport ??= nodemailer.createTransport({
+    host: SMTP_HOST,
+    port: SMTP_PORT,
+    secure: SMTP_SECURE,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || "" } : undefined,
+    connectionTimeout: 10_000,
+  })
+  return transport
+}
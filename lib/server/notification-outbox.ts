@@ -0,0 +1,138 @@
+import path from "path"
+import type { NotificationMessage, NotificationSummary } from "@/types/notification"
+import { DATA_FILE } from "@/lib/server/data-store"
+import { createJsonFile } from "@/lib/server/json-file"
+import { MAIL_FROM, getMailTransport } from "@/lib/server/mailer"
+import { buildScheduleMessages, type ScheduleSnapshot } from "@/lib/teacher-schedule-email"
+
+// Kept next to the data file so the outbox survives restarts
+const OUTBOX_FILE = path.join(path.dirname(DATA_FILE), "notification-outbox.json")
+
+// Failed messages are retried automatically until they reach this many attempts
+export const MAX_ATTEMPTS = 5
+
+// Minutes before the automatic retry after the first, second, ... failed attempt
+const RETRY_DELAYS = [1, 5, 15, 60]
+
+// Failures of the SMTP connection rather than of one message; the rest of the queue would fail the same way
+const CONNECTION_ERRORS = new Set(["ECONNECTION", "ETIMEDOUT", "ESOCKET", "EDNS", "EAUTH"])
+
+const outbox = createJsonFile<NotificationMessage[]>(OUTBOX_FILE, () => [])
+
+let deliveryQueue: Promise<unknown> = Promise.resolve()
+let retryTimer: ReturnType<typeof setTimeout> | undefined
+
+const toSummary = ({ text, html, attachments, ...summary }: NotificationMessage): NotificationSummary => summary
+
+const canRetry = (message: NotificationMessage) => message.status === "failed" && message.attempts < MAX_ATTEMPTS
+
+// Newest first. Also picks up messages left waiting by a restart, when this process has no retry scheduled
+export async function listNotifications() {
+  const messages = await outbox.read()
+  if (!retryTimer && messages.some((message) => message.status === "pending" || canRetry(message))) {
+    deliverInBackground()
+  }
+  return messages.map(toSummary).reverse()
+}
+
+export function queueNotifications(messages: NotificationMessage[]) {
+  return outbox.update((stored) => {
+    stored.push(...messages)
+  })
+}
+
+// Puts failed messages back in the queue regardless of their attempt count; all failed ones when no ids are given
+export function requeueFailedNotifications(ids?: string[]) {
+  return outbox.update((stored) => {
+    const requeued = stored.filter((message) => message.status === "failed" && (!ids || ids.includes(message.id)))
+    requeued.forEach((message) => {
+      message.status = "pending"
+      message.nextAttemptAt = undefined
+    })
+    return requeued.length
+  })
+}
+
+const isDue = (message: NotificationMessage, now: number) =>
+  message.status === "pending" ||
+  (canRetry(message) && (!message.nextAttemptAt || Date.parse(message.nextAttemptAt) <= now))
+
+const getNextAttemptAt = (attempts: number, now: number) =>
+  attempts < MAX_ATTEMPTS
+    ? new Date(now + RETRY_DELAYS[Math.min(attempts, RETRY_DELAYS.length) - 1] * 60_000).toISOString()
+    : undefined
+
+async function sendMessage(message: NotificationMessage) {
+  await getMailTransport().sendMail({
+    from: MAIL_FROM,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+    attachments: message.attachments,
+  })
+}
+
+// Sets a timer for the earliest automatic retry, replacing any earlier one
+async function scheduleRetry() {
+  clearTimeout(retryTimer)
+  retryTimer = undefined
+  const messages = await outbox.read()
+  const retryTimes = messages.filter(canRetry).map((message) => Date.parse(message.nextAttemptAt || "") || Date.now())
+  // Messages a connection failure left unsent go out with the next retry, or on their own after the first delay
+  if (messages.some((message) => message.status === "pending")) retryTimes.push(Date.now() + RETRY_DELAYS[0] * 60_000)
+  if (retryTimes.length === 0) return
+
+  retryTimer = setTimeout(deliverInBackground, Math.max(0, Math.min(...retryTimes) - Date.now()))
+  retryTimer.unref?.()
+}
+
+/**
+ * Sends every due message one at a time and records the outcome on each; a failed message gets its
+ * next attempt on the backoff schedule. Runs are chained so a message is never picked up by two at once.
+ */
+async function deliverNotifications() {
+  const due = (await outbox.read()).filter((message) => isDue(message, Date.now()))
+
+  for (const message of due) {
+    let error: string | undefined
+    let isConnectionError = false
+    try {
+      await sendMessage(message)
+    } catch (sendError) {
+      error = sendError instanceof Error ? sendError.message : String(sendError)
+      isConnectionError = CONNECTION_ERRORS.has((sendError as { code?: string }).code || "")
+    }
+
+    await outbox.update((stored) => {
+      const attempted = stored.find((m) => m.id === message.id)
+      if (!attempted) return
+      const now = Date.now()
+      attempted.attempts++
+      attempted.lastAttemptAt = new Date(now).toISOString()
+      attempted.status = error ? "failed" : "sent"
+      attempted.lastError = error
+      attempted.nextAttemptAt = error ? getNextAttemptAt(attempted.attempts, now) : undefined
+      if (!error) attempted.sentAt = attempted.lastAttemptAt
+    })
+
+    if (isConnectionError) break
+  }
+}
+
+// Delivers the due messages without holding up the request that queued them
+export function deliverInBackground() {
+  deliveryQueue = deliveryQueue
+    .then(deliverNotifications)
+    .catch((error) => console.error("Error delivering notifications:", error))
+    .then(scheduleRetry)
+    .catch((error) => console.error("Error scheduling notification retries:", error))
+}
+
+// Builds the schedule emails for a published timetable and queues them for delivery
+export async function sendScheduleNotifications(snapshot: ScheduleSnapshot) {
+  const { messages, skipped, unchanged } = buildScheduleMessages(snapshot)
+  await queueNotifications(messages)
+  deliverInBackground()
+  return { queued: messages.length, skipped, unchanged }
+}
@@ -0,0 +1,33 @@
+import { randomBytes } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+import { DATA_FILE } from "@/lib/server/data-store"
+
+const secretPromises = new Map<string, Promise<string>>()
+
+/**
+ * Signing secret from the environment variable, or generated once and kept in `<name>.secret`
+ * next to the data file so tokens and sessions survive restarts.
+ */
+export function getSecret(name: string, envVariable: string) {
+  const fromEnvironment = process.env[envVariable]
+  if (fromEnvironment) return Promise.resolve(fromEnvironment)
+
+  let secretPromise = secretPromises.get(name)
+  if (!secretPromise) {
+    const secretFile = path.join(path.dirname(DATA_FILE), `${name}.secret`)
+    secretPromise = (async () => {
+      try {
+        return (await fs.readFile(secretFile, "utf8")).trim()
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+        const secret = randomBytes(32).toString("hex")
+        await fs.mkdir(path.dirname(secretFile), { recursive: true })
+        await fs.writeFile(secretFile, secret, { encoding: "utf8", mode: 0o600 })
+        return secret
+      }
+    })()
+    secretPromises.set(name, secretPromise)
+  }
+  return secretPromise
+}
@@ -0,0 +1,36 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto"
+import path from "path"
+import { promisify } from "util"
+import type { User } from "@/types/auth"
+import { DATA_FILE } from "@/lib/server/data-store"
+import { createJsonFile } from "@/lib/server/json-file"
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>
+const KEY_LENGTH = 64
+
+// A user as stored; the password hash never leaves the server
+export interface StoredUser extends User {
+  passwordHash: string
+}
+
+export const users = createJsonFile<StoredUser[]>(path.join(path.dirname(DATA_FILE), "users.json"), () => [])
+
+export const toPublicUser = ({ passwordHash, ...user }: StoredUser): User => user
+
+// scrypt with a random salt, stored as "scrypt$<salt>$<hash>"
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16)
+  const hash = await scryptAsync(password, salt, KEY_LENGTH)
+  return `scrypt$${salt.toString("base64url")}$${hash.toString("base64url")}`
+}
+
+export async function verifyPassword(password: string, passwordHash: string) {
+  const [scheme, salt, expected] = passwordHash.split("$")
+  if (scheme !== "scrypt" || !salt || !expected) return false
+  const expectedBuffer = Buffer.from(expected, "base64url")
+  const actual = await scryptAsync(password, Buffer.from(salt, "base64url"), expectedBuffer.length)
+  return timingSafeEqual(actual, expectedBuffer)
+}
+
+export const findUserByEmail = (stored: StoredUser[], email: string) =>
+  stored.find((user) => user.email.toLowerCase() === email.trim().toLowerCase())
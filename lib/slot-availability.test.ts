@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest"
+import type { Teacher, TimetableEntry } from "@/types/timetable"
+import { buildTimeSlots } from "@/lib/period-config"
+import { evaluateSlots, type SlotAvailabilityInput } from "@/lib/slot-availability"
+import { FIXED_TIMESTAMP, createClassroom } from "@/lib/test-fixtures"
+
+const teacher: Teacher = {
+  id: "t1",
+  name: "Ms. Lee",
+  email: "lee@school.test",
+  subjects: ["chem"],
+  weeklyHourLimit: 2,
+  currentWeeklyHours: 0,
+  unavailableSlots: [{ day: "Monday", period: 2 }],
+}
+
+const lab = (id: string, isActive = true) => createClassroom(id, { name: `Lab ${id}`, roomTypeId: "lab", isActive })
+
+const entry = (id: string, fields: Partial<TimetableEntry>): TimetableEntry => ({
+  id,
+  classId: "7B",
+  teacherId: "t2",
+  subjectId: "bio",
+  timeSlotId: "",
+  day: "Monday",
+  period: 1,
+  ...fields,
+})
+
+const input = (overrides: Partial<SlotAvailabilityInput> = {}): SlotAvailabilityInput => ({
+  entries: [],
+  subjectId: "chem",
+  teacherId: "t1",
+  classId: "7A",
+  timeSlots: buildTimeSlots([{ day: "Monday", periods: 3, startTime: "08:00", enabled: true }], 60, {}),
+  periodDuration: 60,
+  teachers: [teacher],
+  subjects: [
+    { id: "chem", name: "Chemistry", code: "CHE", color: "#fff" },
+    { id: "bio", name: "Biology", code: "BIO", color: "#fff" },
+  ],
+  classSections: [
+    { id: "7A", name: "7A", gradeId: "g7", studentCount: 25 },
+    { id: "7B", name: "7B", gradeId: "g7", studentCount: 25 },
+  ],
+  classrooms: [lab("r1")],
+  roomTypes: [
+    {
+      id: "lab",
+      name: "Lab",
+      description: "",
+      color: "",
+      defaultCapacity: 30,
+      features: [],
+      createdAt: FIXED_TIMESTAMP,
+      updatedAt: FIXED_TIMESTAMP,
+    },
+  ],
+  subjectRoomTypes: [
+    {
+      id: "s1",
+      subjectId: "chem",
+      roomTypeId: "lab",
+      priority: 1,
+      isRequired: true,
+      createdAt: FIXED_TIMESTAMP,
+      updatedAt: FIXED_TIMESTAMP,
+    },
+  ],
+  ...overrides,
+})
+
+const reasonsBySlot = (overrides?: Partial<SlotAvailabilityInput>) =>
+  evaluateSlots(input(overrides)).map((slot) => slot.reasons)
+
+describe("evaluateSlots", () => {
+  it("marks free slots valid and blocks the periods the teacher is unavailable", () => {
+    const slots = evaluateSlots(input())
+
+    expect(slots.map((slot) => slot.isValid)).toEqual([true, false, true])
+    expect(slots[1].reasons).toEqual(["Ms. Lee is not available"])
+  })
+
+  it("blocks periods in which the class or the teacher already has a lesson", () => {
+    const entries = [entry("e1", { classId: "7A", period: 1 }), entry("e2", { teacherId: "t1", period: 3 })]
+
+    expect(reasonsBySlot({ entries })).toEqual([
+      ["7A already has Biology"],
+      ["Ms. Lee is not available"],
+      ["Ms. Lee is teaching 7B"],
+    ])
+  })
+
+  it("blocks every slot when the lesson would exceed the teacher's weekly limit", () => {
+    const entries = [entry("e1", { teacherId: "t1", period: 1 }), entry("e2", { teacherId: "t1", period: 3 })]
+
+    reasonsBySlot({ entries }).forEach((reasons) => {
+      expect(reasons).toContain("Ms. Lee would exceed the weekly limit (3.0/2 hours)")
+    })
+  })
+
+  it("blocks every slot without a teacher or without an active room of a required type", () => {
+    expect(reasonsBySlot({ teacherId: undefined })[0]).toEqual(["No teacher is assigned to this subject"])
+    expect(reasonsBySlot({ classrooms: [lab("r1", false)] })[0]).toEqual(["No active Lab room exists"])
+  })
+
+  it("counts rooms that are booked and lessons still waiting for a room of the same type", () => {
+    const entries = [entry("e1", { period: 1, roomId: "r1" }), entry("e2", { subjectId: "chem", period: 3 })]
+
+    expect(reasonsBySlot({ entries, classrooms: [lab("r1")] })).toEqual([
+      ["Every Lab room is in use"],
+      ["Ms. Lee is not available"],
+      ["Every Lab room is in use"],
+    ])
+    expect(reasonsBySlot({ entries, classrooms: [lab("r1"), lab("r2")] })[0]).toEqual([])
+  })
+})
@@ -0,0 +1,104 @@
+import type { ClassSection, Subject, Teacher, TimeSlot, TimetableEntry } from "@/types/timetable"
+import type { Classroom, RoomType } from "@/types/classroom"
+import type { SubjectRoomType } from "@/types/room-assignment"
+import { isTeacherAvailable } from "@/lib/teacher-availability"
+
+export interface SlotAvailability {
+  day: string
+  period: number
+  isValid: boolean
+  // Why the slot is blocked; empty for valid slots
+  reasons: string[]
+}
+
+export interface SlotAvailabilityInput {
+  entries: TimetableEntry[]
+  subjectId: string
+  teacherId?: string
+  // Unknown when placing from a teacher's timetable
+  classId?: string
+  timeSlots: TimeSlot[]
+  periodDuration: number // minutes
+  teachers: Teacher[]
+  subjects: Subject[]
+  classSections: ClassSection[]
+  classrooms: Classroom[]
+  roomTypes: RoomType[]
+  subjectRoomTypes: SubjectRoomType[]
+}
+
+// Room types a subject cannot be taught without
+const getRequiredRoomTypeIds = (subjectRoomTypes: SubjectRoomType[], subjectId: string) =>
+  subjectRoomTypes.filter((srt) => srt.subjectId === subjectId && srt.isRequired).map((srt) => srt.roomTypeId)
+
+/**
+ * Checks every configured slot for a new lesson of `subjectId`: the class and the teacher must be
+ * free, the teacher available and under their weekly hour limit, and a room of any required room
+ * type must still be free in that period.
+ */
+export function evaluateSlots(input: SlotAvailabilityInput): SlotAvailability[] {
+  const { entries, subjectId, teacherId, classId, timeSlots, periodDuration, teachers } = input
+  const { subjects, classSections, classrooms, roomTypes, subjectRoomTypes } = input
+
+  const teacher = teachers.find((t) => t.id === teacherId)
+  const getClassName = (id: string) => classSections.find((c) => c.id === id)?.name || "another class"
+  const getSubjectName = (id: string) => subjects.find((s) => s.id === id)?.name || "another subject"
+
+  // Reasons that apply to every slot
+  const globalReasons: string[] = []
+  if (!teacher) {
+    globalReasons.push("No teacher is assigned to this subject")
+  } else {
+    const scheduledHours = (entries.filter((e) => e.teacherId === teacher.id).length * periodDuration) / 60
+    const hoursAfter = scheduledHours + periodDuration / 60
+    if (hoursAfter > teacher.weeklyHourLimit) {
+      globalReasons.push(
+        `${teacher.name} would exceed the weekly limit (${hoursAfter.toFixed(1)}/${teacher.weeklyHourLimit} hours)`,
+      )
+    }
+  }
+
+  const requiredRoomTypeIds = getRequiredRoomTypeIds(subjectRoomTypes, subjectId)
+  const requiredRooms = classrooms.filter((room) => room.isActive && requiredRoomTypeIds.includes(room.roomTypeId))
+  const requiredRoomTypeNames = requiredRoomTypeIds
+    .map((id) => roomTypes.find((rt) => rt.id === id)?.name || "required")
+    .join(" or ")
+  if (requiredRoomTypeIds.length > 0 && requiredRooms.length === 0) {
+    globalReasons.push(`No active ${requiredRoomTypeNames} room exists`)
+  }
+
+  return timeSlots.map(({ day, period }) => {
+    const reasons = [...globalReasons]
+    const slotEntries = entries.filter((e) => e.day === day && e.period === period)
+
+    const classLesson = classId ? slotEntries.find((e) => e.classId === classId) : undefined
+    if (classLesson) {
+      reasons.push(`${getClassName(classId!)} already has ${getSubjectName(classLesson.subjectId)}`)
+    }
+
+    const teacherLesson = teacher ? slotEntries.find((e) => e.teacherId === teacher.id) : undefined
+    if (teacher && teacherLesson) {
+      reasons.push(`${teacher.name} is teaching ${getClassName(teacherLesson.classId)}`)
+    }
+
+    if (teacher && !isTeacherAvailable(teacher, day, period)) {
+      reasons.push(`${teacher.name} is not available`)
+    }
+
+    if (requiredRooms.length > 0) {
+      // Rooms already booked, plus lessons in this period that still need a room of the same type
+      const bookedRoomIds = new Set(slotEntries.map((e) => e.roomId).filter(Boolean))
+      const waitingLessons = slotEntries.filter(
+        (e) =>
+          !e.roomId &&
+          getRequiredRoomTypeIds(subjectRoomTypes, e.subjectId).some((id) => requiredRoomTypeIds.includes(id)),
+      ).length
+      const freeRooms = requiredRooms.filter((room) => !bookedRoomIds.has(room.id)).length - waitingLessons
+      if (freeRooms <= 0) {
+        reasons.push(`Every ${requiredRoomTypeNames} room is in use`)
+      }
+    }
+
+    return { day, period, isValid: reasons.length === 0, reasons }
+  })
+}
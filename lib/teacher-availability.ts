@@ -0,0 +1,22 @@
+import type { Teacher, TeacherUnavailability, TimeSlot } from "@/types/timetable"
+
+// Teachers without recorded unavailability can teach in every period
+export const isTeacherAvailable = (teacher: Teacher | undefined, day: string, period: number) => {
+  if (!teacher?.unavailableSlots) return true
+  return !teacher.unavailableSlots.some((slot) => slot.day === day && slot.period === period)
+}
+
+export const getAvailableSlots = (teacher: Teacher | undefined, timeSlots: TimeSlot[]) => {
+  return timeSlots.filter((slot) => isTeacherAvailable(teacher, slot.day, slot.period))
+}
+
+export const toggleUnavailableSlot = (
+  unavailableSlots: TeacherUnavailability[],
+  day: string,
+  period: number,
+): TeacherUnavailability[] => {
+  const isBlocked = unavailableSlots.some((slot) => slot.day === day && slot.period === period)
+  return isBlocked
+    ? unavailableSlots.filter((slot) => !(slot.day === day && slot.period === period))
+    : [...unavailableSlots, { day, period }]
+}
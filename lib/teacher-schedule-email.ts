@@ -0,0 +1,232 @@
+import type { ProjectData } from "@/types/project"
+import type { ClassSection, Subject, Teacher, TimeSlot, TimetableEntry } from "@/types/timetable"
+import type { Classroom } from "@/types/classroom"
+import type { CalendarSettings } from "@/types/calendar"
+import type { NotificationMessage } from "@/types/notification"
+import type { PublishedVersion } from "@/types/version"
+import { generateICSCalendar } from "@/lib/ics-calendar"
+import { describeLessonChange, diffVersions, groupChanges } from "@/lib/timetable-versions"
+import { findTimeSlot, getScheduleDays } from "@/lib/period-config"
+
+// What the server needs to write the schedule emails, taken from the published project
+export interface ScheduleSnapshot {
+  teachers: Teacher[]
+  subjects: Subject[]
+  classSections: ClassSection[]
+  classrooms: Classroom[]
+  timeSlots: TimeSlot[]
+  timetableEntries: TimetableEntry[]
+  calendarSettings: CalendarSettings
+  // Number of the version being published and the entries of the version before it, if any
+  versionNumber?: number
+  previousEntries?: TimetableEntry[]
+}
+
+// The lessons of the latest published version, never the draft being edited. Pass the previously published
+// version to email only the teachers whose lessons changed since
+export const getScheduleSnapshot = (data: ProjectData, previousVersion?: PublishedVersion): ScheduleSnapshot => {
+  const version = data.publishedVersions[data.publishedVersions.length - 1]
+  return {
+    teachers: data.teachers,
+    subjects: data.subjects,
+    classSections: data.classSections,
+    classrooms: data.classrooms,
+    timeSlots: data.periodConfig.timeSlots,
+    timetableEntries: version?.entries || [],
+    calendarSettings: data.calendarSettings,
+    versionNumber: version?.number,
+    previousEntries: previousVersion?.entries,
+  }
+}
+
+export interface SkippedTeacher {
+  teacherId: string
+  name: string
+  reason: string
+}
+
+export interface ScheduleMessages {
+  messages: NotificationMessage[]
+  skipped: SkippedTeacher[]
+  // Teachers left out because none of their lessons changed
+  unchanged: number
+}
+
+interface ScheduleLine {
+  time: string
+  subject: string
+  className: string
+  room: string
+}
+
+interface ScheduleDay {
+  day: string
+  lines: ScheduleLine[]
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+const toFileName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "teacher"
+
+// The teacher's lessons grouped by day, in week and period order
+function getScheduleLines(snapshot: ScheduleSnapshot, entries: TimetableEntry[]): ScheduleDay[] {
+  return getScheduleDays(snapshot.timeSlots)
+    .map((day) => {
+      const lines = entries
+        .filter((entry) => entry.day === day)
+        .sort((a, b) => a.period - b.period)
+        .map((entry): ScheduleLine => {
+          const timeSlot = findTimeSlot(snapshot.timeSlots, entry.day, entry.period)
+          return {
+            time: timeSlot ? `${timeSlot.startTime}–${timeSlot.endTime}` : `Period ${entry.period}`,
+            subject: snapshot.subjects.find((s) => s.id === entry.subjectId)?.name || "Lesson",
+            className: snapshot.classSections.find((c) => c.id === entry.classId)?.name || "",
+            room: snapshot.classrooms.find((r) => r.id === entry.roomId)?.name || "",
+          }
+        })
+      return { day, lines }
+    })
+    .filter(({ lines }) => lines.length > 0)
+}
+
+const countLessons = (days: ScheduleDay[]) => days.reduce((count, { lines }) => count + lines.length, 0)
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`
+
+// The opening sentence; for a later version it lists what changed instead of restating everything
+function getIntro(snapshot: ScheduleSnapshot, days: ScheduleDay[], changes: string[] | null) {
+  if (!changes) {
+    return `The timetable has been published. You teach ${plural(countLessons(days), "lesson")} a week:`
+  }
+  return `Version ${snapshot.versionNumber} of the timetable has been published with ${plural(changes.length, "change")} to your lessons:`
+}
+
+function buildText(teacher: Teacher, snapshot: ScheduleSnapshot, days: ScheduleDay[], changes: string[] | null) {
+  const { semesterStart, semesterEnd } = snapshot.calendarSettings
+  const schedule =
+    days
+      .map(({ day, lines }) =>
+        [
+          day,
+          ...lines.map(
+            (line) => `  ${line.time}  ${[line.subject, line.className, line.room].filter(Boolean).join(" · ")}`,
+          ),
+        ].join("\n"),
+      )
+      .join("\n\n") || "You have no lessons this semester."
+
+  return [
+    `Hello ${teacher.name},`,
+    getIntro(snapshot, days, changes),
+    ...(changes ? [changes.map((change) => `- ${change}`).join("\n"), "Your weekly schedule is now:"] : []),
+    schedule,
+    `The attached calendar file adds these lessons to your calendar from ${semesterStart} to ${semesterEnd}.`,
+  ].join("\n\n")
+}
+
+function buildHtml(teacher: Teacher, snapshot: ScheduleSnapshot, days: ScheduleDay[], changes: string[] | null) {
+  const { semesterStart, semesterEnd } = snapshot.calendarSettings
+  const cell = 'style="padding:4px 12px 4px 0;text-align:left"'
+  const rows = days
+    .map(({ day, lines }) =>
+      [
+        `<tr><th colspan="4" style="padding:12px 0 4px;text-align:left">${escapeHtml(day)}</th></tr>`,
+        ...lines.map(
+          (line) =>
+            `<tr>${[line.time, line.subject, line.className, line.room].map((value) => `<td ${cell}>${escapeHtml(value)}</td>`).join("")}</tr>`,
+        ),
+      ].join(""),
+    )
+    .join("")
+
+  return [
+    `<p>Hello ${escapeHtml(teacher.name)},</p>`,
+    `<p>${escapeHtml(getIntro(snapshot, days, changes))}</p>`,
+    ...(changes
+      ? [
+          `<ul>${changes.map((change) => `<li>${escapeHtml(change)}</li>`).join("")}</ul>`,
+          "<p>Your weekly schedule is now:</p>",
+        ]
+      : []),
+    rows
+      ? `<table style="border-collapse:collapse;font-family:sans-serif;font-size:14px">${rows}</table>`
+      : "<p>You have no lessons this semester.</p>",
+    `<p>The attached calendar file adds these lessons to your calendar from ${escapeHtml(semesterStart)} to ${escapeHtml(semesterEnd)}.</p>`,
+  ].join("\n")
+}
+
+/**
+ * One pending email per teacher with their weekly schedule and an ICS attachment. When the entries
+ * of the previous version are given, only teachers whose lessons changed are emailed, and the email
+ * lists those changes. Teachers without an email address or without lessons are reported instead.
+ */
+export function buildScheduleMessages(snapshot: ScheduleSnapshot, createdAt = new Date()): ScheduleMessages {
+  const messages: NotificationMessage[] = []
+  const skipped: SkippedTeacher[] = []
+  let unchanged = 0
+  const changesByTeacher = snapshot.previousEntries
+    ? groupChanges(diffVersions(snapshot.previousEntries, snapshot.timetableEntries), "teacher")
+    : null
+
+  snapshot.teachers.forEach((teacher) => {
+    const entries = snapshot.timetableEntries.filter((entry) => entry.teacherId === teacher.id)
+    const changes = changesByTeacher
+      ? (changesByTeacher[teacher.id] || []).map((change) =>
+          describeLessonChange(change, snapshot, { className: true, teacherName: false }),
+        )
+      : null
+
+    if (changes && changes.length === 0) {
+      unchanged++
+      return
+    }
+    if (!teacher.email?.trim()) {
+      skipped.push({ teacherId: teacher.id, name: teacher.name, reason: "No email address" })
+      return
+    }
+    if (!changes && entries.length === 0) {
+      skipped.push({ teacherId: teacher.id, name: teacher.name, reason: "No lessons in the timetable" })
+      return
+    }
+
+    const days = getScheduleLines(snapshot, entries)
+    const calendar = generateICSCalendar({
+      name: `${teacher.name} Timetable`,
+      entries,
+      settings: snapshot.calendarSettings,
+      timeSlots: snapshot.timeSlots,
+      subjects: snapshot.subjects,
+      teachers: snapshot.teachers,
+      classSections: snapshot.classSections,
+      classrooms: snapshot.classrooms,
+      generatedAt: createdAt,
+    })
+
+    messages.push({
+      id: crypto.randomUUID(),
+      teacherId: teacher.id,
+      to: teacher.email.trim(),
+      subject: changes
+        ? `Timetable changes in version ${snapshot.versionNumber}`
+        : `Your timetable from ${snapshot.calendarSettings.semesterStart}`,
+      text: buildText(teacher, snapshot, days, changes),
+      html: buildHtml(teacher, snapshot, days, changes),
+      attachments: [
+        {
+          filename: `${toFileName(teacher.name)}-timetable.ics`,
+          contentType: "text/calendar; charset=utf-8; method=PUBLISH",
+          content: calendar,
+        },
+      ],
+      status: "pending",
+      attempts: 0,
+      createdAt: createdAt.toISOString(),
+    })
+  })
+
+  return { messages, skipped, unchanged }
+}
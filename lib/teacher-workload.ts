@@ -0,0 +1,145 @@
+import type { ClassSubjectTeacher, TeacherAssignmentConflict, TeacherWorkload } from "@/types/teacher-assignments"
+import type { ClassSection, GradeSubjectAllocation, Subject, Teacher, TimeSlot } from "@/types/timetable"
+import { getAvailableSlots } from "@/lib/teacher-availability"
+
+export interface TeacherWorkloadInput {
+  teachers: Teacher[]
+  assignments: ClassSubjectTeacher[]
+  allocations: GradeSubjectAllocation[]
+  classSections: ClassSection[]
+  subjects: Subject[]
+}
+
+export interface AssignmentValidationInput extends TeacherWorkloadInput {
+  timeSlots: TimeSlot[]
+  periodDuration: number // minutes
+}
+
+// Weekly hours of every active assignment, grouped by teacher and subject
+export function calculateTeacherWorkloads({
+  teachers,
+  assignments,
+  allocations,
+  classSections,
+  subjects,
+}: TeacherWorkloadInput): TeacherWorkload[] {
+  return teachers.map((teacher) => {
+    const teacherAssignments = assignments.filter((a) => a.teacherId === teacher.id && a.isActive)
+    const subjectWorkloads = new Map<string, { count: number; hours: number }>()
+    let totalWeeklyHours = 0
+
+    teacherAssignments.forEach((assignment) => {
+      const classSection = classSections.find((c) => c.id === assignment.classId)
+      if (classSection) {
+        const allocation = allocations.find(
+          (a) => a.gradeId === classSection.gradeId && a.subjectId === assignment.subjectId,
+        )
+        if (allocation) {
+          const current = subjectWorkloads.get(assignment.subjectId) || { count: 0, hours: 0 }
+          subjectWorkloads.set(assignment.subjectId, {
+            count: current.count + 1,
+            hours: current.hours + allocation.weeklyHours,
+          })
+          totalWeeklyHours += allocation.weeklyHours
+        }
+      }
+    })
+
+    return {
+      teacherId: teacher.id,
+      teacherName: teacher.name,
+      totalClasses: teacherAssignments.length,
+      totalWeeklyHours,
+      weeklyHourLimit: teacher.weeklyHourLimit,
+      utilizationPercentage: Math.round((totalWeeklyHours / teacher.weeklyHourLimit) * 100),
+      subjects: Array.from(subjectWorkloads.entries()).map(([subjectId, data]) => ({
+        subjectId,
+        subjectName: subjects.find((s) => s.id === subjectId)?.name || "Unknown",
+        classCount: data.count,
+        estimatedWeeklyHours: data.hours,
+      })),
+    }
+  })
+}
+
+/**
+ * Checks a set of class/subject/teacher assignments: teacher qualifications, duplicate
+ * assignments for the same class and subject, availability windows and weekly hour limits.
+ */
+export function validateTeacherAssignments(input: AssignmentValidationInput): TeacherAssignmentConflict[] {
+  const { teachers, assignments, subjects, classSections, timeSlots, periodDuration } = input
+  const conflicts: TeacherAssignmentConflict[] = []
+  const activeAssignments = assignments.filter((a) => a.isActive)
+
+  activeAssignments.forEach((assignment) => {
+    const teacher = teachers.find((t) => t.id === assignment.teacherId)
+    if (teacher && !teacher.subjects.includes(assignment.subjectId)) {
+      const subject = subjects.find((s) => s.id === assignment.subjectId)
+      conflicts.push({
+        type: "teacher_subject_mismatch",
+        message: `${teacher.name} is not qualified to teach ${subject?.name}`,
+        severity: "error",
+        affectedAssignments: [assignment.id],
+        suggestions: [
+          `Assign a qualified teacher for ${subject?.name}`,
+          `Add ${subject?.name} to ${teacher.name}'s qualifications`,
+        ],
+      })
+    }
+  })
+
+  // A class can only have one active teacher per subject
+  const assignmentsByClassSubject = new Map<string, ClassSubjectTeacher[]>()
+  activeAssignments.forEach((assignment) => {
+    const key = `${assignment.classId}-${assignment.subjectId}`
+    assignmentsByClassSubject.set(key, [...(assignmentsByClassSubject.get(key) || []), assignment])
+  })
+  assignmentsByClassSubject.forEach((duplicates) => {
+    if (duplicates.length < 2) return
+    const classSection = classSections.find((c) => c.id === duplicates[0].classId)
+    const subject = subjects.find((s) => s.id === duplicates[0].subjectId)
+    conflicts.push({
+      type: "class_subject_duplicate",
+      message: `${classSection?.name || "Unknown class"} has ${duplicates.length} teachers assigned to ${subject?.name || "Unknown subject"}`,
+      severity: "error",
+      affectedAssignments: duplicates.map((a) => a.id),
+      suggestions: ["Deactivate all but one of these assignments"],
+    })
+  })
+
+  calculateTeacherWorkloads(input).forEach((workload) => {
+    // Compare the assigned hours with the periods the teacher can actually teach
+    const teacher = teachers.find((t) => t.id === workload.teacherId)
+    const availableHours = (getAvailableSlots(teacher, timeSlots).length * periodDuration) / 60
+    const affectedAssignments = activeAssignments.filter((a) => a.teacherId === workload.teacherId).map((a) => a.id)
+
+    if (teacher?.unavailableSlots?.length && workload.totalWeeklyHours > availableHours) {
+      conflicts.push({
+        type: "teacher_unavailable",
+        message: `${workload.teacherName} needs ${workload.totalWeeklyHours} hours but is only available for ${availableHours} hours per week`,
+        severity: "error",
+        affectedAssignments,
+        suggestions: [
+          "Reassign some classes to another qualified teacher",
+          `Review ${workload.teacherName}'s availability windows`,
+        ],
+      })
+    }
+
+    if (workload.utilizationPercentage > 100) {
+      conflicts.push({
+        type: "teacher_overcommitted",
+        message: `${workload.teacherName} is overcommitted: ${workload.totalWeeklyHours}/${workload.weeklyHourLimit} hours (${workload.utilizationPercentage}%)`,
+        severity: "warning",
+        affectedAssignments,
+        suggestions: [
+          "Redistribute some classes to other teachers",
+          "Increase teacher's weekly hour limit",
+          "Hire additional qualified teachers",
+        ],
+      })
+    }
+  })
+
+  return conflicts
+}
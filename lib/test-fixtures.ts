@@ -0,0 +1,22 @@
+import type { Classroom } from "@/types/classroom"
+
+// Records shared by the unit tests; every stored record gets the same fixed timestamps
+
+export const FIXED_TIMESTAMP = "2025-01-01T00:00:00.000Z"
+
+export const createClassroom = (id: string, fields: Partial<Classroom> = {}): Classroom => ({
+  id,
+  name: id,
+  code: id,
+  roomTypeId: "classroom",
+  capacity: 30,
+  floor: "1",
+  building: "Main",
+  features: [],
+  equipment: [],
+  isActive: true,
+  notes: "",
+  createdAt: FIXED_TIMESTAMP,
+  updatedAt: FIXED_TIMESTAMP,
+  ...fields,
+})
@@ -2,14 +2,14 @@ import type { Subject, Grade, ClassSection, Teacher, Room, TimeSlot, GradeSubjec
 import type { ClassSubjectTeacher } from "@/types/teacher-assignments"
 
 export const subjects: Subject[] = [
-  { id: "1", name: "Mathematics", code: "MATH", color: "#3b82f6" },
-  { id: "2", name: "English", code: "ENG", color: "#10b981" },
-  { id: "3", name: "Science", code: "SCI", color: "#f59e0b" },
-  { id: "4", name: "History", code: "HIST", color: "#8b5cf6" },
-  { id: "5", name: "Physical Education", code: "PE", color: "#ef4444" },
-  { id: "6", name: "Art", code: "ART", color: "#ec4899" },
-  { id: "7", name: "Music", code: "MUS", color: "#06b6d4" },
-  { id: "8", name: "Computer Science", code: "CS", color: "#84cc16" },
+  { id: "1", name: "Mathematics", code: "MATH", color: "#3b82f6", department: "Mathematics" },
+  { id: "2", name: "English", code: "ENG", color: "#10b981", department: "Languages" },
+  { id: "3", name: "Science", code: "SCI", color: "#f59e0b", department: "Sciences" },
+  { id: "4", name: "History", code: "HIST", color: "#8b5cf6", department: "Humanities" },
+  { id: "5", name: "Physical Education", code: "PE", color: "#ef4444", department: "Physical Education" },
+  { id: "6", name: "Art", code: "ART", color: "#ec4899", department: "Arts" },
+  { id: "7", name: "Music", code: "MUS", color: "#06b6d4", department: "Arts" },
+  { id: "8", name: "Computer Science", code: "CS", color: "#84cc16", department: "Sciences" },
 ]
 
 export const grades: Grade[] = [
@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest"
+import type { ClassSubjectTeacher, GradeSubjectAllocation, Teacher, TimetableEntry } from "@/types/timetable"
+import { buildTimeSlots } from "@/lib/period-config"
+import { generateTimetable, type TimetableGeneratorInput } from "@/lib/timetable-generator"
+import { FIXED_TIMESTAMP } from "@/lib/test-fixtures"
+
+const teacher = (id: string, fields: Partial<Teacher> = {}): Teacher => ({
+  id,
+  name: id,
+  email: "",
+  subjects: [],
+  weeklyHourLimit: 25,
+  currentWeeklyHours: 0,
+  ...fields,
+})
+
+const allocation = (subjectId: string, weeklyHours: number): GradeSubjectAllocation => ({
+  id: `g7-${subjectId}`,
+  gradeId: "g7",
+  subjectId,
+  weeklyHours,
+  semesterWeeks: 18,
+  totalHours: weeklyHours * 18,
+})
+
+const assignment = (classId: string, subjectId: string, teacherId: string): ClassSubjectTeacher => ({
+  id: `${classId}-${subjectId}`,
+  classId,
+  subjectId,
+  teacherId,
+  isActive: true,
+  createdAt: FIXED_TIMESTAMP,
+  updatedAt: FIXED_TIMESTAMP,
+})
+
+// A lesson of another subject that keeps the class and teacher busy
+const existing = (classId: string, teacherId: string, period: number): TimetableEntry => ({
+  id: `${classId}-${period}`,
+  classId,
+  teacherId,
+  subjectId: "art",
+  timeSlotId: `Monday-${period}`,
+  day: "Monday",
+  period,
+})
+
+// Monday only, 60-minute periods, so one weekly hour is one lesson
+const input = (overrides: Partial<TimetableGeneratorInput>): TimetableGeneratorInput => ({
+  allocations: [],
+  assignments: [],
+  timeSlots: buildTimeSlots([{ day: "Monday", periods: 3, startTime: "08:00", enabled: true }], 60, {}),
+  teachers: [teacher("t1"), teacher("t2")],
+  classSections: [{ id: "7A", name: "7A", gradeId: "g7", studentCount: 25 }],
+  periodDuration: 60,
+  ...overrides,
+})
+
+const slotsOf = (entries: TimetableEntry[], subjectId: string) =>
+  entries.filter((e) => e.subjectId === subjectId).map((e) => `${e.classId} ${e.day}-${e.period}`)
+
+describe("generateTimetable", () => {
+  it("places the lessons with the fewest free slots first", () => {
+    // Mathematics would take the first period, the only one the art teacher can teach in
+    const result = generateTimetable(
+      input({
+        allocations: [allocation("math", 1), allocation("art", 1)],
+        assignments: [assignment("7A", "math", "t1"), assignment("7A", "art", "t2")],
+        teachers: [teacher("t1"), teacher("t2", { unavailableSlots: [{ day: "Monday", period: 2 }] })],
+        timeSlots: buildTimeSlots([{ day: "Monday", periods: 2, startTime: "08:00", enabled: true }], 60, {}),
+      }),
+    )
+
+    expect(result.unplaced).toEqual([])
+    expect(result.placedCount).toBe(2)
+    expect(slotsOf(result.entries, "art")).toEqual(["7A Monday-1"])
+    expect(slotsOf(result.entries, "math")).toEqual(["7A Monday-2"])
+  })
+
+  it("keeps existing lessons and counts them towards the weekly hours", () => {
+    const kept = existing("7A", "t1", 1)
+    const result = generateTimetable(
+      input({
+        allocations: [allocation("art", 2)],
+        assignments: [assignment("7A", "art", "t1")],
+        existingEntries: [kept],
+      }),
+    )
+
+    expect(result.entries[0]).toBe(kept)
+    expect(result.placedCount).toBe(1)
+    expect(slotsOf(result.entries, "art")).toEqual(["7A Monday-1", "7A Monday-2"])
+  })
+
+  it("gives every placed lesson its own id", () => {
+    const result = generateTimetable(
+      input({ allocations: [allocation("math", 3)], assignments: [assignment("7A", "math", "t1")] }),
+    )
+
+    expect(new Set(result.entries.map((e) => e.id)).size).toBe(3)
+  })
+
+  it("stops at the teacher's weekly hour limit", () => {
+    const result = generateTimetable(
+      input({
+        allocations: [allocation("math", 3)],
+        assignments: [assignment("7A", "math", "t1")],
+        teachers: [teacher("t1", { weeklyHourLimit: 1 })],
+      }),
+    )
+
+    expect(result.placedCount).toBe(1)
+    expect(result.unplaced).toEqual([
+      { classId: "7A", subjectId: "math", teacherId: "t1", count: 2, reason: "Teacher weekly hour limit reached" },
+    ])
+  })
+
+  it("only places lessons when the teacher is available", () => {
+    const result = generateTimetable(
+      input({
+        allocations: [allocation("math", 3)],
+        assignments: [assignment("7A", "math", "t1")],
+        teachers: [teacher("t1", { unavailableSlots: [1, 3].map((period) => ({ day: "Monday", period })) })],
+      }),
+    )
+
+    expect(slotsOf(result.entries, "math")).toEqual(["7A Monday-2"])
+    expect(result.unplaced).toEqual([
+      {
+        classId: "7A",
+        subjectId: "math",
+        teacherId: "t1",
+        count: 2,
+        reason: "No free slot for both class and teacher",
+      },
+    ])
+  })
+
+  it("moves a placed lesson of the teacher to free a slot for another class", () => {
+    // 7A can use both periods, 8A only the first; both have the same teacher
+    const kept = existing("8A", "t2", 2)
+    const result = generateTimetable(
+      input({
+        allocations: [allocation("math", 2), { ...allocation("math", 1), id: "g8-math", gradeId: "g8" }],
+        assignments: [assignment("7A", "math", "t1"), assignment("8A", "math", "t1")],
+        classSections: [
+          { id: "7A", name: "7A", gradeId: "g7", studentCount: 25 },
+          { id: "8A", name: "8A", gradeId: "g8", studentCount: 25 },
+        ],
+        timeSlots: buildTimeSlots([{ day: "Monday", periods: 2, startTime: "08:00", enabled: true }], 60, {}),
+        existingEntries: [kept],
+      }),
+    )
+
+    // 7A took the first period first and was moved to the second for 8A
+    expect(slotsOf(result.entries, "math")).toEqual(["7A Monday-2", "8A Monday-1"])
+    expect(result.unplaced).toEqual([
+      {
+        classId: "7A",
+        subjectId: "math",
+        teacherId: "t1",
+        count: 1,
+        reason: "No free slot for both class and teacher",
+      },
+    ])
+  })
+
+  it("reports classes without a teacher for a subject", () => {
+    const result = generateTimetable(input({ allocations: [allocation("math", 2), allocation("art", 0)] }))
+
+    expect(result.entries).toEqual([])
+    expect(result.unplaced).toEqual([{ classId: "7A", subjectId: "math", count: 2, reason: "No teacher assigned" }])
+  })
+})
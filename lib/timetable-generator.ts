@@ -0,0 +1,232 @@
+import type {
+  ClassSection,
+  ClassSubjectTeacher,
+  GradeSubjectAllocation,
+  Teacher,
+  TimeSlot,
+  TimetableEntry,
+} from "@/types/timetable"
+import { isTeacherAvailable } from "@/lib/teacher-availability"
+
+export interface TimetableGeneratorInput {
+  allocations: GradeSubjectAllocation[]
+  assignments: ClassSubjectTeacher[]
+  timeSlots: TimeSlot[]
+  teachers: Teacher[]
+  classSections: ClassSection[]
+  periodDuration: number // minutes
+  existingEntries?: TimetableEntry[]
+}
+
+export interface UnplacedLesson {
+  classId: string
+  subjectId: string
+  teacherId?: string
+  count: number
+  reason: string
+}
+
+export interface TimetableGeneratorResult {
+  entries: TimetableEntry[]
+  placedCount: number
+  unplaced: UnplacedLesson[]
+}
+
+// A class/subject/teacher combination that still needs `remaining` lessons placed
+interface LessonGroup {
+  classId: string
+  subjectId: string
+  teacherId: string
+  remaining: number
+}
+
+const slotKey = (ownerId: string, day: string, period: number) => `${ownerId}|${day}|${period}`
+
+// Number of periods needed to cover a weekly hour allocation
+export const getLessonsPerWeek = (weeklyHours: number, periodDuration: number) =>
+  Math.ceil((weeklyHours * 60) / periodDuration)
+
+/**
+ * Fills the week with lessons for every class section.
+ *
+ * Lessons are placed group by group, always picking the group with the fewest free slots left
+ * (most constrained first). When a group has no free slot, one blocking lesson of the teacher
+ * is moved to another slot to make room. Existing entries are kept and counted towards the
+ * weekly hours, so the generator can also complete a partially built timetable.
+ */
+export function generateTimetable({
+  allocations,
+  assignments,
+  timeSlots,
+  teachers,
+  classSections,
+  periodDuration,
+  existingEntries = [],
+}: TimetableGeneratorInput): TimetableGeneratorResult {
+  const entries: TimetableEntry[] = [...existingEntries]
+  const unplaced: UnplacedLesson[] = []
+  const busy = new Set<string>()
+  const teacherLessons = new Map<string, number>()
+
+  entries.forEach((entry) => {
+    busy.add(slotKey(entry.classId, entry.day, entry.period))
+    busy.add(slotKey(entry.teacherId, entry.day, entry.period))
+    teacherLessons.set(entry.teacherId, (teacherLessons.get(entry.teacherId) || 0) + 1)
+  })
+
+  const teacherCapacity = (teacherId: string) => {
+    const teacher = teachers.find((t) => t.id === teacherId)
+    if (!teacher) return 0
+    return Math.floor((teacher.weeklyHourLimit * 60) / periodDuration) - (teacherLessons.get(teacherId) || 0)
+  }
+
+  // Collect the lessons still required by each class section
+  const groups: LessonGroup[] = []
+  classSections.forEach((classSection) => {
+    allocations
+      .filter((allocation) => allocation.gradeId === classSection.gradeId && allocation.weeklyHours > 0)
+      .forEach((allocation) => {
+        const required = getLessonsPerWeek(allocation.weeklyHours, periodDuration)
+        const scheduled = entries.filter(
+          (e) => e.classId === classSection.id && e.subjectId === allocation.subjectId,
+        ).length
+        const remaining = required - scheduled
+        if (remaining <= 0) return
+
+        const assignment = assignments.find(
+          (a) => a.classId === classSection.id && a.subjectId === allocation.subjectId && a.isActive,
+        )
+        if (!assignment) {
+          unplaced.push({
+            classId: classSection.id,
+            subjectId: allocation.subjectId,
+            count: remaining,
+            reason: "No teacher assigned",
+          })
+          return
+        }
+
+        groups.push({
+          classId: classSection.id,
+          subjectId: allocation.subjectId,
+          teacherId: assignment.teacherId,
+          remaining,
+        })
+      })
+  })
+
+  const isTeacherFree = (teacherId: string, slot: TimeSlot) =>
+    !busy.has(slotKey(teacherId, slot.day, slot.period)) &&
+    isTeacherAvailable(teachers.find((t) => t.id === teacherId), slot.day, slot.period)
+
+  const isFree = (group: LessonGroup, slot: TimeSlot) =>
+    !busy.has(slotKey(group.classId, slot.day, slot.period)) && isTeacherFree(group.teacherId, slot)
+
+  // Lower is better: spread a subject over the week and keep each class's days balanced
+  const slotCost = (group: LessonGroup, slot: TimeSlot) => {
+    const classDayEntries = entries.filter((e) => e.classId === group.classId && e.day === slot.day)
+    const sameSubjectToday = classDayEntries.filter((e) => e.subjectId === group.subjectId).length
+    return sameSubjectToday * 100 + classDayEntries.length * 10 + slot.period
+  }
+
+  const place = (group: LessonGroup, slot: TimeSlot) => {
+    entries.push({
+      id: crypto.randomUUID(),
+      classId: group.classId,
+      teacherId: group.teacherId,
+      subjectId: group.subjectId,
+      timeSlotId: slot.id,
+      day: slot.day,
+      period: slot.period,
+    })
+    busy.add(slotKey(group.classId, slot.day, slot.period))
+    busy.add(slotKey(group.teacherId, slot.day, slot.period))
+    teacherLessons.set(group.teacherId, (teacherLessons.get(group.teacherId) || 0) + 1)
+    group.remaining--
+  }
+
+  // Try to free `slot` for the group by moving the teacher's lesson there to another free slot
+  const repair = (group: LessonGroup, slot: TimeSlot) => {
+    if (busy.has(slotKey(group.classId, slot.day, slot.period))) return false
+    if (!isTeacherAvailable(teachers.find((t) => t.id === group.teacherId), slot.day, slot.period)) return false
+
+    const blockingIndex = entries.findIndex(
+      (e) =>
+        e.teacherId === group.teacherId &&
+        e.day === slot.day &&
+        e.period === slot.period &&
+        !existingEntries.includes(e),
+    )
+    if (blockingIndex === -1) return false
+    const blocking = entries[blockingIndex]
+
+    const target = timeSlots.find(
+      (ts) =>
+        ts.id !== slot.id &&
+        !busy.has(slotKey(blocking.classId, ts.day, ts.period)) &&
+        isTeacherFree(blocking.teacherId, ts),
+    )
+    if (!target) return false
+
+    busy.delete(slotKey(blocking.classId, blocking.day, blocking.period))
+    busy.delete(slotKey(blocking.teacherId, blocking.day, blocking.period))
+    entries[blockingIndex] = { ...blocking, day: target.day, period: target.period, timeSlotId: target.id }
+    busy.add(slotKey(blocking.classId, target.day, target.period))
+    busy.add(slotKey(blocking.teacherId, target.day, target.period))
+    return true
+  }
+
+  const pending = [...groups]
+
+  const giveUp = (index: number, reason: string) => {
+    const { classId, subjectId, teacherId, remaining } = pending[index]
+    unplaced.push({ classId, subjectId, teacherId, count: remaining, reason })
+    pending.splice(index, 1)
+  }
+
+  while (pending.length > 0) {
+    // Pick the most constrained group
+    let bestIndex = 0
+    let bestCandidates: TimeSlot[] = []
+    let bestScore = Number.POSITIVE_INFINITY
+    pending.forEach((group, index) => {
+      const candidates = timeSlots.filter((slot) => isFree(group, slot))
+      const score = candidates.length - group.remaining
+      if (score < bestScore) {
+        bestScore = score
+        bestIndex = index
+        bestCandidates = candidates
+      }
+    })
+
+    const group = pending[bestIndex]
+
+    if (teacherCapacity(group.teacherId) <= 0) {
+      giveUp(bestIndex, "Teacher weekly hour limit reached")
+      continue
+    }
+
+    if (bestCandidates.length > 0) {
+      const slot = [...bestCandidates].sort((a, b) => slotCost(group, a) - slotCost(group, b))[0]
+      place(group, slot)
+    } else {
+      const repairedSlot = timeSlots.find((slot) => repair(group, slot))
+      if (repairedSlot) {
+        place(group, repairedSlot)
+      } else {
+        giveUp(bestIndex, "No free slot for both class and teacher")
+        continue
+      }
+    }
+
+    if (group.remaining <= 0) {
+      pending.splice(bestIndex, 1)
+    }
+  }
+
+  return {
+    entries,
+    placedCount: entries.length - existingEntries.length,
+    unplaced,
+  }
+}
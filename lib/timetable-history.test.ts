@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest"
+import type { TimetableEntry } from "@/types/timetable"
+import { applyChanges, diffEntries, getCommandKind, invertChanges } from "@/lib/timetable-history"
+
+const entry = (id: string, fields: Partial<TimetableEntry> = {}): TimetableEntry => ({
+  id,
+  classId: "7A",
+  teacherId: "t1",
+  subjectId: "math",
+  timeSlotId: "Monday-1",
+  day: "Monday",
+  period: 1,
+  ...fields,
+})
+
+const moved = (original: TimetableEntry, day: string, period: number) => ({
+  ...original,
+  day,
+  period,
+  timeSlotId: `${day}-${period}`,
+})
+
+const a = entry("a")
+const b = entry("b", { classId: "7B", roomId: "r1" })
+const c = entry("c", { day: "Tuesday", period: 2, timeSlotId: "Tuesday-2" })
+
+describe("diffEntries", () => {
+  it("finds added, removed and changed entries by id", () => {
+    const next = [moved(a, "Monday", 3), c]
+
+    expect(diffEntries([a, b], next)).toEqual([
+      { before: a, after: next[0] },
+      { before: b, after: null },
+      { before: null, after: c },
+    ])
+  })
+
+  it("finds nothing when the entries are the same in another order", () => {
+    expect(diffEntries([a, b], [b, { ...a }])).toEqual([])
+  })
+})
+
+describe("applyChanges", () => {
+  it("applies changes by id and leaves other entries alone", () => {
+    const changes = diffEntries([a, b], [moved(a, "Monday", 3), c])
+
+    // Another class was edited in the meantime
+    expect(applyChanges([a, b, entry("x")], changes)).toEqual([entry("x"), moved(a, "Monday", 3), c])
+  })
+})
+
+describe("invertChanges", () => {
+  it("undoes added and deleted entries", () => {
+    const changes = diffEntries([a, b], [a, c])
+    const after = applyChanges([a, b], changes)
+
+    expect(after).toEqual([a, c])
+    expect(applyChanges(after, invertChanges(changes))).toEqual([a, b])
+  })
+
+  it("redoes a step after it was undone", () => {
+    const changes = diffEntries([a, b], [moved(a, "Friday", 1), b])
+    const done = applyChanges([a, b], changes)
+    const undone = applyChanges(done, invertChanges(changes))
+    const redone = applyChanges(undone, changes)
+
+    expect(undone).toEqual([b, a])
+    expect(redone).toEqual(done)
+    expect(applyChanges(redone, invertChanges(changes))).toEqual(undone)
+  })
+
+  it("undoes the changes of a step in reverse order", () => {
+    // The same entry is moved twice within one step
+    const step = [
+      { before: a, after: moved(a, "Monday", 2) },
+      { before: moved(a, "Monday", 2), after: moved(a, "Monday", 3) },
+    ]
+
+    expect(invertChanges(step)).toEqual([
+      { before: moved(a, "Monday", 3), after: moved(a, "Monday", 2) },
+      { before: moved(a, "Monday", 2), after: a },
+    ])
+    expect(applyChanges(applyChanges([a], step), invertChanges(step))).toEqual([a])
+  })
+})
+
+describe("getCommandKind", () => {
+  it("names single adds, removals, moves and room changes", () => {
+    expect(getCommandKind([{ before: null, after: a }])).toBe("add")
+    expect(getCommandKind([{ before: a, after: null }])).toBe("remove")
+    expect(getCommandKind([{ before: a, after: moved(a, "Tuesday", 1) }])).toBe("move")
+    expect(getCommandKind([{ before: b, after: { ...b, roomId: "r2" } }])).toBe("room")
+  })
+
+  it("counts a swap of two lessons as a move and anything larger or mixed as bulk", () => {
+    const swap = [
+      { before: a, after: moved(a, "Tuesday", 2) },
+      { before: c, after: moved(c, "Monday", 1) },
+    ]
+
+    expect(getCommandKind(swap)).toBe("move")
+    expect(getCommandKind([...swap, { before: b, after: moved(b, "Friday", 1) }])).toBe("bulk")
+    expect(
+      getCommandKind([
+        { before: null, after: a },
+        { before: null, after: b },
+      ]),
+    ).toBe("bulk")
+    expect(
+      getCommandKind([
+        { before: null, after: a },
+        { before: b, after: null },
+      ]),
+    ).toBe("bulk")
+    expect(
+      getCommandKind([
+        { before: b, after: { ...b, roomId: "r2" } },
+        { before: a, after: { ...a, roomId: "r1" } },
+      ]),
+    ).toBe("bulk")
+  })
+})
@@ -0,0 +1,78 @@
+import type { TimetableEntry } from "@/types/timetable"
+
+// One entry before and after a change: `before` is null for an added lesson, `after` for a removed one
+export interface EntryChange {
+  before: TimetableEntry | null
+  after: TimetableEntry | null
+}
+
+export type HistoryCommandKind = "add" | "remove" | "move" | "room" | "bulk"
+
+// A single undoable step; bulk operations (auto-generate, room assignment) are one command
+export interface HistoryCommand {
+  id: string
+  label: string
+  kind: HistoryCommandKind
+  changes: EntryChange[]
+  createdAt: string
+}
+
+const isMove = ({ before, after }: EntryChange) =>
+  !!before && !!after && (before.day !== after.day || before.period !== after.period)
+
+export function getCommandKind(changes: EntryChange[]): HistoryCommandKind {
+  if (changes.every((c) => !c.before && c.after)) return changes.length === 1 ? "add" : "bulk"
+  if (changes.every((c) => c.before && !c.after)) return changes.length === 1 ? "remove" : "bulk"
+  if (changes.length <= 2 && changes.every(isMove)) return "move"
+  if (changes.every((c) => c.before && c.after && !isMove(c))) return changes.length === 1 ? "room" : "bulk"
+  return "bulk"
+}
+
+export function createCommand(label: string, changes: EntryChange[]): HistoryCommand {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    label,
+    kind: getCommandKind(changes),
+    changes,
+    createdAt: new Date().toISOString(),
+  }
+}
+
+// Changes that turn `previous` into `next`, matching entries by id
+export function diffEntries(previous: TimetableEntry[], next: TimetableEntry[]): EntryChange[] {
+  const previousById = new Map(previous.map((entry) => [entry.id, entry]))
+  const nextById = new Map(next.map((entry) => [entry.id, entry]))
+  const changes: EntryChange[] = []
+
+  previous.forEach((entry) => {
+    const updated = nextById.get(entry.id)
+    if (!updated) {
+      changes.push({ before: entry, after: null })
+    } else if (JSON.stringify(updated) !== JSON.stringify(entry)) {
+      changes.push({ before: entry, after: updated })
+    }
+  })
+  next.forEach((entry) => {
+    if (!previousById.has(entry.id)) changes.push({ before: null, after: entry })
+  })
+
+  return changes
+}
+
+/**
+ * Applies changes by entry id rather than replacing the whole list, so a step can still be undone
+ * after unrelated edits (e.g. another class was cleared on the /classes page).
+ */
+export function applyChanges(entries: TimetableEntry[], changes: EntryChange[]): TimetableEntry[] {
+  let result = entries
+
+  changes.forEach(({ before, after }) => {
+    if (before) result = result.filter((entry) => entry.id !== before.id)
+    if (after) result = [...result.filter((entry) => entry.id !== after.id), after]
+  })
+
+  return result
+}
+
+export const invertChanges = (changes: EntryChange[]): EntryChange[] =>
+  [...changes].reverse().map(({ before, after }) => ({ before: after, after: before }))
@@ -0,0 +1,346 @@
+import jsPDF from "jspdf"
+import type { ClassSection, Subject, Teacher, TimeSlot, TimetableEntry } from "@/types/timetable"
+import type { Classroom } from "@/types/classroom"
+import { findTimeSlot, getScheduleDays, getSchedulePeriods } from "@/lib/period-config"
+
+export type PdfEntityScope = "class" | "teacher" | "room"
+
+// One timetable page: the lessons of a class, a teacher or a room
+export interface TimetablePdfPage {
+  scope: PdfEntityScope
+  entityId: string
+}
+
+export interface TimetablePdfData {
+  entries: TimetableEntry[]
+  timeSlots: TimeSlot[]
+  subjects: Subject[]
+  teachers: Teacher[]
+  classSections: ClassSection[]
+  classrooms: Classroom[]
+}
+
+export interface TimetablePdfOptions {
+  title: string
+  pages: TimetablePdfPage[]
+  orientation: "portrait" | "landscape"
+  // Days as rows and periods as columns, like the vertical layout of the grid
+  isVerticalLayout: boolean
+  includeRooms: boolean
+  includeCover: boolean
+  generatedAt?: Date
+}
+
+type RGB = [number, number, number]
+
+const MARGIN = 12
+const HEADER_HEIGHT = 18
+const FOOTER_HEIGHT = 8
+const TABLE_HEADER_HEIGHT = 10
+const FIRST_COLUMN_WIDTH = 24
+const MAX_ROW_HEIGHT = 26
+const LEGEND_ITEM_HEIGHT = 5
+const PT_TO_MM = 0.3528
+
+const BORDER_COLOR: RGB = [180, 180, 180]
+const HEADER_FILL: RGB = [229, 231, 235]
+const LABEL_FILL: RGB = [243, 244, 246]
+const UNAVAILABLE_FILL: RGB = [250, 250, 250]
+const TEXT_COLOR: RGB = [17, 24, 39]
+const MUTED_TEXT_COLOR: RGB = [107, 114, 128]
+
+const SCOPE_LABELS: Record<PdfEntityScope, string> = { class: "Class", teacher: "Teacher", room: "Room" }
+
+const hexToRgb = (hex: string): RGB => {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex)
+  return result
+    ? [Number.parseInt(result[1], 16), Number.parseInt(result[2], 16), Number.parseInt(result[3], 16)]
+    : [156, 163, 175]
+}
+
+// Dark text on light subject colors, white text on dark ones
+const getContrastColor = ([r, g, b]: RGB): RGB =>
+  0.299 * r + 0.587 * g + 0.114 * b > 160 ? TEXT_COLOR : [255, 255, 255]
+
+export function getPdfEntityName(data: TimetablePdfData, { scope, entityId }: TimetablePdfPage) {
+  if (scope === "class") return data.classSections.find((c) => c.id === entityId)?.name || "Unknown Class"
+  if (scope === "teacher") return data.teachers.find((t) => t.id === entityId)?.name || "Unknown Teacher"
+  return data.classrooms.find((r) => r.id === entityId)?.name || "Unknown Room"
+}
+
+const getPageEntries = (data: TimetablePdfData, { scope, entityId }: TimetablePdfPage) =>
+  data.entries.filter((entry) => {
+    if (scope === "class") return entry.classId === entityId
+    if (scope === "teacher") return entry.teacherId === entityId
+    return entry.roomId === entityId
+  })
+
+// Time range of a period when it is the same every day, otherwise empty
+const getPeriodTimeRange = (timeSlots: TimeSlot[], period: number) => {
+  const slots = timeSlots.filter((ts) => ts.period === period)
+  if (slots.length === 0) return ""
+  const [first] = slots
+  const isUniform = slots.every((ts) => ts.startTime === first.startTime && ts.endTime === first.endTime)
+  return isUniform ? `${first.startTime}-${first.endTime}` : ""
+}
+
+// Truncates text with an ellipsis so it fits on one line of `width` mm
+function fitText(pdf: jsPDF, text: string, width: number) {
+  if (pdf.getTextWidth(text) <= width) return text
+  let fitted = text
+  while (fitted.length > 1 && pdf.getTextWidth(`${fitted}…`) > width) {
+    fitted = fitted.slice(0, -1)
+  }
+  return `${fitted}…`
+}
+
+// Lines shown in a lesson cell; the entity the page is about is left out
+function getCellLines(
+  data: TimetablePdfData,
+  page: TimetablePdfPage,
+  entries: TimetableEntry[],
+  includeRooms: boolean,
+) {
+  const [entry] = entries
+  const lines = [data.subjects.find((s) => s.id === entry.subjectId)?.name || "Unknown"]
+  if (page.scope !== "teacher") lines.push(data.teachers.find((t) => t.id === entry.teacherId)?.name || "Unknown")
+  if (page.scope !== "class") {
+    const className = data.classSections.find((c) => c.id === entry.classId)?.name
+    if (className) lines.push(className)
+  }
+  if (includeRooms && page.scope !== "room" && entry.roomId) {
+    const room = data.classrooms.find((r) => r.id === entry.roomId)
+    if (room) lines.push(room.name)
+  }
+  if (entries.length > 1) lines.push(`+${entries.length - 1} more`)
+  return lines
+}
+
+// Lays out the legend in rows that wrap at the page width; returns its height
+function drawLegend(pdf: jsPDF, subjects: Subject[], x: number, y: number, width: number, draw = true) {
+  if (subjects.length === 0) return 0
+
+  pdf.setFont("helvetica", "bold")
+  pdf.setFontSize(8)
+  if (draw) {
+    pdf.setTextColor(...TEXT_COLOR)
+    pdf.text("Subjects", x, y + 3)
+  }
+
+  pdf.setFont("helvetica", "normal")
+  let itemX = x
+  let itemY = y + LEGEND_ITEM_HEIGHT
+  subjects.forEach((subject) => {
+    const itemWidth = 4 + 1.5 + pdf.getTextWidth(subject.name) + 5
+    if (itemX + itemWidth > x + width && itemX > x) {
+      itemX = x
+      itemY += LEGEND_ITEM_HEIGHT
+    }
+    if (draw) {
+      pdf.setFillColor(...hexToRgb(subject.color))
+      pdf.rect(itemX, itemY, 4, 3, "F")
+      pdf.setTextColor(...TEXT_COLOR)
+      pdf.text(subject.name, itemX + 5.5, itemY + 2.6)
+    }
+    itemX += itemWidth
+  })
+
+  return itemY + LEGEND_ITEM_HEIGHT - y
+}
+
+function drawTimetablePage(
+  pdf: jsPDF,
+  data: TimetablePdfData,
+  page: TimetablePdfPage,
+  legendSubjects: Subject[],
+  options: TimetablePdfOptions,
+) {
+  const pageWidth = pdf.internal.pageSize.getWidth()
+  const pageHeight = pdf.internal.pageSize.getHeight()
+  const contentWidth = pageWidth - 2 * MARGIN
+  const generatedAt = options.generatedAt ?? new Date()
+
+  pdf.setFont("helvetica", "bold")
+  pdf.setFontSize(16)
+  pdf.setTextColor(...TEXT_COLOR)
+  pdf.text(getPdfEntityName(data, page), MARGIN, MARGIN + 6)
+  pdf.setFont("helvetica", "normal")
+  pdf.setFontSize(9)
+  pdf.setTextColor(...MUTED_TEXT_COLOR)
+  pdf.text(`${SCOPE_LABELS[page.scope]} timetable · ${options.title}`, MARGIN, MARGIN + 12)
+  pdf.text(`Generated on ${generatedAt.toLocaleDateString()}`, pageWidth - MARGIN, MARGIN + 12, { align: "right" })
+
+  const days = getScheduleDays(data.timeSlots)
+  const periods = getSchedulePeriods(data.timeSlots)
+  const entries = getPageEntries(data, page)
+  const rowLabels = options.isVerticalLayout
+    ? days.map((day) => [day])
+    : periods.map((p) => [`P${p}`, getPeriodTimeRange(data.timeSlots, p)])
+  const columnLabels = options.isVerticalLayout
+    ? periods.map((p) => [`P${p}`, getPeriodTimeRange(data.timeSlots, p)])
+    : days.map((day) => [day])
+  const getSlot = (row: number, column: number) =>
+    options.isVerticalLayout ? { day: days[row], period: periods[column] } : { day: days[column], period: periods[row] }
+
+  const legendHeight = drawLegend(pdf, legendSubjects, MARGIN, 0, contentWidth, false)
+  const tableTop = MARGIN + HEADER_HEIGHT
+  const availableHeight = pageHeight - tableTop - MARGIN - FOOTER_HEIGHT - legendHeight - 4
+  const rowHeight = Math.min(MAX_ROW_HEIGHT, (availableHeight - TABLE_HEADER_HEIGHT) / Math.max(rowLabels.length, 1))
+  const columnWidth = (contentWidth - FIRST_COLUMN_WIDTH) / Math.max(columnLabels.length, 1)
+  const fontSize = rowHeight < 12 || columnWidth < 22 ? 6.5 : 8
+  const lineHeight = fontSize * PT_TO_MM * 1.25
+  const padding = 1.5
+
+  const drawCellText = (lines: string[], x: number, y: number, width: number, height: number, bold = false) => {
+    pdf.setFontSize(fontSize)
+    const maxLines = Math.max(1, Math.floor((height - padding) / lineHeight))
+    lines.slice(0, maxLines).forEach((line, index) => {
+      pdf.setFont("helvetica", bold || index === 0 ? "bold" : "normal")
+      pdf.text(fitText(pdf, line, width - 2 * padding), x + padding, y + padding + lineHeight * (index + 0.8))
+    })
+  }
+
+  // Column headers
+  pdf.setDrawColor(...BORDER_COLOR)
+  pdf.setFillColor(...HEADER_FILL)
+  pdf.rect(MARGIN, tableTop, contentWidth, TABLE_HEADER_HEIGHT, "FD")
+  pdf.setTextColor(...TEXT_COLOR)
+  drawCellText(
+    [options.isVerticalLayout ? "Day" : "Period"],
+    MARGIN,
+    tableTop,
+    FIRST_COLUMN_WIDTH,
+    TABLE_HEADER_HEIGHT,
+    true,
+  )
+  columnLabels.forEach((label, column) => {
+    const x = MARGIN + FIRST_COLUMN_WIDTH + column * columnWidth
+    pdf.rect(x, tableTop, columnWidth, TABLE_HEADER_HEIGHT)
+    drawCellText(label, x, tableTop, columnWidth, TABLE_HEADER_HEIGHT, true)
+  })
+
+  rowLabels.forEach((label, row) => {
+    const y = tableTop + TABLE_HEADER_HEIGHT + row * rowHeight
+    pdf.setFillColor(...LABEL_FILL)
+    pdf.rect(MARGIN, y, FIRST_COLUMN_WIDTH, rowHeight, "FD")
+    pdf.setTextColor(...TEXT_COLOR)
+    drawCellText(label, MARGIN, y, FIRST_COLUMN_WIDTH, rowHeight, true)
+
+    columnLabels.forEach((_, column) => {
+      const x = MARGIN + FIRST_COLUMN_WIDTH + column * columnWidth
+      const { day, period } = getSlot(row, column)
+      const slotEntries = entries.filter((e) => e.day === day && e.period === period)
+
+      if (slotEntries.length > 0) {
+        const color = hexToRgb(data.subjects.find((s) => s.id === slotEntries[0].subjectId)?.color || "")
+        pdf.setFillColor(...color)
+        pdf.rect(x, y, columnWidth, rowHeight, "FD")
+        pdf.setTextColor(...getContrastColor(color))
+        drawCellText(getCellLines(data, page, slotEntries, options.includeRooms), x, y, columnWidth, rowHeight)
+      } else if (!findTimeSlot(data.timeSlots, day, period)) {
+        // The period does not exist on that day
+        pdf.setFillColor(...UNAVAILABLE_FILL)
+        pdf.rect(x, y, columnWidth, rowHeight, "FD")
+        pdf.setTextColor(...MUTED_TEXT_COLOR)
+        pdf.setFontSize(fontSize)
+        pdf.text("—", x + columnWidth / 2, y + rowHeight / 2 + 1, { align: "center" })
+      } else {
+        pdf.rect(x, y, columnWidth, rowHeight)
+      }
+    })
+  })
+
+  const tableBottom = tableTop + TABLE_HEADER_HEIGHT + rowLabels.length * rowHeight
+  drawLegend(pdf, legendSubjects, MARGIN, tableBottom + 4, contentWidth)
+}
+
+// Cover page with the document title and a list of the timetables it contains
+function drawCover(pdf: jsPDF, data: TimetablePdfData, legendSubjects: Subject[], options: TimetablePdfOptions) {
+  const pageWidth = pdf.internal.pageSize.getWidth()
+  const pageHeight = pdf.internal.pageSize.getHeight()
+  const contentWidth = pageWidth - 2 * MARGIN
+  const generatedAt = options.generatedAt ?? new Date()
+
+  pdf.setFont("helvetica", "bold")
+  pdf.setFontSize(26)
+  pdf.setTextColor(...TEXT_COLOR)
+  pdf.text(options.title, pageWidth / 2, MARGIN + 30, { align: "center" })
+  pdf.setFont("helvetica", "normal")
+  pdf.setFontSize(11)
+  pdf.setTextColor(...MUTED_TEXT_COLOR)
+  pdf.text(
+    `${options.pages.length} timetable${options.pages.length === 1 ? "" : "s"} · Generated on ${generatedAt.toLocaleDateString()}`,
+    pageWidth / 2,
+    MARGIN + 40,
+    { align: "center" },
+  )
+
+  const legendHeight = drawLegend(pdf, legendSubjects, MARGIN, 0, contentWidth, false)
+  const listTop = MARGIN + 56
+  const rowHeight = 5.5
+  const columnCount = 2
+  const columnWidth = contentWidth / columnCount
+  const listBottom = pageHeight - MARGIN - FOOTER_HEIGHT - legendHeight - 6
+  const rowsPerColumn = Math.max(1, Math.floor((listBottom - listTop - 8) / rowHeight))
+  const capacity = rowsPerColumn * columnCount
+
+  pdf.setFont("helvetica", "bold")
+  pdf.setFontSize(11)
+  pdf.setTextColor(...TEXT_COLOR)
+  pdf.text("Contents", MARGIN, listTop)
+
+  pdf.setFontSize(9)
+  options.pages.slice(0, capacity).forEach((page, index) => {
+    const x = MARGIN + Math.floor(index / rowsPerColumn) * columnWidth
+    const y = listTop + 8 + (index % rowsPerColumn) * rowHeight
+    pdf.setFont("helvetica", "normal")
+    pdf.setTextColor(...TEXT_COLOR)
+    pdf.text(fitText(pdf, getPdfEntityName(data, page), columnWidth - 20), x, y)
+    pdf.setTextColor(...MUTED_TEXT_COLOR)
+    // The cover is page 1, so the timetables start on page 2
+    pdf.text(String(index + 2), x + columnWidth - 6, y, { align: "right" })
+  })
+  if (options.pages.length > capacity) {
+    pdf.setTextColor(...MUTED_TEXT_COLOR)
+    pdf.text(`…and ${options.pages.length - capacity} more`, MARGIN, listTop + 8 + rowsPerColumn * rowHeight)
+  }
+
+  drawLegend(pdf, legendSubjects, MARGIN, listBottom + 2, contentWidth)
+}
+
+function drawFooters(pdf: jsPDF) {
+  const pageCount = pdf.getNumberOfPages()
+  for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+    pdf.setPage(pageNumber)
+    const pageWidth = pdf.internal.pageSize.getWidth()
+    const pageHeight = pdf.internal.pageSize.getHeight()
+    pdf.setFont("helvetica", "normal")
+    pdf.setFontSize(8)
+    pdf.setTextColor(...MUTED_TEXT_COLOR)
+    pdf.text("Generated by Timetable Builder", MARGIN, pageHeight - MARGIN / 2)
+    pdf.text(`Page ${pageNumber} of ${pageCount}`, pageWidth - MARGIN, pageHeight - MARGIN / 2, { align: "right" })
+  }
+}
+
+/**
+ * Draws timetables as vector tables, one page per class, teacher or room, so text stays sharp and
+ * selectable. Every page shares the same legend: the subjects taught anywhere in the document.
+ */
+export function createTimetablePDF(data: TimetablePdfData, options: TimetablePdfOptions): jsPDF {
+  const pdf = new jsPDF({ orientation: options.orientation, unit: "mm", format: "a4" })
+  pdf.setProperties({ title: options.title, creator: "Timetable Builder" })
+
+  const usedSubjectIds = new Set(options.pages.flatMap((page) => getPageEntries(data, page).map((e) => e.subjectId)))
+  const legendSubjects = data.subjects.filter((subject) => usedSubjectIds.has(subject.id))
+
+  if (options.includeCover) {
+    drawCover(pdf, data, legendSubjects, options)
+  }
+  options.pages.forEach((page, index) => {
+    if (options.includeCover || index > 0) pdf.addPage()
+    drawTimetablePage(pdf, data, page, legendSubjects, options)
+  })
+  drawFooters(pdf)
+
+  return pdf
+}
@@ -0,0 +1,197 @@
+import { describe, expect, it } from "vitest"
+import type { Teacher, TimetableEntry } from "@/types/timetable"
+import { buildTimeSlots } from "@/lib/period-config"
+import {
+  parseCSV,
+  parseTimetableRows,
+  toCSV,
+  toSpreadsheetRows,
+  type SpreadsheetData,
+} from "@/lib/timetable-spreadsheet"
+import { createClassroom } from "@/lib/test-fixtures"
+
+const teacher = (id: string, name: string, subjects: string[]): Teacher => ({
+  id,
+  name,
+  email: `${id}@school.test`,
+  subjects,
+  weeklyHourLimit: 25,
+  currentWeeklyHours: 0,
+})
+
+const room = createClassroom("r1", { name: "Lab 1", code: "L1", roomTypeId: "lab" })
+
+const data: SpreadsheetData = {
+  timeSlots: buildTimeSlots(
+    ["Monday", "Tuesday"].map((day) => ({ day, periods: 2, startTime: "08:00", enabled: true })),
+    45,
+    {},
+  ),
+  subjects: [
+    { id: "math", name: "Mathematics", code: "MAT", color: "#fff" },
+    { id: "chem", name: "Chemistry", code: "CHE", color: "#fff" },
+  ],
+  teachers: [teacher("t1", "Ms. Lee", ["math"]), teacher("t2", "Mr. Diaz", ["chem"])],
+  grades: [{ id: "g7", name: "Grade 7", level: 7 }],
+  classSections: [
+    { id: "7A", name: "7A", gradeId: "g7", studentCount: 25 },
+    { id: "7B", name: "7B", gradeId: "g7", studentCount: 25 },
+  ],
+  classrooms: [room],
+}
+
+const header = ["Day", "Period", "Class", "Subject", "Teacher", "Room"]
+
+const entry = (fields: Partial<TimetableEntry>): TimetableEntry => ({
+  id: "e1",
+  classId: "7A",
+  teacherId: "t1",
+  subjectId: "math",
+  timeSlotId: "Monday-1",
+  day: "Monday",
+  period: 1,
+  ...fields,
+})
+
+describe("parseCSV", () => {
+  it("reads quoted fields with commas, doubled quotes and line breaks", () => {
+    expect(parseCSV('Name,Note\r\n"Lee, Ana","Says ""hi""\nagain"\r\nDiaz,')).toEqual([
+      ["Name", "Note"],
+      ["Lee, Ana", 'Says "hi"\nagain'],
+      ["Diaz", ""],
+    ])
+  })
+
+  it("ignores the byte order mark and a trailing line break", () => {
+    expect(parseCSV("\uFEFFa,b\nc,d\n")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ])
+  })
+
+  it("reads back what toCSV writes", () => {
+    const rows = [
+      ["Day", "Class"],
+      ["Monday", 'The "A" class, first floor'],
+    ]
+
+    expect(parseCSV(toCSV(rows))).toEqual(rows)
+  })
+})
+
+describe("toCSV", () => {
+  it("prefixes cells that spreadsheets would run as formulas with an apostrophe", () => {
+    expect(toCSV([['=HYPERLINK("x")', "+1", "-1", "@SUM(A1)", "a=b"]])).toBe(
+      '"\'=HYPERLINK(""x"")",\'+1,\'-1,\'@SUM(A1),a=b\r\n',
+    )
+  })
+
+  it("treats cells starting with a tab or carriage return as formulas too", () => {
+    expect(toCSV([["\t=1", "\r=1"]])).toBe("'\t=1,\"'\r=1\"\r\n")
+  })
+})
+
+describe("parseTimetableRows", () => {
+  it("reads rows by name, code, email or id into entries on the configured time slots", () => {
+    const result = parseTimetableRows(
+      [header, ["monday", "P2", "7a", "MAT", "t1@school.test", "L1"], ["Tuesday", "1", "7B", "Chemistry", "t2", ""]],
+      data,
+      [],
+    )
+
+    expect(result.errors).toEqual([])
+    expect(result.rowCount).toBe(2)
+    expect(result.classIds).toEqual(["7A", "7B"])
+    expect(result.entries).toMatchObject([
+      {
+        classId: "7A",
+        subjectId: "math",
+        teacherId: "t1",
+        roomId: "r1",
+        day: "Monday",
+        period: 2,
+        timeSlotId: "Monday-2",
+      },
+      { classId: "7B", subjectId: "chem", teacherId: "t2", roomId: undefined, day: "Tuesday", period: 1 },
+    ])
+  })
+
+  it("reports missing columns on the header row", () => {
+    expect(parseTimetableRows([["Day", "Class"]], data, []).errors).toEqual([
+      { row: 1, message: "Missing columns: Period, Subject, Teacher" },
+    ])
+  })
+
+  it("reports every problem of a row and leaves the row out", () => {
+    const result = parseTimetableRows(
+      [header, ["Funday", "0", "9Z", "Art", "Nobody", "Attic"], ["Monday", "5", "7A", "Chemistry", "Ms. Lee", ""], []],
+      data,
+      [],
+    )
+
+    expect(result.entries).toEqual([])
+    expect(result.errors).toEqual([
+      { row: 2, message: 'Unknown day "Funday"' },
+      { row: 2, message: 'Invalid period "0"' },
+      { row: 2, message: 'Unknown class "9Z"' },
+      { row: 2, message: 'Unknown subject "Art"' },
+      { row: 2, message: 'Unknown teacher "Nobody"' },
+      { row: 2, message: 'Unknown room "Attic"' },
+      { row: 3, message: "Monday has no period 5" },
+      { row: 3, message: "Ms. Lee is not qualified to teach Chemistry" },
+    ])
+  })
+
+  it("rejects double bookings within the sheet and with lessons of classes it does not replace", () => {
+    const kept = entry({ id: "kept", classId: "7B", teacherId: "t2", subjectId: "chem", roomId: "r1" })
+    const replaced = entry({ id: "replaced", day: "Tuesday", period: 2, timeSlotId: "Tuesday-2" })
+    const result = parseTimetableRows(
+      [
+        header,
+        ["Monday", "1", "7A", "Mathematics", "Ms. Lee", "Lab 1"],
+        ["Monday", "2", "7A", "Mathematics", "Ms. Lee", ""],
+        ["Monday", "2", "7A", "Mathematics", "Ms. Lee", ""],
+        ["Tuesday", "2", "7A", "Mathematics", "Ms. Lee", ""],
+      ],
+      data,
+      [kept, replaced],
+    )
+
+    expect(result.entries.map((e) => `${e.day}-${e.period}`)).toEqual(["Monday-2", "Tuesday-2"])
+    expect(result.errors).toEqual([
+      { row: 2, message: "The room is already booked on Monday period 1 by an existing lesson" },
+      { row: 4, message: "The class is already booked on Monday period 2 by row 3" },
+    ])
+  })
+
+  it("only replaces the lessons of classes with accepted rows", () => {
+    const result = parseTimetableRows(
+      [
+        header,
+        ["Monday", "1", "7A", "Chemistry", "Mr. Diaz", ""],
+        ["Tuesday", "1", "7B", "Mathematics", "Ms. Lee", ""],
+      ],
+      data,
+      [
+        entry({ id: "other", classId: "8A", teacherId: "t2", subjectId: "chem" }),
+        entry({ id: "kept", day: "Tuesday", timeSlotId: "Tuesday-1" }),
+      ],
+    )
+
+    // Row 2 clashes with 8A, so 7A keeps its lesson, which then clashes with row 3
+    expect(result.classIds).toEqual([])
+    expect(result.entries).toEqual([])
+    expect(result.errors).toEqual([
+      { row: 2, message: "The teacher is already booked on Monday period 1 by an existing lesson" },
+      { row: 3, message: "The teacher is already booked on Tuesday period 1 by an existing lesson" },
+    ])
+  })
+
+  it("reads back names exported with the formula guard", () => {
+    const formulaData = { ...data, classSections: [{ id: "c1", name: "=7A", gradeId: "g7", studentCount: 25 }] }
+    const rows = parseCSV(toCSV(toSpreadsheetRows([entry({ classId: "c1" })], formulaData)))
+
+    expect(rows[1][4]).toBe("'=7A")
+    expect(parseTimetableRows(rows, formulaData, []).entries).toMatchObject([{ classId: "c1" }])
+  })
+})
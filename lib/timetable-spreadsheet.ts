@@ -0,0 +1,341 @@
+import type { ClassSection, Grade, Subject, Teacher, TimeSlot, TimetableEntry } from "@/types/timetable"
+import type { Classroom } from "@/types/classroom"
+import { WEEK_DAYS, findTimeSlot, getScheduleDays, getSchedulePeriods } from "@/lib/period-config"
+
+export const SPREADSHEET_COLUMNS = ["Day", "Period", "Start", "End", "Class", "Subject", "Teacher", "Room"] as const
+// Start and End are derived from the period configuration and ignored on import
+const REQUIRED_COLUMNS = ["Day", "Period", "Class", "Subject", "Teacher"]
+const FLAT_SHEET_NAME = "Timetable"
+
+export interface SpreadsheetData {
+  timeSlots: TimeSlot[]
+  subjects: Subject[]
+  teachers: Teacher[]
+  grades: Grade[]
+  classSections: ClassSection[]
+  classrooms: Classroom[]
+}
+
+export interface SpreadsheetRowError {
+  row: number // 1-based, as shown by spreadsheet programs; the header is row 1
+  message: string
+}
+
+export interface SpreadsheetImportResult {
+  entries: TimetableEntry[]
+  // Classes with accepted rows in the sheet; their existing lessons are replaced by the import
+  classIds: string[]
+  errors: SpreadsheetRowError[]
+  rowCount: number
+}
+
+const normalize = (value: string) => value.trim().toLowerCase()
+
+// One row per lesson, ordered by class, then day, then period
+export function toSpreadsheetRows(entries: TimetableEntry[], data: SpreadsheetData): string[][] {
+  const classOrder = new Map(data.classSections.map((c, index) => [c.id, index]))
+  const sorted = [...entries].sort(
+    (a, b) =>
+      (classOrder.get(a.classId) ?? Infinity) - (classOrder.get(b.classId) ?? Infinity) ||
+      WEEK_DAYS.indexOf(a.day) - WEEK_DAYS.indexOf(b.day) ||
+      a.period - b.period,
+  )
+
+  return [
+    [...SPREADSHEET_COLUMNS],
+    ...sorted.map((entry) => {
+      const timeSlot = findTimeSlot(data.timeSlots, entry.day, entry.period)
+      return [
+        entry.day,
+        String(entry.period),
+        timeSlot?.startTime || "",
+        timeSlot?.endTime || "",
+        data.classSections.find((c) => c.id === entry.classId)?.name || "",
+        data.subjects.find((s) => s.id === entry.subjectId)?.name || "",
+        data.teachers.find((t) => t.id === entry.teacherId)?.name || "",
+        data.classrooms.find((r) => r.id === entry.roomId)?.name || "",
+      ]
+    }),
+  ]
+}
+
+// A class timetable shaped like the grid: days down the side, periods across the top
+export function toClassGridRows(classId: string, entries: TimetableEntry[], data: SpreadsheetData): string[][] {
+  const days = getScheduleDays(data.timeSlots)
+  const periods = getSchedulePeriods(data.timeSlots)
+
+  return [
+    ["Day", ...periods.map((p) => `P${p}`)],
+    ...days.map((day) => [
+      day,
+      ...periods.map((period) => {
+        const entry = entries.find((e) => e.classId === classId && e.day === day && e.period === period)
+        if (!entry) return findTimeSlot(data.timeSlots, day, period) ? "" : "—"
+        const subject = data.subjects.find((s) => s.id === entry.subjectId)?.name || "Unknown"
+        const teacher = data.teachers.find((t) => t.id === entry.teacherId)?.name || "Unknown"
+        const room = data.classrooms.find((r) => r.id === entry.roomId)?.name
+        return [subject, teacher, room].filter(Boolean).join("\n")
+      }),
+    ]),
+  ]
+}
+
+// Excel runs a cell starting with one of these as a formula; a leading apostrophe keeps user-entered names as text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+const escapeCSVValue = (cell: string) => {
+  const value = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export const toCSV = (rows: string[][]) => rows.map((row) => row.map(escapeCSVValue).join(",")).join("\r\n") + "\r\n"
+
+// RFC 4180 parser: quoted fields may contain commas, quotes ("") and line breaks
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+  const input = text.replace(/^\uFEFF/, "")
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+/**
+ * Reads a flat timetable sheet back into entries. Each row is checked on its own (known day,
+ * period, class, subject, teacher and room) and against the other rows and the lessons that are
+ * kept (class, teacher and room double bookings). Rows with errors are left out of `entries`.
+ */
+export function parseTimetableRows(
+  rows: string[][],
+  data: SpreadsheetData,
+  existingEntries: TimetableEntry[],
+): SpreadsheetImportResult {
+  const errors: SpreadsheetRowError[] = []
+  const [header = [], ...body] = rows
+  const columnIndex = new Map(header.map((name, index) => [normalize(name), index]))
+  const missingColumns = REQUIRED_COLUMNS.filter((name) => !columnIndex.has(normalize(name)))
+  if (missingColumns.length > 0) {
+    return {
+      entries: [],
+      classIds: [],
+      errors: [
+        { row: 1, message: `Missing column${missingColumns.length > 1 ? "s" : ""}: ${missingColumns.join(", ")}` },
+      ],
+      rowCount: body.length,
+    }
+  }
+
+  // Names exported with the apostrophe that guards against formulas are read back without it
+  const getValue = (row: string[], column: string) =>
+    (row[columnIndex.get(normalize(column)) ?? -1] || "").trim().replace(/^'(?=[=+\-@\t\r])/, "")
+  const findByName = <T extends { id: string; name: string }>(
+    items: T[],
+    value: string,
+    alternate?: (item: T) => string,
+  ) =>
+    items.find(
+      (item) =>
+        item.id === value ||
+        normalize(item.name) === normalize(value) ||
+        (!!alternate && normalize(alternate(item)) === normalize(value)),
+    )
+
+  const parsed: { row: number; entry: TimetableEntry }[] = []
+  body.forEach((row, index) => {
+    const rowNumber = index + 2
+    if (row.every((cell) => !cell.trim())) return
+
+    const rowErrors: string[] = []
+    const dayValue = getValue(row, "Day")
+    const day = WEEK_DAYS.find((d) => normalize(d) === normalize(dayValue))
+    const period = Number(getValue(row, "Period").replace(/^p/i, ""))
+    const classSection = findByName(data.classSections, getValue(row, "Class"))
+    const subject = findByName(data.subjects, getValue(row, "Subject"), (s) => s.code)
+    const teacher = findByName(data.teachers, getValue(row, "Teacher"), (t) => t.email)
+    const roomValue = getValue(row, "Room")
+    const room = roomValue ? findByName(data.classrooms, roomValue, (r) => r.code) : undefined
+
+    if (!day) rowErrors.push(`Unknown day "${dayValue}"`)
+    if (!Number.isInteger(period) || period < 1) rowErrors.push(`Invalid period "${getValue(row, "Period")}"`)
+    const timeSlot = day && Number.isInteger(period) ? findTimeSlot(data.timeSlots, day, period) : undefined
+    if (day && Number.isInteger(period) && period >= 1 && !timeSlot) rowErrors.push(`${day} has no period ${period}`)
+    if (!classSection) rowErrors.push(`Unknown class "${getValue(row, "Class")}"`)
+    if (!subject) rowErrors.push(`Unknown subject "${getValue(row, "Subject")}"`)
+    if (!teacher) rowErrors.push(`Unknown teacher "${getValue(row, "Teacher")}"`)
+    if (roomValue && !room) rowErrors.push(`Unknown room "${roomValue}"`)
+    if (teacher && subject && !teacher.subjects.includes(subject.id)) {
+      rowErrors.push(`${teacher.name} is not qualified to teach ${subject.name}`)
+    }
+
+    if (rowErrors.length > 0 || !timeSlot || !classSection || !subject || !teacher) {
+      rowErrors.forEach((message) => errors.push({ row: rowNumber, message }))
+      return
+    }
+
+    parsed.push({
+      row: rowNumber,
+      entry: {
+        id: crypto.randomUUID(),
+        classId: classSection.id,
+        teacherId: teacher.id,
+        subjectId: subject.id,
+        roomId: room?.id,
+        timeSlotId: timeSlot.id,
+        day: timeSlot.day,
+        period: timeSlot.period,
+      },
+    })
+  })
+
+  // Lessons of classes that are not replaced stay, so clashes with them count too
+  const bookRows = (replacedClassIds: string[]) => {
+    const bookedSlots = new Map<string, string>()
+    existingEntries
+      .filter((entry) => !replacedClassIds.includes(entry.classId))
+      .forEach((entry) => {
+        bookedSlots.set(`teacher-${entry.teacherId}-${entry.day}-${entry.period}`, "an existing lesson")
+        if (entry.roomId) bookedSlots.set(`room-${entry.roomId}-${entry.day}-${entry.period}`, "an existing lesson")
+      })
+
+    const entries: TimetableEntry[] = []
+    const clashes: SpreadsheetRowError[] = []
+    parsed.forEach(({ row, entry }) => {
+      const slot = `${entry.day}-${entry.period}`
+      const keys = [
+        { key: `class-${entry.classId}-${slot}`, label: "The class" },
+        { key: `teacher-${entry.teacherId}-${slot}`, label: "The teacher" },
+        ...(entry.roomId ? [{ key: `room-${entry.roomId}-${slot}`, label: "The room" }] : []),
+      ]
+      const clash = keys.find(({ key }) => bookedSlots.has(key))
+      if (clash) {
+        clashes.push({
+          row,
+          message: `${clash.label} is already booked on ${entry.day} period ${entry.period} by ${bookedSlots.get(clash.key)}`,
+        })
+        return
+      }
+      keys.forEach(({ key }) => bookedSlots.set(key, `row ${row}`))
+      entries.push(entry)
+    })
+    return { entries, clashes }
+  }
+
+  // Only classes with accepted rows are replaced. A class whose every row clashes keeps its lessons,
+  // so the rows are checked again against them until the set of classes no longer shrinks
+  let classIds = Array.from(new Set(parsed.map(({ entry }) => entry.classId)))
+  let { entries, clashes } = bookRows(classIds)
+  while (new Set(entries.map((entry) => entry.classId)).size < classIds.length) {
+    classIds = Array.from(new Set(entries.map((entry) => entry.classId)))
+    ;({ entries, clashes } = bookRows(classIds))
+  }
+  errors.push(...clashes)
+
+  errors.sort((a, b) => a.row - b.row)
+  return { entries, classIds, errors, rowCount: body.length }
+}
+
+// Sheet names are limited to 31 characters and may not contain : \ / ? * [ ]
+function getSheetName(name: string, usedNames: Set<string>) {
+  const base = name.replace(/[:\\/?*[\]]/g, "-").slice(0, 28) || "Sheet"
+  let sheetName = base
+  for (let suffix = 2; usedNames.has(sheetName.toLowerCase()); suffix++) sheetName = `${base} ${suffix}`
+  usedNames.add(sheetName.toLowerCase())
+  return sheetName
+}
+
+/**
+ * XLSX workbook with the flat lesson list first, one grid sheet per class and reference sheets
+ * listing the names the importer accepts.
+ */
+export async function createTimetableWorkbook(entries: TimetableEntry[], classIds: string[], data: SpreadsheetData) {
+  const { default: ExcelJS } = await import("exceljs")
+  const workbook = new ExcelJS.Workbook()
+  workbook.creator = "Timetable Builder"
+  workbook.created = new Date()
+  const usedNames = new Set<string>()
+
+  const addSheet = (name: string, rows: (string | number)[][], columnWidth = 18) => {
+    const sheet = workbook.addWorksheet(getSheetName(name, usedNames))
+    sheet.addRows(rows)
+    sheet.getRow(1).font = { bold: true }
+    sheet.views = [{ state: "frozen", ySplit: 1 }]
+    sheet.columns.forEach((column) => (column.width = columnWidth))
+    return sheet
+  }
+
+  addSheet(FLAT_SHEET_NAME, toSpreadsheetRows(entries, data))
+
+  classIds.forEach((classId) => {
+    const classSection = data.classSections.find((c) => c.id === classId)
+    if (!classSection) return
+    const sheet = addSheet(classSection.name, toClassGridRows(classId, entries, data), 22)
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return
+      row.alignment = { wrapText: true, vertical: "top" }
+      row.getCell(1).font = { bold: true }
+    })
+  })
+
+  addSheet("Subjects", [["Code", "Name"], ...data.subjects.map((s) => [s.code, s.name])])
+  addSheet("Teachers", [["Name", "Email"], ...data.teachers.map((t) => [t.name, t.email])])
+  addSheet("Classes", [
+    ["Name", "Grade", "Students"],
+    ...data.classSections.map((c) => [c.name, data.grades.find((g) => g.id === c.gradeId)?.name || "", c.studentCount]),
+  ])
+  addSheet("Rooms", [
+    ["Name", "Code", "Building", "Capacity"],
+    ...data.classrooms.filter((r) => r.isActive).map((r) => [r.name, r.code, r.building, r.capacity]),
+  ])
+
+  const buffer = await workbook.xlsx.writeBuffer()
+  return new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" })
+}
+
+// Rows of the "Timetable" sheet, or of the first sheet when there is none with that name
+export async function readWorkbookRows(file: ArrayBuffer): Promise<string[][]> {
+  const { default: ExcelJS } = await import("exceljs")
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(file)
+  const sheet = workbook.getWorksheet(FLAT_SHEET_NAME) ?? workbook.worksheets[0]
+  if (!sheet) return []
+
+  const rows: string[][] = []
+  sheet.eachRow({ includeEmpty: true }, (row) => {
+    const cells: string[] = []
+    for (let column = 1; column <= sheet.columnCount; column++) cells.push(row.getCell(column).text ?? "")
+    rows.push(cells)
+  })
+  return rows
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest"
+import type { Teacher, TimetableEntry } from "@/types/timetable"
+import { buildTimeSlots } from "@/lib/period-config"
+import { applyChanges } from "@/lib/timetable-history"
+import { planLessonMove, type ValidationContext } from "@/lib/timetable-validation"
+
+const timeSlots = buildTimeSlots(
+  ["Monday", "Tuesday"].map((day) => ({ day, periods: 3, startTime: "08:00", enabled: true })),
+  45,
+  {},
+)
+
+const teacher = (id: string, unavailableSlots: Teacher["unavailableSlots"] = []): Teacher => ({
+  id,
+  name: id.toUpperCase(),
+  email: `${id}@school.test`,
+  subjects: [],
+  weeklyHourLimit: 25,
+  currentWeeklyHours: 0,
+  unavailableSlots,
+})
+
+const entry = (id: string, classId: string, teacherId: string, day: string, period: number): TimetableEntry => ({
+  id,
+  classId,
+  teacherId,
+  subjectId: "math",
+  timeSlotId: `${day}-${period}`,
+  day,
+  period,
+})
+
+const context: ValidationContext = {
+  teachers: [teacher("t1"), teacher("t2", [{ day: "Tuesday", period: 1 }])],
+  classrooms: [],
+  periodDuration: 45,
+}
+
+describe("planLessonMove", () => {
+  const lesson = entry("e1", "7A", "t1", "Monday", 1)
+  const other = entry("e2", "7A", "t2", "Monday", 2)
+  const entries = [lesson, other]
+
+  it("moves a lesson into a free slot and points it at the new time slot", () => {
+    const move = planLessonMove(entries, lesson, "Monday", 3, undefined, timeSlots, context)
+
+    expect(move.error).toBeUndefined()
+    expect(move.isSwap).toBe(false)
+    expect(applyChanges(entries, move.changes).find((e) => e.id === "e1")).toMatchObject({
+      day: "Monday",
+      period: 3,
+      timeSlotId: "Monday-3",
+    })
+  })
+
+  it("swaps two lessons when the target cell holds one", () => {
+    const move = planLessonMove(entries, lesson, "Monday", 2, other, timeSlots, context)
+    const moved = applyChanges(entries, move.changes)
+
+    expect(move.error).toBeUndefined()
+    expect(move.isSwap).toBe(true)
+    expect(moved.find((e) => e.id === "e1")).toMatchObject({ day: "Monday", period: 2 })
+    expect(moved.find((e) => e.id === "e2")).toMatchObject({ day: "Monday", period: 1, timeSlotId: "Monday-1" })
+  })
+
+  it("rejects slots that do not exist and the slot the lesson is already in", () => {
+    expect(planLessonMove(entries, lesson, "Monday", 9, undefined, timeSlots, context).error).toBe(
+      "Monday has no period 9",
+    )
+    expect(planLessonMove(entries, lesson, "Monday", 1, undefined, timeSlots, context).error).toBe(
+      "The lesson is already in this slot",
+    )
+  })
+
+  it("rejects a move onto another lesson of the same class", () => {
+    const move = planLessonMove(entries, lesson, "Monday", 2, undefined, timeSlots, context)
+
+    expect(move.error).toBe("The class already has another lesson in that slot")
+    expect(move.changes).toEqual([])
+  })
+
+  it("rejects a move that double-books the teacher or falls in their unavailable time", () => {
+    const elsewhere = entry("e3", "7B", "t1", "Tuesday", 2)
+
+    expect(planLessonMove([...entries, elsewhere], lesson, "Tuesday", 2, undefined, timeSlots, context).error).toBe(
+      "Teacher T1 is double-booked on Tuesday period 2",
+    )
+    expect(planLessonMove(entries, other, "Tuesday", 1, undefined, timeSlots, context).error).toBe(
+      "T2 is not available on Tuesday period 1",
+    )
+  })
+
+  it("does not block a move over conflicts the timetable already had", () => {
+    const clash = entry("e3", "7B", "t1", "Monday", 1)
+    const move = planLessonMove([...entries, clash], other, "Tuesday", 3, undefined, timeSlots, context)
+
+    expect(move.error).toBeUndefined()
+  })
+})
@@ -0,0 +1,155 @@
+import type { Conflict, Teacher, TimeSlot, TimetableEntry } from "@/types/timetable"
+import type { Classroom } from "@/types/classroom"
+import { isTeacherAvailable } from "@/lib/teacher-availability"
+import { findTimeSlot } from "@/lib/period-config"
+import { applyChanges, type EntryChange } from "@/lib/timetable-history"
+
+export interface ValidationContext {
+  teachers: Teacher[]
+  classrooms: Classroom[]
+  periodDuration: number // minutes
+}
+
+// Teacher double booking and availability, weekly hour limits and room clashes
+export function validateTimetableEntries(
+  entries: TimetableEntry[],
+  { teachers, classrooms, periodDuration }: ValidationContext,
+): Conflict[] {
+  const newConflicts: Conflict[] = []
+
+  // Check teacher double booking
+  const teacherSlots = new Map<string, Set<string>>()
+  entries.forEach((entry) => {
+    if (!teacherSlots.has(entry.teacherId)) {
+      teacherSlots.set(entry.teacherId, new Set())
+    }
+    const slots = teacherSlots.get(entry.teacherId)!
+    const slotKey = `${entry.day}-${entry.period}`
+    if (slots.has(slotKey)) {
+      newConflicts.push({
+        type: "teacher_double_booking",
+        message: `Teacher ${teachers.find((t) => t.id === entry.teacherId)?.name} is double-booked on ${entry.day} period ${entry.period}`,
+        severity: "error",
+        affectedEntries: [entry.id],
+      })
+    }
+    slots.add(slotKey)
+  })
+
+  // Check teacher availability windows
+  entries.forEach((entry) => {
+    const teacher = teachers.find((t) => t.id === entry.teacherId)
+    if (teacher && !isTeacherAvailable(teacher, entry.day, entry.period)) {
+      newConflicts.push({
+        type: "teacher_unavailable",
+        message: `${teacher.name} is not available on ${entry.day} period ${entry.period}`,
+        severity: "error",
+        affectedEntries: [entry.id],
+      })
+    }
+  })
+
+  // Check teacher weekly hour limits
+  const teacherHours = new Map<string, number>()
+  entries.forEach((entry) => {
+    const hours = periodDuration / 60 // Convert minutes to hours
+    teacherHours.set(entry.teacherId, (teacherHours.get(entry.teacherId) || 0) + hours)
+  })
+
+  teacherHours.forEach((hours, teacherId) => {
+    const teacher = teachers.find((t) => t.id === teacherId)
+    if (teacher && hours > teacher.weeklyHourLimit) {
+      newConflicts.push({
+        type: "teacher_overload",
+        message: `${teacher.name} exceeds weekly limit: ${hours.toFixed(1)}/${teacher.weeklyHourLimit} hours`,
+        severity: "warning",
+        affectedEntries: entries.filter((e) => e.teacherId === teacherId).map((e) => e.id),
+      })
+    }
+  })
+
+  // Check room conflicts
+  const roomSlots = new Map<string, Set<string>>()
+  entries.forEach((entry) => {
+    if (entry.roomId) {
+      if (!roomSlots.has(entry.roomId)) {
+        roomSlots.set(entry.roomId, new Set())
+      }
+      const slots = roomSlots.get(entry.roomId)!
+      const slotKey = `${entry.day}-${entry.period}`
+      if (slots.has(slotKey)) {
+        newConflicts.push({
+          type: "room_clash",
+          message: `Room ${classrooms.find((r) => r.id === entry.roomId)?.name} is double-booked on ${entry.day} period ${entry.period}`,
+          severity: "error",
+          affectedEntries: [entry.id],
+        })
+      }
+      slots.add(slotKey)
+    }
+  })
+
+  return newConflicts
+}
+
+export interface LessonMove {
+  changes: EntryChange[]
+  isSwap: boolean
+  // Why the move is not allowed; the changes must not be applied when set
+  error?: string
+}
+
+/**
+ * Moves `entry` to another slot. When `targetEntry` (the lesson already shown in that cell) is
+ * given, the two lessons swap places. The move is rejected when it would add an error-level
+ * conflict that the timetable did not already have.
+ */
+export function planLessonMove(
+  entries: TimetableEntry[],
+  entry: TimetableEntry,
+  day: string,
+  period: number,
+  targetEntry: TimetableEntry | undefined,
+  timeSlots: TimeSlot[],
+  context: ValidationContext,
+): LessonMove {
+  const targetSlot = findTimeSlot(timeSlots, day, period)
+  if (!targetSlot) {
+    return { changes: [], isSwap: false, error: `${day} has no period ${period}` }
+  }
+  if (entry.day === day && entry.period === period) {
+    return { changes: [], isSwap: false, error: "The lesson is already in this slot" }
+  }
+
+  // In teacher view a cell can be free while the class already has another lesson there
+  const hasClassClash = (lesson: TimetableEntry, slotDay: string, slotPeriod: number) =>
+    entries.some(
+      (e) =>
+        e.id !== entry.id &&
+        e.id !== targetEntry?.id &&
+        !!e.classId &&
+        e.classId === lesson.classId &&
+        e.day === slotDay &&
+        e.period === slotPeriod,
+    )
+  if (hasClassClash(entry, day, period) || (targetEntry && hasClassClash(targetEntry, entry.day, entry.period))) {
+    return { changes: [], isSwap: !!targetEntry, error: "The class already has another lesson in that slot" }
+  }
+
+  const changes: EntryChange[] = [{ before: entry, after: { ...entry, day, period, timeSlotId: targetSlot.id } }]
+  if (targetEntry) {
+    changes.push({
+      before: targetEntry,
+      after: { ...targetEntry, day: entry.day, period: entry.period, timeSlotId: entry.timeSlotId },
+    })
+  }
+
+  const errorMessages = (list: TimetableEntry[]) =>
+    validateTimetableEntries(list, context)
+      .filter((c) => c.severity === "error")
+      .map((c) => c.message)
+  const existingErrors = new Set(errorMessages(entries))
+  const newErrors = errorMessages(applyChanges(entries, changes)).filter((message) => !existingErrors.has(message))
+
+  return { changes, isSwap: !!targetEntry, error: newErrors[0] }
+}
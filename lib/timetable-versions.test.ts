@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest"
+import type { TimetableEntry } from "@/types/timetable"
+import type { VersionLookup } from "@/types/version"
+import { buildTimeSlots } from "@/lib/period-config"
+import {
+  createPublishedVersion,
+  describeLessonChange,
+  diffVersions,
+  groupChanges,
+  pickVersionLookup,
+} from "@/lib/timetable-versions"
+
+let nextId = 1
+
+// Entry ids change on every schedule, so each call gets a new one
+const entry = (
+  day: string,
+  period: number,
+  fields: Partial<Pick<TimetableEntry, "classId" | "subjectId" | "teacherId" | "roomId">> = {},
+): TimetableEntry => ({
+  id: `e${nextId++}`,
+  classId: "7A",
+  subjectId: "math",
+  teacherId: "t1",
+  timeSlotId: `${day}-${period}`,
+  day,
+  period,
+  ...fields,
+})
+
+const lookup: VersionLookup = {
+  subjects: [
+    { id: "math", name: "Mathematics", code: "MAT", color: "#fff" },
+    { id: "art", name: "Art", code: "ART", color: "#fff" },
+  ],
+  teachers: [
+    { id: "t1", name: "Ms. Lee" },
+    { id: "t2", name: "Mr. Diaz" },
+  ],
+  classSections: [
+    { id: "7A", name: "7A", gradeId: "g7", studentCount: 25 },
+    { id: "7B", name: "7B", gradeId: "g7", studentCount: 25 },
+  ],
+  classrooms: [],
+  timeSlots: buildTimeSlots(
+    ["Monday", "Tuesday"].map((day) => ({ day, periods: 3, startTime: "08:00", enabled: true })),
+    60,
+    {},
+  ),
+}
+
+describe("diffVersions", () => {
+  it("finds no changes when the same lessons are rescheduled under new ids", () => {
+    expect(diffVersions([entry("Monday", 1), entry("Tuesday", 2)], [entry("Tuesday", 2), entry("Monday", 1)])).toEqual(
+      [],
+    )
+  })
+
+  it("pairs lessons that left their slot with the new slots in week order as moves", () => {
+    const changes = diffVersions(
+      [entry("Monday", 1), entry("Monday", 2), entry("Tuesday", 1)],
+      [entry("Monday", 1), entry("Tuesday", 3), entry("Tuesday", 2)],
+    )
+
+    expect(changes).toEqual([
+      {
+        type: "moved",
+        classId: "7A",
+        subjectId: "math",
+        teacherId: "t1",
+        from: { day: "Monday", period: 2, roomId: undefined },
+        to: { day: "Tuesday", period: 2, roomId: undefined },
+      },
+      {
+        type: "moved",
+        classId: "7A",
+        subjectId: "math",
+        teacherId: "t1",
+        from: { day: "Tuesday", period: 1, roomId: undefined },
+        to: { day: "Tuesday", period: 3, roomId: undefined },
+      },
+    ])
+  })
+
+  it("reports room changes, added and removed lessons, sorted by where they now are", () => {
+    const changes = diffVersions(
+      [entry("Monday", 1, { roomId: "r1" }), entry("Tuesday", 1, { subjectId: "art", teacherId: "t2" })],
+      [entry("Monday", 1, { roomId: "r2" }), entry("Monday", 3, { classId: "7B" })],
+    )
+
+    expect(changes.map((change) => [change.type, change.classId, change.subjectId])).toEqual([
+      ["room", "7A", "math"],
+      ["added", "7B", "math"],
+      ["removed", "7A", "art"],
+    ])
+    expect(changes[0]).toMatchObject({ from: { roomId: "r1" }, to: { roomId: "r2" } })
+  })
+
+  it("treats every lesson as added when there is no previous version", () => {
+    expect(diffVersions([], [entry("Monday", 1)]).map((change) => change.type)).toEqual(["added"])
+  })
+})
+
+describe("groupChanges", () => {
+  it("groups changes by the class or teacher they affect", () => {
+    const changes = diffVersions([], [entry("Monday", 1), entry("Monday", 2, { classId: "7B", teacherId: "t2" })])
+
+    expect(Object.keys(groupChanges(changes, "class"))).toEqual(["7A", "7B"])
+    expect(groupChanges(changes, "teacher").t2).toHaveLength(1)
+  })
+})
+
+describe("describeLessonChange", () => {
+  it("names the lesson and its slots with their start times", () => {
+    const [moved] = diffVersions([entry("Monday", 1)], [entry("Tuesday", 2)])
+
+    expect(describeLessonChange(moved, lookup)).toBe("Moved: Mathematics · 7A · Ms. Lee, Monday 08:00 → Tuesday 09:00")
+    expect(describeLessonChange(moved, lookup, { className: true })).toBe(
+      "Moved: Mathematics · 7A, Monday 08:00 → Tuesday 09:00",
+    )
+  })
+})
+
+describe("createPublishedVersion", () => {
+  it("numbers versions after the highest one and keeps only the names its lessons refer to", () => {
+    const entries = [entry("Monday", 1)]
+    const previous = createPublishedVersion([], [], "Ana", lookup)
+    const version = createPublishedVersion([previous], entries, "Ana", lookup, new Date("2025-09-01T08:00:00Z"))
+
+    expect(version).toMatchObject({ number: 2, publishedAt: "2025-09-01T08:00:00.000Z", publishedBy: "Ana" })
+    expect(version.entries).toEqual(entries)
+    expect(version.entries[0]).not.toBe(entries[0])
+    expect(version.lookup).toEqual(pickVersionLookup(entries, lookup))
+    expect(version.lookup).toMatchObject({
+      subjects: [{ id: "math" }],
+      teachers: [{ id: "t1", name: "Ms. Lee" }],
+      classSections: [{ id: "7A" }],
+      classrooms: [],
+    })
+  })
+})
+
+describe("pickVersionLookup", () => {
+  it("keeps nothing of a teacher but the id and name", () => {
+    const teachers = [{ id: "t1", name: "Ms. Lee", email: "lee@school.test", unavailableSlots: [] }]
+
+    expect(pickVersionLookup([entry("Monday", 1)], { ...lookup, teachers }).teachers).toEqual([
+      { id: "t1", name: "Ms. Lee" },
+    ])
+  })
+})
@@ -0,0 +1,183 @@
+import type { TimetableEntry } from "@/types/timetable"
+import type { ProjectData } from "@/types/project"
+import type { LessonChange, LessonChangeType, LessonPlacement, PublishedVersion, VersionLookup } from "@/types/version"
+import { WEEK_DAYS, findTimeSlot } from "@/lib/period-config"
+
+export const getVersionLookup = (data: ProjectData): VersionLookup => ({
+  subjects: data.subjects,
+  teachers: data.teachers,
+  classSections: data.classSections,
+  classrooms: data.classrooms,
+  timeSlots: data.periodConfig.timeSlots,
+})
+
+// Only the subjects, teachers, classes and rooms the entries refer to, with nothing of a teacher but the name
+export const pickVersionLookup = (entries: TimetableEntry[], lookup: VersionLookup): VersionLookup => ({
+  subjects: lookup.subjects.filter((s) => entries.some((entry) => entry.subjectId === s.id)),
+  teachers: lookup.teachers
+    .filter((t) => entries.some((entry) => entry.teacherId === t.id))
+    .map(({ id, name }) => ({ id, name })),
+  classSections: lookup.classSections.filter((c) => entries.some((entry) => entry.classId === c.id)),
+  classrooms: lookup.classrooms.filter((r) => entries.some((entry) => entry.roomId === r.id)),
+  timeSlots: lookup.timeSlots,
+})
+
+export function createPublishedVersion(
+  versions: PublishedVersion[],
+  entries: TimetableEntry[],
+  publishedBy: string,
+  lookup: VersionLookup,
+  publishedAt = new Date(),
+): PublishedVersion {
+  return {
+    id: crypto.randomUUID(),
+    number: versions.reduce((highest, version) => Math.max(highest, version.number), 0) + 1,
+    publishedAt: publishedAt.toISOString(),
+    publishedBy,
+    entries: entries.map((entry) => ({ ...entry })),
+    lookup: pickVersionLookup(entries, lookup),
+  }
+}
+
+const toPlacement = (entry: TimetableEntry): LessonPlacement => ({
+  day: entry.day,
+  period: entry.period,
+  roomId: entry.roomId,
+})
+
+const slotKey = (entry: TimetableEntry) => `${entry.day}|${entry.period}`
+const lessonKey = (entry: TimetableEntry) => `${entry.classId}|${entry.subjectId}|${entry.teacherId}`
+
+const compareEntries = (a: TimetableEntry, b: TimetableEntry) =>
+  WEEK_DAYS.indexOf(a.day) - WEEK_DAYS.indexOf(b.day) || a.period - b.period
+
+function groupByLesson(entries: TimetableEntry[]) {
+  const groups = new Map<string, TimetableEntry[]>()
+  entries.forEach((entry) => {
+    const key = lessonKey(entry)
+    groups.set(key, [...(groups.get(key) || []), entry])
+  })
+  return groups
+}
+
+/**
+ * Lessons are matched per class, subject and teacher, because entry ids are regenerated on every
+ * schedule. A lesson left in its slot is unchanged (or a room change); otherwise the leftover old
+ * and new slots are paired in week order as moves, and whatever remains was added or removed.
+ */
+export function diffVersions(previous: TimetableEntry[], next: TimetableEntry[]): LessonChange[] {
+  const changes: LessonChange[] = []
+  const previousGroups = groupByLesson(previous)
+  const nextGroups = groupByLesson(next)
+  const keys = new Set([...previousGroups.keys(), ...nextGroups.keys()])
+
+  keys.forEach((key) => {
+    const before = previousGroups.get(key) || []
+    const after = nextGroups.get(key) || []
+    const { classId, subjectId, teacherId } = (before[0] || after[0])!
+    const change = (type: LessonChangeType, from?: TimetableEntry, to?: TimetableEntry) =>
+      changes.push({
+        type,
+        classId,
+        subjectId,
+        teacherId,
+        from: from && toPlacement(from),
+        to: to && toPlacement(to),
+      })
+
+    const remaining = [...after]
+    const unmatched: TimetableEntry[] = []
+    before.forEach((entry) => {
+      const index = remaining.findIndex((candidate) => slotKey(candidate) === slotKey(entry))
+      if (index === -1) {
+        unmatched.push(entry)
+        return
+      }
+      const [kept] = remaining.splice(index, 1)
+      if ((kept.roomId || "") !== (entry.roomId || "")) change("room", entry, kept)
+    })
+
+    unmatched.sort(compareEntries)
+    remaining.sort(compareEntries)
+    const moves = Math.min(unmatched.length, remaining.length)
+    for (let i = 0; i < moves; i++) change("moved", unmatched[i], remaining[i])
+    unmatched.slice(moves).forEach((entry) => change("removed", entry))
+    remaining.slice(moves).forEach((entry) => change("added", undefined, entry))
+  })
+
+  return changes.sort((a, b) => {
+    const placementA = (a.to || a.from)!
+    const placementB = (b.to || b.from)!
+    return (
+      WEEK_DAYS.indexOf(placementA.day) - WEEK_DAYS.indexOf(placementB.day) || placementA.period - placementB.period
+    )
+  })
+}
+
+// Changes grouped by the class or teacher they affect, keyed by id
+export function groupChanges(changes: LessonChange[], by: "class" | "teacher") {
+  const groups: Record<string, LessonChange[]> = {}
+  changes.forEach((change) => {
+    const id = by === "class" ? change.classId : change.teacherId
+    if (!groups[id]) groups[id] = []
+    groups[id].push(change)
+  })
+  return groups
+}
+
+export function formatPlacement(placement: LessonPlacement, lookup: VersionLookup) {
+  const timeSlot = findTimeSlot(lookup.timeSlots, placement.day, placement.period)
+  return `${placement.day} ${timeSlot ? timeSlot.startTime : `period ${placement.period}`}`
+}
+
+const getRoomName = (roomId: string | undefined, lookup: VersionLookup) =>
+  (roomId && lookup.classrooms.find((r) => r.id === roomId)?.name) || "no room"
+
+export const CHANGE_LABELS: Record<LessonChangeType, string> = {
+  added: "Added",
+  removed: "Removed",
+  moved: "Moved",
+  room: "Room changed",
+}
+
+interface DescribeOptions {
+  className?: boolean
+  teacherName?: boolean
+}
+
+/**
+ * The lesson and where it went, e.g. "Mathematics · 7A · Ms. Lee, Monday 08:00 → Tuesday 10:15".
+ * The options pick which of class and teacher appear, so per-person views can leave themselves out.
+ */
+export function describeChangedLesson(
+  change: LessonChange,
+  lookup: VersionLookup,
+  include: DescribeOptions = { className: true, teacherName: true },
+) {
+  const lesson = [
+    lookup.subjects.find((s) => s.id === change.subjectId)?.name || "Lesson",
+    include.className && lookup.classSections.find((c) => c.id === change.classId)?.name,
+    include.teacherName && lookup.teachers.find((t) => t.id === change.teacherId)?.name,
+  ]
+    .filter(Boolean)
+    .join(" · ")
+  const from = change.from ? formatPlacement(change.from, lookup) : ""
+  const to = change.to ? formatPlacement(change.to, lookup) : ""
+  const fromRoom = getRoomName(change.from?.roomId, lookup)
+  const toRoom = getRoomName(change.to?.roomId, lookup)
+
+  switch (change.type) {
+    case "added":
+      return `${lesson}, ${to}${change.to?.roomId ? ` (${toRoom})` : ""}`
+    case "removed":
+      return `${lesson}, ${from}`
+    case "moved":
+      return `${lesson}, ${from} → ${to}${fromRoom !== toRoom ? ` (${toRoom})` : ""}`
+    case "room":
+      return `${lesson}, ${to}, ${fromRoom} → ${toRoom}`
+  }
+}
+
+// The same with the kind of change in front, e.g. "Moved: Mathematics · 7A, Monday 08:00 → Tuesday 10:15"
+export const describeLessonChange = (change: LessonChange, lookup: VersionLookup, include?: DescribeOptions) =>
+  `${CHANGE_LABELS[change.type]}: ${describeChangedLesson(change, lookup, include)}`
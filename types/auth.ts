@@ -0,0 +1,13 @@
+export type UserRole = "admin" | "timetabler" | "head_of_department" | "teacher"
+
+// A person who can sign in. Heads of department review the lessons of their department's subjects;
+// teachers are linked to their Teacher record and only read
+export interface User {
+  id: string
+  name: string
+  email: string
+  role: UserRole
+  department?: string
+  teacherId?: string
+  createdAt: string
+}
@@ -0,0 +1,15 @@
+// A day or range of days without lessons (public holiday, mid-term break)
+export interface Holiday {
+  id: string
+  name: string
+  startDate: string // YYYY-MM-DD
+  endDate: string // YYYY-MM-DD, inclusive; same as startDate for a single day
+}
+
+// Dates and time zone used to turn the weekly timetable into calendar events
+export interface CalendarSettings {
+  semesterStart: string // YYYY-MM-DD
+  semesterEnd: string // YYYY-MM-DD, inclusive
+  timeZone: string // IANA name, e.g. Europe/Paris
+  holidays: Holiday[]
+}
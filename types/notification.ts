@@ -0,0 +1,28 @@
+export type NotificationStatus = "pending" | "sent" | "failed"
+
+export interface NotificationAttachment {
+  filename: string
+  contentType: string
+  content: string
+}
+
+// One email in the outbox; sent messages are kept so the history shows what each teacher received
+export interface NotificationMessage {
+  id: string
+  teacherId: string
+  to: string
+  subject: string
+  text: string
+  html: string
+  attachments: NotificationAttachment[]
+  status: NotificationStatus
+  attempts: number
+  lastError?: string
+  createdAt: string
+  lastAttemptAt?: string
+  nextAttemptAt?: string // when a failed message is retried automatically; unset once retries run out
+  sentAt?: string
+}
+
+// The outbox as listed by the API, without the bodies and attachments
+export type NotificationSummary = Omit<NotificationMessage, "text" | "html" | "attachments">
@@ -0,0 +1,46 @@
+import type {
+  Subject,
+  Grade,
+  ClassSection,
+  Teacher,
+  GradeSubjectAllocation,
+  ClassSubjectTeacher,
+  PeriodConfig,
+  TimetableEntry,
+} from "./timetable"
+import type { Classroom, RoomType } from "./classroom"
+import type { SubjectRoomRequirement, SubjectRoomType } from "./room-assignment"
+import type { CalendarSettings } from "./calendar"
+import type { PublishedVersion } from "./version"
+import type { PublicationWorkflow } from "./workflow"
+
+// Everything a school enters while building a timetable
+export interface ProjectData {
+  subjects: Subject[]
+  grades: Grade[]
+  classSections: ClassSection[]
+  teachers: Teacher[]
+  allocations: GradeSubjectAllocation[]
+  assignments: ClassSubjectTeacher[]
+  classrooms: Classroom[]
+  roomTypes: RoomType[]
+  subjectRoomTypes: SubjectRoomType[]
+  subjectRoomRequirements: SubjectRoomRequirement[]
+  periodConfig: PeriodConfig
+  timetableEntries: TimetableEntry[]
+  calendarSettings: CalendarSettings
+  publishedVersions: PublishedVersion[]
+  workflow: PublicationWorkflow
+}
+
+export type ProjectDataKey = keyof ProjectData
+
+export interface SavedProject {
+  id: string
+  name: string
+  createdAt: string
+  updatedAt: string
+  data: ProjectData
+}
+
+export type ProjectSummary = Omit<SavedProject, "data">
@@ -1,3 +1,5 @@
+import type { TimetableEntry } from "./timetable"
+
 export interface SubjectRoomType {
   id: string
   subjectId: string
@@ -8,6 +10,19 @@ export interface SubjectRoomType {
   updatedAt: string
 }
 
+// Room features and equipment a subject needs or would like; an entry for a grade overrides the subject-wide one
+export interface SubjectRoomRequirement {
+  id: string
+  subjectId: string
+  gradeId?: string // every grade when unset
+  requiredFeatures: string[]
+  preferredFeatures: string[]
+  requiredEquipment: string[]
+  preferredEquipment: string[]
+  createdAt: string
+  updatedAt: string
+}
+
 export interface RoomAssignment {
   id: string
   timetableEntryId: string
@@ -33,28 +48,45 @@ export interface RoomConflictResolution {
   type: "move_to_room" | "swap_rooms" | "change_time" | "split_class"
   description: string
   roomId?: string
-  alternativeTimeSlot?: string
+  alternativeTimeSlot?: string // "<day>-<period>"
   impact: "low" | "medium" | "high"
+  // The lesson changes that carry out the resolution, for the preview and for applying it
+  changes: { before: TimetableEntry; after: TimetableEntry }[]
 }
 
 export interface RoomUtilization {
   roomId: string
   roomName: string
-  roomType: string
-  totalSlots: number
+  roomType: string // room type name
+  capacity: number
+  totalSlots: number // configured periods of the week
   occupiedSlots: number
   utilizationPercentage: number
-  peakHours: string[]
-  conflicts: number
+  seatFillPercentage: number // average class size against capacity over the room's lessons
+  overCapacityLessons: number
+  conflicts: number // double-booked periods
+  status: "under_used" | "balanced" | "over_subscribed"
+  occupancy: Record<string, number> // lessons per "<day>-<period>"
   assignments: {
     day: string
     period: number
     subject: string
     class: string
     teacher: string
+    studentCount: number
   }[]
 }
 
+export interface RoomTypeUtilization {
+  roomTypeId: string
+  roomTypeName: string
+  roomCount: number
+  totalSlots: number
+  occupiedSlots: number
+  utilizationPercentage: number
+  seatFillPercentage: number
+}
+
 export interface RoomSuggestion {
   roomId: string
   roomName: string
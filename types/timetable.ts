@@ -3,6 +3,7 @@ export interface Subject {
   name: string
   code: string
   color: string
+  department?: string // its head of department approves these lessons before publishing
 }
 
 export interface GradeSubjectAllocation {
@@ -34,6 +35,12 @@ export interface Teacher {
   subjects: string[]
   weeklyHourLimit: number
   currentWeeklyHours: number
+  unavailableSlots?: TeacherUnavailability[]
+}
+
+export interface TeacherUnavailability {
+  day: string
+  period: number
 }
 
 export interface Room {
@@ -51,6 +58,28 @@ export interface TimeSlot {
   endTime: string
 }
 
+export interface PeriodBreak {
+  afterPeriod: number
+  duration: number // minutes
+  type: "break" | "lunch"
+}
+
+export interface DayPeriodConfig {
+  day: string
+  periods: number
+  startTime: string
+  enabled: boolean
+}
+
+export interface PeriodConfig {
+  periodDuration: number
+  periodsPerDay: Record<string, number>
+  dayStartTimes: Record<string, string>
+  days: DayPeriodConfig[]
+  breaks: Record<string, PeriodBreak[]>
+  timeSlots: TimeSlot[]
+}
+
 export interface TimetableEntry {
   id: string
   classId: string
@@ -73,7 +102,12 @@ export interface ClassSubjectTeacher {
 }
 
 export interface Conflict {
-  type: "teacher_double_booking" | "room_clash" | "teacher_overload" | "subject_hours_exceeded"
+  type:
+    | "teacher_double_booking"
+    | "room_clash"
+    | "teacher_overload"
+    | "subject_hours_exceeded"
+    | "teacher_unavailable"
   message: string
   severity: "warning" | "error"
   affectedEntries: string[]
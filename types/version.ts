@@ -0,0 +1,55 @@
+import type { ClassSection, Subject, Teacher, TimeSlot, TimetableEntry } from "./timetable"
+import type { Classroom } from "./classroom"
+
+// Names used to show and describe lessons
+export interface VersionLookup {
+  subjects: Subject[]
+  teachers: Pick<Teacher, "id" | "name">[]
+  classSections: ClassSection[]
+  classrooms: Classroom[]
+  timeSlots: TimeSlot[]
+}
+
+// A published timetable. Versions are only ever appended, never edited, so any two can be compared later
+export interface PublishedVersion {
+  id: string
+  number: number
+  publishedAt: string
+  publishedBy: string
+  entries: TimetableEntry[]
+  // The records the entries refer to as they were on publishing; absent on versions published before it was kept
+  lookup?: VersionLookup
+}
+
+export interface LessonPlacement {
+  day: string
+  period: number
+  roomId?: string
+}
+
+export type LessonChangeType = "added" | "removed" | "moved" | "room"
+
+// One lesson of a class, subject and teacher that differs between two versions
+export interface LessonChange {
+  type: LessonChangeType
+  classId: string
+  subjectId: string
+  teacherId: string
+  from?: LessonPlacement // absent for added lessons
+  to?: LessonPlacement // absent for removed lessons
+}
+
+// One teacher's or class's lessons in the latest published version, with the names needed to show them
+export interface PublishedTimetable {
+  scope: "teacher" | "class"
+  entityId: string
+  name: string
+  versionNumber: number
+  publishedAt: string
+  entries: TimetableEntry[]
+  subjects: Subject[]
+  teachers: Pick<Teacher, "id" | "name">[]
+  classSections: ClassSection[]
+  classrooms: Classroom[]
+  timeSlots: TimeSlot[]
+}
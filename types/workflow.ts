@@ -0,0 +1,33 @@
+import type { TimetableEntry } from "./timetable"
+
+export type WorkflowStatus = "draft" | "review" | "approved" | "published"
+
+export interface DepartmentApproval {
+  department: string
+  userId: string
+  userName: string
+  approvedAt: string
+}
+
+export interface ChangeRequest {
+  department: string
+  userName: string
+  comment: string
+  requestedAt: string
+}
+
+/**
+ * Where the timetable is on its way to publication. Submitting moves a draft to review with one
+ * required approval per department that has lessons; it becomes approved once all are in, and
+ * only then can it be published. Requesting changes sends it back to draft.
+ */
+export interface PublicationWorkflow {
+  status: WorkflowStatus
+  submittedAt?: string
+  submittedBy?: string
+  requiredDepartments: string[]
+  approvals: DepartmentApproval[]
+  changeRequest?: ChangeRequest
+  // The lessons under review, so a later edit of the draft does not change what was approved
+  submittedEntries?: TimetableEntry[]
+}
@@ -0,0 +1,15 @@
+import { fileURLToPath } from "node:url"
+
+/** @type {import('vitest/config').UserConfig} */
+const config = {
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL(".", import.meta.url)),
+    },
+  },
+  test: {
+    include: ["lib/**/*.test.ts"],
+  },
+}
+
+export default config